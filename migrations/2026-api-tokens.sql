@@ -0,0 +1,22 @@
+-- Per-device bearer tokens for POST /api/capture and /api/mcp, managed in
+-- Settings → Devices. Only a SHA-256 hash of each token is stored; the token
+-- itself is shown once when it's created.
+CREATE TABLE IF NOT EXISTS public.api_tokens (
+  id            uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  name          text        NOT NULL,
+  token_hash    text        NOT NULL UNIQUE,
+  -- First characters of the token, so a device can be recognised in the list
+  token_prefix  text        NOT NULL,
+  -- capture | mcp:read | mcp
+  scope         text        NOT NULL,
+  expires_at    timestamptz,
+  last_used_at  timestamptz,
+  revoked_at    timestamptz,
+  created_at    timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS api_tokens_created_idx
+  ON public.api_tokens (created_at DESC);
+
+-- Only the service role (server actions and the two routes) touches this table.
+ALTER TABLE public.api_tokens ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,39 @@
+-- Archived projects: completed cards leave the board (and board/widget
+-- queries) once they've been done for settings.auto_archive_days, or when
+-- archived by hand. They stay in the Completed view and in search.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+-- Set when a card is unarchived by hand, so auto-archiving leaves it on the
+-- board for another auto_archive_days instead of taking it straight back.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS unarchived_at TIMESTAMPTZ;
+
+-- Days a card stays completed on the board before it's archived; 0 turns
+-- auto-archiving off.
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS auto_archive_days INTEGER DEFAULT 30;
+-- Last auto-archive pass; loading the board runs one at most once an hour.
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS auto_archived_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_projects_archived_at ON projects(archived_at) WHERE archived_at IS NOT NULL;
+-- Candidates for auto-archiving
+CREATE INDEX IF NOT EXISTS idx_projects_completed_unarchived ON projects(completed_at)
+  WHERE archived_at IS NULL AND is_completed = true;
+
+-- Only completed cards can be archived: reopening one (from the editor, MCP
+-- or a column rule) puts it back on the board.
+CREATE OR REPLACE FUNCTION public.projects_clear_archived()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.archived_at IS NOT NULL AND (coalesce(NEW.is_completed, false) = false OR coalesce(NEW.is_idea, false)) THEN
+    NEW.archived_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS projects_clear_archived ON projects;
+CREATE TRIGGER projects_clear_archived
+  BEFORE INSERT OR UPDATE OF archived_at, is_completed, is_idea
+  ON projects
+  FOR EACH ROW EXECUTE FUNCTION public.projects_clear_archived();
@@ -0,0 +1,37 @@
+-- Capture de-duplication: POST /api/capture replays the stored answer for a
+-- repeated Idempotency-Key, and captures of a link that's already on a card
+-- follow settings.capture_duplicate_mode.
+
+-- The cleaned link a card was captured from (first link for older cards).
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS source_url TEXT;
+
+UPDATE projects
+SET source_url = replace(substring(rich_content FROM 'href="(https?://[^"]+)"'), '&amp;', '&')
+WHERE source_url IS NULL AND rich_content LIKE '%href="http%';
+
+CREATE INDEX IF NOT EXISTS idx_projects_source_url ON projects(source_url)
+  WHERE source_url IS NOT NULL AND deleted_at IS NULL;
+
+-- existing: answer with the card that has the link; append: add the note
+-- (and any files) to that card; create: always make a new idea.
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS capture_duplicate_mode TEXT NOT NULL DEFAULT 'existing';
+
+-- One row per Idempotency-Key and token (key is '<token id>:<header value>').
+-- `response` stays null while the first request is still running; a claim
+-- that stays unanswered for a minute (the function crashed or timed out) can
+-- be taken over by a retry. Rows are dropped after a day.
+CREATE TABLE IF NOT EXISTS public.capture_requests (
+  key          text        PRIMARY KEY,
+  fingerprint  text        NOT NULL,
+  response     jsonb,
+  claimed_at   timestamptz NOT NULL DEFAULT now(),
+  created_at   timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.capture_requests ADD COLUMN IF NOT EXISTS claimed_at timestamptz NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS capture_requests_created_idx
+  ON public.capture_requests (created_at);
+
+-- Only the service role (the capture route) touches this table.
+ALTER TABLE public.capture_requests ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,28 @@
+-- Explicit column roles. Completion, widget lanes and MCP read columns.role
+-- instead of guessing from titles, so renaming "Done" no longer breaks them.
+ALTER TABLE columns ADD COLUMN IF NOT EXISTS role TEXT;
+
+-- One-time inference from existing titles (only rows without a role yet)
+UPDATE columns
+SET role = CASE
+  WHEN lower(title) NOT LIKE '%incomplete%'
+    AND (lower(title) ~ '\mdone\M' OR lower(title) LIKE '%complete%') THEN 'done'
+  WHEN lower(trim(title)) IN ('in progress', 'in-progress', 'doing', 'working')
+    OR lower(title) LIKE '%in progress%' THEN 'in-progress'
+  WHEN lower(trim(title)) = 'backlog' THEN 'backlog'
+  WHEN lower(trim(title)) IN ('to do', 'todo', 'not started', 'planned')
+    OR lower(title) LIKE '%to do%' OR lower(title) LIKE '% todo' THEN 'todo'
+  ELSE 'custom'
+END
+WHERE role IS NULL;
+
+ALTER TABLE columns ALTER COLUMN role SET DEFAULT 'custom';
+ALTER TABLE columns ALTER COLUMN role SET NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'columns_role_check') THEN
+    ALTER TABLE columns ADD CONSTRAINT columns_role_check
+      CHECK (role IN ('backlog', 'todo', 'in-progress', 'done', 'custom'));
+  END IF;
+END $$;
@@ -0,0 +1,3 @@
+-- Column automation rules: JSON array of { id, trigger: 'enter' | 'exit', action }
+-- applied server-side whenever a card enters or leaves the lane.
+ALTER TABLE columns ADD COLUMN IF NOT EXISTS rules JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,15 @@
+-- When a project was completed (calendar view plots completed work by this day)
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+
+-- Backfill from activity history where available. Cards completed before
+-- project_events existed have no 'completed' event and fall back to created_at.
+UPDATE projects p
+SET completed_at = coalesce(
+  (
+    SELECT MAX(e.created_at)
+    FROM project_events e
+    WHERE e.project_id = p.id AND e.kind = 'completed'
+  ),
+  p.created_at
+)
+WHERE p.is_completed = true AND p.completed_at IS NULL;
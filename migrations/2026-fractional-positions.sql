@@ -0,0 +1,86 @@
+-- Fractional card positions: moving a card writes only that card. Its new
+-- position is the midpoint between its neighbours in the target lane, so a
+-- reorder is one row update instead of renumbering the whole lane.
+-- move_project_in_lane does the neighbour lookup and the write in one
+-- transaction under a per-lane lock, so concurrent moves (two tabs, the embed)
+-- queue up instead of computing positions from stale neighbours. When
+-- repeated halving exhausts the gap it renumbers the lane once and carries on.
+ALTER TABLE projects ALTER COLUMN position TYPE DOUBLE PRECISION;
+
+CREATE INDEX IF NOT EXISTS idx_projects_status_position ON projects (status, position);
+
+-- Places a board card (not an idea, not trashed) in a lane: after p_after_id
+-- when that card is still in the lane, else before p_before_id, else at the
+-- end. Returns the position written.
+CREATE OR REPLACE FUNCTION public.move_project_in_lane(
+  p_project_id text,
+  p_status text,
+  p_after_id text DEFAULT NULL,
+  p_before_id text DEFAULT NULL
+)
+RETURNS double precision
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  lower_pos double precision;
+  upper_pos double precision;
+  new_pos double precision;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('project_lane:' || p_status));
+
+  IF p_after_id IS NOT NULL THEN
+    SELECT position INTO lower_pos
+      FROM projects
+     WHERE id = p_after_id AND id <> p_project_id AND status = p_status
+       AND coalesce(is_idea, false) = false AND deleted_at IS NULL;
+  END IF;
+
+  IF lower_pos IS NOT NULL THEN
+    SELECT min(position) INTO upper_pos
+      FROM projects
+     WHERE status = p_status AND id <> p_project_id AND position > lower_pos
+       AND coalesce(is_idea, false) = false AND deleted_at IS NULL;
+  ELSIF p_before_id IS NOT NULL THEN
+    SELECT position INTO upper_pos
+      FROM projects
+     WHERE id = p_before_id AND id <> p_project_id AND status = p_status
+       AND coalesce(is_idea, false) = false AND deleted_at IS NULL;
+    IF upper_pos IS NOT NULL THEN
+      SELECT max(position) INTO lower_pos
+        FROM projects
+       WHERE status = p_status AND id <> p_project_id AND position < upper_pos
+         AND coalesce(is_idea, false) = false AND deleted_at IS NULL;
+    END IF;
+  END IF;
+
+  IF lower_pos IS NOT NULL AND upper_pos IS NOT NULL THEN
+    IF upper_pos - lower_pos < 1e-9 THEN
+      -- Gap exhausted: renumber the lane 0, 1, 2… keeping its order, then retry
+      UPDATE projects p
+         SET position = r.rn - 1
+        FROM (
+          SELECT id, row_number() OVER (ORDER BY position, created_at, id) AS rn
+            FROM projects
+           WHERE status = p_status AND id <> p_project_id
+             AND coalesce(is_idea, false) = false AND deleted_at IS NULL
+        ) r
+       WHERE p.id = r.id;
+      RETURN move_project_in_lane(p_project_id, p_status, p_after_id, p_before_id);
+    END IF;
+    new_pos := (lower_pos + upper_pos) / 2;
+  ELSIF lower_pos IS NOT NULL THEN
+    new_pos := lower_pos + 1;
+  ELSIF upper_pos IS NOT NULL THEN
+    new_pos := upper_pos - 1;
+  ELSE
+    SELECT coalesce(max(position), -1) + 1 INTO new_pos
+      FROM projects
+     WHERE status = p_status AND id <> p_project_id
+       AND coalesce(is_idea, false) = false AND deleted_at IS NULL;
+  END IF;
+
+  UPDATE projects SET status = p_status, position = new_pos WHERE id = p_project_id;
+  RETURN new_pos;
+END;
+$$;
@@ -0,0 +1,61 @@
+-- Live board sync. Open boards, dashboards and /embed refetch when these
+-- tables change, through one of two push channels (see src/lib/live-sync.ts):
+--   * Supabase Realtime — the tables join the supabase_realtime publication.
+--   * Postgres LISTEN/NOTIFY — every write also sends a small payload on the
+--     'board_changes' channel, which /api/live streams to the browser as
+--     server-sent events. Meant for local Postgres; Supabase's transaction
+--     pooler can't LISTEN, so point DATABASE_URL at a direct connection.
+DO $$
+DECLARE
+  t text;
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    FOREACH t IN ARRAY ARRAY['projects', 'columns', 'tags', 'project_groups', 'widgets', 'standalone_plans'] LOOP
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+         WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+      ) THEN
+        EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+      END IF;
+    END LOOP;
+  END IF;
+END;
+$$;
+
+-- Payload: {"table": "...", "event": "INSERT|UPDATE|DELETE", "id": "..."}.
+-- Tags are keyed by name.
+CREATE OR REPLACE FUNCTION public.notify_board_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  row_data jsonb;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    row_data := to_jsonb(OLD);
+  ELSE
+    row_data := to_jsonb(NEW);
+  END IF;
+  PERFORM pg_notify('board_changes', json_build_object(
+    'table', TG_TABLE_NAME,
+    'event', TG_OP,
+    'id', coalesce(row_data ->> 'id', row_data ->> 'name')
+  )::text);
+  RETURN NULL;
+END;
+$$;
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['projects', 'columns', 'tags', 'project_groups', 'widgets', 'standalone_plans'] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS %I ON public.%I', t || '_notify_board_change', t);
+    EXECUTE format(
+      'CREATE TRIGGER %I AFTER INSERT OR UPDATE OR DELETE ON public.%I FOR EACH ROW EXECUTE FUNCTION public.notify_board_change()',
+      t || '_notify_board_change', t
+    );
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,6 @@
+-- Optional start and due dates on projects, ideas and tasks
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS start_date DATE;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS due_date DATE;
+
+-- Due-date sorting and overdue lookups
+CREATE INDEX IF NOT EXISTS idx_projects_due_date ON projects(due_date) WHERE due_date IS NOT NULL;
@@ -0,0 +1,6 @@
+-- Blocked-by relationships: ids of projects that must be finished before this
+-- one. A card counts as blocked while any of them is still open.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS blocked_by TEXT[] NOT NULL DEFAULT '{}';
+
+-- Reverse lookups ("what does this card block?")
+CREATE INDEX IF NOT EXISTS idx_projects_blocked_by ON projects USING GIN (blocked_by);
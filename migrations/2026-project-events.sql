@@ -0,0 +1,33 @@
+-- Add project_events table: per-project activity history written by every
+-- project mutation (UI server actions, MCP tools, /api/capture)
+
+CREATE TABLE IF NOT EXISTS public.project_events (
+  id          uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id  text        NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  kind        text        NOT NULL,
+  origin      text        NOT NULL DEFAULT 'ui',
+  changes     jsonb       NOT NULL DEFAULT '{}'::jsonb,
+  created_at  timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS project_events_project_created_idx
+  ON public.project_events (project_id, created_at DESC);
+
+ALTER TABLE public.project_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Auth users can view project_events" ON public.project_events
+  FOR SELECT TO authenticated
+  USING ((select auth.uid()) IS NOT NULL);
+
+CREATE POLICY "Auth users can insert project_events" ON public.project_events
+  FOR INSERT TO authenticated
+  WITH CHECK ((select auth.uid()) IS NOT NULL);
+
+CREATE POLICY "Auth users can update project_events" ON public.project_events
+  FOR UPDATE TO authenticated
+  USING ((select auth.uid()) IS NOT NULL)
+  WITH CHECK ((select auth.uid()) IS NOT NULL);
+
+CREATE POLICY "Auth users can delete project_events" ON public.project_events
+  FOR DELETE TO authenticated
+  USING ((select auth.uid()) IS NOT NULL);
@@ -0,0 +1,144 @@
+-- Full-text search over projects and ideas: title, tags, description, notes
+-- (rich_content with markup stripped), material text, plan names and the
+-- notes of standalone plans attached to the project. A trigger keeps
+-- search_vector (weighted, for matching/ranking) and search_text (plain text,
+-- for highlighted snippets) up to date.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS search_text TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_projects_search_vector ON projects USING GIN (search_vector);
+
+-- materials_list / plans hold JSON arrays, sometimes double-encoded as a JSON
+-- string. Returns the given field of every object, space separated.
+CREATE OR REPLACE FUNCTION public.search_json_texts(value jsonb, field text)
+RETURNS text
+LANGUAGE plpgsql IMMUTABLE
+AS $$
+DECLARE
+  doc jsonb := value;
+BEGIN
+  IF doc IS NULL THEN RETURN ''; END IF;
+  IF jsonb_typeof(doc) = 'string' THEN doc := (doc #>> '{}')::jsonb; END IF;
+  IF jsonb_typeof(doc) <> 'array' THEN RETURN ''; END IF;
+  RETURN coalesce((
+    SELECT string_agg(item ->> field, ' ')
+    FROM jsonb_array_elements(doc) AS item
+    WHERE jsonb_typeof(item) = 'object'
+  ), '');
+EXCEPTION WHEN others THEN
+  RETURN '';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.projects_search_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  body text := regexp_replace(
+    regexp_replace(coalesce(NEW.rich_content, ''), '<[^>]*>', ' ', 'g'),
+    '&[a-zA-Z]+;|&#[0-9]+;', ' ', 'g'
+  );
+  materials text := search_json_texts(to_jsonb(NEW.materials_list), 'text');
+  plans text := concat_ws(' ',
+    search_json_texts(to_jsonb(NEW.plans), 'name'),
+    (SELECT string_agg(concat_ws(' ', sp.name, sp.notes), ' ')
+       FROM standalone_plans sp
+      WHERE sp.project_id::text = NEW.id)
+  );
+BEGIN
+  NEW.search_text := concat_ws(E'\n', NEW.description, body, materials, plans);
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', array_to_string(coalesce(NEW.tags, '{}'), ' ')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW.description, '')), 'B') ||
+    setweight(to_tsvector('english', body), 'C') ||
+    setweight(to_tsvector('english', concat_ws(' ', materials, plans)), 'D');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS projects_search_update ON projects;
+CREATE TRIGGER projects_search_update
+  BEFORE INSERT OR UPDATE OF title, description, rich_content, materials_list, plans, tags
+  ON projects
+  FOR EACH ROW EXECUTE FUNCTION public.projects_search_update();
+
+-- Standalone plan names/notes are part of the project's document: touching
+-- the project re-runs the trigger above.
+CREATE OR REPLACE FUNCTION public.standalone_plans_search_touch()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' AND OLD.project_id IS NOT NULL THEN
+    UPDATE projects SET title = title WHERE id = OLD.project_id::text;
+  END IF;
+  IF TG_OP <> 'DELETE' AND NEW.project_id IS NOT NULL THEN
+    UPDATE projects SET title = title WHERE id = NEW.project_id::text;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS standalone_plans_search_touch ON standalone_plans;
+CREATE TRIGGER standalone_plans_search_touch
+  AFTER INSERT OR UPDATE OF name, notes, project_id OR DELETE
+  ON standalone_plans
+  FOR EACH ROW EXECUTE FUNCTION public.standalone_plans_search_touch();
+
+-- Backfill existing rows
+UPDATE projects SET title = title;
+
+-- Ranked, paginated search. search_query is a to_tsquery expression (the app
+-- builds prefix queries like 'walnut:* & shelf:*'). Snippets mark matches
+-- with ⟦ and ⟧ so clients can highlight without rendering HTML.
+CREATE OR REPLACE FUNCTION public.search_projects(
+  search_query text,
+  idea_filter boolean DEFAULT NULL,
+  completed_filter boolean DEFAULT NULL,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id text,
+  title text,
+  status text,
+  tags text[],
+  is_idea boolean,
+  is_completed boolean,
+  rank real,
+  snippet text,
+  total_count bigint
+)
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT to_tsquery('english', search_query) AS query
+  ),
+  matches AS (
+    SELECT p.id::text AS id, p.title, p.status, p.tags,
+           coalesce(p.is_idea, false) AS is_idea,
+           coalesce(p.is_completed, false) AS is_completed,
+           p.search_text, p.created_at,
+           ts_rank_cd(p.search_vector, q.query, 32) AS rank,
+           count(*) OVER () AS total_count
+      FROM projects p, q
+     WHERE p.deleted_at IS NULL
+       AND p.search_vector @@ q.query
+       AND (idea_filter IS NULL OR coalesce(p.is_idea, false) = idea_filter)
+       AND (completed_filter IS NULL OR coalesce(p.is_completed, false) = completed_filter)
+     ORDER BY rank DESC, p.created_at DESC
+     LIMIT greatest(least(result_limit, 200), 1)
+    OFFSET greatest(result_offset, 0)
+  )
+  SELECT m.id, m.title, m.status, m.tags, m.is_idea, m.is_completed, m.rank,
+         ts_headline('english', coalesce(m.search_text, ''), q.query,
+           'StartSel=⟦, StopSel=⟧, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'),
+         m.total_count
+    FROM matches m, q
+   ORDER BY m.rank DESC, m.created_at DESC;
+$$;
@@ -0,0 +1,38 @@
+-- Project templates: reusable starting points for new cards. A template holds
+-- the body (rich_content, including task lists), a materials list, tags, a
+-- project group, the lane new cards land in and the AI style for their cover.
+-- See src/lib/project-templates.ts.
+
+CREATE TABLE IF NOT EXISTS public.project_templates (
+  id                text        PRIMARY KEY,
+  name              text        NOT NULL,
+  description       text,
+  rich_content      text,
+  materials_list    jsonb       NOT NULL DEFAULT '[]'::jsonb,
+  tags              text[]      NOT NULL DEFAULT '{}',
+  parent_project_id text,
+  default_column_id text,
+  image_style_id    text,
+  is_task           boolean     NOT NULL DEFAULT false,
+  position          integer     NOT NULL DEFAULT 0,
+  created_at        timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.project_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Auth users can view project_templates" ON public.project_templates
+  FOR SELECT TO authenticated
+  USING ((select auth.uid()) IS NOT NULL);
+
+CREATE POLICY "Auth users can insert project_templates" ON public.project_templates
+  FOR INSERT TO authenticated
+  WITH CHECK ((select auth.uid()) IS NOT NULL);
+
+CREATE POLICY "Auth users can update project_templates" ON public.project_templates
+  FOR UPDATE TO authenticated
+  USING ((select auth.uid()) IS NOT NULL)
+  WITH CHECK ((select auth.uid()) IS NOT NULL);
+
+CREATE POLICY "Auth users can delete project_templates" ON public.project_templates
+  FOR DELETE TO authenticated
+  USING ((select auth.uid()) IS NOT NULL);
@@ -0,0 +1,16 @@
+-- Sub-project tree: a project can own child projects and tasks to any depth.
+-- parent_project_id keeps pointing at a project_groups row; parent_id is the
+-- real parent project. Deleting a parent lifts its children to the top level.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS parent_id TEXT REFERENCES projects(id) ON DELETE SET NULL;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS child_position INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_projects_parent_id ON projects (parent_id);
+
+-- Checklist counts for rollup progress on cards, derived from the TipTap task
+-- list markup so card queries don't have to load rich_content.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS checklist_total INTEGER GENERATED ALWAYS AS (
+  (char_length(coalesce(rich_content, '')) - char_length(replace(coalesce(rich_content, ''), 'data-type="taskItem"', ''))) / 20
+) STORED;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS checklist_done INTEGER GENERATED ALWAYS AS (
+  (char_length(coalesce(rich_content, '')) - char_length(replace(coalesce(rich_content, ''), 'data-checked="true"', ''))) / 19
+) STORED;
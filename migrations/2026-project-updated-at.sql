@@ -0,0 +1,40 @@
+-- projects.updated_at: bumped by a trigger on every insert and every update
+-- that changes the row, whichever client wrote it (board, editor, MCP,
+-- capture). updateProject uses it as the row version — a save carrying an
+-- older version is refused instead of overwriting a newer edit.
+-- Kept at millisecond precision so it survives a round trip through a JS
+-- Date, and strictly increasing so two writes in one millisecond still get
+-- different versions.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+
+UPDATE projects
+   SET updated_at = date_trunc('milliseconds', greatest(created_at, coalesce(completed_at, created_at)))
+ WHERE updated_at IS NULL;
+
+ALTER TABLE projects ALTER COLUMN updated_at SET DEFAULT date_trunc('milliseconds', now());
+ALTER TABLE projects ALTER COLUMN updated_at SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.projects_touch_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.updated_at := date_trunc('milliseconds', clock_timestamp());
+  -- Generated columns (checklist_*) aren't computed yet in a BEFORE trigger
+  ELSIF to_jsonb(NEW) - 'updated_at' - 'checklist_total' - 'checklist_done'
+        IS DISTINCT FROM to_jsonb(OLD) - 'updated_at' - 'checklist_total' - 'checklist_done' THEN
+    NEW.updated_at := greatest(
+      date_trunc('milliseconds', clock_timestamp()),
+      OLD.updated_at + interval '1 millisecond'
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS projects_touch_updated_at ON projects;
+CREATE TRIGGER projects_touch_updated_at
+  BEFORE INSERT OR UPDATE ON projects
+  FOR EACH ROW EXECUTE FUNCTION public.projects_touch_updated_at();
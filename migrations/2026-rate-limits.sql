@@ -0,0 +1,35 @@
+-- Shared counters for rate limiting (lib/rate-limit) when RATE_LIMIT_STORE is
+-- 'postgres', so every serverless instance counts against the same limit.
+-- One fixed window per key: the count restarts once reset_at has passed.
+CREATE TABLE IF NOT EXISTS public.rate_limits (
+  key       text        PRIMARY KEY,
+  count     integer     NOT NULL,
+  reset_at  timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS rate_limits_reset_idx ON public.rate_limits (reset_at);
+
+-- Only the service role touches this table.
+ALTER TABLE public.rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Counts one hit on p_key and returns the window's total and when it ends.
+-- Now and then sweeps windows that ended more than an hour ago.
+CREATE OR REPLACE FUNCTION public.rate_limit_hit(p_key text, p_window_ms integer)
+RETURNS TABLE (hits integer, resets_at timestamptz)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF random() < 0.01 THEN
+    DELETE FROM rate_limits WHERE reset_at < now() - interval '1 hour';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO rate_limits AS r (key, count, reset_at)
+  VALUES (p_key, 1, now() + make_interval(secs => p_window_ms / 1000.0))
+  ON CONFLICT (key) DO UPDATE
+    SET count    = CASE WHEN r.reset_at <= now() THEN 1 ELSE r.count + 1 END,
+        reset_at = CASE WHEN r.reset_at <= now() THEN EXCLUDED.reset_at ELSE r.reset_at END
+  RETURNING r.count, r.reset_at;
+END;
+$$;
@@ -0,0 +1,4 @@
+-- Repeating tasks: { type: 'interval', every, unit: 'day' | 'week' } or
+-- { type: 'after-completion', days }. Completing the card creates the next
+-- occurrence in the first lane and moves the rule onto it.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS recurrence JSONB;
@@ -0,0 +1,17 @@
+-- Soft delete: deleted rows move to the Trash tab instead of disappearing.
+-- Rows with deleted_at set are hidden from board/widget queries and purged
+-- after settings.trash_retention_days.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE columns ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE standalone_plans ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE widgets ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS trash_retention_days INTEGER DEFAULT 30;
+-- Last time the Trash was purged; opening it purges at most once an hour.
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS trash_purged_at TIMESTAMPTZ;
+
+-- Only trashed rows are ever looked up by deleted_at
+CREATE INDEX IF NOT EXISTS idx_projects_deleted_at ON projects(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_columns_deleted_at ON columns(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_standalone_plans_deleted_at ON standalone_plans(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_widgets_deleted_at ON widgets(deleted_at) WHERE deleted_at IS NOT NULL;
@@ -0,0 +1,15 @@
+-- Optional work-in-progress limit per column. NULL means unlimited.
+-- wip_enforcement decides whether moves into a full lane are refused ('block')
+-- or allowed with a warning ('warn') — for board drags and MCP alike.
+ALTER TABLE columns ADD COLUMN IF NOT EXISTS wip_limit INTEGER;
+ALTER TABLE columns ADD COLUMN IF NOT EXISTS wip_enforcement TEXT NOT NULL DEFAULT 'warn';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'columns_wip_limit_check') THEN
+    ALTER TABLE columns ADD CONSTRAINT columns_wip_limit_check CHECK (wip_limit IS NULL OR wip_limit >= 1);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'columns_wip_enforcement_check') THEN
+    ALTER TABLE columns ADD CONSTRAINT columns_wip_enforcement_check CHECK (wip_enforcement IN ('warn', 'block'));
+  END IF;
+END $$;
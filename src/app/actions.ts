@@ -11,6 +11,60 @@ import https from 'https';
 import path from 'path';
 import { safeFetch } from '@/utils/safe-fetch';
 import { getSupabaseUrl } from '@/utils/supabase/env';
+import { findColumnByRole, findDoneColumn, isColumnRole, isDoneColumn, isInDoneColumn, type ColumnRole } from '@/lib/board-columns';
+import { parseColumnRules, runColumnTransitionRules, type ColumnRule } from '@/lib/column-rules';
+import { fillCoverPrompt, pollinationsImageUrl } from '@/lib/cover-images';
+import { captureFileExtension, type CaptureFile } from '@/lib/capture-files';
+import { generateApiToken } from '@/lib/api-token-auth';
+import { isApiTokenScope, type ApiTokenScope, type ApiTokenSummary } from '@/lib/api-tokens';
+import { takeLinkPreviewSlot } from '@/lib/rate-limit';
+import {
+  DEFAULT_CAPTURE_DUPLICATE_MODE,
+  isCaptureDuplicateMode,
+  type CaptureDuplicateMode,
+} from '@/lib/capture-dedup';
+import { parseCaptureText, resolveCaptureTargets, type ParsedCapture } from '@/lib/capture-syntax';
+import { moveProjectInLane, nextLanePosition, type LanePlacement } from '@/lib/lane-positions';
+import { createsDependencyCycle } from '@/lib/project-dependencies';
+import {
+  DEFAULT_DUPLICATE_OPTIONS,
+  boardUploadObjectName,
+  collectProjectFileUrls,
+  copyJsonList,
+  copyRichContent,
+  parseJsonList,
+  type DuplicateProjectOptions,
+} from '@/lib/project-copy';
+import {
+  PROJECT_TEMPLATE_COLUMNS,
+  getProjectTemplate,
+  instantiateProjectTemplate,
+  mapProjectTemplate,
+  parseTemplateMaterials,
+  toTemplateRow,
+  type ProjectTemplate,
+  type ProjectTemplateInput,
+} from '@/lib/project-templates';
+import { validateProjectParent } from '@/lib/project-tree';
+import {
+  PROJECT_VERSION_COLUMNS,
+  projectSnapshot,
+  sameVersion,
+  type ProjectSaveResult,
+} from '@/lib/project-versions';
+import { searchProjectIndex, type ProjectSearchOptions, type ProjectSearchPage } from '@/lib/project-search';
+import { parseRecurrence, resetChecklist } from '@/lib/recurrence';
+import { spawnRecurringOccurrences } from '@/lib/recurring-occurrences';
+import { checkWipLimit, isWipEnforcement, normalizeWipLimit, wipLimitMessage, type WipEnforcement } from '@/lib/wip-limits';
+import {
+  PROJECT_EVENT_COLUMNS,
+  mapProjectEvent,
+  recordProjectEvents,
+  recordProjectPatch,
+  type ProjectEvent,
+  type ProjectEventOrigin,
+  type ProjectFieldChange,
+} from '@/lib/project-events';
 
 function getSupabaseHost(): string | null {
   const url = getSupabaseUrl();
@@ -244,6 +298,7 @@ async function getFirstColumnId(): Promise<string> {
   const { data } = await supabase
     .from('columns')
     .select('id')
+    .is('deleted_at', null)
     .order('order', { ascending: true })
     .limit(1);
   return data?.[0]?.id ?? 'todo';
@@ -298,15 +353,48 @@ function extractPlatformImage(url: string): string | null {
 // materials_list, attachments) are fetched on-demand via getProject() when the
 // modal opens.
 const PROJECT_CARD_COLUMNS =
-  'id, title, description, status, position, image_url, tags, parent_project_id, is_task, is_completed, is_idea, pinned, created_at';
+  'id, title, description, status, position, image_url, tags, parent_project_id, is_task, is_completed, is_idea, pinned, start_date, due_date, completed_at, blocked_by, recurrence, parent_id, child_position, checklist_total, checklist_done, created_at, updated_at, archived_at';
+
+const DEFAULT_AUTO_ARCHIVE_DAYS = 30;
+
+/**
+ * Archives cards completed more than settings.auto_archive_days ago (0 = off).
+ * A manual unarchive restarts the clock for that card.
+ */
+async function archiveLongCompletedProjects(supabase: ServiceClient) {
+  const { data: settings } = await supabase
+    .from('settings')
+    .select('auto_archive_days')
+    .limit(1)
+    .maybeSingle();
+  const days = settings?.auto_archive_days ?? DEFAULT_AUTO_ARCHIVE_DAYS;
+  if (days <= 0) return;
+  const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  const { error } = await supabase
+    .from('projects')
+    .update({ archived_at: new Date().toISOString() })
+    .eq('is_completed', true)
+    // Cards completed without a recorded completed_at age from created_at
+    .or(`completed_at.lt.${cutoff},and(completed_at.is.null,created_at.lt.${cutoff})`)
+    .or(`unarchived_at.is.null,unarchived_at.lt.${cutoff}`)
+    .is('archived_at', null)
+    .is('deleted_at', null);
+  if (error) console.error('Error archiving completed projects:', error);
+}
 
 export async function getProjects() {
   // Use service role client to bypass RLS for server-side reads
   const supabase = createServiceRoleClient();
+  // Long-completed cards are archived lazily when the board loads, at most once an hour
+  if (await claimHousekeepingRun(supabase, 'auto_archived_at')) await archiveLongCompletedProjects(supabase);
+
   const { data, error } = await supabase
     .from('projects')
     .select(PROJECT_CARD_COLUMNS)
     .or('is_idea.is.null,is_idea.eq.false')
+    .is('deleted_at', null)
+    .is('archived_at', null)
     .order('position', { ascending: true });
 
   if (error) {
@@ -317,12 +405,31 @@ export async function getProjects() {
   return data ?? [];
 }
 
+/** Archived cards for the Completed view, most recently completed first. */
+export async function getArchivedProjects() {
+  const supabase = createServiceRoleClient();
+  const { data, error } = await supabase
+    .from('projects')
+    .select(PROJECT_CARD_COLUMNS)
+    .not('archived_at', 'is', null)
+    .is('deleted_at', null)
+    .order('completed_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching archived projects:', JSON.stringify(error, null, 2));
+    return [];
+  }
+
+  return data ?? [];
+}
+
 export async function getIdeas() {
   const supabase = createServiceRoleClient();
   const { data, error } = await supabase
     .from('projects')
     .select(PROJECT_CARD_COLUMNS)
     .eq('is_idea', true)
+    .is('deleted_at', null)
     .order('created_at', { ascending: false });
 
   if (error) {
@@ -349,6 +456,163 @@ export async function getProject(id: string) {
   return data;
 }
 
+export async function getProjectEvents(projectId: string): Promise<ProjectEvent[]> {
+  const supabase = createServiceRoleClient();
+  const { data, error } = await supabase
+    .from('project_events')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false })
+    .limit(200);
+
+  if (error) {
+    console.error('Error fetching project events:', error);
+    return [];
+  }
+
+  return (data ?? []).map(mapProjectEvent);
+}
+
+export type ProjectOption = {
+  id: string;
+  title: string;
+  isCompleted: boolean;
+  isIdea: boolean;
+  blockedBy: string[];
+  parentId: string | null;
+};
+
+/** Every live card, for picking blockers and parent projects in the editor. */
+export async function getProjectOptions(): Promise<ProjectOption[]> {
+  const supabase = createServiceRoleClient();
+  const { data, error } = await supabase
+    .from('projects')
+    .select('id, title, is_completed, is_idea, blocked_by, parent_id')
+    .is('deleted_at', null)
+    .order('title', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching project options:', error);
+    return [];
+  }
+
+  return (data ?? []).map((p) => ({
+    id: p.id,
+    title: p.title,
+    isCompleted: Boolean(p.is_completed),
+    isIdea: Boolean(p.is_idea),
+    blockedBy: p.blocked_by ?? [],
+    parentId: p.parent_id ?? null,
+  }));
+}
+
+/**
+ * Ranked full-text search over titles, tags, descriptions, notes, materials
+ * and plans. Empty queries return no matches; callers show their own lists.
+ */
+export async function searchProjects(
+  query: string,
+  options: ProjectSearchOptions = {}
+): Promise<ProjectSearchPage> {
+  const supabase = createServiceRoleClient();
+  try {
+    return await searchProjectIndex(supabase, query, options);
+  } catch (error) {
+    console.error('Error searching projects:', error);
+    return { matches: [], total: 0, offset: options.offset ?? 0, limit: options.limit ?? 0 };
+  }
+}
+
+/** Direct children of a project, in their sub-project order. */
+export async function getProjectChildren(parentId: string) {
+  const supabase = createServiceRoleClient();
+  const { data, error } = await supabase
+    .from('projects')
+    .select(PROJECT_CARD_COLUMNS)
+    .eq('parent_id', parentId)
+    .is('deleted_at', null)
+    .order('child_position', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching project children:', error);
+    return [];
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Adds a sub-project or task under `parentId`. The child lands at the end of
+ * the first lane, stays an idea while the parent is one, and keeps the
+ * parent's group.
+ */
+export async function createChildProject(parentId: string, data: { title: string; isTask?: boolean }) {
+  const supabase = createServiceRoleClient();
+  const { data: parent, error: parentError } = await supabase
+    .from('projects')
+    .select('id, parent_project_id, is_idea')
+    .eq('id', parentId)
+    .single();
+  if (parentError || !parent) {
+    console.error('Error loading parent project:', parentError);
+    throw new Error('Failed to add sub-project: parent not found');
+  }
+
+  const { data: columns } = await supabase
+    .from('columns')
+    .select('id')
+    .is('deleted_at', null)
+    .order('order', { ascending: true })
+    .limit(1);
+  const status = columns?.[0]?.id ?? 'todo';
+
+  const [position, { count: siblingCount }] = await Promise.all([
+    nextLanePosition(supabase, status),
+    supabase.from('projects').select('*', { count: 'exact', head: true }).eq('parent_id', parentId),
+  ]);
+
+  const id = uuidv4();
+  const { error } = await supabase.from('projects').insert({
+    id,
+    title: data.title,
+    status,
+    position,
+    parent_id: parentId,
+    child_position: siblingCount ?? 0,
+    parent_project_id: parent.parent_project_id,
+    is_task: data.isTask ?? false,
+    is_idea: Boolean(parent.is_idea),
+  });
+
+  if (error) {
+    console.error('Error creating sub-project:', error);
+    throw new Error('Failed to add sub-project');
+  }
+  await recordProjectEvents(supabase, id, [{ kind: 'created', changes: {} }], 'ui');
+  revalidatePath('/');
+  return id;
+}
+
+export async function reorderProjectChildren(parentId: string, orderedIds: string[]) {
+  const supabase = createServiceRoleClient();
+  const results = await Promise.all(
+    orderedIds.map((id, index) =>
+      supabase
+        .from('projects')
+        .update({ child_position: index })
+        .eq('id', id)
+        .eq('parent_id', parentId)
+    )
+  );
+  const failed = results.find((r) => r.error);
+  if (failed?.error) {
+    console.error('Error reordering sub-projects:', failed.error);
+    throw new Error('Failed to reorder sub-projects');
+  }
+  revalidatePath('/');
+}
+
 export async function createProject(data: { 
   title: string; 
   description?: string; 
@@ -362,12 +626,17 @@ export async function createProject(data: {
   position?: number;
   attachments?: { id: string; url: string; name: string; type: string; size: number }[];
   is_task?: boolean;
+  startDate?: string | null;
+  dueDate?: string | null;
 }) {
   const supabase = createServiceRoleClient();
+  const id = uuidv4();
+  const status = data.status || 'todo';
+  const position = data.position ?? (await nextLanePosition(supabase, status));
   const { error } = await supabase
     .from('projects')
     .insert({
-        id: uuidv4(),
+        id,
         title: data.title,
         description: data.description,
         rich_content: data.richContent ? cleanUrlsInHtml(data.richContent) : data.richContent,
@@ -377,29 +646,47 @@ export async function createProject(data: {
         image_url: data.imageUrl,
         tags: data.tags,
         attachments: data.attachments,
-        status: data.status || 'todo',
-        position: data.position ?? 0,
+        status,
+        position,
         is_task: data.is_task || false,
         is_idea: false,
+        start_date: data.startDate || null,
+        due_date: data.dueDate || null,
     });
 
   if (error) console.error('Error creating project:', error);
+  else await recordProjectEvents(supabase, id, [{ kind: 'created', changes: {} }], 'ui');
   revalidatePath('/');
 }
 
-export async function updateProject(id: string, data: Record<string, unknown>) {
+/**
+ * Writes editor fields (camelCase) to a project. With `expectedUpdatedAt` the
+ * write only lands if the row is still at that version; otherwise nothing is
+ * written and the newer copy comes back as a conflict (see lib/project-versions).
+ */
+export async function updateProject(
+  id: string,
+  data: Record<string, unknown>,
+  options: { origin?: ProjectEventOrigin; expectedUpdatedAt?: string } = {}
+): Promise<ProjectSaveResult> {
   const supabase = createServiceRoleClient();
+  const expected = options.expectedUpdatedAt;
   
   // Check if we should fetch an Open Graph image
   let shouldFetchOgImage = false;
   const urlsToCheck: string[] = [];
   
-  // Get current project to check if it has a cover image
+  // Get current project to check if it has a cover image (and to diff for history)
   const { data: currentProject } = await supabase
     .from('projects')
-    .select('image_url, title, rich_content')
+    .select(`${PROJECT_EVENT_COLUMNS}, updated_at`)
     .eq('id', id)
     .single();
+
+  // Someone saved since this client last read the row — don't clobber it
+  if (expected !== undefined && currentProject && !sameVersion(currentProject.updated_at, expected)) {
+    return { ok: false, conflict: { updatedAt: currentProject.updated_at, theirs: projectSnapshot(currentProject) } };
+  }
   
   const hasNoCoverImage = !currentProject?.image_url && data.imageUrl === undefined;
   
@@ -445,12 +732,27 @@ export async function updateProject(id: string, data: Record<string, unknown>) {
   if (data.position !== undefined) dbData.position = data.position;
   if (data.parent_project_id !== undefined) dbData.parent_project_id = data.parent_project_id;
   if (data.is_task !== undefined) dbData.is_task = data.is_task;
-  if (data.is_completed !== undefined) dbData.is_completed = data.is_completed;
+  if (data.is_completed !== undefined) {
+    dbData.is_completed = data.is_completed;
+    Object.assign(dbData, completionStamp(currentProject?.is_completed, Boolean(data.is_completed)));
+  }
   if (data.is_idea !== undefined) dbData.is_idea = data.is_idea;
+  if (data.pinned !== undefined) dbData.pinned = data.pinned;
+  if (data.sourceUrl !== undefined) dbData.source_url = data.sourceUrl || null;
+  if (data.startDate !== undefined) dbData.start_date = data.startDate || null;
+  if (data.dueDate !== undefined) dbData.due_date = data.dueDate || null;
+  if (data.blockedBy !== undefined) dbData.blocked_by = await resolveBlockedBy(supabase, id, data.blockedBy);
+  if (data.recurrence !== undefined) dbData.recurrence = parseRecurrence(data.recurrence);
+  if (data.parentId !== undefined && (data.parentId || null) !== (currentProject?.parent_id ?? null)) {
+    Object.assign(dbData, await resolveParent(supabase, id, data.parentId));
+  }
   
   // Try to fetch Open Graph image if needed
   if (shouldFetchOgImage && urlsToCheck.length > 0) {
     for (const url of urlsToCheck) {
+      // Over this minute's preview budget: save without a cover
+      if (!(await takeLinkPreviewSlot(supabase))) break;
+
       // First try platform-specific extraction
       const platformImage = extractPlatformImage(url);
       if (platformImage) {
@@ -473,26 +775,47 @@ export async function updateProject(id: string, data: Record<string, unknown>) {
     }
   }
 
-  const { error } = await supabase
-    .from('projects')
-    .update(dbData)
-    .eq('id', id);
+  let query = supabase.from('projects').update(dbData).eq('id', id);
+  // Compare-and-set, so a save racing the check above still can't overwrite
+  if (expected) query = query.eq('updated_at', expected);
+  const { data: saved, error } = await query.select(PROJECT_VERSION_COLUMNS);
 
   if (error) {
     console.error('Error updating project:', error);
+    return { ok: false, error: 'Failed to update project' };
+  }
+  const row = saved?.[0];
+  if (!row && expected) {
+    const { data: latest } = await supabase
+      .from('projects')
+      .select(PROJECT_VERSION_COLUMNS)
+      .eq('id', id)
+      .maybeSingle();
+    if (latest) return { ok: false, conflict: { updatedAt: latest.updated_at, theirs: projectSnapshot(latest) } };
   }
+
+  await recordProjectPatch(supabase, currentProject, dbData, options.origin ?? 'ui');
+  if (dbData.is_completed && !currentProject?.is_completed) await spawnRecurringOccurrences(supabase, [id], options.origin ?? 'ui');
   revalidatePath('/');
+  return {
+    ok: true,
+    updatedAt: row?.updated_at ?? null,
+    snapshot: row ? projectSnapshot(row) : null,
+  };
 }
 
 // Manual action to fetch OG image from project content
-export async function fetchAndSetOgImage(projectId: string): Promise<{ success: boolean; imageUrl?: string; error?: string }> {
+export async function fetchAndSetOgImage(
+  projectId: string,
+  origin: ProjectEventOrigin = 'ui'
+): Promise<{ success: boolean; imageUrl?: string; error?: string }> {
   try {
     const supabase = createServiceRoleClient();
     
     // Get project
     const { data: project } = await supabase
       .from('projects')
-      .select('title, rich_content')
+      .select('id, title, rich_content, image_url')
       .eq('id', projectId)
       .single();
     
@@ -517,6 +840,10 @@ export async function fetchAndSetOgImage(projectId: string): Promise<{ success:
     
     // Try to fetch OG image
     for (const url of urlsToCheck) {
+      if (!(await takeLinkPreviewSlot(supabase))) {
+        return { success: false, error: 'Too many link previews right now; try again in a minute' };
+      }
+
       // Try platform-specific first
       const platformImage = extractPlatformImage(url);
       if (platformImage) {
@@ -526,6 +853,7 @@ export async function fetchAndSetOgImage(projectId: string): Promise<{ success:
             .from('projects')
             .update({ image_url: uploadedUrl })
             .eq('id', projectId);
+          await recordProjectPatch(supabase, project, { image_url: uploadedUrl }, origin);
           
           revalidatePath('/');
           return { success: true, imageUrl: uploadedUrl };
@@ -541,6 +869,7 @@ export async function fetchAndSetOgImage(projectId: string): Promise<{ success:
             .from('projects')
             .update({ image_url: uploadedUrl })
             .eq('id', projectId);
+          await recordProjectPatch(supabase, project, { image_url: uploadedUrl }, origin);
           
           revalidatePath('/');
           return { success: true, imageUrl: uploadedUrl };
@@ -555,66 +884,122 @@ export async function fetchAndSetOgImage(projectId: string): Promise<{ success:
   }
 }
 
-export async function updateProjectStatus(id: string, status: string, position: number) {
+/** Why a single-card move didn't happen; `wipBlocked` when the lane's WIP limit refused it. */
+export type MoveRefusal = { ok: false; error: string; wipBlocked?: boolean };
+
+/**
+ * Moves a card within or between lanes. Only the moved card is written: it
+ * takes the position between `placement`'s neighbours (see lib/lane-positions),
+ * so concurrent drags never renumber each other's lanes. Returns the stored
+ * position, or why the move was refused or failed.
+ */
+export async function moveProject(
+  id: string,
+  columnId: string,
+  placement: LanePlacement = {}
+): Promise<{ ok: true; position: number } | MoveRefusal> {
   const supabase = createServiceRoleClient();
-  const safePosition = Math.max(0, position);
-  
-  // Check if the status/column is a "done" column
+
+  // Entering a Done-role lane completes the card; leaving one reopens it
   const { data: column } = await supabase
     .from('columns')
-    .select('title')
-    .eq('id', status)
+    .select('role')
+    .eq('id', columnId)
+    .maybeSingle();
+
+  const { data: before } = await supabase
+    .from('projects')
+    .select('id, status, is_completed')
+    .eq('id', id)
     .single();
-  
-  const isDoneColumn = column?.title?.toLowerCase().includes('done') || 
-                       column?.title?.toLowerCase().includes('completed') ||
-                       column?.title?.toLowerCase().includes('complete');
-  
-  const updateData: Record<string, unknown> = { status, position: safePosition };
-  if (isDoneColumn !== undefined) {
-    updateData.is_completed = isDoneColumn;
+  const changesLane = before?.status !== columnId;
+
+  if (changesLane) {
+    const wip = await checkWipLimit(supabase, columnId);
+    if (wip?.blocked) return { ok: false, error: wipLimitMessage(wip), wipBlocked: true };
   }
-  
-  const { error } = await supabase
-    .from('projects')
-    .update(updateData)
-    .eq('id', id);
 
-  if (error) {
-    console.error('Error updating project status:', JSON.stringify(error, null, 2));
+  let position: number;
+  try {
+    position = await moveProjectInLane(supabase, id, columnId, placement);
+  } catch (error) {
+    console.error('Error moving project:', JSON.stringify(error, null, 2));
+    revalidatePath('/');
+    return { ok: false, error: 'Failed to move project' };
+  }
+
+  // Reorders within a lane leave no history
+  if (changesLane) {
+    const patch: Record<string, unknown> = { status: columnId };
+    if (column) {
+      const enteringDone = isDoneColumn(column);
+      const completion = { is_completed: enteringDone, ...completionStamp(before?.is_completed, enteringDone) };
+      const { error } = await supabase.from('projects').update(completion).eq('id', id);
+      if (error) console.error('Error updating completion after move:', error);
+      else Object.assign(patch, completion);
+    }
+    await recordProjectPatch(supabase, before, patch, 'ui');
+    await runColumnTransitionRules(supabase, [{ projectId: id, from: before?.status ?? null, to: columnId }], 'ui');
+    if (patch.is_completed && !before?.is_completed) await spawnRecurringOccurrences(supabase, [id], 'ui');
   }
-  
+
   revalidatePath('/');
+  return { ok: true, position };
 }
 
-export async function moveIdeaToKanban(ideaId: string, status: string) {
+export async function moveIdeaToKanban(
+  ideaId: string,
+  status: string,
+  origin: ProjectEventOrigin = 'ui'
+): Promise<{ ok: true } | MoveRefusal> {
   const supabase = createServiceRoleClient();
 
-  const { data: columnProjects } = await supabase
+  const position = await nextLanePosition(supabase, status);
+
+  const { data: before } = await supabase
     .from('projects')
-    .select('position')
-    .eq('status', status)
-    .or('is_idea.is.null,is_idea.eq.false');
+    .select('id, status, is_idea, is_completed')
+    .eq('id', ideaId)
+    .single();
 
-  const maxPosition = columnProjects?.length || 0;
+  const { data: column } = await supabase
+    .from('columns')
+    .select('role')
+    .eq('id', status)
+    .maybeSingle();
+
+  const wip = await checkWipLimit(supabase, status);
+  if (wip?.blocked) return { ok: false, error: wipLimitMessage(wip), wipBlocked: true };
+
+  const patch: Record<string, unknown> = { is_idea: false, status, position };
+  if (isDoneColumn(column)) {
+    patch.is_completed = true;
+    Object.assign(patch, completionStamp(before?.is_completed, true));
+  }
 
   const { error } = await supabase
     .from('projects')
-    .update({
-      is_idea: false,
-      status,
-      position: maxPosition,
-    })
+    .update(patch)
     .eq('id', ideaId);
 
   if (error) {
     console.error('Error moving idea to kanban:', JSON.stringify(error, null, 2));
+    revalidatePath('/');
+    return { ok: false, error: 'Failed to move idea to the board' };
   }
+  await recordProjectPatch(supabase, before, patch, origin);
+  await runColumnTransitionRules(supabase, [{ projectId: ideaId, from: null, to: status }], origin);
+  if (patch.is_completed && !before?.is_completed) await spawnRecurringOccurrences(supabase, [ideaId], origin);
 
   revalidatePath('/');
+  return { ok: true };
 }
 
-export async function createIdea(title: string, status = 'todo') {
+export async function createIdea(
+  title: string,
+  status = 'todo',
+  origin: ProjectEventOrigin = 'ui'
+) {
   const supabase = createServiceRoleClient();
   const id = uuidv4();
   const { error } = await supabase.from('projects').insert({
@@ -628,6 +1013,8 @@ export async function createIdea(title: string, status = 'todo') {
 
   if (error) {
     console.error('Error creating idea:', JSON.stringify(error, null, 2));
+  } else {
+    await recordProjectEvents(supabase, id, [{ kind: 'created', changes: {} }], origin);
   }
 
   revalidatePath('/');
@@ -638,39 +1025,155 @@ export type QuickCaptureResult = {
   id: string;
   /** Optional hint (e.g. link preview image could not be fetched). */
   notice?: string;
+  /** Set when a `>column` token put the card on the board instead of Ideas. */
+  columnId?: string;
+  /** Set when the link was already on a card and no new idea was made. */
+  duplicate?: 'existing' | 'appended';
 };
 
+export type QuickCaptureOptions = {
+  /** Photos and PDFs, already checked by lib/capture-files. */
+  files?: CaptureFile[];
+  /** What to do when the link is already on a card; defaults to settings.capture_duplicate_mode. */
+  onDuplicate?: CaptureDuplicateMode;
+};
+
+type CaptureTokenTargets = Awaited<ReturnType<typeof resolveCaptureTargets>>;
+
+/** Card fields set by the inline tokens, except tags and >column. */
+function captureTokenUpdates(parsed: ParsedCapture, targets: CaptureTokenTargets): Record<string, unknown> {
+  const updates: Record<string, unknown> = {};
+  if (targets.groupId) updates.parent_project_id = targets.groupId;
+  if (parsed.isTask) updates.is_task = true;
+  if (parsed.dueDate) updates.dueDate = parsed.dueDate;
+  if (parsed.pinned) updates.pinned = true;
+  return updates;
+}
+
+async function getCaptureDuplicateMode(supabase: ServiceClient): Promise<CaptureDuplicateMode> {
+  const { data } = await supabase.from('settings').select('capture_duplicate_mode').limit(1).maybeSingle();
+  return isCaptureDuplicateMode(data?.capture_duplicate_mode) ? data.capture_duplicate_mode : DEFAULT_CAPTURE_DUPLICATE_MODE;
+}
+
+/** Oldest live card captured from `url` (already cleaned), ideas and board cards alike. */
+async function findCardBySourceUrl(supabase: ServiceClient, url: string) {
+  const { data } = await supabase
+    .from('projects')
+    .select('id, title, rich_content, tags, image_url, inspiration, plans')
+    .eq('source_url', url)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+  return data;
+}
+
+function storedList(value: unknown): unknown[] {
+  try {
+    const list = typeof value === 'string' ? JSON.parse(value) : value;
+    return Array.isArray(list) ? list : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * `append` duplicate mode: the capture's note goes under the card's notes,
+ * its tags and token fields are merged in, and files join the card's
+ * inspiration (or become its cover if it has none) and plans.
+ */
+async function appendCaptureToCard(
+  supabase: ServiceClient,
+  card: NonNullable<Awaited<ReturnType<typeof findCardBySourceUrl>>>,
+  parsed: ParsedCapture,
+  files: CaptureFile[],
+  origin: ProjectEventOrigin
+) {
+  const [targets, stored] = await Promise.all([
+    resolveCaptureTargets(supabase, { group: parsed.group, column: null }),
+    storeCaptureFiles(supabase, files),
+  ]);
+  const updates = captureTokenUpdates(parsed, targets);
+
+  // Nothing to add when the capture was just the link again
+  if (parsed.text.replace(/https?:\/\/[^\s<>"']+/gi, '').trim()) {
+    updates.richContent = `${card.rich_content ?? ''}<p>${escapeHtmlForCapture(parsed.text)}</p>`;
+  }
+
+  const newTags = parsed.tags.filter((tag) => !(card.tags ?? []).includes(tag));
+  if (newTags.length > 0) {
+    await Promise.all(newTags.map((tag) => ensureTagExists(tag)));
+    updates.tags = [...(card.tags ?? []), ...newTags];
+  }
+
+  const images = stored.filter((s) => s.kind === 'image').map((s) => s.item);
+  const pdfs = stored.filter((s) => s.kind === 'pdf').map((s) => s.item);
+  if (images.length > 0 && !card.image_url) updates.imageUrl = images.shift()!.url;
+  if (images.length > 0) updates.inspiration = [...storedList(card.inspiration), ...images];
+  if (pdfs.length > 0) updates.plans = [...storedList(card.plans), ...pdfs];
+
+  if (Object.keys(updates).length > 0) {
+    await updateProject(card.id, updates, { origin });
+  }
+  return targets.notices;
+}
+
 /**
  * Fast capture without LLM: saves your text as an idea (first line = title, rest = description).
- * Optional URL enriches with link + OG preview image. Use the Kanban MCP from Claude for tagging/linking.
+ * Inline tokens on the first line (#tag +group >column !task due:friday pin, see
+ * lib/capture-syntax) are stripped from the title and applied to the card.
+ * Optional URL enriches with link + OG preview image; a link that's already on a card
+ * follows the duplicate mode (lib/capture-dedup). Photos and PDFs sent to /api/capture
+ * become the cover, inspiration and plans. Use the Kanban MCP from Claude for tagging/linking.
  */
 export async function quickCapture(
   text: string,
-  sourceUrl?: string | null
+  sourceUrl?: string | null,
+  origin: ProjectEventOrigin = 'ui',
+  { files = [], onDuplicate }: QuickCaptureOptions = {}
 ): Promise<QuickCaptureResult> {
-  const trimmed = text.trim();
+  const parsed = parseCaptureText(text);
+  const trimmed = parsed.text;
   const paramUrl = sourceUrl?.trim() ? cleanUrl(sourceUrl.trim()) : null;
   const urlsFromText = extractUrls(trimmed);
   const allUrls = [...new Set([...urlsFromText, ...(paramUrl ? [paramUrl] : [])])];
   const primaryUrl = allUrls[0];
-  const effectiveText = trimmed || primaryUrl || 'Untitled';
 
-  const status = await getFirstColumnId();
+  const supabase = createServiceRoleClient();
+
+  if (primaryUrl) {
+    const mode = onDuplicate ?? (await getCaptureDuplicateMode(supabase));
+    const existing = mode === 'create' ? null : await findCardBySourceUrl(supabase, primaryUrl);
+    if (existing && mode === 'existing') {
+      return { id: existing.id, duplicate: 'existing', notice: `Already saved as “${existing.title}”` };
+    }
+    if (existing) {
+      const notices = await appendCaptureToCard(supabase, existing, parsed, files, origin);
+      revalidatePath('/');
+      return { id: existing.id, duplicate: 'appended', notice: [`Added to “${existing.title}”`, ...notices].join('; ') };
+    }
+  }
+
+  const [status, targets] = await Promise.all([getFirstColumnId(), resolveCaptureTargets(supabase, parsed)]);
+  const notices = [...targets.notices];
+
+  // Before the card exists, so a failed upload doesn't leave a half-made idea
+  const stored = await storeCaptureFiles(supabase, files);
 
-  const lines = effectiveText.split(/\r?\n/);
-  const rawTitle = (lines[0] ?? effectiveText).trim() || 'New idea';
+  const fileTitle = files[0] ? path.parse(files[0].name).name : '';
+  const rawTitle = parsed.title || primaryUrl || fileTitle || 'New idea';
   const title = rawTitle.slice(0, 500);
-  const body =
-    lines.length > 1 ? lines.slice(1).join('\n').trim().slice(0, 2000) : '';
+  const body = parsed.body.slice(0, 2000);
 
-  const id = await createIdea(title, status);
+  const id = await createIdea(title, status, origin);
 
-  const updates: Record<string, unknown> = {};
+  const updates: Record<string, unknown> = captureTokenUpdates(parsed, targets);
   if (body) {
     updates.description = body;
   }
 
   if (primaryUrl) {
+    updates.sourceUrl = primaryUrl;
     const linkHtml = `<p><a href="${escapeHtmlForCapture(primaryUrl)}">${escapeHtmlForCapture(primaryUrl)}</a></p>`;
     if (trimmed && trimmed !== primaryUrl) {
       updates.richContent = `<p>${escapeHtmlForCapture(trimmed)}</p>${linkHtml}`;
@@ -679,23 +1182,48 @@ export async function quickCapture(
     }
   }
 
+  if (parsed.tags.length > 0) {
+    await Promise.all(parsed.tags.map((tag) => ensureTagExists(tag)));
+    updates.tags = parsed.tags;
+  }
+
+  // First photo is the cover, the rest are inspiration; PDFs are plans
+  const [cover, ...moreImages] = stored.filter((s) => s.kind === 'image').map((s) => s.item);
+  const pdfs = stored.filter((s) => s.kind === 'pdf').map((s) => s.item);
+  if (cover) updates.imageUrl = cover.url;
+  if (moreImages.length > 0) updates.inspiration = moreImages;
+  if (pdfs.length > 0) updates.plans = pdfs;
+
   if (Object.keys(updates).length > 0) {
-    await updateProject(id, updates);
+    await updateProject(id, updates, { origin });
   }
 
-  let notice: string | undefined;
-  if (primaryUrl) {
-    const og = await fetchAndSetOgImage(id);
+  let columnId: string | undefined;
+  if (targets.columnId) {
+    const moved = await moveIdeaToKanban(id, targets.columnId, origin);
+    if (moved.ok) columnId = targets.columnId;
+    else notices.push(`${moved.error}; saved to Ideas`);
+  }
+
+  if (primaryUrl && !cover) {
+    const og = await fetchAndSetOgImage(id, origin);
     if (!og.success && og.error) {
-      notice = `Saved idea; preview image: ${og.error}`;
+      notices.push(`preview image: ${og.error}`);
     }
   }
 
-  return { id, ...(notice ? { notice } : {}) };
+  const notice = notices.length > 0 ? `Saved idea; ${notices.join('; ')}` : undefined;
+  return { id, ...(notice ? { notice } : {}), ...(columnId ? { columnId } : {}) };
 }
 
 export async function moveProjectToIdeas(projectId: string) {
   const supabase = createServiceRoleClient();
+  const { data: before } = await supabase
+    .from('projects')
+    .select('id, is_idea, status')
+    .eq('id', projectId)
+    .single();
+
   const { error } = await supabase
     .from('projects')
     .update({ is_idea: true })
@@ -703,6 +1231,12 @@ export async function moveProjectToIdeas(projectId: string) {
 
   if (error) {
     console.error('Error moving project to ideas:', JSON.stringify(error, null, 2));
+  } else {
+    await recordProjectPatch(supabase, before, { is_idea: true }, 'ui');
+    // Leaving the board runs the lane's exit rules
+    if (before && !before.is_idea) {
+      await runColumnTransitionRules(supabase, [{ projectId, from: before.status, to: null }], 'ui');
+    }
   }
 
   revalidatePath('/');
@@ -718,6 +1252,8 @@ export async function toggleProjectPinned(id: string, pinned: boolean) {
 
   if (error) {
     console.error('Error toggling project pinned:', error);
+  } else {
+    await recordProjectEvents(supabase, id, [{ kind: pinned ? 'pinned' : 'unpinned', changes: {} }], 'ui');
   }
   
   revalidatePath('/');
@@ -731,7 +1267,7 @@ export async function moveProjectFromDoneIfNeeded(projectId: string) {
   // Get the project's current status
   const { data: project, error: projectError } = await supabase
     .from('projects')
-    .select('status')
+    .select('status, is_completed')
     .eq('id', projectId)
     .single();
   
@@ -744,6 +1280,7 @@ export async function moveProjectFromDoneIfNeeded(projectId: string) {
   const { data: columns, error: colError } = await supabase
     .from('columns')
     .select('*')
+    .is('deleted_at', null)
     .order('order', { ascending: true });
   
   if (colError || !columns || columns.length === 0) {
@@ -751,47 +1288,35 @@ export async function moveProjectFromDoneIfNeeded(projectId: string) {
     return;
   }
   
-  // Find the Done column
-  const doneColumn = columns.find(c => 
-    c.title.toLowerCase() === 'done' || 
-    c.title.toLowerCase() === 'completed'
-  );
-  
-  // Check if project is in Done column
-  if (!doneColumn || project.status !== doneColumn.id) {
+  // Check if project is in a Done lane
+  if (!isInDoneColumn(project.status, columns)) {
     return; // Project is not in Done, no need to move
   }
   
-  // Find "In Progress" or similar column
-  const inProgressColumn = columns.find(c => 
-    c.title.toLowerCase() === 'in progress' || 
-    c.title.toLowerCase() === 'in-progress' ||
-    c.title.toLowerCase() === 'doing' ||
-    c.title.toLowerCase() === 'working'
-  );
-  
-  // If no In Progress column, use the second column, or first if only one column
-  const targetColumn = inProgressColumn || columns[Math.min(1, columns.length - 1)];
+  const inProgressColumn = findColumnByRole(columns, 'in-progress');
   
-  // Get max position in target column
-  const { data: projectsInColumn } = await supabase
-    .from('projects')
-    .select('position')
-    .eq('status', targetColumn.id)
-    .order('position', { ascending: false })
-    .limit(1);
+  // If no In Progress column, use the second non-done column, or first if only one
+  const openColumns = columns.filter(c => !isDoneColumn(c));
+  const targetColumn = inProgressColumn || openColumns[Math.min(1, openColumns.length - 1)];
+  if (!targetColumn) return;
   
-  const newPosition = projectsInColumn && projectsInColumn.length > 0 
-    ? projectsInColumn[0].position + 1 
-    : 0;
+  const newPosition = await nextLanePosition(supabase, targetColumn.id);
   
   const { error } = await supabase
     .from('projects')
-    .update({ status: targetColumn.id, position: newPosition })
+    .update({ status: targetColumn.id, position: newPosition, is_completed: false, completed_at: null })
     .eq('id', projectId);
   
   if (error) {
     console.error('Error moving project from Done:', error);
+  } else {
+    await recordProjectPatch(
+      supabase,
+      { id: projectId, status: project.status, is_completed: project.is_completed },
+      { status: targetColumn.id, is_completed: false },
+      'ui'
+    );
+    await runColumnTransitionRules(supabase, [{ projectId, from: project.status, to: targetColumn.id }], 'ui');
   }
   
   revalidatePath('/');
@@ -799,32 +1324,74 @@ export async function moveProjectFromDoneIfNeeded(projectId: string) {
 
 type ServiceClient = ReturnType<typeof createServiceRoleClient>;
 
-/** Matches board "done" lanes; avoids treating "Incomplete" as done (substring "complete"). */
-function findDoneColumn(columns: Array<{ id: string; title: string }>) {
-  return columns.find((c) => {
-    const x = c.title.toLowerCase().trim();
-    if (x.includes('incomplete')) return false;
-    if (/\bdone\b/.test(x) || x.includes('completed')) return true;
-    return x.includes('complete');
-  });
+/**
+ * `completed_at` follows `is_completed`. Re-completing a card that is already
+ * done keeps its original completion date (the calendar plots by it).
+ */
+function completionStamp(
+  wasCompleted: boolean | null | undefined,
+  completed: boolean
+): { completed_at?: string | null } {
+  if (!completed) return { completed_at: null };
+  return wasCompleted ? {} : { completed_at: new Date().toISOString() };
+}
+
+/**
+ * Normalises a blocked-by list: drops self and unknown ids, and refuses edits
+ * that would leave two cards waiting on each other.
+ */
+async function resolveBlockedBy(supabase: ServiceClient, projectId: string, ids: unknown): Promise<string[]> {
+  const wanted = Array.isArray(ids)
+    ? [...new Set(ids.filter((i): i is string => typeof i === 'string' && i !== projectId))]
+    : [];
+  if (wanted.length === 0) return [];
+
+  const { data } = await supabase.from('projects').select('id, blocked_by');
+  const byId = new Map((data ?? []).map((p) => [p.id as string, { blockedBy: (p.blocked_by ?? []) as string[] }]));
+  const known = wanted.filter((id) => byId.has(id));
+  if (known.some((id) => createsDependencyCycle(projectId, id, byId))) {
+    throw new Error('Failed to update blockers: that would create a circular dependency');
+  }
+  return known;
+}
+
+/**
+ * Validates a new parent for `projectId` and puts the card at the end of its
+ * new siblings. Refuses parents that are the card itself or one of its
+ * descendants.
+ */
+async function resolveParent(
+  supabase: ServiceClient,
+  projectId: string,
+  parentId: unknown
+): Promise<{ parent_id: string | null; child_position: number }> {
+  if (typeof parentId !== 'string' || !parentId) return { parent_id: null, child_position: 0 };
+  const problem = await validateProjectParent(supabase, projectId, parentId);
+  if (problem) throw new Error(`Failed to set parent project: ${problem}`);
+  const { count } = await supabase
+    .from('projects')
+    .select('*', { count: 'exact', head: true })
+    .eq('parent_id', parentId);
+  return { parent_id: parentId, child_position: count ?? 0 };
 }
 
 async function persistProjectCompletedState(
   supabase: ServiceClient,
   projectId: string,
-  project: { status: string; position: number },
-  columns: Array<{ id: string; title: string; order: number }>,
+  project: { status: string; position: number; is_completed?: boolean | null },
+  columns: Array<{ id: string; title: string; order: number; role: ColumnRole }>,
   completed: boolean
 ): Promise<{ status: string; position: number; isCompleted: boolean } | null> {
   const firstColumn = columns[0];
+  const stamp = completionStamp(project.is_completed, completed);
   const doneColumn = findDoneColumn(columns);
-  const inDoneColumn = Boolean(doneColumn && project.status === doneColumn.id);
+  const inDoneColumn = isInDoneColumn(project.status, columns);
 
   if (completed) {
     if (inDoneColumn) {
       const { error } = await supabase
         .from('projects')
-        .update({ is_completed: true })
+        .update({ is_completed: true, ...stamp })
         .eq('id', projectId);
       if (error) {
         console.error('Error setting project completed:', error);
@@ -834,17 +1401,14 @@ async function persistProjectCompletedState(
       return { status: project.status, position: project.position, isCompleted: true };
     }
     if (doneColumn) {
-      const { count } = await supabase
-        .from('projects')
-        .select('*', { count: 'exact', head: true })
-        .eq('status', doneColumn.id);
-      const newPosition = count ?? 0;
+      const newPosition = await nextLanePosition(supabase, doneColumn.id);
       const { error } = await supabase
         .from('projects')
         .update({
           status: doneColumn.id,
           position: newPosition,
           is_completed: true,
+          ...stamp,
         })
         .eq('id', projectId);
       if (error) {
@@ -856,7 +1420,7 @@ async function persistProjectCompletedState(
     }
     const { error } = await supabase
       .from('projects')
-      .update({ is_completed: true })
+      .update({ is_completed: true, ...stamp })
       .eq('id', projectId);
     if (error) {
       console.error('Error setting project completed (no done column):', error);
@@ -867,17 +1431,14 @@ async function persistProjectCompletedState(
   }
 
   if (inDoneColumn && firstColumn) {
-    const { count } = await supabase
-      .from('projects')
-      .select('*', { count: 'exact', head: true })
-      .eq('status', firstColumn.id);
-    const newPosition = count ?? 0;
+    const newPosition = await nextLanePosition(supabase, firstColumn.id);
     const { error } = await supabase
       .from('projects')
       .update({
         status: firstColumn.id,
         position: newPosition,
         is_completed: false,
+        ...stamp,
       })
       .eq('id', projectId);
     if (error) {
@@ -890,7 +1451,7 @@ async function persistProjectCompletedState(
 
   const { error } = await supabase
     .from('projects')
-    .update({ is_completed: false })
+    .update({ is_completed: false, ...stamp })
     .eq('id', projectId);
   if (error) {
     console.error('Error clearing project completed:', error);
@@ -900,6 +1461,24 @@ async function persistProjectCompletedState(
   return { status: project.status, position: project.position, isCompleted: false };
 }
 
+/** History plus lane rules for a completion toggle that may have moved the card. */
+async function afterCompletedStateChange(
+  supabase: ServiceClient,
+  projectId: string,
+  before: { status: string; is_completed?: boolean | null },
+  result: { status: string; isCompleted: boolean } | null
+) {
+  if (!result) return;
+  await recordProjectPatch(
+    supabase,
+    { id: projectId, status: before.status, is_completed: Boolean(before.is_completed) },
+    { status: result.status, is_completed: result.isCompleted },
+    'ui'
+  );
+  await runColumnTransitionRules(supabase, [{ projectId, from: before.status, to: result.status }], 'ui');
+  if (result.isCompleted && !before.is_completed) await spawnRecurringOccurrences(supabase, [projectId], 'ui');
+}
+
 /**
  * Sets completion from explicit intent (e.g. project editor checkbox).
  * Keeps `is_completed` and kanban `status` in sync when a Done-style column exists.
@@ -911,7 +1490,7 @@ export async function setProjectCompletedState(
   const supabase = createServiceRoleClient();
   const { data: project, error: pErr } = await supabase
     .from('projects')
-    .select('status, position')
+    .select('status, position, is_completed')
     .eq('id', projectId)
     .single();
   if (pErr || !project) {
@@ -921,58 +1500,438 @@ export async function setProjectCompletedState(
   const { data: columns, error: cErr } = await supabase
     .from('columns')
     .select('*')
+    .is('deleted_at', null)
     .order('order', { ascending: true });
   if (cErr || !columns?.length) {
     console.error('setProjectCompletedState: columns', cErr);
     return null;
   }
-  return persistProjectCompletedState(supabase, projectId, project, columns, completed);
+  const result = await persistProjectCompletedState(supabase, projectId, project, columns, completed);
+  await afterCompletedStateChange(supabase, projectId, project, result);
+  return result;
+}
+
+/** Toggles done state from current column (e.g. todo widget). `currentStatus` is ignored; DB is source of truth. */
+export async function toggleProjectCompletion(
+  projectId: string,
+  _currentStatus: string
+): Promise<{ status: string; position: number; isCompleted: boolean } | null> {
+  const supabase = createServiceRoleClient();
+  const { data: project, error: pErr } = await supabase
+    .from('projects')
+    .select('status, position, is_completed')
+    .eq('id', projectId)
+    .single();
+  if (pErr || !project) {
+    console.error('toggleProjectCompletion: project', pErr);
+    return null;
+  }
+  const { data: columns, error: cErr } = await supabase
+    .from('columns')
+    .select('*')
+    .is('deleted_at', null)
+    .order('order', { ascending: true });
+  if (cErr || !columns?.length) {
+    console.error('toggleProjectCompletion: columns', cErr);
+    return null;
+  }
+  const inDone = isInDoneColumn(project.status, columns);
+  const result = await persistProjectCompletedState(supabase, projectId, project, columns, !inDone);
+  await afterCompletedStateChange(supabase, projectId, project, result);
+  return result;
+}
+
+/** Archives a completed card (off the board, still in Completed and search) or puts it back. */
+export async function setProjectArchived(id: string, archived: boolean) {
+  const supabase = createServiceRoleClient();
+  const now = new Date().toISOString();
+  const patch = archived ? { archived_at: now } : { archived_at: null, unarchived_at: now };
+  let query = supabase.from('projects').update(patch).eq('id', id);
+  // Only completed cards can be archived
+  if (archived) query = query.eq('is_completed', true);
+  const { data, error } = await query.select('id');
+  if (error) {
+    console.error('Error archiving project:', error);
+    throw new Error(archived ? 'Failed to archive project' : 'Failed to unarchive project');
+  }
+  if (archived && (data ?? []).length === 0) throw new Error('Only completed projects can be archived');
+
+  await recordProjectEvents(supabase, id, [{ kind: archived ? 'archived' : 'unarchived', changes: {} }], 'ui');
+  revalidatePath('/');
+}
+
+/**
+ * Trashing is a soft delete, so `parent_id … ON DELETE SET NULL` never fires:
+ * live sub-projects of the trashed card are detached here instead. The 'trashed'
+ * event keeps their ids so restoreTrashItem can attach them again.
+ */
+async function recordTrashedProject(supabase: ServiceClient, id: string) {
+  const { data: children } = await supabase
+    .from('projects')
+    .select(PROJECT_EVENT_COLUMNS)
+    .eq('parent_id', id)
+    .is('deleted_at', null);
+  const detached: string[] = [];
+  for (const child of children ?? []) {
+    const { error } = await supabase.from('projects').update({ parent_id: null }).eq('id', child.id);
+    if (error) {
+      console.error('Error detaching sub-project:', error);
+      continue;
+    }
+    await recordProjectPatch(supabase, child, { parent_id: null }, 'ui');
+    detached.push(child.id);
+  }
+  const changes: Record<string, ProjectFieldChange> = detached.length > 0 ? { children: { from: detached, to: [] } } : {};
+  await recordProjectEvents(supabase, id, [{ kind: 'trashed', changes }], 'ui');
+}
+
+/** Attaches the sub-projects detached when the card was trashed, unless they've been moved since. */
+async function reattachRestoredChildren(supabase: ServiceClient, id: string) {
+  const { data: trashed } = await supabase
+    .from('project_events')
+    .select('changes')
+    .eq('project_id', id)
+    .eq('kind', 'trashed')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  const ids = trashed?.changes?.children?.from;
+  if (!Array.isArray(ids) || ids.length === 0) return;
+
+  const { data: children } = await supabase
+    .from('projects')
+    .select(PROJECT_EVENT_COLUMNS)
+    .in('id', ids)
+    .is('parent_id', null)
+    .is('deleted_at', null);
+  for (const child of children ?? []) {
+    const { error } = await supabase.from('projects').update({ parent_id: id }).eq('id', child.id);
+    if (error) console.error('Error reattaching sub-project:', error);
+    else await recordProjectPatch(supabase, child, { parent_id: id }, 'ui');
+  }
+}
+
+/** Moves a project (or idea) to the Trash; see restoreTrashItem / deleteTrashItemPermanently. */
+export async function deleteProject(id: string) {
+  const supabase = createServiceRoleClient();
+  const { error } = await supabase
+    .from('projects')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', id);
+  if (error) console.error('Error deleting project:', error);
+  else await recordTrashedProject(supabase, id);
+  revalidatePath('/');
+}
+
+/**
+ * Copies files from the board-uploads bucket to new objects, returning old URL
+ * -> new URL. All or nothing: a failed copy removes the ones already made.
+ */
+async function copyBoardUploads(supabase: ServiceClient, urls: string[]): Promise<Map<string, string>> {
+  const supabaseHost = getSupabaseHost();
+  const copies = new Map<string, string>();
+  const created: string[] = [];
+  for (const url of urls) {
+    const name = boardUploadObjectName(url, supabaseHost);
+    if (!name) continue;
+    const copyName = `${uuidv4()}${path.extname(name)}`;
+    const { error } = await supabase.storage.from('board-uploads').copy(name, copyName);
+    if (error) {
+      console.error('Error copying storage object:', error);
+      if (created.length > 0) await supabase.storage.from('board-uploads').remove(created);
+      throw new Error('Failed to copy project files');
+    }
+    created.push(copyName);
+    copies.set(url, supabase.storage.from('board-uploads').getPublicUrl(copyName).data.publicUrl);
+  }
+  return copies;
+}
+
+/**
+ * Deep-copies a card into the same lane (or the Ideas bin): notes, materials,
+ * cover, attachments and, per `options`, plans, inspiration, tags and group.
+ * Uploaded files are copied so neither card shares a storage object with the
+ * other. Dependencies, recurrence and pinning stay with the original.
+ */
+export async function duplicateProject(id: string, options: Partial<DuplicateProjectOptions> = {}): Promise<string> {
+  const opts = { ...DEFAULT_DUPLICATE_OPTIONS, ...options };
+  const supabase = createServiceRoleClient();
+  const { data: source, error } = await supabase
+    .from('projects')
+    .select('title, description, rich_content, materials_list, plans, inspiration, attachments, image_url, tags, parent_project_id, parent_id, status, is_task, is_idea, start_date, due_date')
+    .eq('id', id)
+    .is('deleted_at', null)
+    .single();
+  if (error || !source) {
+    console.error('Error loading project to duplicate:', error);
+    throw new Error('Failed to duplicate project: not found');
+  }
+
+  const isIdea = Boolean(source.is_idea);
+  if (!isIdea) {
+    const wip = await checkWipLimit(supabase, source.status);
+    if (wip?.blocked) throw new Error(`${wipLimitMessage(wip)}; not duplicated`);
+  }
+  const { data: column } = await supabase
+    .from('columns')
+    .select('role')
+    .eq('id', source.status)
+    .maybeSingle();
+
+  const plans = opts.includePlans ? parseJsonList(source.plans) : [];
+  const inspiration = opts.includeInspiration ? parseJsonList(source.inspiration) : [];
+  const attachments = parseJsonList(source.attachments);
+  const materials = parseJsonList(source.materials_list);
+
+  const urlMap = await copyBoardUploads(
+    supabase,
+    collectProjectFileUrls({
+      imageUrl: source.image_url,
+      richContent: source.rich_content,
+      lists: [plans, inspiration, attachments],
+    })
+  );
+
+  const [laneEnd, { count: siblingCount }] = await Promise.all([
+    isIdea ? Promise.resolve(0) : nextLanePosition(supabase, source.status),
+    source.parent_id
+      ? supabase.from('projects').select('*', { count: 'exact', head: true }).eq('parent_id', source.parent_id)
+      : Promise.resolve({ count: 0 }),
+  ]);
+
+  const newId = uuidv4();
+  const completed = !isIdea && isDoneColumn(column);
+  const { error: insertError } = await supabase.from('projects').insert({
+    id: newId,
+    title: `${source.title} (copy)`,
+    description: source.description,
+    rich_content: copyRichContent(source.rich_content, urlMap, opts.resetChecklists),
+    materials_list: JSON.stringify(
+      copyJsonList(materials, uuidv4, urlMap, opts.resetMaterialFlags ? { toBuy: false, toBuild: false } : {})
+    ),
+    plans: JSON.stringify(copyJsonList(plans, uuidv4, urlMap)),
+    inspiration: JSON.stringify(copyJsonList(inspiration, uuidv4, urlMap)),
+    attachments: copyJsonList(attachments, uuidv4, urlMap),
+    image_url: source.image_url ? urlMap.get(source.image_url) ?? source.image_url : null,
+    tags: opts.includeTags ? source.tags : null,
+    parent_project_id: opts.includeGroup ? source.parent_project_id : null,
+    parent_id: source.parent_id,
+    child_position: siblingCount ?? 0,
+    status: source.status,
+    position: laneEnd,
+    is_task: source.is_task,
+    is_idea: isIdea,
+    start_date: source.start_date,
+    due_date: source.due_date,
+    ...(completed ? { is_completed: true, completed_at: new Date().toISOString() } : {}),
+  });
+  if (insertError) {
+    console.error('Error duplicating project:', insertError);
+    if (urlMap.size > 0) {
+      await supabase.storage.from('board-uploads').remove([...urlMap.values()].map((url) => extractFileName(url)));
+    }
+    throw new Error('Failed to duplicate project');
+  }
+
+  await recordProjectEvents(supabase, newId, [{ kind: 'created', changes: {} }], 'ui');
+  if (!isIdea) {
+    await runColumnTransitionRules(supabase, [{ projectId: newId, from: null, to: source.status }], 'ui');
+  }
+  revalidatePath('/');
+  return newId;
+}
+
+// --- Bulk actions (multi-select on the board and in Ideas) ---
+// Each runs as one server call; rows that already match are left alone.
+
+/** Moves cards (or ideas) to the end of a lane, same rules as a single move. */
+export async function bulkMoveProjects(ids: string[], columnId: string) {
+  if (ids.length === 0) return;
+  const supabase = createServiceRoleClient();
+  const { data: rows, error: fetchError } = await supabase
+    .from('projects')
+    .select('id, status, is_idea, is_completed')
+    .in('id', ids);
+  if (fetchError) {
+    console.error('Error loading cards to move:', fetchError);
+    throw new Error('Failed to move cards');
+  }
+  const incoming = (rows ?? []).filter((row) => row.is_idea || row.status !== columnId);
+  if (incoming.length === 0) return;
+
+  const wip = await checkWipLimit(supabase, columnId, incoming.length);
+  if (wip?.blocked) throw new Error(`Failed to move cards: ${wipLimitMessage(wip)}`);
+
+  const { data: column } = await supabase
+    .from('columns')
+    .select('role')
+    .eq('id', columnId)
+    .maybeSingle();
+  const enteringDone = isDoneColumn(column);
+
+  let position = await nextLanePosition(supabase, columnId);
+
+  const arrivals: Array<{ projectId: string; from: string | null; to: string }> = [];
+  const newlyCompleted: string[] = [];
+  for (const row of incoming) {
+    const patch: Record<string, unknown> = { status: columnId, position: position++ };
+    if (row.is_idea) patch.is_idea = false;
+    if (column) {
+      patch.is_completed = enteringDone;
+      Object.assign(patch, completionStamp(row.is_completed, enteringDone));
+    }
+    const { error } = await supabase.from('projects').update(patch).eq('id', row.id);
+    if (error) {
+      console.error('Error moving card:', error);
+      continue;
+    }
+    await recordProjectPatch(supabase, row, patch, 'ui');
+    arrivals.push({ projectId: row.id, from: row.is_idea ? null : row.status, to: columnId });
+    if (enteringDone && !row.is_completed) newlyCompleted.push(row.id);
+  }
+  await runColumnTransitionRules(supabase, arrivals, 'ui');
+  await spawnRecurringOccurrences(supabase, newlyCompleted, 'ui');
+  revalidatePath('/');
+}
+
+export async function bulkUpdateProjectTags(ids: string[], changes: { add?: string[]; remove?: string[] }) {
+  const add = changes.add ?? [];
+  const remove = changes.remove ?? [];
+  if (ids.length === 0 || (add.length === 0 && remove.length === 0)) return;
+  const supabase = createServiceRoleClient();
+  const { data: rows, error: fetchError } = await supabase
+    .from('projects')
+    .select('id, tags')
+    .in('id', ids);
+  if (fetchError) {
+    console.error('Error loading cards to retag:', fetchError);
+    throw new Error('Failed to update tags');
+  }
+  for (const tag of add) await ensureTagExists(tag);
+
+  for (const row of rows ?? []) {
+    const current: string[] = row.tags ?? [];
+    const tags = [...new Set([...current.filter((t) => !remove.includes(t)), ...add])];
+    if (tags.length === current.length && tags.every((t) => current.includes(t))) continue;
+    const { error } = await supabase.from('projects').update({ tags }).eq('id', row.id);
+    if (error) {
+      console.error('Error updating tags:', error);
+      continue;
+    }
+    await recordProjectPatch(supabase, row, { tags }, 'ui');
+  }
+  revalidatePath('/');
+}
+
+export async function bulkSetProjectGroup(ids: string[], groupId: string | null) {
+  if (ids.length === 0) return;
+  const supabase = createServiceRoleClient();
+  const { data: rows } = await supabase
+    .from('projects')
+    .select('id, parent_project_id')
+    .in('id', ids);
+  const changed = (rows ?? []).filter((row) => (row.parent_project_id ?? null) !== groupId);
+  if (changed.length === 0) return;
+
+  const { error } = await supabase
+    .from('projects')
+    .update({ parent_project_id: groupId })
+    .in('id', changed.map((row) => row.id));
+  if (error) {
+    console.error('Error setting project group:', error);
+    throw new Error('Failed to set project group');
+  }
+  for (const row of changed) await recordProjectPatch(supabase, row, { parent_project_id: groupId }, 'ui');
+  revalidatePath('/');
+}
+
+export async function bulkSetProjectsPinned(ids: string[], pinned: boolean) {
+  if (ids.length === 0) return;
+  const supabase = createServiceRoleClient();
+  const { data: rows } = await supabase
+    .from('projects')
+    .select('id, pinned')
+    .in('id', ids);
+  const changed = (rows ?? []).filter((row) => Boolean(row.pinned) !== pinned).map((row) => row.id as string);
+  if (changed.length === 0) return;
+
+  const { error } = await supabase
+    .from('projects')
+    .update({ pinned })
+    .in('id', changed);
+  if (error) {
+    console.error('Error pinning projects:', error);
+    throw new Error('Failed to pin projects');
+  }
+  for (const id of changed) {
+    await recordProjectEvents(supabase, id, [{ kind: pinned ? 'pinned' : 'unpinned', changes: {} }], 'ui');
+  }
+  revalidatePath('/');
 }
 
-/** Toggles done state from current column (e.g. todo widget). `currentStatus` is ignored; DB is source of truth. */
-export async function toggleProjectCompletion(
-  projectId: string,
-  _currentStatus: string
-): Promise<{ status: string; position: number; isCompleted: boolean } | null> {
+/** Marks cards complete, moving them into the Done lane like the editor checkbox. */
+export async function bulkCompleteProjects(ids: string[]) {
+  if (ids.length === 0) return;
   const supabase = createServiceRoleClient();
-  const { data: project, error: pErr } = await supabase
-    .from('projects')
-    .select('status, position')
-    .eq('id', projectId)
-    .single();
-  if (pErr || !project) {
-    console.error('toggleProjectCompletion: project', pErr);
-    return null;
-  }
-  const { data: columns, error: cErr } = await supabase
-    .from('columns')
-    .select('*')
-    .order('order', { ascending: true });
+  const [{ data: rows }, { data: columns, error: cErr }] = await Promise.all([
+    supabase.from('projects').select('id, status, position, is_completed').in('id', ids),
+    supabase.from('columns').select('*').is('deleted_at', null).order('order', { ascending: true }),
+  ]);
   if (cErr || !columns?.length) {
-    console.error('toggleProjectCompletion: columns', cErr);
-    return null;
+    console.error('bulkCompleteProjects: columns', cErr);
+    throw new Error('Failed to complete projects');
   }
-  const doneColumn = findDoneColumn(columns);
-  const inDone = Boolean(doneColumn && project.status === doneColumn.id);
-  return persistProjectCompletedState(supabase, projectId, project, columns, !inDone);
+  for (const row of (rows ?? []).filter((r) => !r.is_completed)) {
+    const result = await persistProjectCompletedState(supabase, row.id, row, columns, true);
+    await afterCompletedStateChange(supabase, row.id, row, result);
+  }
+  revalidatePath('/');
 }
 
-export async function updateColumnOrder(columnId: string, projectIds: string[]) {
+export async function bulkMoveProjectsToIdeas(ids: string[]) {
+  if (ids.length === 0) return;
   const supabase = createServiceRoleClient();
-  // Batch update all projects in the column to ensure strict ordering and correct status
-  for (let i = 0; i < projectIds.length; i++) {
-    await supabase
-      .from('projects')
-      .update({ position: i, status: columnId })
-      .eq('id', projectIds[i]);
-  }
+  const { data: rows } = await supabase
+    .from('projects')
+    .select('id, is_idea, status')
+    .in('id', ids);
+  const changed = (rows ?? []).filter((row) => !row.is_idea);
+  if (changed.length === 0) return;
+
+  const { error } = await supabase
+    .from('projects')
+    .update({ is_idea: true })
+    .in('id', changed.map((row) => row.id));
+  if (error) {
+    console.error('Error moving projects to ideas:', error);
+    throw new Error('Failed to move projects to ideas');
+  }
+  for (const row of changed) await recordProjectPatch(supabase, row, { is_idea: true }, 'ui');
+  await runColumnTransitionRules(
+    supabase,
+    changed.map((row) => ({ projectId: row.id, from: row.status, to: null })),
+    'ui'
+  );
   revalidatePath('/');
 }
 
-export async function deleteProject(id: string) {
+/** Moves cards to the Trash in one update. */
+export async function bulkDeleteProjects(ids: string[]) {
+  if (ids.length === 0) return;
   const supabase = createServiceRoleClient();
-  const { error } = await supabase.from('projects').delete().eq('id', id);
-  if (error) console.error('Error deleting project:', error);
+  const { data: trashed, error } = await supabase
+    .from('projects')
+    .update({ deleted_at: new Date().toISOString() })
+    .in('id', ids)
+    .is('deleted_at', null)
+    .select('id');
+  if (error) {
+    console.error('Error deleting projects:', error);
+    throw new Error('Failed to delete projects');
+  }
+  for (const row of trashed ?? []) {
+    await recordTrashedProject(supabase, row.id);
+  }
   revalidatePath('/');
 }
 
@@ -984,6 +1943,7 @@ export async function getColumns() {
   const { data, error } = await supabase
     .from('columns')
     .select('*')
+    .is('deleted_at', null)
     .order('order', { ascending: true });
 
   if (error) {
@@ -995,9 +1955,9 @@ export async function getColumns() {
   if (rows.length === 0) {
     // Seed default columns if none exist
     const defaults = [
-      { id: uuidv4(), title: 'Todo', order: 0 },
-      { id: uuidv4(), title: 'In Progress', order: 1 },
-      { id: uuidv4(), title: 'Done', order: 2 },
+      { id: uuidv4(), title: 'Todo', order: 0, role: 'todo' as ColumnRole },
+      { id: uuidv4(), title: 'In Progress', order: 1, role: 'in-progress' as ColumnRole },
+      { id: uuidv4(), title: 'Done', order: 2, role: 'done' as ColumnRole },
     ];
     const { error: insertError } = await supabase.from('columns').insert(defaults);
     if (insertError) console.error('Error seeding columns:', insertError);
@@ -1008,7 +1968,7 @@ export async function getColumns() {
 
 export async function createColumn(title: string) {
   const supabase = createServiceRoleClient();
-  const { count } = await supabase.from('columns').select('*', { count: 'exact', head: true });
+  const { count } = await supabase.from('columns').select('*', { count: 'exact', head: true }).is('deleted_at', null);
   const { error } = await supabase.from('columns').insert({
     id: uuidv4(),
     title,
@@ -1026,9 +1986,50 @@ export async function updateColumn(id: string, title: string) {
   revalidatePath('/');
 }
 
+export async function updateColumnRole(id: string, role: ColumnRole) {
+  if (!isColumnRole(role)) throw new Error(`Unknown column role: ${role}`);
+  const supabase = createServiceRoleClient();
+  const { error } = await supabase.from('columns').update({ role }).eq('id', id);
+  if (error) {
+    console.error('Error updating column role:', error);
+    throw new Error('Failed to update column role');
+  }
+  revalidatePath('/');
+}
+
+export async function updateColumnRules(id: string, rules: ColumnRule[]) {
+  const supabase = createServiceRoleClient();
+  const { error } = await supabase
+    .from('columns')
+    .update({ rules: parseColumnRules(rules) })
+    .eq('id', id);
+  if (error) {
+    console.error('Error updating column rules:', error);
+    throw new Error('Failed to update column rules');
+  }
+  revalidatePath('/');
+}
+
+export async function updateColumnWipLimit(id: string, wipLimit: number | null, wipEnforcement: WipEnforcement) {
+  if (!isWipEnforcement(wipEnforcement)) throw new Error(`Unknown WIP enforcement: ${wipEnforcement}`);
+  const supabase = createServiceRoleClient();
+  const { error } = await supabase
+    .from('columns')
+    .update({ wip_limit: normalizeWipLimit(wipLimit), wip_enforcement: wipEnforcement })
+    .eq('id', id);
+  if (error) {
+    console.error('Error updating column WIP limit:', error);
+    throw new Error('Failed to update column WIP limit');
+  }
+  revalidatePath('/');
+}
+
 export async function deleteColumn(id: string) {
   const supabase = createServiceRoleClient();
-  const { error } = await supabase.from('columns').delete().eq('id', id);
+  const { error } = await supabase
+    .from('columns')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', id);
   if (error) console.error('Error deleting column:', error);
   revalidatePath('/');
 }
@@ -1043,6 +2044,8 @@ export async function updateColumnsOrder(newOrder: { id: string; order: number }
 
 // --- Settings ---
 
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
 export async function getSettings() {
   // Use service role client to bypass RLS for server-side reads
   const supabase = createServiceRoleClient();
@@ -1060,6 +2063,11 @@ export async function getSettings() {
         visibleTags: data.visible_tags || [],
         hiddenProjects: data.hidden_projects || [],
         hiddenTags: data.hidden_tags || [],
+        trashRetentionDays: data.trash_retention_days ?? DEFAULT_TRASH_RETENTION_DAYS,
+        autoArchiveDays: data.auto_archive_days ?? DEFAULT_AUTO_ARCHIVE_DAYS,
+        captureDuplicateMode: isCaptureDuplicateMode(data.capture_duplicate_mode)
+          ? data.capture_duplicate_mode
+          : DEFAULT_CAPTURE_DUPLICATE_MODE,
     };
   }
   
@@ -1094,6 +2102,9 @@ export async function getSettings() {
             visibleTags: [],
             hiddenProjects: [],
             hiddenTags: [],
+            trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+            autoArchiveDays: DEFAULT_AUTO_ARCHIVE_DAYS,
+            captureDuplicateMode: DEFAULT_CAPTURE_DUPLICATE_MODE,
           };
       }
   }
@@ -1107,6 +2118,9 @@ export async function getSettings() {
     visibleTags: [],
     hiddenProjects: [],
     hiddenTags: [],
+    trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+    autoArchiveDays: DEFAULT_AUTO_ARCHIVE_DAYS,
+    captureDuplicateMode: DEFAULT_CAPTURE_DUPLICATE_MODE,
   };
 }
 
@@ -1124,12 +2138,107 @@ export async function updateSettings(data: Record<string, unknown>) {
   if (data.visibleTags !== undefined) dbData.visible_tags = data.visibleTags;
   if (data.hiddenProjects !== undefined) dbData.hidden_projects = data.hiddenProjects;
   if (data.hiddenTags !== undefined) dbData.hidden_tags = data.hiddenTags;
+  if (data.trashRetentionDays !== undefined) {
+    dbData.trash_retention_days = data.trashRetentionDays;
+    dbData.trash_purged_at = null;
+  }
+  if (data.autoArchiveDays !== undefined) {
+    dbData.auto_archive_days = data.autoArchiveDays;
+    // Apply the new window on the next board load rather than up to an hour later
+    dbData.auto_archived_at = null;
+  }
+  if (isCaptureDuplicateMode(data.captureDuplicateMode)) dbData.capture_duplicate_mode = data.captureDuplicateMode;
 
   const { error } = await supabase.from('settings').update(dbData).eq('id', current.id);
   if (error) console.error('Error updating settings:', error);
   revalidatePath('/');
 }
 
+// --- Device tokens ---
+
+const API_TOKEN_COLUMNS = 'id, name, token_prefix, scope, expires_at, last_used_at, revoked_at, created_at';
+
+function mapApiToken(row: {
+  id: string;
+  name: string;
+  token_prefix: string;
+  scope: string;
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}): ApiTokenSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.token_prefix,
+    scope: isApiTokenScope(row.scope) ? row.scope : 'capture',
+    expiresAt: row.expires_at,
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+    createdAt: row.created_at,
+  };
+}
+
+export async function getApiTokens(): Promise<ApiTokenSummary[]> {
+  const supabase = createServiceRoleClient();
+  const { data, error } = await supabase
+    .from('api_tokens')
+    .select(API_TOKEN_COLUMNS)
+    .order('created_at', { ascending: false });
+  if (error) {
+    console.error('Error fetching API tokens:', error);
+    return [];
+  }
+  return (data ?? []).map(mapApiToken);
+}
+
+/**
+ * Creates a device token. The returned `token` is the only time the secret is
+ * available; the table keeps its hash.
+ */
+export async function createApiToken(input: {
+  name: string;
+  scope: ApiTokenScope;
+  /** Days until it stops working; omit or 0 for no expiry. */
+  expiresInDays?: number | null;
+}): Promise<{ token: string; summary: ApiTokenSummary }> {
+  const name = input.name.trim().slice(0, 100);
+  if (!name) throw new Error('Failed to create token: give it a name');
+  if (!isApiTokenScope(input.scope)) throw new Error('Failed to create token: unknown scope');
+  const days = Number(input.expiresInDays);
+  const expiresAt = Number.isFinite(days) && days > 0
+    ? new Date(Date.now() + Math.min(days, 3650) * 24 * 60 * 60 * 1000).toISOString()
+    : null;
+
+  const supabase = createServiceRoleClient();
+  const { token, hash, prefix } = generateApiToken();
+  const { data, error } = await supabase
+    .from('api_tokens')
+    .insert({ name, token_hash: hash, token_prefix: prefix, scope: input.scope, expires_at: expiresAt })
+    .select(API_TOKEN_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error('Error creating API token:', error);
+    throw new Error('Failed to create token');
+  }
+  return { token, summary: mapApiToken(data) };
+}
+
+export async function revokeApiToken(id: string): Promise<void> {
+  const supabase = createServiceRoleClient();
+  const { error } = await supabase
+    .from('api_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('revoked_at', null);
+  if (error) {
+    console.error('Error revoking API token:', error);
+    throw new Error('Failed to revoke token');
+  }
+}
+
 /**
  * Server-side re-fetch of an already-generated image URL (e.g. Pollinations cache hit)
  * and upload to Supabase storage. Returns the stable Supabase URL, or null on failure.
@@ -1231,6 +2340,120 @@ export async function deleteImageStyle(id: string): Promise<void> {
   if (error) throw new Error(error.message);
 }
 
+// --- Project Templates ---
+
+export async function getProjectTemplates(): Promise<ProjectTemplate[]> {
+  const supabase = createServiceRoleClient();
+  const { data, error } = await supabase
+    .from('project_templates')
+    .select(PROJECT_TEMPLATE_COLUMNS)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+  if (error) {
+    console.error('Error fetching project templates:', error);
+    return [];
+  }
+  return (data ?? []).map(mapProjectTemplate);
+}
+
+export async function createProjectTemplate(input: ProjectTemplateInput): Promise<ProjectTemplate> {
+  if (!input.name.trim()) throw new Error('Template name is required');
+  const supabase = createServiceRoleClient();
+  const { count } = await supabase
+    .from('project_templates')
+    .select('*', { count: 'exact', head: true });
+  const { data, error } = await supabase
+    .from('project_templates')
+    .insert({ id: uuidv4(), ...toTemplateRow(input), position: count ?? 0 })
+    .select(PROJECT_TEMPLATE_COLUMNS)
+    .single();
+  if (error || !data) {
+    console.error('Error creating project template:', error);
+    throw new Error('Failed to create template');
+  }
+  return mapProjectTemplate(data);
+}
+
+export async function updateProjectTemplate(id: string, input: Partial<ProjectTemplateInput>): Promise<void> {
+  if (input.name !== undefined && !input.name.trim()) throw new Error('Template name is required');
+  const supabase = createServiceRoleClient();
+  const { error } = await supabase.from('project_templates').update(toTemplateRow(input)).eq('id', id);
+  if (error) {
+    console.error('Error updating project template:', error);
+    throw new Error('Failed to update template');
+  }
+}
+
+export async function deleteProjectTemplate(id: string): Promise<void> {
+  const supabase = createServiceRoleClient();
+  const { error } = await supabase.from('project_templates').delete().eq('id', id);
+  if (error) {
+    console.error('Error deleting project template:', error);
+    throw new Error('Failed to delete template');
+  }
+}
+
+/** Snapshots a card as a template: body (checklists unticked), materials, tags, group, lane and kind. */
+export async function saveProjectAsTemplate(
+  projectId: string,
+  options: { name: string; imageStyleId?: string | null }
+): Promise<ProjectTemplate> {
+  const supabase = createServiceRoleClient();
+  const { data: project, error } = await supabase
+    .from('projects')
+    .select('description, rich_content, materials_list, tags, parent_project_id, status, is_task, is_idea')
+    .eq('id', projectId)
+    .single();
+  if (error || !project) {
+    console.error('Error loading project for template:', error);
+    throw new Error('Failed to save template: project not found');
+  }
+  return createProjectTemplate({
+    name: options.name,
+    description: project.description,
+    richContent: resetChecklist(project.rich_content),
+    materials: parseTemplateMaterials(project.materials_list),
+    tags: project.tags ?? [],
+    groupId: project.parent_project_id,
+    defaultColumnId: project.is_idea ? null : project.status,
+    imageStyleId: options.imageStyleId ?? null,
+    isTask: Boolean(project.is_task),
+  });
+}
+
+/** Creates a card from a template, with an AI cover when the template names a style. */
+export async function createProjectFromTemplate(
+  templateId: string,
+  data: { title: string; columnId?: string | null; isIdea?: boolean }
+): Promise<{ id: string; status: string; warning?: string }> {
+  const supabase = createServiceRoleClient();
+  const template = await getProjectTemplate(supabase, templateId);
+  if (!template) throw new Error('Template not found');
+
+  let imageUrl: string | null = null;
+  if (template.imageStyleId) {
+    try {
+      imageUrl = await generateProjectImage(
+        { title: data.title, description: template.description ?? undefined },
+        template.imageStyleId
+      );
+    } catch (error) {
+      console.error('Error generating template cover:', error);
+    }
+  }
+
+  const result = await instantiateProjectTemplate(supabase, template, {
+    title: data.title,
+    columnId: data.columnId,
+    asIdea: data.isIdea,
+    imageUrl,
+    origin: 'ui',
+  });
+  if ('error' in result) throw new Error(result.error);
+  revalidatePath('/');
+  return result;
+}
+
 // --- AI & Upload ---
 
 export async function generateProjectImage(
@@ -1254,9 +2477,7 @@ export async function generateProjectImage(
     }
   }
 
-  const basePrompt = stylePromptBase
-    .replace('{title}', projectData.title)
-    .replace('{description}', projectData.description ?? '');
+  const basePrompt = fillCoverPrompt(stylePromptBase, projectData);
 
   // Only fetch images from our own Supabase storage. Any other host is rejected
   // up front so attacker-controlled URLs in inspiration/style data can't be used
@@ -1348,38 +2569,24 @@ export async function generateProjectImage(
     }
   }
 
-  // Strip markdown formatting from Gemini output and clean whitespace
-  // Keep prompt short — long prompts can cause Pollinations to fail
-  const cleanPrompt = enhancedPrompt
-    .replace(/[*_`#[\]]/g, '')
-    .replace(/\n+/g, ' ')
-    .replace(/\s{2,}/g, ' ')
-    .trim()
-    .slice(0, 150);
-
-  const encodedPrompt = encodeURIComponent(cleanPrompt);
-  const seed = Math.floor(Math.random() * 1000000);
-  // Use flux-schnell model: faster, more reliable. Avoid extra params that can cause failures.
-  return `https://image.pollinations.ai/prompt/${encodedPrompt}?seed=${seed}&model=flux-schnell&nologo=true`;
+  return pollinationsImageUrl(enhancedPrompt);
 }
 
-export async function uploadFile(formData: FormData) {
-  const supabase = createServiceRoleClient();
-  const file = formData.get('file') as File;
-  
-  if (!file) {
-    throw new Error('No file uploaded');
-  }
-
-  const fileExt = path.extname(file.name) || '.jpg';
+/** Puts a file in the board-uploads bucket under a fresh name; returns its public URL. */
+async function storeUpload(
+  supabase: ServiceClient,
+  body: File | Uint8Array,
+  fileExt: string,
+  contentType?: string
+): Promise<string> {
   const fileName = `${uuidv4()}${fileExt}`;
-  
-  // Upload to Supabase Storage
+
   const { error: uploadError } = await supabase.storage
     .from('board-uploads')
-    .upload(fileName, file, {
+    .upload(fileName, body, {
       cacheControl: '31536000, immutable',
-      upsert: false
+      upsert: false,
+      ...(contentType ? { contentType } : {}),
     });
 
   if (uploadError) {
@@ -1387,10 +2594,21 @@ export async function uploadFile(formData: FormData) {
     throw new Error(`Upload failed: ${uploadError.message}`);
   }
 
-  // Get public URL
   const { data: { publicUrl } } = supabase.storage
     .from('board-uploads')
     .getPublicUrl(fileName);
+  return publicUrl;
+}
+
+export async function uploadFile(formData: FormData) {
+  const supabase = createServiceRoleClient();
+  const file = formData.get('file') as File;
+  
+  if (!file) {
+    throw new Error('No file uploaded');
+  }
+
+  const publicUrl = await storeUpload(supabase, file, path.extname(file.name) || '.jpg');
 
   return {
     id: uuidv4(),
@@ -1401,6 +2619,26 @@ export async function uploadFile(formData: FormData) {
   };
 }
 
+/**
+ * Stores captured photos and PDFs (already checked by lib/capture-files).
+ * All or nothing: if one upload fails the others are removed again.
+ */
+async function storeCaptureFiles(supabase: ServiceClient, files: CaptureFile[]) {
+  const stored: Array<{ kind: CaptureFile['kind']; item: { id: string; url: string; name: string; type: string; size: number } }> = [];
+  try {
+    for (const file of files) {
+      const url = await storeUpload(supabase, file.bytes, captureFileExtension(file.type), file.type);
+      stored.push({ kind: file.kind, item: { id: uuidv4(), url, name: file.name, type: file.type, size: file.bytes.length } });
+    }
+  } catch (error) {
+    if (stored.length > 0) {
+      await supabase.storage.from('board-uploads').remove(stored.map((s) => extractFileName(s.item.url)));
+    }
+    throw error;
+  }
+  return stored;
+}
+
 // Keep for backward compatibility if needed, but uploadFile is preferred
 export async function uploadProjectImage(formData: FormData) {
     const result = await uploadFile(formData);
@@ -1614,6 +2852,7 @@ export async function deleteMediaFile(fileUrl: string) {
           .from('projects')
           .update(updates)
           .eq('id', project.id);
+        await recordProjectPatch(supabase, project, updates, 'ui');
       }
     }
     
@@ -1767,6 +3006,7 @@ export async function deleteTag(name: string) {
           .from('projects')
           .update({ tags: newTags })
           .eq('id', project.id);
+        await recordProjectPatch(supabase, project, { tags: newTags }, 'ui');
       }
     }
   }
@@ -1839,10 +3079,19 @@ export async function deleteProjectGroup(id: string) {
   const supabase = createServiceRoleClient();
   
   // Remove parent_project_id from all projects in this group
+  const { data: members } = await supabase
+    .from('projects')
+    .select('id, parent_project_id')
+    .eq('parent_project_id', id);
+
   await supabase
     .from('projects')
     .update({ parent_project_id: null })
     .eq('parent_project_id', id);
+
+  for (const member of members ?? []) {
+    await recordProjectPatch(supabase, member, { parent_project_id: null }, 'ui');
+  }
   
   // Delete the project group
   const { error } = await supabase
@@ -1866,6 +3115,7 @@ export async function getAllWidgets() {
   const { data, error } = await supabase
     .from('widgets')
     .select('*')
+    .is('deleted_at', null)
     .order('position', { ascending: true });
   
   if (error) {
@@ -1934,7 +3184,7 @@ export async function deleteWidget(id: string) {
   const supabase = createServiceRoleClient();
   const { error } = await supabase
     .from('widgets')
-    .delete()
+    .update({ deleted_at: new Date().toISOString() })
     .eq('id', id);
   
   if (error) {
@@ -1964,7 +3214,9 @@ export async function getAllMaterials() {
   const supabase = createServiceRoleClient();
   const { data: projects, error } = await supabase
     .from('projects')
-    .select('id, title, tags, parent_project_id, materials_list');
+    .select('id, title, tags, parent_project_id, materials_list')
+    .is('deleted_at', null)
+    .is('archived_at', null);
   
   if (error) {
     console.error('Error fetching projects for materials:', error);
@@ -2035,6 +3287,7 @@ export async function getStandalonePlans(): Promise<StandalonePlan[]> {
   const { data, error } = await supabase
     .from('standalone_plans')
     .select('*')
+    .is('deleted_at', null)
     .order('created_at', { ascending: false });
   
   if (error) {
@@ -2130,7 +3383,7 @@ export async function deleteStandalonePlan(id: string) {
   
   const { error } = await supabase
     .from('standalone_plans')
-    .delete()
+    .update({ deleted_at: new Date().toISOString() })
     .eq('id', id);
   
   if (error) {
@@ -2151,7 +3404,9 @@ export async function getAllPlans(): Promise<Array<StandalonePlan & { source: 's
   // Get plans from projects
   const { data: projects, error } = await supabase
     .from('projects')
-    .select('id, title, plans');
+    .select('id, title, plans')
+    .is('deleted_at', null)
+    .is('archived_at', null);
   
   if (error) {
     console.error('Error fetching project plans:', error);
@@ -2199,3 +3454,185 @@ export async function getAllPlans(): Promise<Array<StandalonePlan & { source: 's
   
   return allPlans;
 }
+
+// --- Trash ---
+
+export type TrashItemKind = 'project' | 'column' | 'plan' | 'widget';
+
+export type TrashItem = {
+  kind: TrashItemKind;
+  id: string;
+  title: string;
+  isIdea?: boolean;
+  isTask?: boolean;
+  deletedAt: string;
+};
+
+const TRASH_TABLES: Record<TrashItemKind, string> = {
+  project: 'projects',
+  column: 'columns',
+  plan: 'standalone_plans',
+  widget: 'widgets',
+};
+
+const HOUSEKEEPING_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Claims a run of a lazy housekeeping job whose last run is stamped in
+ * settings[column]: true at most once an hour. The stamp is checked and moved
+ * in one update, so concurrent page loads don't both run the job. Falls back
+ * to running every time when there's no settings row or stamp column yet.
+ */
+async function claimHousekeepingRun(supabase: ServiceClient, column: 'trash_purged_at' | 'auto_archived_at') {
+  const { data: settings } = await supabase.from('settings').select('id').limit(1).maybeSingle();
+  if (!settings) return true;
+
+  const now = Date.now();
+  const lastRunBefore = new Date(now - HOUSEKEEPING_INTERVAL_MS).toISOString();
+  const { data, error } = await supabase
+    .from('settings')
+    .update({ [column]: new Date(now).toISOString() })
+    .eq('id', settings.id)
+    .or(`${column}.is.null,${column}.lt.${lastRunBefore}`)
+    .select('id');
+  if (error) {
+    console.error(`Error claiming ${column} run:`, error);
+    return true;
+  }
+  return (data?.length ?? 0) > 0;
+}
+
+/** Hard-deletes trashed rows older than the retention window in settings. */
+export async function purgeExpiredTrash() {
+  const supabase = createServiceRoleClient();
+  const { data: settings } = await supabase
+    .from('settings')
+    .select('trash_retention_days')
+    .limit(1)
+    .maybeSingle();
+  const days = settings?.trash_retention_days ?? DEFAULT_TRASH_RETENTION_DAYS;
+  const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  for (const table of Object.values(TRASH_TABLES)) {
+    const { error } = await supabase.from(table).delete().lt('deleted_at', cutoff);
+    if (error) console.error(`Error purging trash from ${table}:`, error);
+  }
+}
+
+export async function getTrash(): Promise<TrashItem[]> {
+  const supabase = createServiceRoleClient();
+  // Expired rows are purged lazily when the Trash is opened, at most once an hour
+  if (await claimHousekeepingRun(supabase, 'trash_purged_at')) await purgeExpiredTrash();
+
+  const [projects, columns, plans, widgets] = await Promise.all([
+    supabase.from('projects').select('id, title, is_idea, is_task, deleted_at').not('deleted_at', 'is', null),
+    supabase.from('columns').select('id, title, deleted_at').not('deleted_at', 'is', null),
+    supabase.from('standalone_plans').select('id, name, deleted_at').not('deleted_at', 'is', null),
+    supabase.from('widgets').select('id, title, deleted_at').not('deleted_at', 'is', null),
+  ]);
+
+  for (const res of [projects, columns, plans, widgets]) {
+    if (res.error) console.error('Error fetching trash:', res.error);
+  }
+
+  const items: TrashItem[] = [
+    ...(projects.data ?? []).map((p) => ({
+      kind: 'project' as const,
+      id: p.id,
+      title: p.title,
+      isIdea: Boolean(p.is_idea),
+      isTask: Boolean(p.is_task),
+      deletedAt: p.deleted_at,
+    })),
+    ...(columns.data ?? []).map((c) => ({ kind: 'column' as const, id: c.id, title: c.title, deletedAt: c.deleted_at })),
+    ...(plans.data ?? []).map((p) => ({ kind: 'plan' as const, id: p.id, title: p.name, deletedAt: p.deleted_at })),
+    ...(widgets.data ?? []).map((w) => ({ kind: 'widget' as const, id: w.id, title: w.title, deletedAt: w.deleted_at })),
+  ];
+
+  return items.sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime());
+}
+
+export async function restoreTrashItem(kind: TrashItemKind, id: string) {
+  const supabase = createServiceRoleClient();
+  const updates: Record<string, unknown> = { deleted_at: null };
+
+  if (kind === 'column') {
+    // Restored columns go to the end of the board
+    const { count } = await supabase
+      .from('columns')
+      .select('*', { count: 'exact', head: true })
+      .is('deleted_at', null);
+    updates.order = count ?? 0;
+  }
+
+  if (kind === 'project') {
+    // If the card's column was deleted meanwhile, land it in the first lane
+    const { data: project } = await supabase
+      .from('projects')
+      .select('status, parent_id')
+      .eq('id', id)
+      .single();
+    const { data: column } = project
+      ? await supabase
+          .from('columns')
+          .select('id')
+          .eq('id', project.status)
+          .is('deleted_at', null)
+          .maybeSingle()
+      : { data: null };
+    if (!column) updates.status = await getFirstColumnId();
+
+    // A parent that is still in the Trash can't hold the card
+    if (project?.parent_id) {
+      const { data: parent } = await supabase
+        .from('projects')
+        .select('id')
+        .eq('id', project.parent_id)
+        .is('deleted_at', null)
+        .maybeSingle();
+      if (!parent) updates.parent_id = null;
+    }
+  }
+
+  const { error } = await supabase.from(TRASH_TABLES[kind]).update(updates).eq('id', id);
+  if (error) {
+    console.error('Error restoring from trash:', error);
+    throw new Error('Failed to restore item');
+  }
+
+  if (kind === 'project') {
+    await recordProjectEvents(supabase, id, [{ kind: 'restored', changes: {} }], 'ui');
+    await reattachRestoredChildren(supabase, id);
+  }
+
+  revalidatePath('/');
+}
+
+export async function deleteTrashItemPermanently(kind: TrashItemKind, id: string) {
+  const supabase = createServiceRoleClient();
+  const { error } = await supabase
+    .from(TRASH_TABLES[kind])
+    .delete()
+    .eq('id', id)
+    .not('deleted_at', 'is', null);
+
+  if (error) {
+    console.error('Error deleting from trash:', error);
+    throw new Error('Failed to delete item');
+  }
+
+  revalidatePath('/');
+}
+
+export async function emptyTrash() {
+  const supabase = createServiceRoleClient();
+  for (const table of Object.values(TRASH_TABLES)) {
+    const { error } = await supabase.from(table).delete().not('deleted_at', 'is', null);
+    if (error) {
+      console.error(`Error emptying trash from ${table}:`, error);
+      throw new Error('Failed to empty trash');
+    }
+  }
+
+  revalidatePath('/');
+}
@@ -1,52 +1,205 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { timingSafeEqual } from 'crypto';
 import { quickCapture } from '@/app/actions';
+import { createServiceRoleClient } from '@/utils/supabase/admin';
+import { authenticateApiRequest } from '@/lib/api-token-auth';
+import { limitByIp, limitByToken, type RateLimitResult } from '@/lib/rate-limit';
+import { isCaptureDuplicateMode, type CaptureDuplicateMode } from '@/lib/capture-dedup';
+import {
+  captureFingerprint,
+  claimIdempotencyKey,
+  isValidIdempotencyKey,
+  releaseIdempotencyKey,
+  saveIdempotentResponse,
+  scopedIdempotencyKey,
+} from '@/lib/capture-idempotency';
+import {
+  captureFileLimits,
+  decodeBase64File,
+  maxCaptureBodyBytes,
+  toCaptureFile,
+  type CaptureFile,
+  type CaptureFileLimits,
+  type CaptureFileRejection,
+} from '@/lib/capture-files';
 
-function safeCompare(a: string, b: string): boolean {
-  try {
-    const ba = Buffer.from(a, 'utf8');
-    const bb = Buffer.from(b, 'utf8');
-    if (ba.length !== bb.length) return false;
-    return timingSafeEqual(ba, bb);
-  } catch {
-    return false;
+type CaptureRequest = { text: string; url?: string; onDuplicate?: CaptureDuplicateMode; files: CaptureFile[] };
+
+function tooManyRequests(limit: Extract<RateLimitResult, { ok: false }>) {
+  return NextResponse.json(
+    { error: 'Too many requests' },
+    { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } }
+  );
+}
+
+function isRejection(value: unknown): value is CaptureFileRejection {
+  return typeof value === 'object' && value !== null && 'error' in value;
+}
+
+/**
+ * The request body, or null once it passes `maxBytes`. Content-Length alone
+ * can't be trusted: chunked uploads don't send one.
+ */
+async function readBodyCapped(req: NextRequest, maxBytes: number): Promise<Uint8Array<ArrayBuffer> | null> {
+  if (!req.body) return new Uint8Array();
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
   }
+  return body;
 }
 
-export async function POST(req: NextRequest) {
-  const token = process.env.QUICK_CAPTURE_TOKEN;
-  if (!token) {
-    return NextResponse.json({ error: 'Quick capture is not configured' }, { status: 503 });
+/** multipart/form-data: `text`, `url` and any number of file fields. */
+async function readMultipart(req: Request, limits: CaptureFileLimits): Promise<CaptureRequest | CaptureFileRejection> {
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return { error: 'Invalid form data', status: 400 };
   }
 
-  const auth = req.headers.get('authorization');
-  const bearer = auth?.startsWith('Bearer ') ? auth.slice(7).trim() : null;
-  if (!bearer || !safeCompare(bearer, token)) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  const text = form.get('text');
+  const url = form.get('url');
+  const onDuplicate = form.get('on_duplicate');
+  // Share sheets sometimes add an empty file part when nothing was picked
+  const uploads = [...form.values()].filter((v): v is File => typeof v !== 'string' && v.size > 0);
+  if (uploads.length > limits.maxFiles) return { error: `At most ${limits.maxFiles} files per capture`, status: 413 };
+
+  const files: CaptureFile[] = [];
+  for (const upload of uploads) {
+    const file = toCaptureFile(upload.name, new Uint8Array(await upload.arrayBuffer()), limits);
+    if (isRejection(file)) return file;
+    files.push(file);
   }
+  return {
+    text: typeof text === 'string' ? text : '',
+    url: typeof url === 'string' ? url : undefined,
+    onDuplicate: isCaptureDuplicateMode(onDuplicate) ? onDuplicate : undefined,
+    files,
+  };
+}
 
-  let body: { text?: unknown; url?: unknown };
+/** JSON: `text`, `url` and `files` — base64 strings or `{ data, name }`, one or a list. */
+async function readJson(req: Request, limits: CaptureFileLimits): Promise<CaptureRequest | CaptureFileRejection> {
+  let body: { text?: unknown; url?: unknown; on_duplicate?: unknown; files?: unknown };
   try {
     body = await req.json();
   } catch {
-    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+    return { error: 'Invalid JSON', status: 400 };
   }
 
-  const text = typeof body.text === 'string' ? body.text : '';
-  const url = typeof body.url === 'string' ? body.url : undefined;
+  const entries = body.files == null ? [] : Array.isArray(body.files) ? body.files : [body.files];
+  if (entries.length > limits.maxFiles) return { error: `At most ${limits.maxFiles} files per capture`, status: 413 };
 
-  if (!text.trim() && !url?.trim()) {
-    return NextResponse.json({ error: 'text or url is required' }, { status: 400 });
+  const files: CaptureFile[] = [];
+  for (const [i, entry] of entries.entries()) {
+    const data = typeof entry === 'string' ? entry : (entry as { data?: unknown })?.data;
+    const name = typeof entry === 'object' && typeof entry?.name === 'string' ? entry.name : '';
+    const bytes = typeof data === 'string' ? decodeBase64File(data) : null;
+    if (!bytes) return { error: `files[${i}] must be base64 data`, status: 400 };
+    const file = toCaptureFile(name, bytes, limits);
+    if (isRejection(file)) return file;
+    files.push(file);
+  }
+  return {
+    text: typeof body.text === 'string' ? body.text : '',
+    url: typeof body.url === 'string' ? body.url : undefined,
+    onDuplicate: isCaptureDuplicateMode(body.on_duplicate) ? body.on_duplicate : undefined,
+    files,
+  };
+}
+
+export async function POST(req: NextRequest) {
+  const supabase = createServiceRoleClient();
+  const ipLimit = await limitByIp(supabase, req, 'capture');
+  if (!ipLimit.ok) return tooManyRequests(ipLimit);
+
+  const auth = await authenticateApiRequest(supabase, req, 'capture', process.env.QUICK_CAPTURE_TOKEN);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const tokenLimit = await limitByToken(supabase, 'capture', auth.tokenId);
+  if (!tokenLimit.ok) return tooManyRequests(tokenLimit);
+
+  const limits = captureFileLimits();
+  const length = Number(req.headers.get('content-length'));
+  if (length > maxCaptureBodyBytes(limits)) {
+    return NextResponse.json({ error: 'Request is too large' }, { status: 413 });
+  }
+
+  const bytes = await readBodyCapped(req, maxCaptureBodyBytes(limits));
+  if (!bytes) {
+    return NextResponse.json({ error: 'Request is too large' }, { status: 413 });
+  }
+  const contentType = req.headers.get('content-type') ?? '';
+  const buffered = new Request(req.url, { method: 'POST', headers: { 'content-type': contentType }, body: bytes });
+
+  const isMultipart = contentType.toLowerCase().startsWith('multipart/form-data');
+  const body = isMultipart ? await readMultipart(buffered, limits) : await readJson(buffered, limits);
+  if (isRejection(body)) {
+    return NextResponse.json({ error: body.error }, { status: body.status });
+  }
+
+  const { text, url, onDuplicate, files } = body;
+  if (!text.trim() && !url?.trim() && files.length === 0) {
+    return NextResponse.json({ error: 'text, url or files is required' }, { status: 400 });
+  }
+
+  // Retries with the same key get the first answer instead of a second card
+  const headerKey = req.headers.get('idempotency-key')?.trim() || null;
+  if (headerKey !== null && !isValidIdempotencyKey(headerKey)) {
+    return NextResponse.json({ error: 'Invalid Idempotency-Key' }, { status: 400 });
+  }
+  const idempotencyKey = headerKey && scopedIdempotencyKey(auth.tokenId, headerKey);
+  if (idempotencyKey) {
+    const fingerprint = captureFingerprint([text, url, onDuplicate, ...files.flatMap((f) => [f.name, f.bytes])]);
+    let claim;
+    try {
+      claim = await claimIdempotencyKey(supabase, idempotencyKey, fingerprint);
+    } catch (e) {
+      console.error('[api/capture]', e);
+      return NextResponse.json({ error: 'Capture failed' }, { status: 500 });
+    }
+    if (claim.status === 'replay') {
+      return NextResponse.json(claim.response, { headers: { 'Idempotent-Replayed': 'true' } });
+    }
+    if (claim.status === 'in-progress') {
+      return NextResponse.json(
+        { error: 'A request with this Idempotency-Key is still being processed' },
+        { status: 409, headers: { 'Retry-After': '2' } }
+      );
+    }
+    if (claim.status === 'mismatch') {
+      return NextResponse.json({ error: 'Idempotency-Key was already used for a different capture' }, { status: 422 });
+    }
   }
 
   try {
-    const result = await quickCapture(text, url);
-    return NextResponse.json({
+    const result = await quickCapture(text, url, 'capture', { files, onDuplicate });
+    const response = {
       id: result.id,
       ...(result.notice ? { notice: result.notice } : {}),
-    });
+      ...(result.duplicate ? { duplicate: result.duplicate } : {}),
+    };
+    if (idempotencyKey) await saveIdempotentResponse(supabase, idempotencyKey, response);
+    return NextResponse.json(response);
   } catch (e) {
     console.error('[api/capture]', e);
+    if (idempotencyKey) await releaseIdempotencyKey(supabase, idempotencyKey);
     return NextResponse.json({ error: 'Capture failed' }, { status: 500 });
   }
 }
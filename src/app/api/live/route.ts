@@ -0,0 +1,95 @@
+import postgres from 'postgres';
+
+import { parseLiveChange, type LiveChange } from '@/lib/live-sync';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Server-sent events for NEXT_PUBLIC_LIVE_SYNC=sse: relays the 'board_changes'
+// NOTIFY channel (migrations/2026-live-sync.sql) to open boards. Behind the
+// session gate in middleware like every page. One LISTEN connection per
+// server process, shared by all open streams.
+
+const HEARTBEAT_MS = 25_000;
+
+const subscribers = new Set<(change: LiveChange) => void>();
+let listening: Promise<void> | null = null;
+
+function ensureListening(databaseUrl: string): Promise<void> {
+  if (!listening) {
+    const sql = postgres(databaseUrl, { max: 1, prepare: false });
+    listening = sql
+      .listen('board_changes', (payload) => {
+        let change: LiveChange | null = null;
+        try {
+          change = parseLiveChange(JSON.parse(payload));
+        } catch {
+          return;
+        }
+        if (change) for (const send of subscribers) send(change);
+      })
+      .then(() => undefined)
+      .catch((error) => {
+        listening = null;
+        sql.end().catch(() => {});
+        throw error;
+      });
+  }
+  return listening;
+}
+
+export async function GET(req: Request) {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    return Response.json({ error: 'Live sync over SSE needs DATABASE_URL' }, { status: 503 });
+  }
+
+  try {
+    await ensureListening(databaseUrl);
+  } catch (error) {
+    console.error('[api/live] LISTEN failed:', error);
+    return Response.json({ error: 'Live sync is unavailable' }, { status: 503 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const send = (change: LiveChange) => write(`event: change\ndata: ${JSON.stringify(change)}\n\n`);
+      const heartbeat = setInterval(() => write(': keep-alive\n\n'), HEARTBEAT_MS);
+
+      subscribers.add(send);
+      cleanup = () => {
+        clearInterval(heartbeat);
+        subscribers.delete(send);
+      };
+      req.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+      write('retry: 5000\n\n');
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -1,36 +1,20 @@
-import { timingSafeEqual } from 'crypto';
-
 import { WebStandardStreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js';
 
 import { createKanbanMcpServer } from '@/lib/kanban-mcp/server-factory';
 import { createServiceRoleClient } from '@/utils/supabase/admin';
+import { authenticateApiRequest } from '@/lib/api-token-auth';
+import { limitByIp, limitByToken, type RateLimitResult } from '@/lib/rate-limit';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-function safeCompare(a: string, b: string): boolean {
-  try {
-    const ba = Buffer.from(a, 'utf8');
-    const bb = Buffer.from(b, 'utf8');
-    if (ba.length !== bb.length) return false;
-    return timingSafeEqual(ba, bb);
-  } catch {
-    return false;
-  }
-}
-
-function getRemoteMcpToken(): string | undefined {
-  const t = process.env.REMOTE_MCP_TOKEN ?? process.env.QUICK_CAPTURE_TOKEN;
-  return t?.trim() || undefined;
-}
-
 function corsHeaders(): HeadersInit {
   return {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
     'Access-Control-Allow-Headers':
       'Content-Type, Authorization, mcp-session-id, Last-Event-ID, mcp-protocol-version',
-    'Access-Control-Expose-Headers': 'mcp-session-id, mcp-protocol-version',
+    'Access-Control-Expose-Headers': 'mcp-session-id, mcp-protocol-version, Retry-After',
   };
 }
 
@@ -46,36 +30,40 @@ function withCors(res: Response): Response {
   });
 }
 
+function tooManyRequests(limit: Extract<RateLimitResult, { ok: false }>): Response {
+  return withCors(
+    new Response('Too many requests', {
+      status: 429,
+      headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Retry-After': String(limit.retryAfterSeconds) },
+    })
+  );
+}
+
 async function handleMcp(req: Request): Promise<Response> {
-  const token = getRemoteMcpToken();
-  if (!token) {
-    return withCors(
-      new Response(
-        'Remote MCP is not configured. Set REMOTE_MCP_TOKEN (recommended) or QUICK_CAPTURE_TOKEN.',
-        { status: 503, headers: { 'Content-Type': 'text/plain; charset=utf-8' } }
-      )
-    );
-  }
+  const supabase = createServiceRoleClient();
+  const ipLimit = await limitByIp(supabase, req, 'mcp');
+  if (!ipLimit.ok) return tooManyRequests(ipLimit);
 
-  const auth = req.headers.get('authorization');
-  const bearer = auth?.startsWith('Bearer ') ? auth.slice(7).trim() : null;
-  if (!bearer || !safeCompare(bearer, token)) {
+  // Per-device tokens from Settings, or REMOTE_MCP_TOKEN
+  const auth = await authenticateApiRequest(supabase, req, 'mcp', process.env.REMOTE_MCP_TOKEN);
+  if (!auth.ok) {
     return withCors(
-      new Response('Unauthorized', {
-        status: 401,
+      new Response(auth.error, {
+        status: auth.status,
         headers: { 'Content-Type': 'text/plain; charset=utf-8' },
       })
     );
   }
+  const tokenLimit = await limitByToken(supabase, 'mcp', auth.tokenId);
+  if (!tokenLimit.ok) return tooManyRequests(tokenLimit);
 
-  const supabase = createServiceRoleClient();
   // JSON responses instead of SSE for the POST body — helps some clients (e.g. Claude Desktop
   // custom connectors) that mishandle Streamable HTTP + event-stream on remote URLs.
   const transport = new WebStandardStreamableHTTPServerTransport({
     sessionIdGenerator: undefined,
     enableJsonResponse: true,
   });
-  const server = createKanbanMcpServer(supabase);
+  const server = createKanbanMcpServer(supabase, { readOnly: auth.scope === 'mcp:read' });
   await server.connect(transport);
   const res = await transport.handleRequest(req);
   return withCors(res);
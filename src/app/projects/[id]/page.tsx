@@ -1,6 +1,7 @@
 import { getProject } from '@/app/actions';
 import { ProjectEditor } from '@/components/kanban/ProjectEditor';
 import { notFound } from 'next/navigation';
+import { parseRecurrence } from '@/lib/recurrence';
 
 type PageProps = {
   params: Promise<{ id: string }>;
@@ -22,6 +23,16 @@ export default async function ProjectPage(props: PageProps) {
       materialsList: project.materials_list,
       plans: project.plans,
       inspiration: project.inspiration,
+      startDate: project.start_date,
+      dueDate: project.due_date,
+      completedAt: project.completed_at,
+      blockedBy: project.blocked_by ?? [],
+      recurrence: parseRecurrence(project.recurrence),
+      parentId: project.parent_id ?? null,
+      childPosition: project.child_position ?? 0,
+      checklistTotal: project.checklist_total ?? 0,
+      checklistDone: project.checklist_done ?? 0,
+      updatedAt: project.updated_at ? new Date(project.updated_at) : null,
   };
 
   return (
@@ -21,30 +21,76 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { ProjectStatus, COLUMNS } from '@/types';
+import { COLUMNS } from '@/types';
+
+const BLANK = '__blank__';
+
+type TemplateChoice = { id: string; name: string; description?: string | null; defaultColumnId: string | null };
 
 interface AddProjectDialogProps {
-  onAdd: (project: { title: string; description: string; status: ProjectStatus }) => void;
+  onAdd: (project: { title: string; description: string; status: string; templateId?: string }) => void | Promise<void>;
+  /** Lanes to pick from; the classic three when omitted. */
+  columns?: { id: string; title: string }[];
+  /** Offered as starting points; the dialog shows a template picker when given. */
+  templates?: TemplateChoice[];
+  defaultStatus?: string;
+  defaultTemplateId?: string;
+  /** Controlled mode (no trigger button), e.g. when opened from a menu. */
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
 }
 
-export function AddProjectDialog({ onAdd }: AddProjectDialogProps) {
-  const [open, setOpen] = useState(false);
+export function AddProjectDialog({
+  onAdd,
+  columns = COLUMNS,
+  templates,
+  defaultStatus,
+  defaultTemplateId,
+  open: controlledOpen,
+  onOpenChange,
+}: AddProjectDialogProps) {
+  const initialTemplate = templates?.find((t) => t.id === defaultTemplateId);
+  const initialStatus = defaultStatus ?? initialTemplate?.defaultColumnId ?? columns[0]?.id ?? 'todo';
+
+  const [uncontrolledOpen, setUncontrolledOpen] = useState(false);
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
-  const [status, setStatus] = useState<ProjectStatus>('todo');
+  const [status, setStatus] = useState(initialStatus);
+  const [templateId, setTemplateId] = useState(initialTemplate?.id ?? BLANK);
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isControlled = controlledOpen !== undefined;
+  const open = isControlled ? controlledOpen : uncontrolledOpen;
+  const setOpen = (next: boolean) => {
+    if (!isControlled) setUncontrolledOpen(next);
+    onOpenChange?.(next);
+  };
+  const template = templates?.find((t) => t.id === templateId);
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    // A lane picked from a column menu wins over the template's own lane
+    const next = templates?.find((t) => t.id === id);
+    if (!defaultStatus && next?.defaultColumnId && columns.some((c) => c.id === next.defaultColumnId)) {
+      setStatus(next.defaultColumnId);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
+    setError(null);
     try {
-      await onAdd({ title, description, status });
+      await onAdd({ title, description, status, templateId: template?.id });
       setOpen(false);
       setTitle('');
       setDescription('');
-      setStatus('todo');
+      setStatus(initialStatus);
+      setTemplateId(initialTemplate?.id ?? BLANK);
     } catch (error) {
       console.error('Failed to add project', error);
+      setError(error instanceof Error ? error.message : 'Failed to add project');
     } finally {
       setLoading(false);
     }
@@ -52,18 +98,44 @@ export function AddProjectDialog({ onAdd }: AddProjectDialogProps) {
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
-      <DialogTrigger asChild>
-        <Button>Add Project</Button>
-      </DialogTrigger>
+      {!isControlled && (
+        <DialogTrigger asChild>
+          <Button>Add Project</Button>
+        </DialogTrigger>
+      )}
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
           <DialogTitle>Add New Project</DialogTitle>
           <DialogDescription>
-            Create a new project card for your kanban board.
+            {templates
+              ? 'Start from a template or a blank card.'
+              : 'Create a new project card for your kanban board.'}
           </DialogDescription>
         </DialogHeader>
         <form onSubmit={handleSubmit}>
           <div className="grid gap-4 py-4">
+            {templates && (
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="template" className="text-right">
+                  Template
+                </Label>
+                <Select value={templateId} onValueChange={handleTemplateChange}>
+                  <SelectTrigger id="template" className="col-span-3">
+                    <SelectValue placeholder="Select template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={BLANK}>
+                      <span className="text-muted-foreground">Blank project</span>
+                    </SelectItem>
+                    {templates.map((t) => (
+                      <SelectItem key={t.id} value={t.id}>
+                        {t.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="title" className="text-right">
                 Title
@@ -74,29 +146,36 @@ export function AddProjectDialog({ onAdd }: AddProjectDialogProps) {
                 onChange={(e) => setTitle(e.target.value)}
                 className="col-span-3"
                 required
+                autoFocus={isControlled}
               />
             </div>
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="description" className="text-right">
-                Description
-              </Label>
-              <Textarea
-                id="description"
-                value={description}
-                onChange={(e) => setDescription(e.target.value)}
-                className="col-span-3"
-              />
-            </div>
+            {template ? (
+              <p className="text-xs text-muted-foreground col-span-4 pl-[25%]">
+                {template.description || 'Notes, checklists, materials and tags come from the template.'}
+              </p>
+            ) : (
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="description" className="text-right">
+                  Description
+                </Label>
+                <Textarea
+                  id="description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  className="col-span-3"
+                />
+              </div>
+            )}
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="status" className="text-right">
                 Status
               </Label>
-              <Select value={status} onValueChange={(v) => setStatus(v as ProjectStatus)}>
+              <Select value={status} onValueChange={setStatus}>
                 <SelectTrigger className="col-span-3">
                   <SelectValue placeholder="Select status" />
                 </SelectTrigger>
                 <SelectContent>
-                  {COLUMNS.map((col) => (
+                  {columns.map((col) => (
                     <SelectItem key={col.id} value={col.id}>
                       {col.title}
                     </SelectItem>
@@ -105,6 +184,7 @@ export function AddProjectDialog({ onAdd }: AddProjectDialogProps) {
               </Select>
             </div>
           </div>
+          {error && <p className="text-sm text-destructive pb-2">{error}</p>}
           <DialogFooter>
             <Button type="submit" disabled={loading}>
               {loading ? 'Adding...' : 'Add Project'}
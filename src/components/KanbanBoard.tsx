@@ -55,7 +55,7 @@ export function KanbanBoard() {
     fetchProjects();
   }, []);
 
-  const handleAddProject = async (newProjectData: { title: string; description: string; status: ProjectStatus }) => {
+  const handleAddProject = async (newProjectData: { title: string; description: string; status: string }) => {
     try {
       const res = await fetch('/api/projects', {
         method: 'POST',
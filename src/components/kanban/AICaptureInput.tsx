@@ -1,16 +1,23 @@
 'use client';
 
-import { useState, useCallback } from 'react';
-import { quickCapture } from '@/app/actions';
+import { useState, useCallback, useMemo } from 'react';
+import { quickCapture, type QuickCaptureResult } from '@/app/actions';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
-import { ChevronDown, ChevronUp, Sparkles } from 'lucide-react';
+import { findByCaptureName, parseCaptureText, type CaptureToken } from '@/lib/capture-syntax';
+import { formatDueLabel } from '@/lib/project-dates';
+import { ArrowRight, CalendarClock, CheckSquare, ChevronDown, ChevronUp, FolderOpen, Pin, Sparkles, Tag } from 'lucide-react';
 
 type AICaptureInputProps = {
   onBeginCapture?: () => string;
   onEndCapture?: (tempId: string) => void;
-  onCaptured: () => void | Promise<void>;
+  onCaptured: (result: QuickCaptureResult) => void | Promise<void>;
+  /** Known names, so the preview can flag +group / >column typos before saving. */
+  columns?: Array<{ id: string; title: string }>;
+  projectGroups?: Array<{ id: string; name: string; color: string }>;
+  tags?: Array<{ name: string; color: string }>;
   className?: string;
 };
 
@@ -18,6 +25,9 @@ export function AICaptureInput({
   onBeginCapture,
   onEndCapture,
   onCaptured,
+  columns,
+  projectGroups,
+  tags,
   className,
 }: AICaptureInputProps) {
   const [value, setValue] = useState('');
@@ -25,6 +35,7 @@ export function AICaptureInput({
   const [pending, setPending] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [notice, setNotice] = useState<string | null>(null);
+  const tokens = useMemo(() => parseCaptureText(value).tokens, [value]);
 
   const submit = useCallback(async () => {
     const text = value.trim();
@@ -37,7 +48,7 @@ export function AICaptureInput({
       const result = await quickCapture(text);
       setValue('');
       if (result.notice) setNotice(result.notice);
-      await onCaptured();
+      await onCaptured(result);
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Capture failed');
     } finally {
@@ -78,11 +89,24 @@ export function AICaptureInput({
             value={value}
             onChange={(e) => setValue(e.target.value)}
             onKeyDown={onKeyDown}
-            placeholder="First line becomes the title; more lines go to description. Paste a link for a preview image. (⌘↵ to capture)"
+            placeholder="First line becomes the title; more lines go to description. Add #tag +group >column !task due:friday pin. Paste a link for a preview image. (⌘↵ to capture)"
             rows={3}
             disabled={pending}
             className="min-h-[5.5rem] resize-y text-sm"
           />
+          {tokens.length > 0 && (
+            <div className="flex flex-wrap gap-1.5" aria-label="Capture details">
+              {tokens.map((token, i) => (
+                <CaptureChip
+                  key={`${token.raw}-${i}`}
+                  token={token}
+                  columns={columns}
+                  projectGroups={projectGroups}
+                  tags={tags}
+                />
+              ))}
+            </div>
+          )}
           <div className="flex flex-wrap items-center gap-2">
             <Button type="button" size="sm" onClick={() => void submit()} disabled={pending || !value.trim()}>
               {pending ? 'Capturing…' : 'Capture'}
@@ -96,4 +120,65 @@ export function AICaptureInput({
       )}
     </div>
   );
-}
\ No newline at end of file
+}
+
+type CaptureChipProps = Pick<AICaptureInputProps, 'columns' | 'projectGroups' | 'tags'> & {
+  token: CaptureToken;
+};
+
+/** One parsed token as it will be applied; unknown group or column names are flagged. */
+function CaptureChip({ token, columns, projectGroups, tags }: CaptureChipProps) {
+  switch (token.kind) {
+    case 'tag': {
+      const color = tags && findByCaptureName(tags, token.value, (t) => t.name)?.color;
+      return (
+        <Badge variant="outline" style={color ? { borderColor: color, color } : undefined}>
+          <Tag aria-hidden />
+          {token.value}
+          {tags && !color && <span className="text-muted-foreground">(new)</span>}
+        </Badge>
+      );
+    }
+    case 'group': {
+      const group = projectGroups && findByCaptureName(projectGroups, token.value, (g) => g.name);
+      const unknown = projectGroups && !group;
+      return (
+        <Badge variant="outline" className={cn(unknown && 'border-dashed text-destructive')} title={unknown ? 'No project group with that name' : undefined}>
+          {group ? <span className="h-2 w-2 rounded-full" style={{ backgroundColor: group.color }} /> : <FolderOpen aria-hidden />}
+          {group?.name ?? token.value}
+        </Badge>
+      );
+    }
+    case 'column': {
+      const column = columns && findByCaptureName(columns, token.value, (c) => c.title);
+      const unknown = columns && !column;
+      return (
+        <Badge variant="outline" className={cn(unknown && 'border-dashed text-destructive')} title={unknown ? 'No column with that name; will be saved to Ideas' : undefined}>
+          <ArrowRight aria-hidden />
+          {column?.title ?? token.value}
+        </Badge>
+      );
+    }
+    case 'task':
+      return (
+        <Badge variant="secondary">
+          <CheckSquare aria-hidden />
+          Task
+        </Badge>
+      );
+    case 'due':
+      return (
+        <Badge variant="secondary" title={token.value}>
+          <CalendarClock aria-hidden />
+          Due {formatDueLabel(token.value)}
+        </Badge>
+      );
+    case 'pin':
+      return (
+        <Badge variant="secondary">
+          <Pin aria-hidden />
+          Pinned
+        </Badge>
+      );
+  }
+}
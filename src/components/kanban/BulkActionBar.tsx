@@ -0,0 +1,144 @@
+'use client';
+
+import { useEffect } from 'react';
+import { CheckCircle2, Lightbulb, Pin, PinOff, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { Column, Project } from './KanbanBoard';
+
+export type BulkAction =
+  | { type: 'move'; columnId: string }
+  | { type: 'add-tag'; tag: string }
+  | { type: 'remove-tag'; tag: string }
+  | { type: 'group'; groupId: string | null }
+  | { type: 'pin'; pinned: boolean }
+  | { type: 'complete' }
+  | { type: 'to-ideas' }
+  | { type: 'delete' };
+
+type BulkActionBarProps = {
+  selected: Project[];
+  columns: Column[];
+  tags: Array<{ name: string }>;
+  projectGroups: Array<{ id: string; name: string }>;
+  /** Ideas can only be moved, retagged, regrouped or deleted. */
+  mode?: 'board' | 'ideas';
+  onAction: (action: BulkAction) => void;
+  onClear: () => void;
+};
+
+const NO_GROUP = '__none__';
+
+export function BulkActionBar({ selected, columns, tags, projectGroups, mode = 'board', onAction, onClear }: BulkActionBarProps) {
+  const hasSelection = selected.length > 0;
+
+  // Escape drops the selection
+  useEffect(() => {
+    if (!hasSelection) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClear();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [hasSelection, onClear]);
+
+  if (!hasSelection) return null;
+
+  const isBoard = mode === 'board';
+  const selectedTags = [...new Set(selected.flatMap((p) => p.tags ?? []))].sort();
+  const allPinned = selected.every((p) => p.pinned);
+
+  return (
+    <div
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex flex-wrap items-center gap-2 rounded-lg border bg-background/95 backdrop-blur px-3 py-2 shadow-lg max-w-[95vw]"
+      role="toolbar"
+      aria-label="Bulk actions"
+    >
+      <span className="text-sm font-medium whitespace-nowrap">{selected.length} selected</span>
+
+      <Select value="" onValueChange={(columnId) => onAction({ type: 'move', columnId })}>
+        <SelectTrigger className="h-8 w-[130px]">
+          <SelectValue placeholder={isBoard ? 'Move to…' : 'Move to board…'} />
+        </SelectTrigger>
+        <SelectContent>
+          {columns.map((col) => (
+            <SelectItem key={col.id} value={col.id}>{col.title}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value="" onValueChange={(tag) => onAction({ type: 'add-tag', tag })}>
+        <SelectTrigger className="h-8 w-[120px]">
+          <SelectValue placeholder="Add tag…" />
+        </SelectTrigger>
+        <SelectContent>
+          {tags.length === 0 ? (
+            <div className="px-2 py-1.5 text-xs text-muted-foreground">No tags yet</div>
+          ) : (
+            tags.map((tag) => (
+              <SelectItem key={tag.name} value={tag.name}>{tag.name}</SelectItem>
+            ))
+          )}
+        </SelectContent>
+      </Select>
+
+      {selectedTags.length > 0 && (
+        <Select value="" onValueChange={(tag) => onAction({ type: 'remove-tag', tag })}>
+          <SelectTrigger className="h-8 w-[130px]">
+            <SelectValue placeholder="Remove tag…" />
+          </SelectTrigger>
+          <SelectContent>
+            {selectedTags.map((tag) => (
+              <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <Select value="" onValueChange={(value) => onAction({ type: 'group', groupId: value === NO_GROUP ? null : value })}>
+        <SelectTrigger className="h-8 w-[120px]">
+          <SelectValue placeholder="Set group…" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_GROUP}>
+            <span className="text-muted-foreground">No group</span>
+          </SelectItem>
+          {projectGroups.map((group) => (
+            <SelectItem key={group.id} value={group.id}>{group.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {isBoard && (
+        <>
+          <Button variant="ghost" size="sm" className="h-8" onClick={() => onAction({ type: 'pin', pinned: !allPinned })}>
+            {allPinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+            {allPinned ? 'Unpin' : 'Pin'}
+          </Button>
+          <Button variant="ghost" size="sm" className="h-8" onClick={() => onAction({ type: 'complete' })}>
+            <CheckCircle2 className="h-4 w-4" />
+            Complete
+          </Button>
+          <Button variant="ghost" size="sm" className="h-8" onClick={() => onAction({ type: 'to-ideas' })}>
+            <Lightbulb className="h-4 w-4" />
+            To ideas
+          </Button>
+        </>
+      )}
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 text-destructive hover:text-destructive"
+        onClick={() => onAction({ type: 'delete' })}
+      >
+        <Trash2 className="h-4 w-4" />
+        Delete
+      </Button>
+
+      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClear} aria-label="Clear selection">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
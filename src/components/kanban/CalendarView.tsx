@@ -0,0 +1,393 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  DndContext,
+  DragOverlay,
+  MouseSensor,
+  TouchSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragStartEvent,
+} from '@dnd-kit/core';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { CalendarDays, CalendarClock, CheckCircle2, ChevronLeft, ChevronRight, ListTodo, PlayCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { useLocalStorage } from '@/hooks/use-local-storage';
+import { getDueStatus, parseProjectDate, toProjectDateString } from '@/lib/project-dates';
+import { getDayPlanProjectIds, todayPlanDate, type DayPlanConfig } from '@/lib/day-plans';
+import { Project } from './KanbanBoard';
+
+type CalendarMode = 'month' | 'week';
+
+type DayPlan = {
+  id: string;
+  title: string;
+  config: DayPlanConfig;
+};
+
+type CalendarViewProps = {
+  projects: Project[];
+  dayPlans: DayPlan[];
+  onProjectClick: (project: Project) => void;
+  /** Called with the new dates after a card is dropped on another day. */
+  onReschedule: (projectId: string, dates: { startDate: string | null; dueDate: string | null }) => void;
+};
+
+type EntryKind = 'due' | 'start' | 'completed';
+
+type CalendarEntry = {
+  key: string;
+  kind: EntryKind;
+  date: string;
+  project: Project;
+};
+
+const MONTH_VISIBLE_ENTRIES = 3;
+
+function buildEntries(projects: Project[]): Map<string, CalendarEntry[]> {
+  const byDate = new Map<string, CalendarEntry[]>();
+  const add = (entry: CalendarEntry) => {
+    const list = byDate.get(entry.date) ?? [];
+    list.push(entry);
+    byDate.set(entry.date, list);
+  };
+
+  for (const project of projects) {
+    if (project.isCompleted) {
+      if (project.completedAt) {
+        const date = toProjectDateString(parseISO(project.completedAt));
+        add({ key: `${project.id}:completed`, kind: 'completed', date, project });
+      }
+      continue;
+    }
+    if (project.dueDate) {
+      add({ key: `${project.id}:due`, kind: 'due', date: project.dueDate.slice(0, 10), project });
+    }
+    if (project.startDate && project.startDate !== project.dueDate) {
+      add({ key: `${project.id}:start`, kind: 'start', date: project.startDate.slice(0, 10), project });
+    }
+  }
+  return byDate;
+}
+
+function shiftDate(value: string | null | undefined, days: number): string | null {
+  const date = parseProjectDate(value);
+  return date ? toProjectDateString(addDays(date, days)) : null;
+}
+
+function EntryChip({ entry, dragging }: { entry: CalendarEntry; dragging?: boolean }) {
+  const dueStatus = entry.kind === 'due' ? getDueStatus(entry.project.dueDate, entry.project.isCompleted) : null;
+  const Icon = entry.kind === 'completed' ? CheckCircle2 : entry.kind === 'start' ? PlayCircle : entry.project.isTask ? ListTodo : CalendarClock;
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-1 rounded px-1.5 py-0.5 text-xs border bg-card truncate',
+        entry.kind === 'completed' && 'text-muted-foreground line-through border-transparent bg-muted/40',
+        entry.kind === 'start' && 'border-dashed',
+        dueStatus === 'overdue' && 'border-red-500/50 text-red-600 dark:text-red-400',
+        dueStatus === 'due-today' && 'border-amber-500/50',
+        dragging && 'shadow-lg ring-2 ring-primary/40'
+      )}
+    >
+      <Icon className="h-3 w-3 shrink-0" />
+      <span className="truncate">{entry.project.title}</span>
+    </div>
+  );
+}
+
+function DraggableEntry({ entry, onClick }: { entry: CalendarEntry; onClick: () => void }) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: entry.key,
+    data: { entry },
+    disabled: entry.kind === 'completed',
+  });
+  return (
+    <button
+      ref={setNodeRef}
+      type="button"
+      className={cn('block w-full text-left', isDragging && 'opacity-30')}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      title={entry.kind === 'start' ? `Starts: ${entry.project.title}` : entry.project.title}
+      {...listeners}
+      {...attributes}
+    >
+      <EntryChip entry={entry} />
+    </button>
+  );
+}
+
+function DayCell({
+  day,
+  entries,
+  planCount,
+  mode,
+  inMonth,
+  isToday,
+  isSelected,
+  onSelect,
+  onProjectClick,
+}: {
+  day: Date;
+  entries: CalendarEntry[];
+  planCount: number;
+  mode: CalendarMode;
+  inMonth: boolean;
+  isToday: boolean;
+  isSelected: boolean;
+  onSelect: () => void;
+  onProjectClick: (project: Project) => void;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id: toProjectDateString(day) });
+  const visible = mode === 'month' ? entries.slice(0, MONTH_VISIBLE_ENTRIES) : entries;
+  const hidden = entries.length - visible.length;
+
+  return (
+    <div
+      ref={setNodeRef}
+      onClick={onSelect}
+      className={cn(
+        'flex flex-col gap-1 border-b border-r p-1.5 cursor-pointer transition-colors min-w-0',
+        mode === 'month' ? 'min-h-[110px]' : 'min-h-[320px]',
+        !inMonth && 'bg-muted/20 text-muted-foreground',
+        isSelected && 'bg-primary/5',
+        isOver && 'bg-primary/10 ring-2 ring-inset ring-primary/40'
+      )}
+    >
+      <div className="flex items-center justify-between gap-1">
+        <span
+          className={cn(
+            'text-xs font-medium h-5 min-w-5 px-1 inline-flex items-center justify-center rounded-full',
+            isToday && 'bg-primary text-primary-foreground'
+          )}
+        >
+          {mode === 'week' ? format(day, 'EEE d') : format(day, 'd')}
+        </span>
+        {planCount > 0 && (
+          <span className="flex items-center gap-0.5 text-[10px] text-primary" title="Day plan">
+            <CalendarDays className="h-3 w-3" />
+            {planCount}
+          </span>
+        )}
+      </div>
+      {visible.map(entry => (
+        <DraggableEntry key={entry.key} entry={entry} onClick={() => onProjectClick(entry.project)} />
+      ))}
+      {hidden > 0 && (
+        <span className="text-[10px] text-muted-foreground px-1">+{hidden} more</span>
+      )}
+    </div>
+  );
+}
+
+export function CalendarView({ projects, dayPlans, onProjectClick, onReschedule }: CalendarViewProps) {
+  const [mode, setMode] = useLocalStorage<CalendarMode>('calendar-mode', 'month');
+  const [cursor, setCursor] = useState(() => new Date());
+  const today = todayPlanDate();
+  const [selectedDate, setSelectedDate] = useState(today);
+  const [activeEntry, setActiveEntry] = useState<CalendarEntry | null>(null);
+
+  const sensors = useSensors(
+    useSensor(MouseSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(TouchSensor, { activationConstraint: { delay: 200, tolerance: 5 } })
+  );
+
+  const days = useMemo(() => {
+    const start = mode === 'month' ? startOfWeek(startOfMonth(cursor)) : startOfWeek(cursor);
+    const end = mode === 'month' ? endOfWeek(endOfMonth(cursor)) : endOfWeek(cursor);
+    return eachDayOfInterval({ start, end });
+  }, [cursor, mode]);
+
+  const entriesByDate = useMemo(() => buildEntries(projects), [projects]);
+
+  const planProjects = (date: string) =>
+    dayPlans
+      .map(plan => ({
+        plan,
+        projects: getDayPlanProjectIds(plan.config, date, today)
+          .map(id => projects.find(p => p.id === id))
+          .filter((p): p is Project => p !== undefined),
+      }))
+      .filter(({ projects: planned }) => planned.length > 0);
+
+  const step = (direction: 1 | -1) =>
+    setCursor(prev => (mode === 'month' ? addMonths(prev, direction) : addWeeks(prev, direction)));
+
+  const heading = mode === 'month'
+    ? format(cursor, 'MMMM yyyy')
+    : `${format(days[0], 'MMM d')} – ${format(days[days.length - 1], 'MMM d, yyyy')}`;
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveEntry((event.active.data.current?.entry as CalendarEntry | undefined) ?? null);
+  };
+
+  // Moving either chip shifts both dates so the scheduled span is preserved.
+  const handleDragEnd = (event: DragEndEvent) => {
+    setActiveEntry(null);
+    const entry = event.active.data.current?.entry as CalendarEntry | undefined;
+    const target = event.over ? parseProjectDate(String(event.over.id)) : null;
+    const from = parseProjectDate(entry?.date);
+    if (!entry || !target || !from) return;
+    const delta = differenceInCalendarDays(target, from);
+    if (delta === 0) return;
+    onReschedule(entry.project.id, {
+      startDate: shiftDate(entry.project.startDate, delta),
+      dueDate: shiftDate(entry.project.dueDate, delta),
+    });
+  };
+
+  const selectedEntries = entriesByDate.get(selectedDate) ?? [];
+  const selectedPlans = planProjects(selectedDate);
+  const selectedDay = parseProjectDate(selectedDate) ?? new Date();
+
+  return (
+    <div className="flex flex-col h-full overflow-hidden">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between gap-2 px-4 py-2 border-b bg-muted/20">
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => step(-1)} aria-label="Previous">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setCursor(new Date());
+              setSelectedDate(today);
+            }}
+          >
+            Today
+          </Button>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => step(1)} aria-label="Next">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h2 className="ml-2 text-sm font-semibold">{heading}</h2>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant={mode === 'month' ? 'secondary' : 'ghost'} size="sm" onClick={() => setMode('month')}>
+            Month
+          </Button>
+          <Button variant={mode === 'week' ? 'secondary' : 'ghost'} size="sm" onClick={() => setMode('week')}>
+            Week
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-1 min-h-0 flex-col lg:flex-row">
+        {/* Grid */}
+        <div className="flex-1 min-w-0 overflow-auto">
+          <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd} onDragCancel={() => setActiveEntry(null)}>
+            <div className="grid grid-cols-7 border-l border-t min-w-[640px]">
+              {days.slice(0, 7).map(day => (
+                <div key={day.toISOString()} className="border-b border-r px-1.5 py-1 text-[11px] font-semibold uppercase tracking-wider text-muted-foreground">
+                  {format(day, 'EEE')}
+                </div>
+              ))}
+              {days.map(day => {
+                const date = toProjectDateString(day);
+                return (
+                  <DayCell
+                    key={date}
+                    day={day}
+                    entries={entriesByDate.get(date) ?? []}
+                    planCount={planProjects(date).reduce((sum, p) => sum + p.projects.length, 0)}
+                    mode={mode}
+                    inMonth={mode === 'week' || isSameMonth(day, cursor)}
+                    isToday={date === today}
+                    isSelected={date === selectedDate}
+                    onSelect={() => setSelectedDate(date)}
+                    onProjectClick={onProjectClick}
+                  />
+                );
+              })}
+            </div>
+            <DragOverlay>
+              {activeEntry ? <EntryChip entry={activeEntry} dragging /> : null}
+            </DragOverlay>
+          </DndContext>
+        </div>
+
+        {/* Selected day */}
+        <aside className="lg:w-72 shrink-0 border-t lg:border-t-0 lg:border-l overflow-y-auto p-4 space-y-5">
+          <h3 className="text-sm font-semibold">{format(selectedDay, 'EEEE, MMMM d')}</h3>
+
+          <section className="space-y-1.5">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Scheduled</h4>
+            {selectedEntries.length === 0 ? (
+              <p className="text-xs text-muted-foreground">Nothing due, starting or completed.</p>
+            ) : (
+              selectedEntries.map(entry => (
+                <button
+                  key={entry.key}
+                  type="button"
+                  className="block w-full text-left"
+                  onClick={() => onProjectClick(entry.project)}
+                >
+                  <EntryChip entry={entry} />
+                </button>
+              ))
+            )}
+          </section>
+
+          <section className="space-y-1.5">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Day plans</h4>
+            {selectedPlans.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                {dayPlans.length === 0
+                  ? 'Add a Day Plan widget on the dashboard to plan days.'
+                  : 'Nothing planned for this day.'}
+              </p>
+            ) : (
+              selectedPlans.map(({ plan, projects: planned }) => (
+                <div key={plan.id} className="space-y-1">
+                  <div className="flex items-center gap-1.5 text-xs font-medium">
+                    <CalendarDays className="h-3.5 w-3.5 text-primary" />
+                    {plan.title}
+                    <Badge variant="secondary" className="text-[10px] h-4 px-1">{planned.length}</Badge>
+                  </div>
+                  <ol className="pl-5 space-y-0.5">
+                    {planned.map((project, index) => (
+                      <li key={project.id}>
+                        <button
+                          type="button"
+                          className={cn(
+                            'text-xs text-left hover:underline',
+                            project.isCompleted && 'line-through text-muted-foreground'
+                          )}
+                          onClick={() => onProjectClick(project)}
+                        >
+                          {index + 1}. {project.title}
+                        </button>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              ))
+            )}
+          </section>
+        </aside>
+      </div>
+    </div>
+  );
+}
@@ -21,8 +21,33 @@ import {
 import { SortableContext, horizontalListSortingStrategy, sortableKeyboardCoordinates } from '@dnd-kit/sortable';
 import { KanbanColumn } from './KanbanColumn';
 import { KanbanCard } from './KanbanCard';
+import { SwimlaneBoard } from './SwimlaneBoard';
 import { Project, Column, SettingsData } from './KanbanBoard';
-import { useCallback, useId } from 'react';
+import { useCallback, useId, useMemo } from 'react';
+import { isDoneColumn, type ColumnRole } from '@/lib/board-columns';
+import type { ColumnRule } from '@/lib/column-rules';
+import type { WipEnforcement } from '@/lib/wip-limits';
+import type { ProjectRollup } from '@/lib/project-tree';
+import type { Swimlane, SwimlaneSetting } from '@/lib/swimlanes';
+import { useLassoSelection } from '@/hooks/use-lasso-selection';
+import type { SelectModifiers } from '@/hooks/use-selection';
+
+// Display order within a column
+function sortColumnCards(cards: Project[], col: Column): Project[] {
+  return cards.sort((a, b) => {
+    // Pinned items always come first
+    if (a.pinned && !b.pinned) return -1;
+    if (!a.pinned && b.pinned) return 1;
+
+    // For completed/done columns, sort by updatedAt descending (newest first)
+    if (isDoneColumn(col) && a.updatedAt && b.updatedAt) {
+      return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+    }
+
+    // Within pinned or unpinned, sort by position
+    return a.position - b.position;
+  });
+}
 
 type ClientDndWrapperProps = {
   items: Project[];
@@ -37,16 +62,35 @@ type ClientDndWrapperProps = {
   onDragEnd: (event: DragEndEvent) => void;
   handleEditProject: (project: Project) => void;
   handleColumnTitleChange: (colId: string, newTitle: string) => void;
+  handleColumnRoleChange?: (colId: string, role: ColumnRole) => void;
+  handleColumnRulesChange?: (colId: string, rules: ColumnRule[]) => Promise<void>;
+  handleColumnWipLimitChange?: (colId: string, wipLimit: number | null, wipEnforcement: WipEnforcement) => void;
+  wipBlockedColumnId?: string | null;
+  blockersById?: Map<string, Project[]>;
+  rollupById?: Map<string, ProjectRollup>;
+  selectedIds?: Set<string>;
+  onSelectCard?: (projectId: string, modifiers: SelectModifiers) => void;
+  onLassoSelect?: (ids: string[], additive: boolean) => void;
   handleDeleteColumn: (id: string) => void;
   handleDeleteProject: (id: string) => void;
   handleTogglePin: (id: string, pinned: boolean) => void;
+  onDuplicateProject?: (project: Project) => void;
+  onArchiveProject?: (id: string) => void;
   handleAddProjectToColumn: (columnId: string, isTask?: boolean) => void;
+  onAddFromTemplate?: (columnId: string) => void;
   isCreatingInColumn: string | null;
   onConfirmCreate: (columnId: string, title: string, isTask?: boolean) => void;
   onCancelCreate: () => void;
   onMoveCard: (projectId: string, newColumnId: string) => void;
   ideasCount?: number;
   onSwitchToIdeas?: () => void;
+  /** Split the board into horizontal swimlanes (columns stay fixed while on). */
+  swimlanes?: {
+    setting: SwimlaneSetting;
+    lanes: Swimlane[];
+    collapsed: string[];
+    onToggleCollapsed: (key: string) => void;
+  } | null;
 };
 
 export function ClientDndWrapper({
@@ -62,16 +106,29 @@ export function ClientDndWrapper({
   onDragEnd,
   handleEditProject,
   handleColumnTitleChange,
+  handleColumnRoleChange,
+  handleColumnRulesChange,
+  handleColumnWipLimitChange,
+  wipBlockedColumnId,
+  blockersById,
+  rollupById,
+  selectedIds,
+  onSelectCard,
+  onLassoSelect,
   handleDeleteColumn,
   handleDeleteProject,
   handleTogglePin,
+  onDuplicateProject,
+  onArchiveProject,
   handleAddProjectToColumn,
+  onAddFromTemplate,
   isCreatingInColumn,
   onConfirmCreate,
   onCancelCreate,
   onMoveCard,
   ideasCount,
   onSwitchToIdeas,
+  swimlanes,
 }: ClientDndWrapperProps) {
   const sensors = useSensors(
     // Mouse sensor - instant drag for desktop (no delay)
@@ -106,6 +163,16 @@ export function ClientDndWrapper({
   }, []);
 
   const dndContextId = useId();
+  const { lassoRect, onLassoMouseDown } = useLassoSelection(onLassoSelect);
+
+  const cardsByColumn = useMemo(
+    () => new Map(cols.map((col) => [col.id, sortColumnCards(filteredItems.filter((i) => i.status === col.id), col)])),
+    [cols, filteredItems]
+  );
+  const countByColumn = useMemo(
+    () => new Map(cols.map((col) => [col.id, items.filter((i) => i.status === col.id).length])),
+    [cols, items]
+  );
 
   return (
     <DndContext
@@ -116,14 +183,47 @@ export function ClientDndWrapper({
       onDragOver={onDragOver}
       onDragEnd={onDragEnd}
     >
-      <div className="flex flex-1 w-full gap-4 p-4 overflow-x-auto snap-x snap-mandatory md:snap-none select-none">
+      {swimlanes ? (
+        <SwimlaneBoard
+          setting={swimlanes.setting}
+          swimlanes={swimlanes.lanes}
+          collapsed={swimlanes.collapsed}
+          onToggleCollapsed={swimlanes.onToggleCollapsed}
+          cols={cols}
+          cardsByColumn={cardsByColumn}
+          countByColumn={countByColumn}
+          hiddenColumns={hiddenColumns}
+          onToggleColumnVisibility={onToggleColumnVisibility}
+          wipBlockedColumnId={wipBlockedColumnId}
+          isCreatingInColumn={isCreatingInColumn}
+          onAddProject={handleAddProjectToColumn}
+          onConfirmCreate={onConfirmCreate}
+          onCancelCreate={onCancelCreate}
+          onMouseDown={onLassoMouseDown}
+          onCardClick={handleEditProject}
+          onDeleteProject={handleDeleteProject}
+          onTogglePin={handleTogglePin}
+          onDuplicateProject={onDuplicateProject}
+          onArchiveProject={onArchiveProject}
+          onMoveCard={onMoveCard}
+          blockersById={blockersById}
+          rollupById={rollupById}
+          selectedIds={selectedIds}
+          onSelectCard={onSelectCard}
+          cardSize={settingsState.cardSize}
+        />
+      ) : (
+      <div
+        className="flex flex-1 w-full gap-4 p-4 overflow-x-auto snap-x snap-mandatory md:snap-none select-none"
+        onMouseDown={onLassoMouseDown}
+      >
         <SortableContext items={cols.map(c => c.id)} strategy={horizontalListSortingStrategy}>
           {cols.map((col) => {
             const isHidden = hiddenColumns.includes(col.id);
             
             // Render full-width column indicator when hidden (especially for mobile)
             if (isHidden) {
-              const itemCount = filteredItems.filter((i) => i.status === col.id).length;
+              const itemCount = cardsByColumn.get(col.id)?.length ?? 0;
               return (
                 <button
                   key={col.id}
@@ -157,36 +257,35 @@ export function ClientDndWrapper({
                 key={col.id}
                 id={col.id}
                 title={col.title}
+                role={col.role}
+                rules={col.rules}
+                wipLimit={col.wip_limit}
+                wipEnforcement={col.wip_enforcement}
+                cardCount={countByColumn.get(col.id) ?? 0}
+                wipBlocked={wipBlockedColumnId === col.id}
+                blockersById={blockersById}
+                rollupById={rollupById}
+                selectedIds={selectedIds}
+                onSelectCard={onSelectCard}
                 columns={cols}
                 isHidden={false}
                 onToggleVisibility={() => onToggleColumnVisibility(col.id)}
                 ideasCount={isIdeaColumn ? ideasCount : undefined}
                 onSwitchToIdeas={isIdeaColumn ? onSwitchToIdeas : undefined}
-                items={filteredItems
-                  .filter((i) => i.status === col.id)
-                  .sort((a, b) => {
-                    // Pinned items always come first
-                    if (a.pinned && !b.pinned) return -1;
-                    if (!a.pinned && b.pinned) return 1;
-                    
-                    // For completed/done columns, sort by updatedAt descending (newest first)
-                    const isDoneColumn = col.title.toLowerCase() === 'done' || 
-                                        col.title.toLowerCase() === 'completed';
-                    if (isDoneColumn && a.updatedAt && b.updatedAt) {
-                      return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
-                    }
-                    
-                    // Within pinned or unpinned, sort by position
-                    return a.position - b.position;
-                  })
-                }
+                items={cardsByColumn.get(col.id) ?? []}
                 onCardClick={handleEditProject}
                 onTitleChange={handleColumnTitleChange}
+                onRoleChange={handleColumnRoleChange}
+                onRulesChange={handleColumnRulesChange}
+                onWipLimitChange={handleColumnWipLimitChange}
                 onDeleteColumn={handleDeleteColumn}
                 onDeleteProject={handleDeleteProject}
                 onTogglePin={handleTogglePin}
+                onDuplicateProject={onDuplicateProject}
+                onArchiveProject={onArchiveProject}
                 onMoveCard={onMoveCard}
                 onAddProject={handleAddProjectToColumn}
+                onAddFromTemplate={onAddFromTemplate}
                 cardSize={settingsState.cardSize}
                 isCreating={isCreatingInColumn === col.id}
                 onConfirmCreate={onConfirmCreate}
@@ -196,6 +295,10 @@ export function ClientDndWrapper({
           })}
         </SortableContext>
       </div>
+      )}
+      {lassoRect && (
+        <div className="fixed z-50 pointer-events-none rounded-sm border border-primary bg-primary/10" style={lassoRect} />
+      )}
       <DragOverlay>
         {activeId ? (
           <KanbanCard
@@ -0,0 +1,195 @@
+'use client';
+
+import { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Plus, Trash2, Zap } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  COLUMN_RULE_ACTIONS,
+  describeColumnRule,
+  parseColumnRules,
+  type ColumnRule,
+  type ColumnRuleActionType,
+  type ColumnRuleTrigger,
+} from '@/lib/column-rules';
+
+type ColumnRulesDialogProps = {
+  isOpen: boolean;
+  columnTitle: string;
+  rules: ColumnRule[];
+  onClose: () => void;
+  onSave: (rules: ColumnRule[]) => Promise<void> | void;
+};
+
+export function ColumnRulesDialog({ isOpen, columnTitle, rules, onClose, onSave }: ColumnRulesDialogProps) {
+  const [draft, setDraft] = useState<ColumnRule[]>(rules);
+  const [trigger, setTrigger] = useState<ColumnRuleTrigger>('enter');
+  const [actionType, setActionType] = useState<ColumnRuleActionType>('add-tag');
+  const [value, setValue] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Builds the rule from the form; parseColumnRules rejects incomplete input.
+  const pendingRule = (): ColumnRule | null => {
+    const action = (() => {
+      switch (actionType) {
+        case 'add-tag':
+        case 'remove-tag':
+          return { type: actionType, tag: value };
+        case 'set-due-date':
+          return { type: actionType, daysFromNow: value === '' ? NaN : Number(value) };
+        case 'append-checklist':
+          return { type: actionType, items: value.split('\n') };
+        default:
+          return { type: actionType };
+      }
+    })();
+    return parseColumnRules([{ id: uuidv4(), trigger, action }])[0] ?? null;
+  };
+
+  const handleAdd = () => {
+    const rule = pendingRule();
+    if (!rule) return;
+    setDraft(prev => [...prev, rule]);
+    setValue('');
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+      onClose();
+    } catch (error) {
+      console.error('Failed to save column rules:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const needsValue = actionType === 'add-tag' || actionType === 'remove-tag' || actionType === 'set-due-date' || actionType === 'append-checklist';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Zap className="h-4 w-4" /> Rules for “{columnTitle}”
+          </DialogTitle>
+          <DialogDescription>
+            Run automatically whenever a card enters or leaves this column — from the board, widgets or MCP.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {draft.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No rules yet.</p>
+          ) : (
+            <ul className="divide-y rounded-md border">
+              {draft.map(rule => (
+                <li key={rule.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                  <span className="flex-1">{describeColumnRule(rule)}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+                    onClick={() => setDraft(prev => prev.filter(r => r.id !== rule.id))}
+                    aria-label="Remove rule"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="space-y-3 rounded-md border bg-muted/20 p-3">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1.5">
+                <Label>When a card</Label>
+                <Select value={trigger} onValueChange={(v) => setTrigger(v as ColumnRuleTrigger)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="enter">Enters this column</SelectItem>
+                    <SelectItem value="exit">Leaves this column</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label>Then</Label>
+                <Select
+                  value={actionType}
+                  onValueChange={(v) => {
+                    setActionType(v as ColumnRuleActionType);
+                    setValue('');
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COLUMN_RULE_ACTIONS.map(a => (
+                      <SelectItem key={a.type} value={a.type}>{a.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {needsValue && (
+              <div className="space-y-1.5">
+                {actionType === 'append-checklist' ? (
+                  <>
+                    <Label htmlFor="rule-checklist">Checklist items (one per line)</Label>
+                    <Textarea
+                      id="rule-checklist"
+                      value={value}
+                      onChange={(e) => setValue(e.target.value)}
+                      rows={3}
+                    />
+                  </>
+                ) : actionType === 'set-due-date' ? (
+                  <>
+                    <Label htmlFor="rule-days">Days from the move (0 = same day)</Label>
+                    <Input
+                      id="rule-days"
+                      type="number"
+                      min={0}
+                      max={365}
+                      value={value}
+                      onChange={(e) => setValue(e.target.value)}
+                    />
+                  </>
+                ) : (
+                  <>
+                    <Label htmlFor="rule-tag">Tag</Label>
+                    <Input
+                      id="rule-tag"
+                      value={value}
+                      onChange={(e) => setValue(e.target.value)}
+                      placeholder="e.g. needs-finish"
+                    />
+                  </>
+                )}
+              </div>
+            )}
+
+            <Button variant="outline" size="sm" onClick={handleAdd} disabled={!pendingRule()}>
+              <Plus className="mr-2 h-4 w-4" /> Add rule
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving}>Save rules</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
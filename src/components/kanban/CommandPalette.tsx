@@ -0,0 +1,243 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState, type KeyboardEvent as ReactKeyboardEvent, type ReactNode } from 'react';
+import { ChevronRight, CornerDownLeft, Search, type LucideIcon } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { bestFuzzyScore } from '@/lib/fuzzy-match';
+import { cn } from '@/lib/utils';
+
+export type PaletteItem = {
+  id: string;
+  title: string;
+  /** Shown on the right, e.g. "Project", "Tag", "View". */
+  group: string;
+  subtitle?: string;
+  /** Extra text to match against (tags, column name, …). */
+  keywords?: string;
+  icon?: LucideIcon;
+  /** Added to the match score — recently opened cards rank first. */
+  boost?: number;
+  /** Only listed once the user starts typing (keeps the empty palette short). */
+  onlyWhenSearching?: boolean;
+  /** Listed whatever the query, after the matches (e.g. "Create task …"). */
+  alwaysShow?: boolean;
+  run?: () => void | Promise<void>;
+  /** Opens a follow-up list instead of running, e.g. picking a column. */
+  children?: () => PaletteItem[];
+};
+
+export type PaletteContext = {
+  query: string;
+  /** Card that had focus (or the pointer) when the palette opened. */
+  focusedProjectId: string | null;
+};
+
+export type PaletteSource = {
+  getItems: (context: PaletteContext) => PaletteItem[];
+  /** Called when the palette opens, e.g. to load plans or widgets lazily. */
+  onOpen?: () => void;
+};
+
+type CommandPaletteContextValue = {
+  register: (getSource: () => PaletteSource) => () => void;
+};
+
+type PalettePage = { title: string; items: PaletteItem[] };
+
+const MAX_RESULTS = 50;
+
+const CommandPaletteContext = createContext<CommandPaletteContextValue | null>(null);
+
+function findFocusedProjectId(): string | null {
+  const focused = document.activeElement?.closest<HTMLElement>('[data-project-id]');
+  if (focused) return focused.dataset.projectId ?? null;
+  const hovered = document.querySelectorAll<HTMLElement>('[data-project-id]:hover');
+  return hovered.length > 0 ? hovered[hovered.length - 1].dataset.projectId ?? null : null;
+}
+
+function rankItems(items: PaletteItem[], query: string): PaletteItem[] {
+  if (!query.trim()) return items.filter((item) => !item.onlyWhenSearching).slice(0, MAX_RESULTS);
+  const matches = items
+    .filter((item) => !item.alwaysShow)
+    .map((item) => ({ item, score: bestFuzzyScore(query, [item.title, item.keywords]) }))
+    .filter((m): m is { item: PaletteItem; score: number } => m.score !== null)
+    .sort((a, b) => b.score + (b.item.boost ?? 0) - (a.score + (a.item.boost ?? 0)))
+    .slice(0, MAX_RESULTS)
+    .map((m) => m.item);
+  return [...matches, ...items.filter((item) => item.alwaysShow)];
+}
+
+/**
+ * Cmd/Ctrl-K palette. The provider owns the dialog and shortcut; the board
+ * registers what can be found and run through useCommandPaletteSource.
+ */
+export function CommandPaletteProvider({ children }: { children: ReactNode }) {
+  const sourceRef = useRef<(() => PaletteSource) | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [pages, setPages] = useState<PalettePage[]>([]);
+  const [focusedProjectId, setFocusedProjectId] = useState<string | null>(null);
+  const [rootItems, setRootItems] = useState<PaletteItem[]>([]);
+  const [selected, setSelected] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const register = useCallback((getSource: () => PaletteSource) => {
+    sourceRef.current = getSource;
+    return () => {
+      if (sourceRef.current === getSource) sourceRef.current = null;
+    };
+  }, []);
+
+  const loadRootItems = (nextQuery: string, focusedId: string | null) => {
+    setRootItems(sourceRef.current?.().getItems({ query: nextQuery, focusedProjectId: focusedId }) ?? []);
+  };
+
+  const openPalette = () => {
+    const focusedId = findFocusedProjectId();
+    sourceRef.current?.().onOpen?.();
+    setFocusedProjectId(focusedId);
+    setQuery('');
+    setPages([]);
+    setSelected(0);
+    loadRootItems('', focusedId);
+    setIsOpen(true);
+  };
+
+  // The window listener is bound once; these keep it pointed at current state
+  const openRef = useRef(openPalette);
+  const isOpenRef = useRef(isOpen);
+  useEffect(() => {
+    openRef.current = openPalette;
+    isOpenRef.current = isOpen;
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        if (isOpenRef.current) setIsOpen(false);
+        else openRef.current();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const page = pages[pages.length - 1];
+  const results = rankItems(page ? page.items : rootItems, query);
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    setSelected(0);
+    if (!page) loadRootItems(value, focusedProjectId);
+  };
+
+  const choose = (item: PaletteItem | undefined) => {
+    if (!item) return;
+    if (item.children) {
+      setPages((prev) => [...prev, { title: item.title, items: item.children!() }]);
+      setQuery('');
+      setSelected(0);
+      return;
+    }
+    setIsOpen(false);
+    Promise.resolve(item.run?.()).catch((error) => console.error('Command failed:', error));
+  };
+
+  const handleKeyDown = (e: ReactKeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const next = (selected + (e.key === 'ArrowDown' ? 1 : -1) + results.length) % Math.max(results.length, 1);
+      setSelected(next);
+      listRef.current?.querySelector(`[data-index="${next}"]`)?.scrollIntoView({ block: 'nearest' });
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      choose(results[selected]);
+    } else if (e.key === 'Backspace' && !query && pages.length > 0) {
+      e.preventDefault();
+      setPages((prev) => prev.slice(0, -1));
+      setSelected(0);
+    }
+  };
+
+  return (
+    <CommandPaletteContext.Provider value={{ register }}>
+      {children}
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent
+          showCloseButton={false}
+          className="p-0 gap-0 overflow-hidden sm:max-w-xl top-[20%] translate-y-0"
+        >
+          <DialogTitle className="sr-only">Command palette</DialogTitle>
+          <div className="flex items-center gap-2 border-b px-3">
+            <Search className="h-4 w-4 text-muted-foreground shrink-0" />
+            {page && (
+              <span className="flex items-center gap-1 text-xs text-muted-foreground shrink-0 max-w-[40%] truncate">
+                {page.title}
+                <ChevronRight className="h-3 w-3" />
+              </span>
+            )}
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => handleQueryChange(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder={page ? 'Choose…' : 'Search cards, tags, plans or type a command…'}
+              className="flex-1 h-11 bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+              aria-label="Command"
+            />
+          </div>
+          <div ref={listRef} className="max-h-[360px] overflow-y-auto py-1" role="listbox">
+            {results.length === 0 ? (
+              <div className="px-3 py-6 text-center text-sm text-muted-foreground">No matches</div>
+            ) : (
+              results.map((item, index) => {
+                const Icon = item.icon;
+                return (
+                  <button
+                    key={item.id}
+                    data-index={index}
+                    role="option"
+                    aria-selected={index === selected}
+                    onMouseMove={() => setSelected(index)}
+                    onClick={() => choose(item)}
+                    className={cn(
+                      "w-full flex items-center gap-2 px-3 py-2 text-left text-sm",
+                      index === selected && "bg-accent text-accent-foreground"
+                    )}
+                  >
+                    {Icon && <Icon className="h-4 w-4 text-muted-foreground shrink-0" />}
+                    <span className="flex-1 min-w-0">
+                      <span className="block truncate">{item.title}</span>
+                      {item.subtitle && (
+                        <span className="block truncate text-xs text-muted-foreground">{item.subtitle}</span>
+                      )}
+                    </span>
+                    <span className="text-[10px] uppercase tracking-wider text-muted-foreground shrink-0">
+                      {item.group}
+                    </span>
+                    {item.children ? (
+                      <ChevronRight className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                    ) : index === selected ? (
+                      <CornerDownLeft className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                    ) : null}
+                  </button>
+                );
+              })
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </CommandPaletteContext.Provider>
+  );
+}
+
+/** Registers the palette's items and commands; the latest `source` is used on every open. */
+export function useCommandPaletteSource(source: PaletteSource) {
+  const ctx = useContext(CommandPaletteContext);
+  const sourceRef = useRef(source);
+  useEffect(() => {
+    sourceRef.current = source;
+  });
+  useEffect(() => ctx?.register(() => sourceRef.current), [ctx]);
+}
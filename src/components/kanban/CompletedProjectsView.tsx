@@ -7,10 +7,12 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Filter, Search, X, Calendar, CheckCircle2 } from 'lucide-react';
+import { Filter, Search, X, Calendar, CheckCircle2, Archive, ArchiveRestore } from 'lucide-react';
 import Image from 'next/image';
 import { cn } from '@/lib/utils';
-import { format, parseISO, startOfMonth, endOfMonth, isWithinInterval } from 'date-fns';
+import { format, startOfMonth, endOfMonth, isWithinInterval } from 'date-fns';
+import { useProjectSearch } from '@/hooks/use-project-search';
+import { SearchSnippet } from './SearchSnippet';
 
 type Tag = {
   name: string;
@@ -32,6 +34,7 @@ type CompletedProjectsViewProps = {
   tags: Tag[];
   projectGroups: ProjectGroup[];
   onProjectClick: (project: Project) => void;
+  onSetArchived?: (projectId: string, archived: boolean) => void;
 };
 
 export function CompletedProjectsView({
@@ -39,12 +42,17 @@ export function CompletedProjectsView({
   tags,
   projectGroups,
   onProjectClick,
+  onSetArchived,
 }: CompletedProjectsViewProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [selectedProjectGroup, setSelectedProjectGroup] = useState<string | null>(null);
   const [dateFilter, setDateFilter] = useState<'all' | 'this-month' | 'last-month' | 'last-3-months'>('all');
-  const [sortBy, setSortBy] = useState<'date-desc' | 'date-asc' | 'title'>('date-desc');
+  const [archiveFilter, setArchiveFilter] = useState<'all' | 'board' | 'archived'>('all');
+  // 'relevance' ranks search results and falls back to newest first without a query
+  const [sortBy, setSortBy] = useState<'relevance' | 'date-desc' | 'date-asc' | 'title'>('relevance');
+  const search = useProjectSearch(searchQuery, { isIdea: false, isCompleted: true });
+  const { matches, matchById } = search;
 
   // Filter completed projects (not tasks, and marked as completed)
   const completedProjects = useMemo(() => {
@@ -55,13 +63,12 @@ export function CompletedProjectsView({
       // Must be marked as completed
       if (!p.isCompleted) return false;
 
-      // Search filter
-      if (searchQuery) {
-        const query = searchQuery.toLowerCase();
-        const matchesTitle = p.title.toLowerCase().includes(query);
-        const matchesDescription = p.description?.toLowerCase().includes(query);
-        if (!matchesTitle && !matchesDescription) return false;
-      }
+      // On the board or archived
+      if (archiveFilter === 'board' && p.archivedAt) return false;
+      if (archiveFilter === 'archived' && !p.archivedAt) return false;
+
+      // Search filter (server-side full-text search)
+      if (matches && !matchById.has(p.id)) return false;
 
       // Tag filter
       if (selectedTags.length > 0) {
@@ -77,7 +84,7 @@ export function CompletedProjectsView({
 
       // Date filter
       if (dateFilter !== 'all' && p.updatedAt) {
-        const updatedDate = parseISO(p.updatedAt.toString());
+        const updatedDate = new Date(p.updatedAt);
         const now = new Date();
         
         switch (dateFilter) {
@@ -103,13 +110,19 @@ export function CompletedProjectsView({
 
       return true;
     });
-  }, [projects, searchQuery, selectedTags, selectedProjectGroup, dateFilter]);
+  }, [projects, matches, matchById, selectedTags, selectedProjectGroup, dateFilter, archiveFilter]);
 
   // Sort projects
   const sortedProjects = useMemo(() => {
     const sorted = [...completedProjects];
     
     switch (sortBy) {
+      case 'relevance':
+        if (matches) {
+          sorted.sort((a, b) => matchById.get(a.id)!.order - matchById.get(b.id)!.order);
+          break;
+        }
+      // falls through
       case 'date-desc':
         sorted.sort((a, b) => {
           if (!a.updatedAt || !b.updatedAt) return 0;
@@ -128,7 +141,7 @@ export function CompletedProjectsView({
     }
     
     return sorted;
-  }, [completedProjects, sortBy]);
+  }, [completedProjects, sortBy, matches, matchById]);
 
   const toggleTag = (tagName: string) => {
     setSelectedTags(prev =>
@@ -143,9 +156,10 @@ export function CompletedProjectsView({
     setSelectedTags([]);
     setSelectedProjectGroup(null);
     setDateFilter('all');
+    setArchiveFilter('all');
   };
 
-  const hasActiveFilters = searchQuery || selectedTags.length > 0 || selectedProjectGroup || dateFilter !== 'all';
+  const hasActiveFilters = searchQuery || selectedTags.length > 0 || selectedProjectGroup || dateFilter !== 'all' || archiveFilter !== 'all';
 
   return (
     <div className="flex flex-col h-full overflow-hidden">
@@ -179,6 +193,7 @@ export function CompletedProjectsView({
                 <SelectValue placeholder="Sort by" />
               </SelectTrigger>
               <SelectContent>
+                <SelectItem value="relevance">{searchQuery ? 'Best Match' : 'Newest First'}</SelectItem>
                 <SelectItem value="date-desc">Newest First</SelectItem>
                 <SelectItem value="date-asc">Oldest First</SelectItem>
                 <SelectItem value="title">Title A-Z</SelectItem>
@@ -203,6 +218,18 @@ export function CompletedProjectsView({
               </SelectContent>
             </Select>
 
+            {/* Board / archived filter */}
+            <Select value={archiveFilter} onValueChange={(v) => setArchiveFilter(v as typeof archiveFilter)}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Board &amp; Archive</SelectItem>
+                <SelectItem value="board">On the Board</SelectItem>
+                <SelectItem value="archived">Archived</SelectItem>
+              </SelectContent>
+            </Select>
+
             {/* Project Group Filter */}
             <Select 
               value={selectedProjectGroup || 'all'} 
@@ -263,7 +290,7 @@ export function CompletedProjectsView({
           <div className="flex flex-col items-center justify-center h-full text-center">
             <CheckCircle2 className="h-16 w-16 text-muted-foreground/20 mb-4" />
             <h3 className="text-lg font-semibold text-muted-foreground mb-2">
-              {hasActiveFilters ? 'No projects match your filters' : 'No completed projects yet'}
+              {search.isSearching ? 'Searching…' : hasActiveFilters ? 'No projects match your filters' : 'No completed projects yet'}
             </h3>
             <p className="text-sm text-muted-foreground max-w-md">
               {hasActiveFilters
@@ -276,9 +303,24 @@ export function CompletedProjectsView({
             {sortedProjects.map(project => (
               <Card
                 key={project.id}
-                className="w-60 shrink-0 cursor-pointer hover:shadow-lg transition-all hover:scale-[1.02] group overflow-hidden"
+                className="relative w-60 shrink-0 cursor-pointer hover:shadow-lg transition-all hover:scale-[1.02] group overflow-hidden"
                 onClick={() => onProjectClick(project)}
               >
+                {onSetArchived && (
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="absolute top-2 right-2 z-10 h-7 w-7 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onSetArchived(project.id, !project.archivedAt);
+                    }}
+                    title={project.archivedAt ? 'Unarchive (back to the board)' : 'Archive'}
+                    aria-label={project.archivedAt ? 'Unarchive' : 'Archive'}
+                  >
+                    {project.archivedAt ? <ArchiveRestore className="h-3.5 w-3.5" /> : <Archive className="h-3.5 w-3.5" />}
+                  </Button>
+                )}
                 {project.imageUrl && (
                   <div className="relative w-full h-32 overflow-hidden bg-muted">
                     <Image
@@ -293,7 +335,9 @@ export function CompletedProjectsView({
                   <h3 className="font-semibold text-sm mb-1.5 line-clamp-2">
                     {project.title}
                   </h3>
-                  {project.description && (
+                  {matchById.get(project.id)?.snippet ? (
+                    <SearchSnippet snippet={matchById.get(project.id)!.snippet} className="mb-2" />
+                  ) : project.description && (
                     <p className="text-xs text-muted-foreground mb-2 line-clamp-2">
                       {project.description}
                     </p>
@@ -325,13 +369,25 @@ export function CompletedProjectsView({
                     <div className="flex items-center gap-1 text-[10px] text-muted-foreground">
                       <Calendar className="h-2.5 w-2.5" />
                       <span>
-                        {format(parseISO(project.updatedAt.toString()), 'MMM d, yyyy')}
+                        {format(new Date(project.updatedAt), 'MMM d, yyyy')}
                       </span>
+                      {project.archivedAt && (
+                        <Badge variant="outline" className="ml-auto text-[10px] px-1.5 py-0">
+                          Archived
+                        </Badge>
+                      )}
                     </div>
                   )}
                 </CardContent>
               </Card>
             ))}
+            {search.hasMore && (
+              <div className="w-full flex justify-center">
+                <Button variant="ghost" size="sm" onClick={search.loadMore} disabled={search.isLoadingMore}>
+                  Load more results
+                </Button>
+              </div>
+            )}
           </div>
         )}
       </div>
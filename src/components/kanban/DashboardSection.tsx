@@ -11,6 +11,7 @@ import { arrayMove, SortableContext, sortableKeyboardCoordinates, useSortable, r
 import { CSS } from '@dnd-kit/utilities';
 import { WidgetsSection } from '@/components/widgets';
 import type { Project } from './KanbanBoard';
+import type { ColumnRole } from '@/lib/board-columns';
 
 type Tag = {
   name: string;
@@ -62,6 +63,7 @@ type Column = {
   id: string;
   title: string;
   order: number;
+  role?: ColumnRole;
 };
 
 type DashboardSectionProps = {
@@ -0,0 +1,249 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import { Check, Copy, KeyRound, Loader2, Plus, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useConfirm } from '@/components/ui/confirm-dialog';
+import { createApiToken, getApiTokens, revokeApiToken } from '@/app/actions';
+import {
+  API_TOKEN_SCOPES,
+  apiTokenScopeLabel,
+  isApiTokenActive,
+  isApiTokenScope,
+  type ApiTokenScope,
+  type ApiTokenSummary,
+} from '@/lib/api-tokens';
+import { cn } from '@/lib/utils';
+
+const NO_EXPIRY = '0';
+const EXPIRY_OPTIONS = [
+  { value: NO_EXPIRY, label: 'Never expires' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+];
+
+type TokenForm = { name: string; scope: ApiTokenScope; expiresInDays: string };
+
+/**
+ * Settings → Devices: one bearer token per phone, Shortcut or MCP client, so
+ * losing a device means revoking its token instead of rotating a shared secret.
+ */
+export function DeviceTokenSettings({ onError }: { onError: (message: string) => void }) {
+  const confirmDialog = useConfirm();
+  const [tokens, setTokens] = useState<ApiTokenSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [form, setForm] = useState<TokenForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  // The new secret, shown until dismissed; it can't be read back later
+  const [created, setCreated] = useState<{ name: string; token: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Bumped after every change so the list reloads
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    getApiTokens().then((rows) => {
+      if (cancelled) return;
+      setTokens(rows);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [version]);
+
+  const handleCreate = async () => {
+    if (!form || !form.name.trim()) return;
+    setIsSaving(true);
+    try {
+      const { token, summary } = await createApiToken({
+        name: form.name,
+        scope: form.scope,
+        expiresInDays: Number(form.expiresInDays),
+      });
+      setCreated({ name: summary.name, token });
+      setCopied(false);
+      setForm(null);
+      setVersion((v) => v + 1);
+    } catch (error) {
+      console.error('Failed to create token', error);
+      onError('Failed to create token');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async (token: ApiTokenSummary) => {
+    const ok = await confirmDialog({
+      title: `Revoke "${token.name}"?`,
+      description: 'Anything using this token stops working right away. This cannot be undone.',
+      confirmLabel: 'Revoke',
+      destructive: true,
+    });
+    if (!ok) return;
+    try {
+      await revokeApiToken(token.id);
+      setVersion((v) => v + 1);
+    } catch (error) {
+      console.error('Failed to revoke token', error);
+      onError('Failed to revoke token');
+    }
+  };
+
+  const copyToken = async () => {
+    if (!created) return;
+    await navigator.clipboard.writeText(created.token);
+    setCopied(true);
+  };
+
+  const timeAgo = (iso: string) => formatDistanceToNow(parseISO(iso), { addSuffix: true });
+
+  return (
+    <div className="space-y-4 py-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium">Device Tokens</p>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            Bearer tokens for <code>/api/capture</code> and <code>/api/mcp</code>, one per phone, Shortcut or MCP client.
+          </p>
+        </div>
+        {!form && (
+          <Button size="sm" onClick={() => setForm({ name: '', scope: 'capture', expiresInDays: NO_EXPIRY })}>
+            <Plus className="h-4 w-4 mr-1" /> New Token
+          </Button>
+        )}
+      </div>
+
+      {created && (
+        <div className="border border-amber-500/50 rounded-lg p-3 space-y-2 bg-amber-500/5">
+          <div className="flex items-start justify-between gap-2">
+            <p className="text-sm font-medium">Token for {created.name}</p>
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setCreated(null)} aria-label="Dismiss">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">Copy it now: it won&apos;t be shown again.</p>
+          <div className="flex gap-2">
+            <Input readOnly value={created.token} className="h-8 font-mono text-xs" onFocus={(e) => e.currentTarget.select()} />
+            <Button size="sm" variant="outline" onClick={() => void copyToken()}>
+              {copied ? <Check className="h-4 w-4 mr-1" /> : <Copy className="h-4 w-4 mr-1" />}
+              {copied ? 'Copied' : 'Copy'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {form && (
+        <div className="border rounded-lg p-4 space-y-3 bg-muted/30">
+          <p className="text-sm font-medium">New Token</p>
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-muted-foreground">Name</label>
+            <Input
+              autoFocus
+              className="h-8"
+              placeholder="e.g. iPhone Shortcut, Claude on laptop…"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              onKeyDown={(e) => e.key === 'Enter' && void handleCreate()}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-muted-foreground">Access</label>
+              <Select value={form.scope} onValueChange={(v) => isApiTokenScope(v) && setForm({ ...form, scope: v })}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {API_TOKEN_SCOPES.map((scope) => (
+                    <SelectItem key={scope.value} value={scope.value}>
+                      {scope.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {API_TOKEN_SCOPES.find((s) => s.value === form.scope)?.description}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-muted-foreground">Expires</label>
+              <Select value={form.expiresInDays} onValueChange={(v) => setForm({ ...form, expiresInDays: v })}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="outline" onClick={() => setForm(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={() => void handleCreate()} disabled={isSaving || !form.name.trim()}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Create Token
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : tokens.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No device tokens yet. QUICK_CAPTURE_TOKEN and REMOTE_MCP_TOKEN still work if set.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {tokens.map((token) => {
+            const active = isApiTokenActive(token);
+            return (
+              <div key={token.id} className={cn('flex items-center gap-3 rounded-lg border p-3', !active && 'opacity-60')}>
+                <KeyRound className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="truncate text-sm font-medium">{token.name}</span>
+                    <Badge variant="secondary">{apiTokenScopeLabel(token.scope)}</Badge>
+                    {token.revokedAt ? (
+                      <Badge variant="outline">Revoked</Badge>
+                    ) : !active ? (
+                      <Badge variant="outline">Expired</Badge>
+                    ) : null}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    <code>{token.prefix}…</code> · created {format(parseISO(token.createdAt), 'MMM d, yyyy')}
+                    {' · '}
+                    {token.lastUsedAt ? `last used ${timeAgo(token.lastUsedAt)}` : 'never used'}
+                    {token.expiresAt && !token.revokedAt && (
+                      <> · {active ? 'expires' : 'expired'} {format(parseISO(token.expiresAt), 'MMM d, yyyy')}</>
+                    )}
+                  </p>
+                </div>
+                {!token.revokedAt && (
+                  <Button size="sm" variant="outline" className="text-destructive" onClick={() => void handleRevoke(token)}>
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
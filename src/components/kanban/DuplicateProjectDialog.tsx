@@ -0,0 +1,93 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { duplicateProject } from '@/app/actions';
+import { DEFAULT_DUPLICATE_OPTIONS, type DuplicateProjectOptions } from '@/lib/project-copy';
+
+const OPTION_LABELS: Array<{ key: keyof DuplicateProjectOptions; label: string }> = [
+  { key: 'resetChecklists', label: 'Untick checklists in the notes' },
+  { key: 'resetMaterialFlags', label: 'Clear “to buy” / “to build” on materials' },
+  { key: 'includePlans', label: 'Copy plans' },
+  { key: 'includeInspiration', label: 'Copy inspiration' },
+  { key: 'includeTags', label: 'Keep tags' },
+  { key: 'includeGroup', label: 'Keep project group' },
+];
+
+type DuplicateProjectDialogProps = {
+  projectId: string;
+  projectTitle: string;
+  onClose: () => void;
+  onDuplicated?: (newId: string) => void;
+};
+
+export function DuplicateProjectDialog({ projectId, projectTitle, onClose, onDuplicated }: DuplicateProjectDialogProps) {
+  const [options, setOptions] = useState<DuplicateProjectOptions>(DEFAULT_DUPLICATE_OPTIONS);
+  const [isDuplicating, setIsDuplicating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copyId, setCopyId] = useState<string | null>(null);
+
+  const handleDuplicate = async () => {
+    setIsDuplicating(true);
+    setError(null);
+    try {
+      const newId = await duplicateProject(projectId, options);
+      setCopyId(newId);
+      onDuplicated?.(newId);
+    } catch (err) {
+      console.error('Failed to duplicate project:', err);
+      setError('Could not duplicate this card');
+    } finally {
+      setIsDuplicating(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Duplicate “{projectTitle}”</DialogTitle>
+          <DialogDescription>
+            {copyId
+              ? `“${projectTitle} (copy)” was added next to the original.`
+              : 'Notes, materials, cover and attachments are always copied. Uploaded files are duplicated, so each card keeps its own.'}
+          </DialogDescription>
+        </DialogHeader>
+        {copyId ? (
+          <DialogFooter>
+            <Button variant="outline" asChild>
+              <Link href={`/projects/${copyId}`} prefetch={false}>Open copy</Link>
+            </Button>
+            <Button onClick={onClose}>Done</Button>
+          </DialogFooter>
+        ) : (
+          <>
+            <div className="space-y-3 py-2">
+              {OPTION_LABELS.map(({ key, label }) => (
+                <label key={key} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={options[key]}
+                    onCheckedChange={(checked) => setOptions((prev) => ({ ...prev, [key]: checked === true }))}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <DialogFooter>
+              <Button variant="outline" onClick={onClose}>Cancel</Button>
+              <Button onClick={handleDuplicate} disabled={isDuplicating}>
+                {isDuplicating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Duplicate
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
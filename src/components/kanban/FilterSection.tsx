@@ -1,7 +1,7 @@
 'use client';
 
 import { ReactNode } from 'react';
-import { X } from 'lucide-react';
+import { Lock, X } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
@@ -30,6 +30,7 @@ type FilterSectionProps = {
   hiddenGroups: string[];
   showUntagged: boolean;
   showUngrouped: boolean;
+  showBlocked?: boolean;
   onTagToggle: (tag: string) => void;
   onGroupToggle: (groupId: string) => void;
   onClearFilters: () => void;
@@ -37,6 +38,7 @@ type FilterSectionProps = {
   onToggleGroupVisibility: (groupId: string) => void;
   onToggleUntagged: () => void;
   onToggleUngrouped: () => void;
+  onToggleBlocked?: () => void;
   actions?: ReactNode;
 };
 
@@ -49,15 +51,17 @@ export function FilterSection({
   hiddenGroups,
   showUntagged,
   showUngrouped,
+  showBlocked = false,
   onTagToggle,
   onGroupToggle,
   onClearFilters,
   onToggleUntagged,
+  onToggleBlocked,
   actions,
 }: FilterSectionProps) {
   const visibleTags = tags.filter(tag => !hiddenTags.includes(tag.name));
   const visibleGroups = projectGroups.filter(group => !hiddenGroups.includes(group.id));
-  const hasActiveFilters = activeTags.length > 0 || activeGroups.length > 0 || showUntagged || showUngrouped;
+  const hasActiveFilters = activeTags.length > 0 || activeGroups.length > 0 || showUntagged || showUngrouped || showBlocked;
   const hasFilters = tags.length > 0 || projectGroups.length > 0;
 
   if (!hasFilters && !actions) {
@@ -138,6 +142,24 @@ export function FilterSection({
             </Badge>
           )}
 
+          {/* Blocked filter */}
+          {onToggleBlocked && (
+            <Badge
+              variant={showBlocked ? "default" : "outline"}
+              className={cn(
+                "cursor-pointer transition-all hover:scale-105",
+                showBlocked && "ring-2 ring-offset-1 ring-offset-background"
+              )}
+              onClick={() => onToggleBlocked()}
+            >
+              <Lock className="mr-1 h-3 w-3" />
+              Blocked
+              {showBlocked && (
+                <X className="ml-1 h-3 w-3" />
+              )}
+            </Badge>
+          )}
+
           {/* Clear button */}
           {hasActiveFilters && (
             <Button
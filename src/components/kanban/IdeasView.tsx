@@ -8,6 +8,11 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Lightbulb, Plus, Search, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useProjectSearch } from '@/hooks/use-project-search';
+import { SearchSnippet } from './SearchSnippet';
+import { BulkActionBar, type BulkAction } from './BulkActionBar';
+import { useSelection } from '@/hooks/use-selection';
+import { useLassoSelection } from '@/hooks/use-lasso-selection';
 
 type Tag = {
   name: string;
@@ -24,6 +29,9 @@ type IdeasViewProps = {
   onMoveToKanban: (ideaId: string, columnId: string) => void;
   onDeleteIdea: (ideaId: string) => void;
   onCreateIdea?: () => void;
+  projectGroups?: Array<{ id: string; name: string }>;
+  /** Resolves false when the action was cancelled, keeping the selection. */
+  onBulkAction?: (ideaIds: string[], action: BulkAction) => Promise<boolean>;
 };
 
 export function IdeasView({
@@ -34,6 +42,8 @@ export function IdeasView({
   onMoveToKanban,
   onDeleteIdea,
   onCreateIdea,
+  projectGroups = [],
+  onBulkAction,
 }: IdeasViewProps) {
   const [localIdeas, setLocalIdeas] = useState<Project[]>(propIdeas);
   const [searchQuery, setSearchQuery] = useState('');
@@ -44,27 +54,38 @@ export function IdeasView({
     setLocalIdeas(propIdeas);
   }, [propIdeas]);
 
+  const search = useProjectSearch(searchQuery, { isIdea: true });
+  const { matches, matchById } = search;
+
   const filteredIdeas = useMemo(() => {
     return localIdeas
       .filter(idea => {
-        if (searchQuery) {
-          const q = searchQuery.toLowerCase();
-          if (
-            !idea.title.toLowerCase().includes(q) &&
-            !idea.description?.toLowerCase().includes(q)
-          )
-            return false;
-        }
+        if (matches && !matchById.has(idea.id)) return false;
         if (selectedTags.length > 0) {
           if (!selectedTags.some(t => idea.tags?.includes(t))) return false;
         }
         return true;
       })
-      .sort((a, b) => a.position - b.position);
-  }, [localIdeas, searchQuery, selectedTags]);
+      .sort((a, b) =>
+        matches
+          ? matchById.get(a.id)!.order - matchById.get(b.id)!.order
+          : a.position - b.position
+      );
+  }, [localIdeas, matches, matchById, selectedTags]);
 
   const hasActiveFilters = searchQuery || selectedTags.length > 0;
 
+  const selection = useSelection();
+  const { lassoRect, onLassoMouseDown } = useLassoSelection(onBulkAction ? selection.selectMany : undefined);
+  const selectedIdeas = filteredIdeas.filter(idea => selection.selectedIds.has(idea.id));
+
+  const handleBulkAction = async (action: BulkAction) => {
+    if (!onBulkAction) return;
+    const done = await onBulkAction(selectedIdeas.map(idea => idea.id), action);
+    // Moved and deleted ideas leave this view
+    if (done && (action.type === 'move' || action.type === 'delete')) selection.clearSelection();
+  };
+
   return (
     <div className="flex flex-col h-full overflow-hidden">
       {/* Toolbar */}
@@ -131,13 +152,18 @@ export function IdeasView({
         <div className="flex flex-1 items-center justify-center flex-col gap-3 text-muted-foreground">
           <Lightbulb className="h-12 w-12 opacity-20" />
           <p className="text-sm">
-            {hasActiveFilters
+            {search.isSearching
+              ? 'Searching…'
+              : hasActiveFilters
               ? 'No ideas match your filters.'
               : 'No ideas yet. Create one to get started.'}
           </p>
         </div>
       ) : (
-        <div className="flex flex-wrap gap-3 p-4 content-start overflow-y-auto flex-1">
+        <div
+          className="flex flex-wrap gap-3 p-4 content-start overflow-y-auto flex-1 select-none"
+          onMouseDown={onLassoMouseDown}
+        >
           {filteredIdeas.map(idea => (
             <div key={idea.id} className="w-60 shrink-0">
               <KanbanCard
@@ -148,11 +174,39 @@ export function IdeasView({
                 columns={columns}
                 size="small"
                 className="h-full"
+                isSelected={selection.selectedIds.has(idea.id)}
+                onSelect={
+                  onBulkAction
+                    ? (modifiers) => selection.selectWithModifiers(idea.id, modifiers, filteredIdeas.map(i => i.id))
+                    : undefined
+                }
               />
+              {matchById.get(idea.id)?.snippet && (
+                <SearchSnippet snippet={matchById.get(idea.id)!.snippet} className="mt-1 px-1" />
+              )}
             </div>
           ))}
+          {search.hasMore && (
+            <div className="w-full flex justify-center">
+              <Button variant="ghost" size="sm" onClick={search.loadMore} disabled={search.isLoadingMore}>
+                Load more results
+              </Button>
+            </div>
+          )}
         </div>
       )}
+      {lassoRect && (
+        <div className="fixed z-50 pointer-events-none rounded-sm border border-primary bg-primary/10" style={lassoRect} />
+      )}
+      <BulkActionBar
+        selected={selectedIdeas}
+        columns={columns}
+        tags={tags}
+        projectGroups={projectGroups}
+        mode="ideas"
+        onAction={handleBulkAction}
+        onClear={selection.clearSelection}
+      />
     </div>
   );
 }
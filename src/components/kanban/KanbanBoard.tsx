@@ -10,15 +10,43 @@ import {
 import { arrayMove } from '@dnd-kit/sortable';
 import { ProjectModal } from './ProjectModal';
 import { SettingsModal } from './SettingsModal';
+import { AddProjectDialog } from '@/components/AddProjectDialog';
+import { DuplicateProjectDialog } from './DuplicateProjectDialog';
 import { FilterSection } from './FilterSection';
 import dynamic from 'next/dynamic';
 import { DashboardSection } from './DashboardSection';
 import { ModeToggle } from '@/components/mode-toggle';
 import { Sheet, SheetContent, SheetTrigger, SheetHeader, SheetTitle, SheetDescription } from "@/components/ui/sheet";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Menu, LayoutDashboard, Columns3, FileStack, CheckCircle2, Lightbulb } from 'lucide-react';
+import { Menu, LayoutDashboard, Columns3, FileStack, CheckCircle2, Lightbulb, Trash2, CalendarDays, ArrowRightLeft, CornerDownRight, FolderOpen, ListTodo, Pin, PinOff, Tag as TagIcon, LayoutTemplate, Copy, Rows3, type LucideIcon } from 'lucide-react';
 import { AICaptureInput } from './AICaptureInput';
 import { useConfirm } from '@/components/ui/confirm-dialog';
+import { isDoneColumn, type ColumnRole } from '@/lib/board-columns';
+import type { ColumnRule } from '@/lib/column-rules';
+import { isOverWipLimit, type WipEnforcement } from '@/lib/wip-limits';
+import { getOpenBlockers } from '@/lib/project-dependencies';
+import { compareLaneCards, laneNeighbours, positionBetween } from '@/lib/lane-positions';
+import {
+  NO_SWIMLANES,
+  buildSwimlanes,
+  moveToSwimlane,
+  parseSwimlaneCellId,
+  parseSwimlaneSetting,
+  swimlaneChange,
+  swimlaneKeyOf,
+  swimlaneValue,
+  type SwimlaneFields,
+} from '@/lib/swimlanes';
+import { computeRollups } from '@/lib/project-tree';
+import { parseRecurrence, type RecurrenceRule } from '@/lib/recurrence';
+import { getRecentProjectIds, trackRecentProject } from '@/lib/recent-projects';
+import { getDayPlanProjectIds, setDayPlanProjectIds, todayPlanDate, type DayPlanConfig } from '@/lib/day-plans';
+import { useCommandPaletteSource, type PaletteItem } from './CommandPalette';
+import { BulkActionBar, type BulkAction } from './BulkActionBar';
+import { useSelection, type SelectModifiers } from '@/hooks/use-selection';
+import { useLiveSync } from '@/hooks/use-live-sync';
+import { reconcileList, sameVersionedRow } from '@/lib/live-sync';
+import type { ProjectTemplate } from '@/lib/project-templates';
 
 // Tab views are only rendered when the user switches to them — lazy-load so
 // their code isn't in the initial board bundle.
@@ -30,11 +58,14 @@ const TabViewFallback = () => (
 const PlansView = dynamic(() => import('./PlansView').then(m => ({ default: m.PlansView })), { loading: TabViewFallback });
 const CompletedProjectsView = dynamic(() => import('./CompletedProjectsView').then(m => ({ default: m.CompletedProjectsView })), { loading: TabViewFallback });
 const IdeasView = dynamic(() => import('./IdeasView').then(m => ({ default: m.IdeasView })), { loading: TabViewFallback });
+const CalendarView = dynamic(() => import('./CalendarView').then(m => ({ default: m.CalendarView })), { loading: TabViewFallback });
+const TrashView = dynamic(() => import('./TrashView').then(m => ({ default: m.TrashView })), { loading: TabViewFallback });
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectSeparator, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Plus, Settings, KanbanSquareDashed } from 'lucide-react';
 import { useLocalStorage } from '@/hooks/use-local-storage';
-import { updateProjectStatus, updateSettings, updateColumn, createColumn, createProject, deleteColumn, deleteProject, updateColumnsOrder, updateColumnOrder, getAllTags, getAllProjectGroups, getAllWidgets, getAllMaterials, getProjects, getProject, getAllPlans, StandalonePlan, toggleProjectPinned, getIdeas, moveIdeaToKanban, createIdea, moveProjectToIdeas } from '@/app/actions';
+import { moveProject, updateSettings, updateColumn, createColumn, createProject, deleteColumn, deleteProject, updateColumnsOrder, getColumns, getAllTags, getAllProjectGroups, getAllWidgets, getAllMaterials, getProjects, getArchivedProjects, setProjectArchived, getProject, getAllPlans, StandalonePlan, toggleProjectPinned, getIdeas, moveIdeaToKanban, createIdea, moveProjectToIdeas, updateProject, updateWidget, updateColumnRole, updateColumnRules, updateColumnWipLimit, bulkMoveProjects, bulkUpdateProjectTags, bulkSetProjectGroup, bulkSetProjectsPinned, bulkCompleteProjects, bulkMoveProjectsToIdeas, bulkDeleteProjects, getProjectTemplates, createProjectFromTemplate, type TrashItemKind } from '@/app/actions';
 
 import { ClientDndWrapper } from './ClientDndWrapper';
 
@@ -58,6 +89,16 @@ export type Project = {
     createdAt: Date | null;
     updatedAt: Date | null;
     parentProjectId?: string | null;
+    startDate?: string | null;
+    dueDate?: string | null;
+    completedAt?: string | null;
+    archivedAt?: string | null;
+    blockedBy?: string[];
+    recurrence?: RecurrenceRule | null;
+    parentId?: string | null;
+    childPosition?: number;
+    checklistTotal?: number;
+    checklistDone?: number;
     // Mapped from snake_case in Supabase
     rich_content?: string;
     image_url?: string;
@@ -83,6 +124,18 @@ type ProjectGroup = {
   icon?: string;
 };
 
+type BoardView = 'dashboard' | 'kanban' | 'plans' | 'completed' | 'calendar' | 'ideas' | 'trash';
+
+const BOARD_VIEWS: Array<{ id: BoardView; label: string; icon: LucideIcon }> = [
+  { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
+  { id: 'kanban', label: 'Kanban', icon: Columns3 },
+  { id: 'ideas', label: 'Ideas', icon: Lightbulb },
+  { id: 'plans', label: 'Plans', icon: FileStack },
+  { id: 'completed', label: 'Completed', icon: CheckCircle2 },
+  { id: 'calendar', label: 'Calendar', icon: CalendarDays },
+  { id: 'trash', label: 'Trash', icon: Trash2 },
+];
+
 type Widget = {
   id: string;
   type: 'todo-list' | 'materials-shopping' | 'project-todos' | 'day-plan' | 'active-projects' | 'tag-lane-board';
@@ -111,12 +164,18 @@ export type SettingsData = {
     visibleTags?: string[];
     hiddenProjects?: string[];
     hiddenTags?: string[];
+    trashRetentionDays?: number;
+    autoArchiveDays?: number;
 };
 
 export type Column = {
     id: string;
     title: string;
     order: number;
+    role?: ColumnRole;
+    rules?: ColumnRule[];
+    wip_limit?: number | null;
+    wip_enforcement?: WipEnforcement;
 };
 
 type KanbanBoardProps = {
@@ -158,9 +217,20 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
           isTask: Boolean(p.is_task ?? p.isTask ?? false),
           isCompleted: Boolean(p.is_completed ?? p.isCompleted ?? false),
           isIdea: Boolean(p.is_idea ?? p.isIdea ?? false),
+          startDate: (p.start_date ?? p.startDate ?? null) as string | null,
+          dueDate: (p.due_date ?? p.dueDate ?? null) as string | null,
+          completedAt: (p.completed_at ?? p.completedAt ?? null) as string | null,
+          archivedAt: (p.archived_at ?? p.archivedAt ?? null) as string | null,
+          blockedBy: (p.blocked_by ?? p.blockedBy ?? []) as string[],
+          recurrence: parseRecurrence(p.recurrence),
+          parentId: (p.parent_id ?? p.parentId ?? null) as string | null,
+          childPosition: Number(p.child_position ?? p.childPosition ?? 0),
+          checklistTotal: Number(p.checklist_total ?? p.checklistTotal ?? 0),
+          checklistDone: Number(p.checklist_done ?? p.checklistDone ?? 0),
           plans: (p.plans ?? null) as string | null,
           inspiration: (p.inspiration ?? null) as string | null,
           attachments: (p.attachments ?? null) as Record<string, unknown>[] | null,
+          updatedAt: (p.updated_at ?? p.updatedAt) ? new Date((p.updated_at ?? p.updatedAt) as string) : null,
       })) as unknown as Project[];
   };
 
@@ -168,15 +238,23 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
   const [settingsState, setSettingsState] = useState<SettingsData>(initialSettings);
   const [cols, setCols] = useState<Column[]>(initialColumns);
   const [activeId, setActiveId] = useState<string | null>(null);
+  // Where the dragged card started — handleDragOver moves it between lanes
+  // (and swimlanes) mid-drag
+  const dragOriginRef = useRef<{ status: string; position: number; swimlane: SwimlaneFields } | null>(null);
+  // Lane that just refused a card because of its WIP limit (briefly highlighted)
+  const [wipBlockedColumnId, setWipBlockedColumnId] = useState<string | null>(null);
   const [editingProject, setEditingProject] = useState<Project | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [newProjectColumnId, setNewProjectColumnId] = useState<string | undefined>(undefined);
   
   const [isCreatingInColumn, setIsCreatingInColumn] = useState<string | null>(null);
+  // "New from template…" dialog; columnId is set when opened from a lane's + menu
+  const [templateDialog, setTemplateDialog] = useState<{ columnId?: string; templates: ProjectTemplate[] } | null>(null);
+  const [duplicatingProject, setDuplicatingProject] = useState<Project | null>(null);
   // Tracks background server-action work so the UI can show subtle pending
   // state without blocking interaction (drag, create, reorder).
-  const [, startServerTransition] = useTransition();
+  const [isServerPending, startServerTransition] = useTransition();
 
   // Filter state
   const [activeTags, setActiveTags] = useState<string[]>([]);
@@ -185,6 +263,7 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
   const [hiddenGroups, setHiddenGroups] = useState<string[]>(initialSettings.hiddenProjects || []);
   const [showUntagged, setShowUntagged] = useState(false);
   const [showUngrouped, setShowUngrouped] = useState(false);
+  const [showBlocked, setShowBlocked] = useState(false);
   const [tags, setTags] = useState<Tag[]>(
     (initialTags as Array<Tag & { emoji?: string | null; icon?: string | null }>).map(t => ({ ...t, emoji: t.emoji ?? undefined, icon: t.icon ?? undefined }))
   );
@@ -200,13 +279,24 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
   const [titleInput, setTitleInput] = useState(initialSettings.boardTitle);
   const titleInputRef = useRef<HTMLInputElement>(null);
 
-  const [activeView, setActiveView] = useLocalStorage<'dashboard' | 'kanban' | 'plans' | 'completed' | 'ideas'>('kanban-view', 'dashboard');
+  const [activeView, setActiveView] = useLocalStorage<BoardView>('kanban-view', 'dashboard');
   const [ideas, setIdeas] = useState<Project[]>(mapProjects(initialIdeas));
+  // Archived cards live off the board; loaded for the Completed view only
+  const [archivedItems, setArchivedItems] = useState<Project[]>([]);
   const [editingIdeaIndex, setEditingIdeaIndex] = useState<number | null>(null);
   
   // Hidden columns state (array of column IDs)
   const [hiddenColumns, setHiddenColumns] = useLocalStorage<string[]>('hidden-columns', []);
 
+  // Swimlanes (per device, like hidden columns)
+  const [swimlaneMode, setSwimlaneMode] = useLocalStorage<string>('kanban-swimlanes', NO_SWIMLANES);
+  const [collapsedSwimlanes, setCollapsedSwimlanes] = useLocalStorage<string[]>('collapsed-swimlanes', []);
+  const swimlaneSetting = useMemo(() => {
+    const setting = parseSwimlaneSetting(swimlaneMode);
+    // The tag may have been renamed or deleted since it was picked
+    return setting?.mode === 'tag' && !tags.some(t => t.name === setting.tag) ? null : setting;
+  }, [swimlaneMode, tags]);
+
   // Sync items when props change
   useEffect(() => {
     setItems(mapProjects(initialProjects));
@@ -269,9 +359,46 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
       getIdeas().then((data) => setIdeas(mapProjects(data)));
     } else if (activeView === 'kanban') {
       loadTagsAndGroups();
+    } else if (activeView === 'calendar') {
+      // Day plan widgets are linked from calendar days
+      getAllWidgets().then((data) => setWidgets(data as unknown as Widget[]));
+    } else if (activeView === 'completed') {
+      getArchivedProjects().then((data) => setArchivedItems(mapProjects(data)));
     }
   }, [activeView]);
 
+  // Changes from other tabs/devices (and MCP, /api/capture). Held back while a
+  // card is being dragged or a server action is in flight, then merged so
+  // untouched cards keep their local objects and nothing flickers.
+  useLiveSync(async (changed) => {
+    const work: Promise<void>[] = [];
+    if (changed.has('projects')) {
+      work.push(getProjects().then((data) => setItems((prev) => reconcileList(prev, mapProjects(data), sameVersionedRow))));
+      if (activeView === 'ideas') {
+        work.push(getIdeas().then((data) => setIdeas((prev) => reconcileList(prev, mapProjects(data), sameVersionedRow))));
+      } else if (activeView === 'completed') {
+        work.push(getArchivedProjects().then((data) => setArchivedItems((prev) => reconcileList(prev, mapProjects(data), sameVersionedRow))));
+      }
+    }
+    if (changed.has('columns')) {
+      work.push(getColumns().then((data) => setCols((prev) => reconcileList(prev, data as Column[]))));
+    }
+    if (activeView === 'dashboard' || activeView === 'plans') {
+      // Dashboard widgets and plans summarize projects too
+      if (changed.has('widgets') || changed.has('standalone_plans') || changed.has('projects')) {
+        work.push(loadDashboardData());
+      } else if (changed.has('tags') || changed.has('project_groups')) {
+        work.push(loadTagsAndGroups());
+      }
+    } else {
+      if (changed.has('tags') || changed.has('project_groups')) work.push(loadTagsAndGroups());
+      if (activeView === 'calendar' && changed.has('widgets')) {
+        work.push(getAllWidgets().then((data) => setWidgets(data as unknown as Widget[])));
+      }
+    }
+    await Promise.all(work);
+  }, { isBusy: () => activeId !== null || isServerPending });
+
   // Calculate counts for dashboard
   const dashboardTags = useMemo(() => {
     return tags.map(tag => ({
@@ -287,6 +414,20 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
     })).filter(group => group.count > 0);
   }, [projectGroups, items]);
 
+  // Open blockers per card; blockers that were trashed or purged don't count
+  const blockersById = useMemo(() => {
+      const byId = new Map([...items, ...ideas].map(p => [p.id, p]));
+      const map = new Map<string, Project[]>();
+      for (const item of items) {
+          const open = getOpenBlockers(item, byId);
+          if (open.length > 0) map.set(item.id, open);
+      }
+      return map;
+  }, [items, ideas]);
+
+  // Sub-project and checklist progress per card, rolled up through the whole tree
+  const rollupById = useMemo(() => computeRollups([...items, ...ideas]), [items, ideas]);
+
   // Filter items based on active filters
   const filteredItems = useMemo(() => {
       let filtered = items;
@@ -318,18 +459,106 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
               !item.parentProjectId
           );
       }
+
+      // Filter blocked
+      if (showBlocked) {
+          filtered = filtered.filter(item => blockersById.has(item.id));
+      }
       
       return filtered;
-  }, [items, activeTags, activeGroups, showUntagged, showUngrouped]);
+  }, [items, activeTags, activeGroups, showUntagged, showUngrouped, showBlocked, blockersById]);
 
   function findContainer(id: string) {
     if (cols.find(c => c.id === id)) return id;
+    const cell = parseSwimlaneCellId(id);
+    if (cell) return cell.columnId;
     const item = items.find((i) => i.id === id);
     return item ? item.status : null;
   }
 
+  // Swimlane of a card or swimlane cell; null when swimlanes are off
+  function findSwimlane(id: string) {
+    if (!swimlaneSetting) return null;
+    const cell = parseSwimlaneCellId(id);
+    if (cell) return cell.key;
+    const item = items.find((i) => i.id === id);
+    return item ? swimlaneKeyOf(swimlaneSetting, item) : null;
+  }
+
+  function inSwimlane(item: Project, swimlane: string | null) {
+    return !swimlaneSetting || swimlane === null || swimlaneKeyOf(swimlaneSetting, item) === swimlane;
+  }
+
+  function withSwimlane(item: Project, swimlane: string | null) {
+    return swimlaneSetting && swimlane !== null ? moveToSwimlane(swimlaneSetting, item, swimlane) : item;
+  }
+
+  // Writes the group, tag or pin a card picked up by changing swimlane
+  async function saveSwimlane(projectId: string, swimlane: string) {
+    if (!swimlaneSetting) return;
+    const change = swimlaneChange(swimlaneSetting, swimlane);
+    if (change.kind === 'group') {
+      await bulkSetProjectGroup([projectId], change.groupId);
+    } else if (change.kind === 'tag') {
+      await bulkUpdateProjectTags([projectId], change.add ? { add: [change.tag] } : { remove: [change.tag] });
+    } else {
+      await bulkSetProjectsPinned([projectId], change.pinned);
+    }
+  }
+
   function handleDragStart(event: DragStartEvent) {
     setActiveId(event.active.id as string);
+    const item = items.find(i => i.id === event.active.id);
+    dragOriginRef.current = item
+      ? { status: item.status, position: item.position, swimlane: { parentProjectId: item.parentProjectId, tags: item.tags, pinned: item.pinned } }
+      : null;
+  }
+
+  // True when the lane is set to block and the incoming cards would take it past its limit
+  function isBlockedByWipLimit(columnId: string, ...projectIds: string[]) {
+    const col = cols.find(c => c.id === columnId);
+    if (col?.wip_enforcement !== 'block') return false;
+    const count = items.filter(i => i.status === columnId && !projectIds.includes(i.id)).length + projectIds.length;
+    return isOverWipLimit(count, col.wip_limit);
+  }
+
+  function hasUnfinishedWork(projectId: string) {
+    const rollup = rollupById.get(projectId);
+    return blockersById.has(projectId) || (!!rollup && rollup.childrenDone < rollup.childrenTotal);
+  }
+
+  // Moving a card with open blockers or unfinished sub-projects into Done asks first
+  async function confirmCompletingUnfinished(projectId: string, columnId: string) {
+    if (!hasUnfinishedWork(projectId) || !isDoneColumn(cols.find(c => c.id === columnId))) return true;
+    const project = items.find(i => i.id === projectId);
+    const blockers = blockersById.get(projectId) ?? [];
+    const rollup = rollupById.get(projectId);
+    const openChildren = rollup ? rollup.childrenTotal - rollup.childrenDone : 0;
+    const reasons = [
+      ...(blockers.length ? [`is still blocked by ${blockers.map(b => `“${b.title}”`).join(', ')}`] : []),
+      ...(openChildren ? [`has ${openChildren} unfinished sub-project${openChildren === 1 ? '' : 's'}`] : []),
+    ];
+    return confirmDialog({
+      title: blockers.length ? 'Finish a blocked card?' : 'Finish with open sub-projects?',
+      description: `“${project?.title ?? 'This card'}” ${reasons.join(' and ')}.`,
+      confirmLabel: 'Move to Done anyway',
+    });
+  }
+
+  // Bulk version of confirmCompletingUnfinished: one prompt for the whole selection
+  async function confirmCompletingUnfinishedCards(projectIds: string[]) {
+    const unfinished = items.filter(i => projectIds.includes(i.id) && hasUnfinishedWork(i.id));
+    if (unfinished.length === 0) return true;
+    return confirmDialog({
+      title: 'Finish cards with open work?',
+      description: `${unfinished.map(p => `“${p.title}”`).join(', ')} ${unfinished.length === 1 ? 'has' : 'have'} open blockers or unfinished sub-projects.`,
+      confirmLabel: 'Finish anyway',
+    });
+  }
+
+  function flashWipBlocked(columnId: string) {
+    setWipBlockedColumnId(columnId);
+    setTimeout(() => setWipBlockedColumnId(prev => (prev === columnId ? null : prev)), 1500);
   }
 
   function isIdeaColumn(columnId: string) {
@@ -344,8 +573,10 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
 
     const activeContainer = findContainer(active.id as string);
     const overContainer = findContainer(overId as string);
+    const activeSwimlane = findSwimlane(active.id as string);
+    const overSwimlane = findSwimlane(overId as string) ?? activeSwimlane;
 
-    if (!activeContainer || !overContainer || activeContainer === overContainer) {
+    if (!activeContainer || !overContainer || (activeContainer === overContainer && activeSwimlane === overSwimlane)) {
       return;
     }
 
@@ -354,15 +585,12 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
 
     // For DIFFERENT containers, we update state during drag over to show preview
     setItems((prev) => {
-      const activeItems = prev.filter((i) => i.status === activeContainer);
-      const overItems = prev.filter((i) => i.status === overContainer);
-      
-      const activeIndex = activeItems.findIndex((i) => i.id === active.id);
+      const overItems = prev.filter((i) => i.status === overContainer && inSwimlane(i, overSwimlane)).sort(compareLaneCards);
       const overIndex = overItems.findIndex((i) => i.id === overId);
 
       let newIndex;
-      if (cols.find(c => c.id === overId)) {
-        newIndex = overItems.length + 1;
+      if (cols.find(c => c.id === overId) || parseSwimlaneCellId(overId as string)) {
+        newIndex = overItems.length;
       } else {
         const isBelowOverItem =
           over &&
@@ -370,12 +598,14 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
           active.rect.current.translated.top > over.rect.top + over.rect.height;
 
         const modifier = isBelowOverItem ? 1 : 0;
-        newIndex = overIndex >= 0 ? overIndex + modifier : overItems.length + 1;
+        newIndex = overIndex >= 0 ? overIndex + modifier : overItems.length;
       }
 
+      // Preview position between the new neighbours; handleDragEnd persists it
+      const position = positionBetween(overItems[newIndex - 1]?.position, overItems[newIndex]?.position);
       return prev.map((item) => {
         if (item.id === active.id) {
-          return { ...item, status: overContainer, position: newIndex };
+          return { ...withSwimlane(item, overSwimlane), status: overContainer, position };
         }
         return item;
       });
@@ -410,6 +640,32 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
     // Handle Item Sorting
     const activeContainer = findContainer(activeId);
     const overContainer = findContainer(overId);
+    const overSwimlane = findSwimlane(overId) ?? findSwimlane(activeId);
+    const origin = dragOriginRef.current;
+    dragOriginRef.current = null;
+    const originSwimlane = origin && swimlaneSetting ? swimlaneKeyOf(swimlaneSetting, origin.swimlane) : null;
+
+    // Full lanes set to block refuse the card — put it back where it started
+    if (origin && overContainer && overContainer !== origin.status && isBlockedByWipLimit(overContainer, activeId)) {
+      setItems(prev => prev.map(item =>
+        item.id === activeId ? { ...item, ...origin.swimlane, status: origin.status, position: origin.position } : item
+      ));
+      flashWipBlocked(overContainer);
+      setActiveId(null);
+      return;
+    }
+
+    // Blocked cards and parents with open sub-projects don't land in Done until confirmed
+    if (origin && overContainer && overContainer !== origin.status && hasUnfinishedWork(activeId) && isDoneColumn(cols.find(c => c.id === overContainer))) {
+      setItems(prev => prev.map(item =>
+        item.id === activeId ? { ...item, ...origin.swimlane, status: origin.status, position: origin.position } : item
+      ));
+      setActiveId(null);
+      confirmCompletingUnfinished(activeId, overContainer).then(confirmed => {
+        if (confirmed) moveCardToColumn(activeId, overContainer);
+      });
+      return;
+    }
 
     // Block drops into idea columns
     if (overContainer && isIdeaColumn(overContainer)) {
@@ -423,77 +679,65 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
       return;
     }
 
+    // Dropped back where it started
+    if (activeId === overId && origin?.status === overContainer && originSwimlane === overSwimlane) {
+      setActiveId(null);
+      return;
+    }
+
     if (activeContainer && overContainer) {
-       const activeIndex = items.findIndex((i) => i.id === activeId);
-       const overIndex = items.findIndex((i) => i.id === overId);
-       
-       // Calculate final index
+       // The lane as displayed; after a cross-lane handleDragOver the card is already in it
+       const lane = items.filter(i => i.status === overContainer && inSwimlane(i, overSwimlane)).sort(compareLaneCards);
+       const rest = lane.filter(i => i.id !== activeId);
+
        let newIndex;
-       if (cols.find(c => c.id === overId)) {
+       if (cols.find(c => c.id === overId) || parseSwimlaneCellId(overId)) {
          // Dropped on a column header/empty space
-         newIndex = items.filter(i => i.status === overContainer).length; 
+         newIndex = rest.length;
+       } else if (activeContainer === overContainer && findSwimlane(activeId) === overSwimlane) {
+         // Sortable semantics: the card takes the slot of the card it was dropped on
+         newIndex = lane.findIndex(i => i.id === overId);
        } else {
-         // Dropped on another item
-         // Find index of overId within its column
-         const overColItems = items.filter(i => i.status === overContainer);
-         const overIndexInCol = overColItems.findIndex(i => i.id === overId);
-
          const isBelowOverItem =
            over &&
            active.rect.current.translated &&
            active.rect.current.translated.top > over.rect.top + over.rect.height;
 
-         const modifier = isBelowOverItem ? 1 : 0;
-         // newIndex is within the column
-         newIndex = overIndexInCol >= 0 ? overIndexInCol + modifier : overColItems.length;
+         const overIndexInCol = rest.findIndex(i => i.id === overId);
+         newIndex = overIndexInCol >= 0 ? overIndexInCol + (isBelowOverItem ? 1 : 0) : rest.length;
        }
-
-       // Optimistic update
-       let newItems = [...items];
-       const movedItem = { ...newItems[activeIndex], status: overContainer };
-       
-       // Remove from old position
-       newItems.splice(activeIndex, 1);
-
-       if (activeContainer === overContainer) {
-           // Same column reorder logic - use arrayMove on original items for simplicity as activeIndex/overIndex are flat list indices
-           // But we already spliced. Let's reload newItems from items and use arrayMove
-           newItems = arrayMove(items, activeIndex, overIndex);
-           setItems(newItems);
-           
-           // Persist reorder in a transition so React can keep the UI interactive.
-           const columnItems = newItems.filter(i => i.status === activeContainer);
-           const projectIds = columnItems.map(i => i.id);
-           startServerTransition(() => {
-               updateColumnOrder(activeContainer, projectIds);
-           });
-       } else {
-           // Cross-column logic
-           
-           // 1. Construct the correct ID order for the backend
-           const destItems = items.filter(i => i.status === overContainer && i.id !== activeId);
-           const destItemIds = destItems.map(i => i.id);
-           const safeIndex = Math.min(Math.max(0, newIndex), destItemIds.length);
-           destItemIds.splice(safeIndex, 0, activeId);
-           
-           // 2. Update Backend (non-blocking)
-           startServerTransition(() => {
-               updateColumnOrder(overContainer, destItemIds);
-           });
-           
-           // 3. Update UI (Insert into correct position in flat list)
-           const nextItemId = destItemIds[safeIndex + 1];
-           // Find index of next item in our `newItems` (which already has movedItem removed)
-           const nextItemIndex = nextItemId ? newItems.findIndex(i => i.id === nextItemId) : -1;
-           
-           if (nextItemIndex !== -1) {
-               newItems.splice(nextItemIndex, 0, movedItem);
-           } else {
-               newItems.push(movedItem);
+       if (newIndex < 0) newIndex = rest.length;
+
+       // Only the moved card is written: it goes between its new neighbours
+       const { after, before } = laneNeighbours(rest, newIndex, items.find(i => i.id === activeId)?.pinned);
+       const position = positionBetween(after?.position, before?.position);
+       setItems(prev => prev.map(item =>
+         item.id === activeId ? { ...withSwimlane(item, overSwimlane), status: overContainer, position } : item
+       ));
+       const swimlaneMoved = overSwimlane !== null && overSwimlane !== originSwimlane;
+
+       // Persist in a transition so React can keep the UI interactive; the
+       // server may pick a different position if another tab moved cards meanwhile
+       startServerTransition(async () => {
+           const moved = await moveProject(activeId, overContainer, { afterId: after?.id, beforeId: before?.id });
+           const saved = moved.ok ? moved.position : null;
+           // A stale board can pass its own WIP check; the server has the final say
+           if (!moved.ok && moved.wipBlocked) flashWipBlocked(overContainer);
+           let swimlaneSaved = true;
+           if (saved !== null && swimlaneMoved) {
+               try {
+                   await saveSwimlane(activeId, overSwimlane);
+               } catch (err) {
+                   console.error('Failed to change swimlane', err);
+                   swimlaneSaved = false;
+               }
            }
-           
-           setItems(newItems);
-       }
+           setItems(prev => prev.map(item => {
+               if (item.id !== activeId) return item;
+               if (saved !== null) return { ...item, ...(swimlaneSaved ? {} : origin?.swimlane), position: saved };
+               return origin ? { ...item, ...origin.swimlane, status: origin.status, position: origin.position } : item;
+           }));
+       });
     }
     
     setActiveId(null);
@@ -525,12 +769,36 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
       setIsCreatingInColumn(columnId);
   };
 
+  const openTemplateDialog = async (columnId?: string) => {
+      const templates = await getProjectTemplates();
+      setTemplateDialog({ columnId, templates });
+  };
+
+  const handleAddFromDialog = async (data: { title: string; description: string; status: string; templateId?: string }) => {
+      if (isBlockedByWipLimit(data.status, 'new')) {
+          flashWipBlocked(data.status);
+          throw new Error(`“${cols.find(c => c.id === data.status)?.title}” is at its WIP limit`);
+      }
+      if (data.templateId) {
+          await createProjectFromTemplate(data.templateId, { title: data.title, columnId: data.status });
+      } else {
+          await createProject({
+              title: data.title,
+              description: data.description,
+              status: data.status,
+          });
+      }
+      setActiveView('kanban');
+      await refreshBoardAndIdeas();
+  };
+
   const handleConfirmCreate = async (columnId: string, title: string, isTask?: boolean) => {
       setIsCreatingInColumn(null);
       if (title.trim()) {
           // Optimistic Update
           const tempId = uuidv4();
-          const position = items.filter(i => i.status === columnId).length;
+          const lanePositions = items.filter(i => i.status === columnId).map(i => i.position);
+          const position = lanePositions.length > 0 ? Math.max(...lanePositions) + 1 : 0;
           const optimisticProject: Project = {
               id: tempId,
               title: title,
@@ -556,7 +824,6 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
               await createProject({
                   title,
                   status: columnId,
-                  position: position,
                   is_task: isTask || false,
               });
           } catch (err) {
@@ -594,7 +861,7 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
   const handleDeleteColumn = async (id: string) => {
       const ok = await confirmDialog({
           title: 'Delete column?',
-          description: 'This column will be removed from the board.',
+          description: 'This column will be moved to the Trash. Restore it from there to bring its cards back.',
           confirmLabel: 'Delete',
           destructive: true,
       });
@@ -607,7 +874,7 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
   const handleDeleteProject = async (id: string) => {
       const ok = await confirmDialog({
           title: 'Delete project?',
-          description: 'This project will be permanently removed.',
+          description: 'This project will be moved to the Trash.',
           confirmLabel: 'Delete',
           destructive: true,
       });
@@ -625,7 +892,7 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
   const handleDeleteIdea = async (id: string) => {
       const ok = await confirmDialog({
           title: 'Delete idea?',
-          description: 'This idea will be permanently removed.',
+          description: 'This idea will be moved to the Trash.',
           confirmLabel: 'Delete',
           destructive: true,
       });
@@ -636,7 +903,8 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
   };
 
   const handleMoveIdeaToKanban = async (ideaId: string, columnId: string) => {
-      await moveIdeaToKanban(ideaId, columnId);
+      const moved = await moveIdeaToKanban(ideaId, columnId);
+      if (!moved.ok && moved.wipBlocked) flashWipBlocked(columnId);
       const freshProjects = await getProjects();
       setItems(mapProjects(freshProjects));
       await refreshIdeas();
@@ -663,6 +931,17 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
       await refreshIdeas();
   };
 
+  const handleTrashRestored = async (kind: TrashItemKind) => {
+      if (kind === 'project') {
+          const freshProjects = await getProjects();
+          setItems(mapProjects(freshProjects));
+          await refreshIdeas();
+      } else {
+          // Columns, plans and widgets come from server props / dashboard loads
+          router.refresh();
+      }
+  };
+
   const handleEditIdea = (idea: Project) => {
       const idx = ideas.findIndex(i => i.id === idea.id);
       setEditingIdeaIndex(idx >= 0 ? idx : null);
@@ -676,16 +955,48 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
       await toggleProjectPinned(id, pinned);
   };
 
+  // Archiving moves the card between the board list and archivedItems
+  const handleSetArchived = async (id: string, archived: boolean) => {
+      const project = (archived ? items : archivedItems).find(p => p.id === id);
+      if (!project) return;
+      const moveCard = (toArchive: boolean, card: Project) => {
+          if (toArchive) {
+              setItems(prev => prev.filter(p => p.id !== id));
+              setArchivedItems(prev => [card, ...prev]);
+          } else {
+              setArchivedItems(prev => prev.filter(p => p.id !== id));
+              setItems(prev => [...prev, card]);
+          }
+      };
+      moveCard(archived, { ...project, archivedAt: archived ? new Date().toISOString() : null });
+      try {
+          await setProjectArchived(id, archived);
+      } catch (err) {
+          console.error('Failed to change archived state', err);
+          moveCard(!archived, project);
+      }
+  };
+
   const handleMoveCard = async (projectId: string, newColumnId: string) => {
       const project = items.find(p => p.id === projectId);
       if (!project) return;
-      
-      // Find the new column's current max position
-      const columnProjects = items.filter(p => p.status === newColumnId);
-      const maxPosition = columnProjects.length > 0 
-          ? Math.max(...columnProjects.map(p => p.position)) 
+
+      if (project.status !== newColumnId && isBlockedByWipLimit(newColumnId, projectId)) {
+          flashWipBlocked(newColumnId);
+          return;
+      }
+      if (project.status !== newColumnId && !(await confirmCompletingUnfinished(projectId, newColumnId))) return;
+
+      await moveCardToColumn(projectId, newColumnId);
+  };
+
+  const moveCardToColumn = async (projectId: string, newColumnId: string) => {
+      const original = items.find(p => p.id === projectId);
+      // Land after the new column's last card
+      const columnProjects = items.filter(p => p.status === newColumnId && p.id !== projectId);
+      const newPosition = columnProjects.length > 0
+          ? Math.max(...columnProjects.map(p => p.position)) + 1
           : 0;
-      const newPosition = maxPosition + 1;
       
       // Optimistically update UI
       setItems(prev => prev.map(item => 
@@ -694,7 +1005,40 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
               : item
       ));
       
-      await updateProjectStatus(projectId, newColumnId, newPosition);
+      const moved = await moveProject(projectId, newColumnId);
+      if (moved.ok) {
+          setItems(prev => prev.map(item => item.id === projectId ? { ...item, position: moved.position } : item));
+      } else {
+          if (moved.wipBlocked) flashWipBlocked(newColumnId);
+          if (original) {
+              setItems(prev => prev.map(item => item.id === projectId ? { ...item, status: original.status, position: original.position } : item));
+          }
+      }
+  };
+
+  const handleReschedule = async (projectId: string, dates: { startDate: string | null; dueDate: string | null }) => {
+      const original = items.find(p => p.id === projectId);
+      setItems(prev => prev.map(item =>
+          item.id === projectId ? { ...item, ...dates } : item
+      ));
+      try {
+          const result = await updateProject(projectId, dates);
+          if (!result.ok) throw new Error('error' in result ? result.error : 'Project changed elsewhere');
+      } catch (err) {
+          console.error('Failed to reschedule', err);
+          if (original) {
+              setItems(prev => prev.map(item =>
+                  item.id === projectId ? { ...item, startDate: original.startDate, dueDate: original.dueDate } : item
+              ));
+          }
+          await refreshBoardAndIdeas();
+      }
+  };
+
+  const handleToggleSwimlane = (key: string) => {
+      setCollapsedSwimlanes(prev =>
+          prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]
+      );
   };
 
   const handleToggleColumnVisibility = (columnId: string) => {
@@ -737,6 +1081,7 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
       setActiveGroups([]);
       setShowUntagged(false);
       setShowUngrouped(false);
+      setShowBlocked(false);
   };
 
   // Dashboard click handlers - replace filters, don't add
@@ -774,6 +1119,10 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
       setShowUngrouped(prev => !prev);
   };
 
+  const handleToggleBlocked = () => {
+      setShowBlocked(prev => !prev);
+  };
+
   const handleToggleTagVisibility = async (tag: string) => {
       const newHiddenTags = hiddenTags.includes(tag) 
           ? hiddenTags.filter(t => t !== tag) 
@@ -796,6 +1145,367 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
       await updateColumn(colId, newTitle);
   };
 
+  const handleColumnRoleChange = async (colId: string, role: ColumnRole) => {
+      setCols(prev => prev.map(c => c.id === colId ? { ...c, role } : c));
+      await updateColumnRole(colId, role);
+  };
+
+  const handleColumnRulesChange = async (colId: string, rules: ColumnRule[]) => {
+      await updateColumnRules(colId, rules);
+      setCols(prev => prev.map(c => c.id === colId ? { ...c, rules } : c));
+  };
+
+  const handleColumnWipLimitChange = async (colId: string, wipLimit: number | null, wipEnforcement: WipEnforcement) => {
+      setCols(prev => prev.map(c => c.id === colId ? { ...c, wip_limit: wipLimit, wip_enforcement: wipEnforcement } : c));
+      await updateColumnWipLimit(colId, wipLimit, wipEnforcement);
+  };
+
+  // Multi-select: shift/cmd/ctrl-click and lasso on the board, bulk bar at the bottom
+  const selection = useSelection();
+  const selectedItems = filteredItems.filter(item => selection.selectedIds.has(item.id));
+
+  const handleSelectCard = (projectId: string, modifiers: SelectModifiers) => {
+      // Shift ranges follow what's on screen: lane by lane, top to bottom
+      const orderedIds = Array.from(document.querySelectorAll<HTMLElement>('[data-column-id] [data-project-id]'))
+          .map(el => el.dataset.projectId!);
+      selection.selectWithModifiers(projectId, modifiers, orderedIds);
+  };
+
+  const refreshBoardAndIdeas = async () => {
+      const freshProjects = await getProjects();
+      setItems(mapProjects(freshProjects));
+      await refreshIdeas();
+  };
+
+  const patchCards = (ids: string[], update: (project: Project) => Project) => {
+      setItems(prev => prev.map(p => ids.includes(p.id) ? update(p) : p));
+      setIdeas(prev => prev.map(p => ids.includes(p.id) ? update(p) : p));
+  };
+
+  /**
+   * Runs one bulk action for board cards or ideas. Returns false when the user
+   * backed out (or a full lane refused the cards) so callers keep the selection.
+   */
+  const handleBulkAction = async (ids: string[], action: BulkAction): Promise<boolean> => {
+      if (ids.length === 0) return false;
+      try {
+          switch (action.type) {
+              case 'move': {
+                  const incoming = [...items, ...ideas]
+                      .filter(p => ids.includes(p.id) && (p.isIdea || p.status !== action.columnId))
+                      .map(p => p.id);
+                  if (incoming.length === 0) return true;
+                  if (isBlockedByWipLimit(action.columnId, ...incoming)) {
+                      flashWipBlocked(action.columnId);
+                      return false;
+                  }
+                  if (isDoneColumn(cols.find(c => c.id === action.columnId)) && !(await confirmCompletingUnfinishedCards(incoming))) {
+                      return false;
+                  }
+                  await bulkMoveProjects(incoming, action.columnId);
+                  await refreshBoardAndIdeas();
+                  return true;
+              }
+              case 'add-tag':
+                  patchCards(ids, p => ({ ...p, tags: [...new Set([...(p.tags ?? []), action.tag])] }));
+                  await bulkUpdateProjectTags(ids, { add: [action.tag] });
+                  return true;
+              case 'remove-tag':
+                  patchCards(ids, p => ({ ...p, tags: (p.tags ?? []).filter(t => t !== action.tag) }));
+                  await bulkUpdateProjectTags(ids, { remove: [action.tag] });
+                  return true;
+              case 'group':
+                  patchCards(ids, p => ({ ...p, parentProjectId: action.groupId }));
+                  await bulkSetProjectGroup(ids, action.groupId);
+                  return true;
+              case 'pin':
+                  patchCards(ids, p => ({ ...p, pinned: action.pinned }));
+                  await bulkSetProjectsPinned(ids, action.pinned);
+                  return true;
+              case 'complete':
+                  if (!(await confirmCompletingUnfinishedCards(ids))) return false;
+                  await bulkCompleteProjects(ids);
+                  await refreshBoardAndIdeas();
+                  return true;
+              case 'to-ideas':
+                  await bulkMoveProjectsToIdeas(ids);
+                  await refreshBoardAndIdeas();
+                  return true;
+              case 'delete': {
+                  const ok = await confirmDialog({
+                      title: `Delete ${ids.length} ${ids.length === 1 ? 'card' : 'cards'}?`,
+                      description: 'They will be moved to the Trash.',
+                      confirmLabel: 'Delete',
+                      destructive: true,
+                  });
+                  if (!ok) return false;
+                  setItems(prev => prev.filter(p => !ids.includes(p.id)));
+                  setIdeas(prev => prev.filter(p => !ids.includes(p.id)));
+                  await bulkDeleteProjects(ids);
+                  return true;
+              }
+          }
+      } catch (err) {
+          console.error('Bulk action failed:', err);
+          await refreshBoardAndIdeas();
+          return false;
+      }
+  };
+
+  const handleBoardBulkAction = async (action: BulkAction) => {
+      const done = await handleBulkAction(selectedItems.map(p => p.id), action);
+      if (done && (action.type === 'delete' || action.type === 'to-ideas')) selection.clearSelection();
+  };
+
+  const handlePlanClick = (plan: StandalonePlan) => {
+      // If plan is assigned to a project, open that project
+      if (plan.projectId) {
+          const project = items.find(p => p.id === plan.projectId);
+          if (project) {
+              handleEditProject(project);
+          }
+      } else {
+          // Otherwise just open the file
+          window.open(plan.url, '_blank');
+      }
+  };
+
+  // Command palette (Cmd/Ctrl-K). Widgets are read through a ref because
+  // follow-up lists are built after the palette's lazy loads finish.
+  const widgetsRef = useRef(widgets);
+  useEffect(() => {
+      widgetsRef.current = widgets;
+  });
+
+  const handleAddToDayPlan = async (widget: Widget, projectId: string) => {
+      const today = todayPlanDate();
+      const config = widget.config as DayPlanConfig;
+      const projectIds = getDayPlanProjectIds(config, today, today);
+      if (projectIds.includes(projectId)) return;
+      const nextConfig = setDayPlanProjectIds(widget.config, today, [...projectIds, projectId], today);
+      setWidgets(prev => prev.map(w => w.id === widget.id ? { ...w, config: nextConfig } : w));
+      await updateWidget(widget.id, { config: nextConfig });
+  };
+
+  const filterBoardBy = (filter: { tag?: string; groupId?: string }) => {
+      setActiveTags(filter.tag ? [filter.tag] : []);
+      setActiveGroups(filter.groupId ? [filter.groupId] : []);
+      setShowUntagged(false);
+      setShowUngrouped(false);
+      setShowBlocked(false);
+      setActiveView('kanban');
+  };
+
+  const columnChoices = (run: (columnId: string) => void, excludeId?: string): PaletteItem[] =>
+      cols
+          .filter(col => col.id !== excludeId)
+          .map(col => ({
+              id: `column-${col.id}`,
+              title: col.title,
+              group: 'Column',
+              icon: Columns3,
+              run: () => run(col.id),
+          }));
+
+  useCommandPaletteSource({
+      onOpen: () => {
+          loadTagsAndGroups();
+          if (allPlans.length === 0) getAllPlans().then(setAllPlans);
+          if (widgets.length === 0) getAllWidgets().then(data => setWidgets(data as unknown as Widget[]));
+      },
+      getItems: ({ query, focusedProjectId }) => {
+          const title = query.trim();
+          const recentIds = getRecentProjectIds();
+          const recency = (id: string) => {
+              const index = recentIds.indexOf(id);
+              return index === -1 ? null : index;
+          };
+          const cards = [...items, ...ideas].filter(p => !p.id.startsWith('optimistic-'));
+          const targetId = focusedProjectId ?? (isModalOpen ? editingProject?.id : undefined);
+          const focused = targetId ? cards.find(p => p.id === targetId) : undefined;
+          const columnTitle = (id: string) => cols.find(c => c.id === id)?.title;
+
+          const openCard = (project: Project) => {
+              trackRecentProject(project.id);
+              if (project.isIdea) handleEditIdea(project);
+              else handleEditProject(project);
+          };
+
+          const focusedItems: PaletteItem[] = [];
+          if (focused) {
+              const name = `“${focused.title}”`;
+              if (!isModalOpen) {
+                  focusedItems.push({ id: 'focused-open', title: `Open ${name}`, group: 'Card', icon: CornerDownRight, run: () => openCard(focused) });
+              }
+              focusedItems.push({
+                  id: 'focused-move',
+                  title: `Move ${name} to…`,
+                  group: 'Card',
+                  icon: ArrowRightLeft,
+                  children: () => focused.isIdea
+                      ? columnChoices(colId => handleMoveIdeaToKanban(focused.id, colId))
+                      : columnChoices(colId => handleMoveCard(focused.id, colId), focused.status),
+              });
+              if (!focused.isIdea) {
+                  focusedItems.push({
+                      id: 'focused-pin',
+                      title: `${focused.pinned ? 'Unpin' : 'Pin'} ${name}`,
+                      group: 'Card',
+                      icon: focused.pinned ? PinOff : Pin,
+                      run: () => handleTogglePin(focused.id, !focused.pinned),
+                  });
+              }
+              focusedItems.push({
+                  id: 'focused-duplicate',
+                  title: `Duplicate ${name}…`,
+                  group: 'Card',
+                  icon: Copy,
+                  run: () => setDuplicatingProject(focused),
+              });
+              focusedItems.push({
+                  id: 'focused-day-plan',
+                  title: `Add ${name} to today's plan…`,
+                  group: 'Card',
+                  icon: CalendarDays,
+                  children: () => {
+                      const dayPlans = widgetsRef.current.filter(w => w.type === 'day-plan');
+                      if (dayPlans.length === 0) {
+                          return [{ id: 'no-day-plan', title: 'No day plan widget on the dashboard yet', group: 'Day plan' }];
+                      }
+                      return dayPlans.map(w => ({
+                          id: `day-plan-${w.id}`,
+                          title: w.title || 'Day plan',
+                          group: 'Day plan',
+                          icon: CalendarDays,
+                          run: () => handleAddToDayPlan(w, focused.id),
+                      }));
+                  },
+              });
+          }
+
+          const createItems: PaletteItem[] = title
+              ? [
+                  {
+                      id: 'create-project',
+                      title: `Create project “${title}” in…`,
+                      group: 'Create',
+                      icon: Plus,
+                      alwaysShow: true,
+                      children: () => columnChoices(colId => {
+                          setActiveView('kanban');
+                          handleConfirmCreate(colId, title, false);
+                      }),
+                  },
+                  {
+                      id: 'create-task',
+                      title: `Create task “${title}” in…`,
+                      group: 'Create',
+                      icon: ListTodo,
+                      alwaysShow: true,
+                      children: () => columnChoices(colId => {
+                          setActiveView('kanban');
+                          handleConfirmCreate(colId, title, true);
+                      }),
+                  },
+                  {
+                      id: 'create-idea',
+                      title: `Create idea “${title}”`,
+                      group: 'Create',
+                      icon: Lightbulb,
+                      alwaysShow: true,
+                      run: async () => {
+                          await createIdea(title, cols[0]?.id || 'todo');
+                          await refreshIdeas();
+                      },
+                  },
+              ]
+              : [
+                  {
+                      id: 'new-project',
+                      title: 'New project…',
+                      group: 'Create',
+                      icon: Plus,
+                      children: () => columnChoices(colId => {
+                          setActiveView('kanban');
+                          setIsCreatingInColumn(colId);
+                      }),
+                  },
+                  {
+                      id: 'new-from-template',
+                      title: 'New from template…',
+                      group: 'Create',
+                      icon: LayoutTemplate,
+                      run: () => openTemplateDialog(),
+                  },
+                  { id: 'new-idea', title: 'New idea', group: 'Create', icon: Lightbulb, run: handleCreateIdea },
+              ];
+
+          const cardItems: PaletteItem[] = cards
+              .map(p => ({ project: p, recent: recency(p.id) }))
+              .sort((a, b) => (a.recent ?? Infinity) - (b.recent ?? Infinity))
+              .map(({ project, recent }) => ({
+                  id: `project-${project.id}`,
+                  title: project.title,
+                  group: project.isIdea ? 'Idea' : project.isTask ? 'Task' : 'Project',
+                  subtitle: project.isIdea ? undefined : columnTitle(project.status),
+                  keywords: (project.tags ?? []).join(' '),
+                  icon: project.isIdea ? Lightbulb : project.isTask ? ListTodo : KanbanSquareDashed,
+                  boost: recent === null ? 0 : 200 - recent * 10,
+                  onlyWhenSearching: recent === null,
+                  run: () => openCard(project),
+              }));
+
+          const viewItems: PaletteItem[] = BOARD_VIEWS
+              .filter(view => view.id !== activeView)
+              .map(view => ({
+                  id: `view-${view.id}`,
+                  title: `Go to ${view.label}`,
+                  group: 'View',
+                  icon: view.icon,
+                  run: () => setActiveView(view.id),
+              }));
+
+          const tagItems: PaletteItem[] = tags.map(tag => ({
+              id: `tag-${tag.name}`,
+              title: tag.name,
+              group: 'Tag',
+              icon: TagIcon,
+              onlyWhenSearching: true,
+              run: () => filterBoardBy({ tag: tag.name }),
+          }));
+
+          const groupItems: PaletteItem[] = projectGroups.map(group => ({
+              id: `group-${group.id}`,
+              title: group.name,
+              group: 'Group',
+              icon: FolderOpen,
+              onlyWhenSearching: true,
+              run: () => filterBoardBy({ groupId: group.id }),
+          }));
+
+          const planItems: PaletteItem[] = allPlans.map(plan => ({
+              id: `plan-${plan.id}`,
+              title: plan.name,
+              group: 'Plan',
+              subtitle: plan.projectTitle,
+              icon: FileStack,
+              onlyWhenSearching: true,
+              run: () => handlePlanClick(plan),
+          }));
+
+          return [
+              ...focusedItems,
+              ...cardItems,
+              ...createItems,
+              ...viewItems,
+              { id: 'open-settings', title: 'Open settings', group: 'Action', icon: Settings, run: () => setIsSettingsOpen(true) },
+              ...tagItems,
+              ...groupItems,
+              ...planItems,
+          ];
+      },
+  });
+
   return (
     <>
       <div className="flex flex-col min-h-screen">
@@ -894,17 +1604,29 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
                 onEndCapture={(tempId) =>
                   setIdeas((prev) => prev.filter((p) => p.id !== tempId))
                 }
-                onCaptured={async () => {
-                  await refreshIdeas();
-                  setActiveView('ideas');
+                onCaptured={async (result) => {
+                  if (result.duplicate) {
+                    // Link was already on a card: nothing new to jump to
+                    setItems(mapProjects(await getProjects()));
+                    await refreshIdeas();
+                  } else if (result.columnId) {
+                    setItems(mapProjects(await getProjects()));
+                    setActiveView('kanban');
+                  } else {
+                    await refreshIdeas();
+                    setActiveView('ideas');
+                  }
                   await loadTagsAndGroups();
                 }}
+                columns={cols}
+                projectGroups={projectGroups}
+                tags={tags}
               />
             </div>
 
             {/* View Tabs */}
             <div className="px-4 py-2 border-b bg-muted/30 overflow-x-auto">
-              <Tabs value={activeView} onValueChange={(v) => setActiveView(v as 'dashboard' | 'kanban' | 'plans' | 'completed' | 'ideas')}>
+              <Tabs value={activeView} onValueChange={(v) => setActiveView(v as BoardView)}>
                 <TabsList className="w-auto">
                   <TabsTrigger value="dashboard" className="gap-1.5">
                     <LayoutDashboard className="h-4 w-4" />
@@ -926,6 +1648,14 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
                     <CheckCircle2 className="h-4 w-4" />
                     <span className="hidden md:inline">Completed</span>
                   </TabsTrigger>
+                  <TabsTrigger value="calendar" className="gap-1.5">
+                    <CalendarDays className="h-4 w-4" />
+                    <span className="hidden md:inline">Calendar</span>
+                  </TabsTrigger>
+                  <TabsTrigger value="trash" className="gap-1.5">
+                    <Trash2 className="h-4 w-4" />
+                    <span className="hidden md:inline">Trash</span>
+                  </TabsTrigger>
                 </TabsList>
               </Tabs>
             </div>
@@ -966,11 +1696,41 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
                   onToggleGroupVisibility={handleToggleGroupVisibility}
                   onToggleUntagged={handleToggleUntagged}
                   onToggleUngrouped={handleToggleUngrouped}
+                  showBlocked={showBlocked}
+                  onToggleBlocked={handleToggleBlocked}
                   actions={
                     <>
+                      <Select value={swimlaneValue(swimlaneSetting)} onValueChange={setSwimlaneMode}>
+                        <SelectTrigger size="sm" className="w-[160px]" aria-label="Swimlanes">
+                          <Rows3 className="h-4 w-4" />
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_SWIMLANES}>No swimlanes</SelectItem>
+                          <SelectItem value="group">By project group</SelectItem>
+                          <SelectItem value="pinned">By pinned</SelectItem>
+                          {tags.length > 0 && (
+                            <>
+                              <SelectSeparator />
+                              <SelectGroup>
+                                <SelectLabel>By tag</SelectLabel>
+                                {tags.map(tag => (
+                                  <SelectItem key={tag.name} value={swimlaneValue({ mode: 'tag', tag: tag.name })}>
+                                    {tag.emoji && <span>{tag.emoji}</span>}
+                                    {tag.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectGroup>
+                            </>
+                          )}
+                        </SelectContent>
+                      </Select>
                       <Button variant="outline" size="sm" onClick={handleCreateColumn}>
                         <KanbanSquareDashed className="mr-2 h-4 w-4" /> Add Column
                       </Button>
+                      <Button variant="outline" size="sm" onClick={() => openTemplateDialog()}>
+                        <LayoutTemplate className="mr-2 h-4 w-4" /> From Template
+                      </Button>
                       <Button size="sm" onClick={() => cols.length > 0 && setIsCreatingInColumn(cols[0].id)}>
                         <Plus className="mr-2 h-4 w-4" /> New Project
                       </Button>
@@ -996,16 +1756,42 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
                 onDragEnd={handleDragEnd}
                 handleEditProject={handleEditProject}
                 handleColumnTitleChange={handleColumnTitleChange}
+                handleColumnRoleChange={handleColumnRoleChange}
+                handleColumnRulesChange={handleColumnRulesChange}
+                handleColumnWipLimitChange={handleColumnWipLimitChange}
+                wipBlockedColumnId={wipBlockedColumnId}
+                blockersById={blockersById}
+                rollupById={rollupById}
+                selectedIds={selection.selectedIds}
+                onSelectCard={handleSelectCard}
+                onLassoSelect={selection.selectMany}
                 handleDeleteColumn={handleDeleteColumn}
                 handleDeleteProject={handleDeleteProject}
                 handleTogglePin={handleTogglePin}
+                onDuplicateProject={setDuplicatingProject}
+                onArchiveProject={(id) => handleSetArchived(id, true)}
                 onMoveCard={handleMoveCard}
                 handleAddProjectToColumn={handleAddProjectToColumn}
+                onAddFromTemplate={openTemplateDialog}
                 isCreatingInColumn={isCreatingInColumn}
                 onConfirmCreate={handleConfirmCreate}
                 onCancelCreate={handleCancelCreate}
                 ideasCount={ideas.length}
                 onSwitchToIdeas={() => setActiveView('ideas')}
+                swimlanes={swimlaneSetting && {
+                  setting: swimlaneSetting,
+                  lanes: buildSwimlanes(swimlaneSetting, projectGroups),
+                  collapsed: collapsedSwimlanes,
+                  onToggleCollapsed: handleToggleSwimlane,
+                }}
+            />
+            <BulkActionBar
+                selected={selectedItems}
+                columns={cols}
+                tags={tags}
+                projectGroups={projectGroups}
+                onAction={handleBoardBulkAction}
+                onClear={selection.clearSelection}
             />
           </div>
         )}
@@ -1020,6 +1806,8 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
             onMoveToKanban={handleMoveIdeaToKanban}
             onDeleteIdea={handleDeleteIdea}
             onCreateIdea={handleCreateIdea}
+            projectGroups={projectGroups}
+            onBulkAction={handleBulkAction}
           />
         )}
 
@@ -1028,28 +1816,36 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
           <PlansView
             initialPlans={allPlans}
             projects={items.map(p => ({ id: p.id, title: p.title }))}
-            onPlanClick={(plan) => {
-              // If plan is assigned to a project, open that project
-              if (plan.projectId) {
-                const project = items.find(p => p.id === plan.projectId);
-                if (project) {
-                  handleEditProject(project);
-                }
-              } else {
-                // Otherwise just open the file
-                window.open(plan.url, '_blank');
-              }
-            }}
+            onPlanClick={handlePlanClick}
           />
         )}
 
         {/* Completed View - shown only in completed view */}
         {activeView === 'completed' && (
           <CompletedProjectsView
-            projects={items}
+            projects={[...items, ...archivedItems]}
             tags={tags}
             projectGroups={projectGroups}
             onProjectClick={handleEditProject}
+            onSetArchived={handleSetArchived}
+          />
+        )}
+
+        {/* Calendar View - shown only in calendar view */}
+        {activeView === 'calendar' && (
+          <CalendarView
+            projects={items}
+            dayPlans={widgets.filter(w => w.type === 'day-plan')}
+            onProjectClick={handleEditProject}
+            onReschedule={handleReschedule}
+          />
+        )}
+
+        {/* Trash View - shown only in trash view */}
+        {activeView === 'trash' && (
+          <TrashView
+            retentionDays={settingsState.trashRetentionDays ?? 30}
+            onRestored={handleTrashRestored}
           />
         )}
       </div>
@@ -1100,6 +1896,25 @@ export function KanbanBoard({ initialProjects, initialSettings, initialColumns,
           }}
         />
       )}
+      {duplicatingProject && (
+        <DuplicateProjectDialog
+          projectId={duplicatingProject.id}
+          projectTitle={duplicatingProject.title}
+          onClose={() => setDuplicatingProject(null)}
+          onDuplicated={() => refreshBoardAndIdeas()}
+        />
+      )}
+      {templateDialog && (
+        <AddProjectDialog
+          open
+          onOpenChange={(open) => !open && setTemplateDialog(null)}
+          columns={cols}
+          templates={templateDialog.templates}
+          defaultStatus={templateDialog.columnId}
+          defaultTemplateId={templateDialog.templates[0]?.id}
+          onAdd={handleAddFromDialog}
+        />
+      )}
       <SettingsModal
         isOpen={isSettingsOpen}
         onClose={() => setIsSettingsOpen(false)}
@@ -3,6 +3,7 @@
 import dynamic from 'next/dynamic';
 import type { SettingsData, Column } from './KanbanBoard';
 import type { StandalonePlan } from '@/app/actions';
+import { CommandPaletteProvider } from './CommandPalette';
 
 function KanbanSkeleton() {
   return (
@@ -62,5 +63,9 @@ type KanbanBoardClientProps = {
 };
 
 export function KanbanBoardClient(props: KanbanBoardClientProps) {
-  return <KanbanBoard {...props} />;
+  return (
+    <CommandPaletteProvider>
+      <KanbanBoard {...props} />
+    </CommandPaletteProvider>
+  );
 }
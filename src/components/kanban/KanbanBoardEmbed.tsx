@@ -7,11 +7,14 @@ import {
   DragOverEvent,
   DragEndEvent,
 } from '@dnd-kit/core';
-import { arrayMove } from '@dnd-kit/sortable';
 import { ProjectModal } from './ProjectModal';
-import { updateProjectStatus, updateColumnOrder, toggleProjectPinned } from '@/app/actions';
+import { getColumns, getProjects, moveProject, toggleProjectPinned } from '@/app/actions';
 import { ClientDndWrapper } from './ClientDndWrapper';
 import { Project, Column, SettingsData } from './KanbanBoard';
+import { compareLaneCards, laneNeighbours, positionBetween } from '@/lib/lane-positions';
+import { reconcileList, sameVersionedRow } from '@/lib/live-sync';
+import { useLiveSync } from '@/hooks/use-live-sync';
+import { parseRecurrence } from '@/lib/recurrence';
 import { v4 as uuidv4 } from 'uuid';
 
 type KanbanBoardEmbedProps = {
@@ -31,9 +34,19 @@ export function KanbanBoardEmbed({ initialProjects, initialSettings, initialColu
       imageUrl: (p.image_url ?? p.imageUrl ?? null) as string | null,
       materialsList: (p.materials_list ?? p.materialsList ?? null) as string | null,
       parentProjectId: (p.parent_project_id ?? p.parentProjectId ?? null) as string | null,
+      startDate: (p.start_date ?? p.startDate ?? null) as string | null,
+      blockedBy: (p.blocked_by ?? p.blockedBy ?? []) as string[],
+      recurrence: parseRecurrence(p.recurrence),
+      parentId: (p.parent_id ?? p.parentId ?? null) as string | null,
+      childPosition: Number(p.child_position ?? p.childPosition ?? 0),
+      checklistTotal: Number(p.checklist_total ?? p.checklistTotal ?? 0),
+      checklistDone: Number(p.checklist_done ?? p.checklistDone ?? 0),
+      dueDate: (p.due_date ?? p.dueDate ?? null) as string | null,
+      completedAt: (p.completed_at ?? p.completedAt ?? null) as string | null,
       plans: (p.plans ?? null) as string | null,
       inspiration: (p.inspiration ?? null) as string | null,
       attachments: (p.attachments ?? null) as Record<string, unknown>[] | null,
+      updatedAt: (p.updated_at ?? p.updatedAt) ? new Date((p.updated_at ?? p.updatedAt) as string) : null,
     })) as unknown as Project[];
   };
 
@@ -57,6 +70,15 @@ export function KanbanBoardEmbed({ initialProjects, initialSettings, initialColu
     setCols(initialColumns);
   }, [initialColumns]);
 
+  // Keep the embedded board current with edits made on the main board
+  useLiveSync(async (changed) => {
+    await Promise.all([
+      changed.has('projects') &&
+        getProjects().then((data) => setItems((prev) => reconcileList(prev, mapProjects(data), sameVersionedRow))),
+      changed.has('columns') && getColumns().then((data) => setCols((prev) => reconcileList(prev, data as Column[]))),
+    ]);
+  }, { isBusy: () => activeId !== null });
+
   function findContainer(id: string) {
     if (cols.find(c => c.id === id)) return id;
     const item = items.find((i) => i.id === id);
@@ -78,15 +100,13 @@ export function KanbanBoardEmbed({ initialProjects, initialSettings, initialColu
     if (!activeContainer || !overContainer || activeContainer === overContainer) return;
 
     setItems((prevItems) => {
-      const activeIndex = prevItems.findIndex((i) => i.id === activeId);
-      const overIndex = prevItems.findIndex((i) => i.id === overId);
-      const activeItem = prevItems[activeIndex];
-      if (activeItem) {
-        return arrayMove(prevItems, activeIndex, overIndex !== -1 ? overIndex : prevItems.length - 1).map((item, idx) =>
-          item.id === activeId ? { ...item, status: overContainer, position: idx } : item
-        );
-      }
-      return prevItems;
+      const overItems = prevItems.filter((i) => i.status === overContainer).sort(compareLaneCards);
+      const overIndex = overItems.findIndex((i) => i.id === overId);
+      const newIndex = overIndex !== -1 ? overIndex : overItems.length;
+      const position = positionBetween(overItems[newIndex - 1]?.position, overItems[newIndex]?.position);
+      return prevItems.map((item) =>
+        item.id === activeId ? { ...item, status: overContainer, position } : item
+      );
     });
   }
 
@@ -104,29 +124,23 @@ export function KanbanBoardEmbed({ initialProjects, initialSettings, initialColu
 
     if (!activeContainer || !overContainer) return;
 
-    const activeIndex = items.findIndex((i) => i.id === activeId);
-    const overIndex = items.findIndex((i) => i.id === overId);
-
-    if (activeIndex !== overIndex || activeContainer !== overContainer) {
-      const newItems = arrayMove(items, activeIndex, overIndex !== -1 ? overIndex : items.length - 1);
-      const itemsInColumn = newItems.filter((i) => i.status === overContainer);
-      const reorderedItems = newItems.map((item) => {
-        if (item.id === activeId) {
-          return { ...item, status: overContainer, position: itemsInColumn.findIndex((i) => i.id === item.id) };
-        }
-        return item;
-      });
-      setItems(reorderedItems);
-
-      const targetItem = reorderedItems.find((i) => i.id === activeId);
-      if (targetItem) {
-        await updateProjectStatus(activeId, overContainer, targetItem.position);
-      }
-      const columnProjectIds = reorderedItems.filter((i) => i.status === overContainer).map((i) => i.id);
-      await updateColumnOrder(overContainer, columnProjectIds);
-
-      router.refresh();
-    }
+    // The card takes the slot of the card it was dropped on (or the lane end);
+    // only the moved card is written, between its new neighbours
+    const lane = items.filter((i) => i.status === overContainer).sort(compareLaneCards);
+    const rest = lane.filter((i) => i.id !== activeId);
+    const overIndex = lane.findIndex((i) => i.id === overId);
+    const newIndex = overIndex !== -1 ? overIndex : rest.length;
+    const { after, before } = laneNeighbours(rest, newIndex, items.find((i) => i.id === activeId)?.pinned);
+
+    setItems((prevItems) =>
+      prevItems.map((item) =>
+        item.id === activeId
+          ? { ...item, status: overContainer, position: positionBetween(after?.position, before?.position) }
+          : item
+      )
+    );
+    await moveProject(activeId, overContainer, { afterId: after?.id, beforeId: before?.id });
+    router.refresh();
   }
 
   const handleEditProject = (project: Project) => {
@@ -26,7 +26,11 @@ import {
   SheetTrigger,
 } from "@/components/ui/sheet"
 import { Button } from "@/components/ui/button"
-import { Trash2, Pin, ListTodo, MoveRight, ArrowRightLeft } from 'lucide-react';
+import { Trash2, Pin, Copy, ListTodo, MoveRight, ArrowRightLeft, CalendarClock, Lock, Repeat, ListTree, ListChecks, Archive } from 'lucide-react';
+import { getDueStatus, formatDueLabel } from '@/lib/project-dates';
+import { describeRecurrence } from '@/lib/recurrence';
+import type { ProjectRollup } from '@/lib/project-tree';
+import type { SelectModifiers } from '@/hooks/use-selection';
 
 // Tiny neutral-gray placeholder (1x1 PNG) shown while the real cover image
 // loads. Keeps cards from flashing a blank rectangle when images come from
@@ -74,15 +78,27 @@ type KanbanCardProps = {
   onClick?: () => void;
   onDelete?: () => void;
   onTogglePin?: (pinned: boolean) => void;
+  onDuplicate?: () => void;
+  /** Offered on completed cards: takes the card off the board (it stays in Completed). */
+  onArchive?: () => void;
   onMoveToColumn?: (columnId: string) => void;
   columns?: Column[];
   currentColumnId?: string;
   size?: string; // compact, small, medium
-  columnTitle?: string;
+  /** Card sits in a Done-role lane (title is struck through). */
+  inDoneColumn?: boolean;
+  /** Titles of unfinished cards this one is waiting on. */
+  blockers?: string[];
+  /** Sub-projects done/total and checklist items across the card's tree. */
+  rollup?: ProjectRollup;
+  /** Part of the current multi-selection. */
+  isSelected?: boolean;
+  /** Shift/cmd/ctrl-click: add to or remove from the multi-selection instead of opening. */
+  onSelect?: (modifiers: SelectModifiers) => void;
   className?: string;
 };
 
-export function KanbanCard({ project, onClick, onDelete, onTogglePin, onMoveToColumn, columns = [], currentColumnId, size = 'medium', columnTitle, className }: KanbanCardProps) {
+export function KanbanCard({ project, onClick, onDelete, onTogglePin, onDuplicate, onArchive, onMoveToColumn, columns = [], currentColumnId, size = 'medium', inDoneColumn, blockers, rollup, isSelected, onSelect, className }: KanbanCardProps) {
   // Touch handling to distinguish between scroll and tap
   const touchStartPos = useRef<{ x: number; y: number; time: number } | null>(null);
   // Start as false so server and first client render match; detect after mount.
@@ -134,6 +150,7 @@ export function KanbanCard({ project, onClick, onDelete, onTogglePin, onMoveToCo
   const titleSize = isCompact ? 'text-sm' : 'text-base';
   /** Ideas (and other small cards) show AI summary; compact strip stays title-only. */
   const showDescription = !isCompact && isSmall && !!project.description?.trim();
+  const dueStatus = getDueStatus(project.dueDate, project.isCompleted);
 
   const handleTouchStart = (e: React.TouchEvent) => {
     touchStartPos.current = {
@@ -182,6 +199,12 @@ export function KanbanCard({ project, onClick, onDelete, onTogglePin, onMoveToCo
       return;
     }
 
+    if (onSelect && (e.shiftKey || e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      onSelect(e);
+      return;
+    }
+
     // Only handle mouse clicks (desktop), not touch events
     if (!isTouchDevice && !isDragging) {
       onClick?.();
@@ -198,6 +221,7 @@ export function KanbanCard({ project, onClick, onDelete, onTogglePin, onMoveToCo
       style={style}
       {...attributes}
       {...cardListeners}
+      data-project-id={project.id}
       role="button"
       tabIndex={0}
       aria-label={`Open project: ${project.title}`}
@@ -217,6 +241,8 @@ export function KanbanCard({ project, onClick, onDelete, onTogglePin, onMoveToCo
           !isTouchDevice && "cursor-grab active:cursor-grabbing",
           !contextMenuOpen && !isTouchDevice && "active:scale-[0.98] active:shadow-lg",
           project.pinned && "border-l-2 border-l-primary/30",
+          dueStatus === 'overdue' && "ring-1 ring-red-500/50",
+          isSelected && "ring-2 ring-primary",
           className
         )}
         onClick={handleClick}
@@ -265,10 +291,23 @@ export function KanbanCard({ project, onClick, onDelete, onTogglePin, onMoveToCo
             "font-medium leading-tight",
             (project.pinned || project.isTask) && "pr-6",
             (project.pinned && project.isTask) && "pr-10",
-            columnTitle?.toLowerCase() === 'done' && "line-through text-muted-foreground"
+            inDoneColumn && "line-through text-muted-foreground"
           )}>
             {project.title}
           </CardTitle>
+          {/* Blocked-by lock */}
+          {blockers && blockers.length > 0 && (
+            <div className="mt-2">
+              <Badge
+                variant="outline"
+                className="text-[10px] h-5 px-1.5 rounded-sm gap-1 border-amber-500/60 text-amber-700 dark:text-amber-400"
+                title={`Blocked by ${blockers.join(', ')}`}
+              >
+                <Lock className="h-3 w-3" />
+                Blocked{blockers.length > 1 ? ` (${blockers.length})` : ''}
+              </Badge>
+            </div>
+          )}
           {/* Tags */}
           {project.tags && project.tags.length > 0 && (
             <div className="flex flex-wrap gap-1 mt-2">
@@ -279,6 +318,67 @@ export function KanbanCard({ project, onClick, onDelete, onTogglePin, onMoveToCo
                 ))}
             </div>
           )}
+          {/* Due date */}
+          {dueStatus && (
+            <div
+              className={cn(
+                "flex items-center gap-1 mt-2 text-[11px] font-medium",
+                dueStatus === 'overdue' && "text-red-600 dark:text-red-400",
+                (dueStatus === 'due-today' || dueStatus === 'due-soon') && "text-amber-600 dark:text-amber-400",
+                dueStatus === 'upcoming' && "text-muted-foreground"
+              )}
+              title={`Due ${project.dueDate}`}
+            >
+              <CalendarClock className="h-3 w-3" />
+              {formatDueLabel(project.dueDate)}
+            </div>
+          )}
+          {/* Recurrence */}
+          {project.recurrence && (
+            <div
+              className="flex items-center gap-1 mt-1 text-[11px] text-muted-foreground"
+              title="Completing this creates the next occurrence"
+            >
+              <Repeat className="h-3 w-3" />
+              {describeRecurrence(project.recurrence)}
+            </div>
+          )}
+          {/* Sub-project and checklist rollup */}
+          {rollup && (
+            <div
+              className="mt-2 space-y-1"
+              title={[
+                rollup.childrenTotal > 0 && `${rollup.childrenDone} of ${rollup.childrenTotal} sub-projects done`,
+                rollup.checklistTotal > 0 && `${rollup.checklistDone} of ${rollup.checklistTotal} checklist items ticked`,
+              ].filter(Boolean).join('\n')}
+            >
+              <div className="flex items-center gap-2 text-[11px] text-muted-foreground">
+                {rollup.childrenTotal > 0 && (
+                  <span className="flex items-center gap-1">
+                    <ListTree className="h-3 w-3" />
+                    {rollup.childrenDone}/{rollup.childrenTotal}
+                  </span>
+                )}
+                {rollup.checklistTotal > 0 && (
+                  <span className="flex items-center gap-1">
+                    <ListChecks className="h-3 w-3" />
+                    {rollup.checklistDone}/{rollup.checklistTotal}
+                  </span>
+                )}
+              </div>
+              <div className="h-1 w-full rounded-full bg-muted overflow-hidden">
+                <div
+                  className="h-full bg-primary/60"
+                  style={{
+                    width: `${Math.round(
+                      ((rollup.childrenDone + rollup.checklistDone) /
+                        (rollup.childrenTotal + rollup.checklistTotal)) * 100
+                    )}%`,
+                  }}
+                />
+              </div>
+            </div>
+          )}
         </CardHeader>
         {showDescription && (
           <CardContent className={cn(contentPadding, "pt-2")}>
@@ -369,6 +469,26 @@ export function KanbanCard({ project, onClick, onDelete, onTogglePin, onMoveToCo
           </ContextMenuSub>
         )}
         
+        {onDuplicate && (
+          <ContextMenuItem onClick={(e) => {
+              e.stopPropagation();
+              onDuplicate();
+          }}>
+            <Copy className="mr-2 h-4 w-4" />
+            Duplicate
+          </ContextMenuItem>
+        )}
+
+        {onArchive && project.isCompleted && (
+          <ContextMenuItem onClick={(e) => {
+              e.stopPropagation();
+              onArchive();
+          }}>
+            <Archive className="mr-2 h-4 w-4" />
+            Archive
+          </ContextMenuItem>
+        )}
+
         <ContextMenuItem className="text-destructive focus:text-destructive" onClick={(e) => {
             e.stopPropagation();
             onDelete?.();
@@ -9,29 +9,65 @@ import { Project, Column } from './KanbanBoard';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardHeader, CardContent } from '@/components/ui/card';
-import { Trash2, Plus, Eye, ListTodo, FolderKanban, Lightbulb } from 'lucide-react';
+import { Trash2, Plus, Eye, ListTodo, FolderKanban, Lightbulb, Inbox, Circle, CircleDashed, CheckCircle2, Zap, Gauge, LayoutTemplate } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import {
   ContextMenu,
   ContextMenuContent,
   ContextMenuItem,
+  ContextMenuLabel,
+  ContextMenuRadioGroup,
+  ContextMenuRadioItem,
+  ContextMenuSeparator,
   ContextMenuTrigger,
 } from "@/components/ui/context-menu";
+import { COLUMN_ROLES, isColumnRole, type ColumnRole } from '@/lib/board-columns';
+import { describeColumnRule, type ColumnRule } from '@/lib/column-rules';
+import { ColumnRulesDialog } from './ColumnRulesDialog';
+import { isOverWipLimit, isWipEnforcement, normalizeWipLimit, type WipEnforcement } from '@/lib/wip-limits';
+import type { ProjectRollup } from '@/lib/project-tree';
+import type { SelectModifiers } from '@/hooks/use-selection';
+
+const ROLE_ICONS: Record<Exclude<ColumnRole, 'custom'>, typeof Circle> = {
+  backlog: Inbox,
+  todo: Circle,
+  'in-progress': CircleDashed,
+  done: CheckCircle2,
+};
 
 type KanbanColumnProps = {
   id: string;
   title: string;
+  role?: ColumnRole;
+  rules?: ColumnRule[];
+  wipLimit?: number | null;
+  wipEnforcement?: WipEnforcement;
+  /** Cards in the lane regardless of active filters, counted against the WIP limit. */
+  cardCount?: number;
+  wipBlocked?: boolean;
+  /** Open blockers per card id; cards listed here get a lock badge. */
+  blockersById?: Map<string, Project[]>;
+  /** Sub-project and checklist progress per card id. */
+  rollupById?: Map<string, ProjectRollup>;
+  selectedIds?: Set<string>;
+  onSelectCard?: (projectId: string, modifiers: SelectModifiers) => void;
   items: Project[];
   columns?: Column[];
   isHidden?: boolean;
   onToggleVisibility?: () => void;
   onCardClick?: (project: Project) => void;
   onTitleChange?: (id: string, newTitle: string) => void;
+  onRoleChange?: (id: string, role: ColumnRole) => void;
+  onRulesChange?: (id: string, rules: ColumnRule[]) => Promise<void> | void;
+  onWipLimitChange?: (id: string, wipLimit: number | null, wipEnforcement: WipEnforcement) => void;
   onDeleteColumn?: (id: string) => void;
   onDeleteProject?: (id: string) => void;
   onTogglePin?: (id: string, pinned: boolean) => void;
+  onDuplicateProject?: (project: Project) => void;
+  onArchiveProject?: (id: string) => void;
   onMoveCard?: (projectId: string, newColumnId: string) => void;
   onAddProject?: (columnId: string, isTask?: boolean) => void;
+  onAddFromTemplate?: (columnId: string) => void;
   cardSize?: string;
   isCreating?: boolean;
   onConfirmCreate?: (columnId: string, title: string, isTask?: boolean) => void;
@@ -40,7 +76,7 @@ type KanbanColumnProps = {
   onSwitchToIdeas?: () => void;
 };
 
-export function KanbanColumn({ id, title, items, columns, isHidden, onToggleVisibility, onCardClick, onTitleChange, onDeleteColumn, onDeleteProject, onTogglePin, onMoveCard, onAddProject, cardSize, isCreating, onConfirmCreate, onCancelCreate, ideasCount, onSwitchToIdeas }: KanbanColumnProps) {
+export function KanbanColumn({ id, title, role = 'custom', rules = [], wipLimit = null, wipEnforcement = 'warn', cardCount, wipBlocked, blockersById, rollupById, selectedIds, onSelectCard, items, columns, isHidden, onToggleVisibility, onCardClick, onTitleChange, onRoleChange, onRulesChange, onWipLimitChange, onDeleteColumn, onDeleteProject, onTogglePin, onDuplicateProject, onArchiveProject, onMoveCard, onAddProject, onAddFromTemplate, cardSize, isCreating, onConfirmCreate, onCancelCreate, ideasCount, onSwitchToIdeas }: KanbanColumnProps) {
   const {
     setNodeRef,
     attributes,
@@ -65,6 +101,8 @@ export function KanbanColumn({ id, title, items, columns, isHidden, onToggleVisi
   const [isEditing, setIsEditing] = useState(false);
   const [internalTitle, setInternalTitle] = useState(title);
   const [creatingAsTask, setCreatingAsTask] = useState(false);
+  const [isRulesOpen, setIsRulesOpen] = useState(false);
+  const [isEditingWip, setIsEditingWip] = useState(false);
   
   // This pattern allows the prop to override state during render if it changed, 
   // but only if we aren't editing.
@@ -90,6 +128,25 @@ export function KanbanColumn({ id, title, items, columns, isHidden, onToggleVisi
     }
   };
 
+  const wipInputRef = useRef<HTMLInputElement>(null);
+  const laneCount = cardCount ?? items.length;
+  const isOverWip = isOverWipLimit(laneCount, wipLimit);
+
+  const handleWipEdit = () => {
+    setIsEditingWip(true);
+    setTimeout(() => wipInputRef.current?.select(), 0);
+  };
+
+  // Empty or 0 clears the limit
+  const commitWipLimit = (value: string) => {
+    setIsEditingWip(false);
+    const next = normalizeWipLimit(value);
+    if (next !== wipLimit) onWipLimitChange?.(id, next, wipEnforcement);
+  };
+
+  const RoleIcon = role !== 'custom' ? ROLE_ICONS[role] : null;
+  const roleLabel = COLUMN_ROLES.find(r => r.value === role)?.label;
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     // Prevent drag-and-drop keyboard events from interfering
     e.stopPropagation();
@@ -100,12 +157,32 @@ export function KanbanColumn({ id, title, items, columns, isHidden, onToggleVisi
   };
 
   return (
-    <div ref={setNodeRef} style={style} className="flex w-[85vw] md:w-60 md:min-w-[240px] shrink-0 snap-center md:snap-align-none flex-col rounded-lg bg-muted p-3 relative group" data-column-id={id}>
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={`flex w-[85vw] md:w-60 md:min-w-[240px] shrink-0 snap-center md:snap-align-none flex-col rounded-lg bg-muted p-3 relative group transition-shadow ${
+        wipBlocked ? 'ring-2 ring-destructive' : isOverWip ? 'ring-1 ring-destructive/50' : ''
+      }`}
+      data-column-id={id}
+    >
+      <ContextMenu>
+      <ContextMenuTrigger asChild disabled={!onRoleChange && !onRulesChange && !onWipLimitChange}>
       <div 
         className="mb-3 h-6 flex items-center justify-between cursor-grab active:cursor-grabbing" 
         {...attributes} 
         {...listeners}
       >
+        {RoleIcon && (
+          <RoleIcon
+            className="h-3.5 w-3.5 mr-1.5 shrink-0 text-muted-foreground"
+            aria-label={`${roleLabel} lane`}
+          />
+        )}
+        {rules.length > 0 && (
+          <span title={rules.map(describeColumnRule).join('\n')} className="mr-1.5 shrink-0">
+            <Zap className="h-3.5 w-3.5 text-amber-500" aria-label={`${rules.length} automation rule${rules.length === 1 ? '' : 's'}`} />
+          </span>
+        )}
         {isEditing ? (
              <Input
                 ref={inputRef}
@@ -140,6 +217,38 @@ export function KanbanColumn({ id, title, items, columns, isHidden, onToggleVisi
           {ideasCount !== undefined && (
             <Badge variant="secondary" className="text-xs h-5 px-1.5">{ideasCount}</Badge>
           )}
+          {/* WIP limit: count against the limit, or inline editor */}
+          {isEditingWip ? (
+            <Input
+              ref={wipInputRef}
+              type="number"
+              min={0}
+              defaultValue={wipLimit ?? ''}
+              placeholder="∞"
+              aria-label="WIP limit"
+              className="h-6 w-14 px-1 text-xs"
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={(e) => e.stopPropagation()}
+              onBlur={(e) => commitWipLimit(e.currentTarget.value)}
+              onKeyDown={(e) => {
+                e.stopPropagation();
+                if (e.key === 'Enter') e.currentTarget.blur();
+                if (e.key === 'Escape') setIsEditingWip(false);
+              }}
+            />
+          ) : wipLimit !== null && ideasCount === undefined && (
+            <Badge
+              variant={isOverWip ? 'destructive' : 'secondary'}
+              className="text-xs h-5 px-1.5 tabular-nums"
+              title={
+                wipBlocked
+                  ? `Lane is full — limit ${wipLimit}`
+                  : `${laneCount} of ${wipLimit} cards (${wipEnforcement === 'block' ? 'blocks' : 'warns'} when full)`
+              }
+            >
+              {laneCount}/{wipLimit}
+            </Badge>
+          )}
           {/* Hide column button */}
           {onToggleVisibility && (
             <Button
@@ -172,6 +281,64 @@ export function KanbanColumn({ id, title, items, columns, isHidden, onToggleVisi
           )}
         </div>
       </div>
+      </ContextMenuTrigger>
+      <ContextMenuContent>
+        <ContextMenuLabel>Column role</ContextMenuLabel>
+        <ContextMenuRadioGroup
+          value={role}
+          onValueChange={(value) => {
+            if (isColumnRole(value)) onRoleChange?.(id, value);
+          }}
+        >
+          {COLUMN_ROLES.map(r => (
+            <ContextMenuRadioItem key={r.value} value={r.value}>
+              {r.label}
+            </ContextMenuRadioItem>
+          ))}
+        </ContextMenuRadioGroup>
+        {onRulesChange && (
+          <>
+            <ContextMenuSeparator />
+            <ContextMenuItem onClick={() => setIsRulesOpen(true)}>
+              <Zap className="mr-2 h-4 w-4" />
+              Automation rules{rules.length > 0 ? ` (${rules.length})` : '…'}
+            </ContextMenuItem>
+          </>
+        )}
+        {onWipLimitChange && (
+          <>
+            <ContextMenuSeparator />
+            <ContextMenuItem onClick={handleWipEdit}>
+              <Gauge className="mr-2 h-4 w-4" />
+              {wipLimit !== null ? `WIP limit (${wipLimit})…` : 'Set WIP limit…'}
+            </ContextMenuItem>
+            {wipLimit !== null && (
+              <>
+                <ContextMenuLabel>When full</ContextMenuLabel>
+                <ContextMenuRadioGroup
+                  value={wipEnforcement}
+                  onValueChange={(value) => {
+                    if (isWipEnforcement(value)) onWipLimitChange(id, wipLimit, value);
+                  }}
+                >
+                  <ContextMenuRadioItem value="warn">Warn only</ContextMenuRadioItem>
+                  <ContextMenuRadioItem value="block">Block moves</ContextMenuRadioItem>
+                </ContextMenuRadioGroup>
+              </>
+            )}
+          </>
+        )}
+      </ContextMenuContent>
+      </ContextMenu>
+      {isRulesOpen && onRulesChange && (
+        <ColumnRulesDialog
+          isOpen
+          columnTitle={title}
+          rules={rules}
+          onClose={() => setIsRulesOpen(false)}
+          onSave={(next) => onRulesChange(id, next)}
+        />
+      )}
       {/* Idea column — static, no drop target */}
       {ideasCount !== undefined ? (
         <button
@@ -261,6 +428,15 @@ export function KanbanColumn({ id, title, items, columns, isHidden, onToggleVisi
               >
                 Add Task
               </ContextMenuItem>
+              {onAddFromTemplate && (
+                <>
+                  <ContextMenuSeparator />
+                  <ContextMenuItem onClick={() => onAddFromTemplate(id)}>
+                    <LayoutTemplate className="mr-2 h-4 w-4" />
+                    New from template…
+                  </ContextMenuItem>
+                </>
+              )}
             </ContextMenuContent>
           </ContextMenu>
         )}
@@ -273,11 +449,17 @@ export function KanbanColumn({ id, title, items, columns, isHidden, onToggleVisi
                 onClick={() => onCardClick?.(project)} 
                 onDelete={() => onDeleteProject?.(project.id)}
                 onTogglePin={(pinned) => onTogglePin?.(project.id, pinned)}
+                onDuplicate={onDuplicateProject && (() => onDuplicateProject(project))}
+                onArchive={onArchiveProject && (() => onArchiveProject(project.id))}
                 onMoveToColumn={(columnId) => onMoveCard?.(project.id, columnId)}
                 columns={columns}
                 currentColumnId={id}
                 size={cardSize || "small"}
-                columnTitle={title}
+                inDoneColumn={role === 'done'}
+                blockers={blockersById?.get(project.id)?.map(b => b.title)}
+                rollup={rollupById?.get(project.id)}
+                isSelected={selectedIds?.has(project.id)}
+                onSelect={onSelectCard ? (modifiers) => onSelectCard(project.id, modifiers) : undefined}
             />
           ))}
         </SortableContext>
@@ -172,7 +172,7 @@ export function PlansView({ initialPlans, projects, onPlanClick }: PlansViewProp
     e.stopPropagation();
     const ok = await confirmDialog({
       title: 'Delete plan?',
-      description: 'This plan will be permanently removed.',
+      description: 'This plan will be moved to the Trash.',
       confirmLabel: 'Delete',
       destructive: true,
     });
@@ -0,0 +1,280 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ArrowDown, ArrowUp, CheckCircle2, Circle, ListTodo, Loader2, Plus, Unlink } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  createChildProject,
+  getProjectChildren,
+  getProjectOptions,
+  reorderProjectChildren,
+  updateProject,
+  type ProjectOption,
+} from '@/app/actions';
+import { computeRollups, groupChildren } from '@/lib/project-tree';
+import { cn } from '@/lib/utils';
+
+type ChildRow = {
+  id: string;
+  title: string;
+  isTask: boolean;
+  isCompleted: boolean;
+  isIdea: boolean;
+};
+
+type ProjectChildrenProps = {
+  projectId: string;
+  parentId: string | null;
+  onParentChange: (parentId: string | null) => Promise<void>;
+};
+
+function collectDescendants(projectId: string, byParent: Map<string, ProjectOption[]>): Set<string> {
+  const found = new Set<string>();
+  const stack = [projectId];
+  while (stack.length > 0) {
+    for (const child of byParent.get(stack.pop()!) ?? []) {
+      if (found.has(child.id)) continue;
+      found.add(child.id);
+      stack.push(child.id);
+    }
+  }
+  return found;
+}
+
+export function ProjectChildren({ projectId, parentId, onParentChange }: ProjectChildrenProps) {
+  const [children, setChildren] = useState<ChildRow[]>([]);
+  const [options, setOptions] = useState<ProjectOption[]>([]);
+  const [newTitle, setNewTitle] = useState('');
+  const [newIsTask, setNewIsTask] = useState(true);
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Bumped after every change so the list and pickers reload
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([getProjectChildren(projectId), getProjectOptions()]).then(([rows, all]) => {
+      if (cancelled) return;
+      setChildren(
+        rows.map((row) => ({
+          id: row.id,
+          title: row.title,
+          isTask: Boolean(row.is_task),
+          isCompleted: Boolean(row.is_completed),
+          isIdea: Boolean(row.is_idea),
+        }))
+      );
+      setOptions(all);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, version]);
+
+  const rollups = useMemo(() => computeRollups(options), [options]);
+
+  // Neither this card nor anything below it can become its parent, and
+  // nothing above it can be attached underneath
+  const descendants = useMemo(
+    () => collectDescendants(projectId, groupChildren(options)),
+    [projectId, options]
+  );
+  const ancestors = useMemo(() => {
+    const byId = new Map(options.map((o) => [o.id, o]));
+    const found = new Set<string>();
+    let current = parentId;
+    while (current && !found.has(current)) {
+      found.add(current);
+      current = byId.get(current)?.parentId ?? null;
+    }
+    return found;
+  }, [parentId, options]);
+  const parentOptions = options.filter((o) => o.id !== projectId && !descendants.has(o.id));
+  const attachOptions = options.filter(
+    (o) => o.id !== projectId && o.parentId !== projectId && !ancestors.has(o.id)
+  );
+
+  const run = async (label: string, action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(`Failed to ${label}:`, err);
+      setError(`Could not ${label}`);
+    }
+    setVersion((v) => v + 1);
+  };
+
+  const handleAdd = async () => {
+    const title = newTitle.trim();
+    if (!title) return;
+    setIsAdding(true);
+    await run('add sub-project', () => createChildProject(projectId, { title, isTask: newIsTask }));
+    setNewTitle('');
+    setIsAdding(false);
+  };
+
+  const handleMove = async (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= children.length) return;
+    const next = [...children];
+    [next[index], next[target]] = [next[target], next[index]];
+    setChildren(next);
+    await run('reorder sub-projects', () => reorderProjectChildren(projectId, next.map((c) => c.id)));
+  };
+
+  const parentTitle = options.find((o) => o.id === parentId)?.title;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <label className="text-sm text-muted-foreground min-w-[80px]">Part of:</label>
+        <Select
+          value={parentId ?? 'none'}
+          onValueChange={(value) => run('change parent project', () => onParentChange(value === 'none' ? null : value))}
+        >
+          <SelectTrigger className="w-[240px] h-8">
+            <SelectValue placeholder="No parent project">{parentTitle ?? 'No parent project'}</SelectValue>
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">
+              <span className="text-muted-foreground">No parent project</span>
+            </SelectItem>
+            {parentOptions.map((o) => (
+              <SelectItem key={o.id} value={o.id}>
+                <span className={cn(o.isCompleted && "line-through text-muted-foreground")}>{o.title}</span>
+                {o.isIdea && <span className="ml-1 text-xs text-muted-foreground">(idea)</span>}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {parentId && (
+          <Link href={`/projects/${parentId}`} prefetch={false} className="text-xs text-muted-foreground hover:underline">
+            Open
+          </Link>
+        )}
+      </div>
+
+      {children.length > 0 ? (
+        <ul className="divide-y rounded-md border">
+          {children.map((child, index) => {
+            const rollup = rollups.get(child.id);
+            return (
+              <li key={child.id} className="flex items-center gap-2 px-3 py-2 group">
+                {child.isCompleted ? (
+                  <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0" />
+                ) : (
+                  <Circle className="h-4 w-4 text-muted-foreground shrink-0" />
+                )}
+                {child.isTask && <ListTodo className="h-3.5 w-3.5 text-blue-500/60 shrink-0" />}
+                <Link
+                  href={`/projects/${child.id}`}
+                  prefetch={false}
+                  className={cn(
+                    "flex-1 truncate text-sm hover:underline",
+                    child.isCompleted && "line-through text-muted-foreground"
+                  )}
+                >
+                  {child.title}
+                </Link>
+                {child.isIdea && <span className="text-xs text-muted-foreground">idea</span>}
+                {rollup && rollup.childrenTotal > 0 && (
+                  <span className="text-xs text-muted-foreground" title="Sub-projects done">
+                    {rollup.childrenDone}/{rollup.childrenTotal}
+                  </span>
+                )}
+                <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={index === 0}
+                    onClick={() => handleMove(index, -1)}
+                    aria-label={`Move ${child.title} up`}
+                  >
+                    <ArrowUp className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={index === children.length - 1}
+                    onClick={() => handleMove(index, 1)}
+                    aria-label={`Move ${child.title} down`}
+                  >
+                    <ArrowDown className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => run('detach sub-project', () => updateProject(child.id, { parentId: null }))}
+                    aria-label={`Detach ${child.title}`}
+                    title="Detach from this project"
+                  >
+                    <Unlink className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">No sub-projects yet.</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder={newIsTask ? 'Add a task…' : 'Add a sub-project…'}
+          className="h-8 flex-1 min-w-[200px]"
+        />
+        <Select value={newIsTask ? 'task' : 'project'} onValueChange={(value) => setNewIsTask(value === 'task')}>
+          <SelectTrigger className="w-[110px] h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="task">Task</SelectItem>
+            <SelectItem value="project">Project</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button size="sm" className="h-8" onClick={handleAdd} disabled={!newTitle.trim() || isAdding}>
+          {isAdding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          Add
+        </Button>
+        <Select
+          value=""
+          onValueChange={(id) => run('attach project', () => updateProject(id, { parentId: projectId }))}
+        >
+          <SelectTrigger className="w-[180px] h-8">
+            <SelectValue placeholder="Attach existing…" />
+          </SelectTrigger>
+          <SelectContent>
+            {attachOptions.length === 0 ? (
+              <div className="px-2 py-1.5 text-xs text-muted-foreground">No other cards available</div>
+            ) : (
+              attachOptions.map((o) => (
+                <SelectItem key={o.id} value={o.id}>
+                  <span className={cn(o.isCompleted && "line-through text-muted-foreground")}>{o.title}</span>
+                  {o.parentId && <span className="ml-1 text-xs text-muted-foreground">(moves)</span>}
+                </SelectItem>
+              ))
+            )}
+          </SelectContent>
+        </Select>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
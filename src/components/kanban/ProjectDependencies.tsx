@@ -0,0 +1,110 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { CheckCircle2, Lock, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getProjectOptions, type ProjectOption } from '@/app/actions';
+import { createsDependencyCycle } from '@/lib/project-dependencies';
+import { cn } from '@/lib/utils';
+
+type ProjectDependenciesProps = {
+  projectId: string;
+  blockedBy: string[];
+  onChange: (blockedBy: string[]) => Promise<void>;
+};
+
+export function ProjectDependencies({ projectId, blockedBy, onChange }: ProjectDependenciesProps) {
+  const [candidates, setCandidates] = useState<ProjectOption[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getProjectOptions().then((rows) => {
+      if (!cancelled) setCandidates(rows);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const byId = useMemo(() => {
+    const map = new Map(candidates.map((c) => [c.id, c]));
+    const self = map.get(projectId);
+    if (self) map.set(projectId, { ...self, blockedBy });
+    return map;
+  }, [candidates, projectId, blockedBy]);
+
+  const blockers = blockedBy
+    .map((id) => byId.get(id))
+    .filter((c): c is ProjectOption => !!c);
+
+  const blocking = candidates.filter((c) => c.id !== projectId && c.blockedBy.includes(projectId));
+
+  // Cards that would close a loop are left out rather than rejected on save
+  const options = candidates.filter(
+    (c) => c.id !== projectId && !blockedBy.includes(c.id) && !createsDependencyCycle(projectId, c.id, byId)
+  );
+
+  const save = async (next: string[]) => {
+    setError(null);
+    try {
+      await onChange(next);
+    } catch (err) {
+      console.error('Failed to update blockers:', err);
+      setError('Could not save blockers');
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-3 flex-wrap">
+        <label className="text-sm text-muted-foreground min-w-[80px]">Blocked by:</label>
+        {blockers.map((blocker) => (
+          <Badge
+            key={blocker.id}
+            variant="outline"
+            className={cn(
+              "gap-1 pr-1 text-sm font-normal",
+              blocker.isCompleted ? "text-muted-foreground" : "border-amber-500/60 text-amber-700 dark:text-amber-400"
+            )}
+            title={blocker.isCompleted ? 'Finished' : 'Still open'}
+          >
+            {blocker.isCompleted ? <CheckCircle2 className="h-3 w-3" /> : <Lock className="h-3 w-3" />}
+            <span className={cn(blocker.isCompleted && "line-through")}>{blocker.title}</span>
+            <button
+              onClick={() => save(blockedBy.filter((id) => id !== blocker.id))}
+              className="ml-0.5 rounded-sm p-0.5 hover:bg-muted"
+              aria-label={`Remove blocker ${blocker.title}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <Select value="" onValueChange={(id) => save([...blockedBy, id])}>
+          <SelectTrigger className="w-[200px] h-8">
+            <SelectValue placeholder={blockers.length ? 'Add another…' : 'Nothing — add a blocker…'} />
+          </SelectTrigger>
+          <SelectContent>
+            {options.length === 0 ? (
+              <div className="px-2 py-1.5 text-xs text-muted-foreground">No other cards available</div>
+            ) : (
+              options.map((c) => (
+                <SelectItem key={c.id} value={c.id}>
+                  <span className={cn(c.isCompleted && "line-through text-muted-foreground")}>{c.title}</span>
+                  {c.isIdea && <span className="ml-1 text-xs text-muted-foreground">(idea)</span>}
+                </SelectItem>
+              ))
+            )}
+          </SelectContent>
+        </Select>
+      </div>
+      {blocking.length > 0 && (
+        <p className="text-xs text-muted-foreground pl-[92px]">
+          Blocks: {blocking.map((c) => c.title).join(', ')}
+        </p>
+      )}
+      {error && <p className="text-xs text-destructive pl-[92px]">{error}</p>}
+    </div>
+  );
+}
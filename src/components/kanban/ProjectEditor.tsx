@@ -3,15 +3,26 @@
 import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Project, Column } from './KanbanBoard';
-import { updateProject, generateProjectImage, uploadImageBase64, uploadFile, getAllProjectGroups, getAllTags, ensureTagExists, moveProjectFromDoneIfNeeded, fetchAndSetOgImage, getColumns, moveIdeaToKanban, moveProjectToIdeas, deleteProject, getImageStyles, saveImageFromUrl, setProjectCompletedState, type ImageStyle } from '@/app/actions';
+import { updateProject, generateProjectImage, uploadImageBase64, uploadFile, getAllProjectGroups, getAllTags, ensureTagExists, moveProjectFromDoneIfNeeded, fetchAndSetOgImage, getColumns, moveIdeaToKanban, moveProjectToIdeas, deleteProject, getImageStyles, saveImageFromUrl, setProjectCompletedState, getProjectOptions, type ImageStyle } from '@/app/actions';
 import Image from 'next/image';
-import { Loader2, Sparkles, Trash2, Upload, Image as ImageIcon, X, FileText, Maximize2, ChevronLeft, ChevronRight, Plus, Images, ExternalLink, Pencil, FolderKanban, ListTodo, CheckCircle2, Circle, Lightbulb, Crop, Wand2 } from 'lucide-react';
+import { Loader2, Sparkles, Trash2, Upload, Image as ImageIcon, X, FileText, Maximize2, ChevronLeft, ChevronRight, Plus, Images, ExternalLink, Pencil, FolderKanban, ListTodo, CheckCircle2, Circle, Lightbulb, Crop, Wand2, LayoutTemplate, Copy } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Lightbox, type LightboxItem } from '@/components/ui/lightbox';
 import { ImageCropModal } from './ImageCropModal';
+import { ProjectHistory } from './ProjectHistory';
+import { ProjectDependencies } from './ProjectDependencies';
+import { ProjectChildren } from './ProjectChildren';
+import { SaveAsTemplateDialog } from './SaveAsTemplateDialog';
+import { DuplicateProjectDialog } from './DuplicateProjectDialog';
+import { SaveConflictDialog } from './SaveConflictDialog';
+import { computeRollups } from '@/lib/project-tree';
+import { RecurrencePicker } from './RecurrencePicker';
+import { parseRecurrence, type RecurrenceRule } from '@/lib/recurrence';
+import { conflictingFields, type ProjectConflict, type ProjectSnapshot, type VersionedField } from '@/lib/project-versions';
+import { getDueStatus } from '@/lib/project-dates';
 import {
   ContextMenu,
   ContextMenuContent,
@@ -167,7 +178,7 @@ function StylePicker({
 export function ProjectEditor({ project, onClose, isModal = false, className, ideaNavigation, onMoveToIdeas, onProjectUpdate, onProjectDelete }: ProjectEditorProps) {
   const router = useRouter();
   const confirmDialog = useConfirm();
-  const [ogImageError, setOgImageError] = useState<string | null>(null);
+  const [editorError, setEditorError] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isFetchingOgImage, setIsFetchingOgImage] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
@@ -179,6 +190,8 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
   const [showInspirationPicker, setShowInspirationPicker] = useState(false);
   const [isCoverPickerOpen, setIsCoverPickerOpen] = useState(false);
   const [isCropOpen, setIsCropOpen] = useState(false);
+  const [isSaveTemplateOpen, setIsSaveTemplateOpen] = useState(false);
+  const [isDuplicateOpen, setIsDuplicateOpen] = useState(false);
   const [cropInspirationItem, setCropInspirationItem] = useState<{ id: string; url: string } | null>(null);
   const [activeSection, setActiveSection] = useState('overview');
   const [imageStyles, setImageStyles] = useState<ImageStyle[]>([]);
@@ -198,6 +211,11 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
   const [tags, setTags] = useState<string[]>(project.tags || []);
   const [parentProjectId, setParentProjectId] = useState<string | null>(project.parentProjectId || null);
   const [isCompleted, setIsCompleted] = useState<boolean>(project.isCompleted || false);
+  const [startDate, setStartDate] = useState<string>(project.startDate || '');
+  const [dueDate, setDueDate] = useState<string>(project.dueDate || '');
+  const [blockedBy, setBlockedBy] = useState<string[]>(project.blockedBy || []);
+  const [parentId, setParentId] = useState<string | null>(project.parentId ?? null);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(project.recurrence ?? null);
   const [isIdea, setIsIdea] = useState<boolean>(project.isIdea || false);
   const [localItemType, setLocalItemType] = useState<'project' | 'task' | 'idea'>(
     project.isIdea ? 'idea' : project.isTask ? 'task' : 'project'
@@ -335,15 +353,120 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
   const pendingChangesRef = useRef<Partial<Project> | null>(null);
   const saveInProgressRef = useRef<Promise<boolean> | null>(null);
   
+  // Row version (projects.updated_at) this editor last saw, and the server's
+  // field values at that version. Every save carries the version so an edit
+  // made elsewhere in the meantime is never silently overwritten.
+  const versionRef = useRef<string | null>(project.updatedAt ? new Date(project.updatedAt).toISOString() : null);
+  const baseRef = useRef<ProjectSnapshot>({});
+  const [saveConflict, setSaveConflict] = useState<
+    (ProjectConflict & { mine: Record<string, unknown>; fields: VersionedField[] }) | null
+  >(null);
+
+  useEffect(() => {
+    versionRef.current = project.updatedAt ? new Date(project.updatedAt).toISOString() : null;
+    baseRef.current = {
+      title: project.title,
+      richContent: project.richContent,
+      tags: project.tags,
+      materialsList,
+      plans,
+      inspiration,
+      imageUrl: project.imageUrl,
+      parent_project_id: project.parentProjectId,
+      startDate: project.startDate,
+      dueDate: project.dueDate,
+      blockedBy: project.blockedBy,
+      recurrence: project.recurrence,
+      parentId: project.parentId,
+    };
+    // Only a different project resets the version; later prop refreshes are older than our own saves
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [project.id]);
+
+  // Saves through updateProject with the version check. When the newer copy
+  // only differs in fields this save doesn't touch (a lane move, the cover
+  // fetched by the server…) it's saved on top of it; otherwise the conflict
+  // prompt decides and nothing is written yet. A failed write shows the error;
+  // callers that changed local state first put it back on 'failed'.
+  const saveProject = useCallback(async (data: Record<string, unknown>): Promise<'saved' | 'conflict' | 'failed'> => {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const result = await updateProject(project.id, data, { expectedUpdatedAt: versionRef.current ?? undefined });
+      if (result.ok) {
+        if (result.updatedAt) versionRef.current = result.updatedAt;
+        if (result.snapshot) baseRef.current = result.snapshot;
+        return 'saved';
+      }
+      if ('error' in result) {
+        setEditorError(result.error);
+        return 'failed';
+      }
+      const fields = conflictingFields(data, baseRef.current, result.conflict.theirs);
+      if (fields.length > 0) {
+        setSaveConflict({ ...result.conflict, mine: data, fields });
+        return 'conflict';
+      }
+      versionRef.current = result.conflict.updatedAt;
+      baseRef.current = result.conflict.theirs;
+    }
+    return 'conflict';
+  }, [project.id]);
+
+  // Puts the server's copy of these fields into the editor
+  const applyServerFields = (snapshot: ProjectSnapshot, fields: VersionedField[]) => {
+    for (const field of fields) {
+      const value = snapshot[field];
+      switch (field) {
+        case 'title': setTitle((value as string | null) ?? ''); break;
+        case 'richContent': setRichContent((value as string | null) ?? ''); break;
+        case 'tags': setTags((value as string[] | null) ?? []); break;
+        case 'materialsList': setMaterialsList((value as Material[] | null) ?? []); break;
+        case 'plans': setPlans((value as Attachment[] | null) ?? []); break;
+        case 'inspiration': setInspiration((value as Attachment[] | null) ?? []); break;
+        case 'imageUrl': setImageUrl((value as string | null) ?? ''); break;
+        case 'parent_project_id': setParentProjectId((value as string | null) ?? null); break;
+        case 'startDate': setStartDate((value as string | null) ?? ''); break;
+        case 'dueDate': setDueDate((value as string | null) ?? ''); break;
+        case 'blockedBy': setBlockedBy((value as string[] | null) ?? []); break;
+        case 'recurrence': setRecurrence(parseRecurrence(value)); break;
+        case 'parentId': setParentId((value as string | null) ?? null); break;
+      }
+    }
+  };
+
+  // "Keep mine": save this editor's values over the newer copy
+  const handleKeepMine = async () => {
+    if (!saveConflict) return;
+    versionRef.current = saveConflict.updatedAt;
+    baseRef.current = saveConflict.theirs;
+    const mine = saveConflict.mine;
+    setSaveConflict(null);
+    await saveProject(mine);
+    router.refresh();
+  };
+
+  // "Take theirs": load the newer copy; edits to fields nobody else touched are still saved
+  const handleTakeTheirs = async () => {
+    if (!saveConflict) return;
+    const { theirs, updatedAt, mine, fields } = saveConflict;
+    versionRef.current = updatedAt;
+    baseRef.current = theirs;
+    const rest = Object.fromEntries(Object.entries(mine).filter(([field]) => !fields.includes(field as VersionedField)));
+    applyServerFields(theirs, (Object.keys(theirs) as VersionedField[]).filter((field) => !(field in rest)));
+    pendingChangesRef.current = null;
+    setSaveConflict(null);
+    if (Object.keys(rest).length > 0) await saveProject(rest);
+    router.refresh();
+  };
+
   // Immediate save function (no debounce)
   const immediatelySave = useCallback(async (data: Partial<Project>) => {
     const savePromise = (async () => {
       try {
-        await updateProject(project.id, data);
+        const saved = await saveProject(data);
         pendingChangesRef.current = null;
         
         // If richContent was saved and has unchecked todos, move project from Done
-        if (data.richContent && hasUncheckedTodos(data.richContent)) {
+        if (saved === 'saved' && data.richContent && hasUncheckedTodos(data.richContent)) {
           await moveProjectFromDoneIfNeeded(project.id);
         }
         
@@ -358,7 +481,7 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
     
     saveInProgressRef.current = savePromise;
     return savePromise;
-  }, [project.id]);
+  }, [project.id, saveProject]);
   
   // Simple debounced save function
   const debouncedSave = useCallback((data: Partial<Project>) => {
@@ -372,11 +495,11 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
     saveTimeoutRef.current = setTimeout(async () => {
       const savePromise = (async (): Promise<boolean> => {
         try {
-          await updateProject(project.id, data);
+          const saved = await saveProject(data);
           pendingChangesRef.current = null;
           
           // If richContent was saved and has unchecked todos, move project from Done
-          if (data.richContent && hasUncheckedTodos(data.richContent)) {
+          if (saved === 'saved' && data.richContent && hasUncheckedTodos(data.richContent)) {
             await moveProjectFromDoneIfNeeded(project.id);
           }
           
@@ -394,7 +517,7 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
       saveInProgressRef.current = savePromise;
       await savePromise;
     }, 300);
-  }, [project.id, router]);
+  }, [project.id, router, saveProject]);
   
   // Save immediately when component unmounts or page is backgrounded (critical for mobile)
   useEffect(() => {
@@ -459,7 +582,7 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
 
     const ok = await confirmDialog({
       title: 'Delete project?',
-      description: 'This project will be permanently removed.',
+      description: 'This project will be moved to the Trash.',
       confirmLabel: 'Delete',
       destructive: true,
     });
@@ -535,9 +658,13 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
     // Ensure tag exists in database
     await ensureTagExists(trimmed);
     
+    const prev = tags;
     const newTags = [...tags, trimmed];
     setTags(newTags);
-    await updateProject(project.id, { tags: newTags });
+    if ((await saveProject({ tags: newTags })) === 'failed') {
+      setTags(prev);
+      return;
+    }
     setTagInput('');
     setShowTagSuggestions(false);
     
@@ -549,12 +676,18 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
   };
   
   const handleRemoveTag = async (tag: string) => {
+    const prev = tags;
     const newTags = tags.filter(t => t !== tag);
     setTags(newTags);
-    await updateProject(project.id, { tags: newTags });
+    if ((await saveProject({ tags: newTags })) === 'failed') {
+      setTags(prev);
+      return;
+    }
     router.refresh();
   };
 
+  const dueStatus = getDueStatus(dueDate, isCompleted);
+
   // Get tag suggestions for autocomplete
   const tagSuggestions = useMemo(() => {
     const input = tagInput.toLowerCase().replace(/^#/, '');
@@ -576,10 +709,53 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
   }, [tagInput, allTags, tags]);
 
   // Project group handler
+  const handleDateChange = async (field: 'startDate' | 'dueDate', value: string) => {
+    const setDate = field === 'startDate' ? setStartDate : setDueDate;
+    const prev = field === 'startDate' ? startDate : dueDate;
+    setDate(value);
+    if ((await saveProject({ [field]: value || null })) === 'failed') {
+      setDate(prev);
+      return;
+    }
+    onProjectUpdate?.(project.id, { [field]: value || null });
+  };
+
+  const handleRecurrenceChange = async (next: RecurrenceRule | null) => {
+    const prev = recurrence;
+    setRecurrence(next);
+    if ((await saveProject({ recurrence: next })) === 'failed') {
+      setRecurrence(prev);
+      return;
+    }
+    onProjectUpdate?.(project.id, { recurrence: next });
+  };
+
+  const handleBlockedByChange = async (next: string[]) => {
+    const prev = blockedBy;
+    setBlockedBy(next);
+    try {
+      if ((await saveProject({ blockedBy: next })) === 'failed') {
+        setBlockedBy(prev);
+        return;
+      }
+    } catch (error) {
+      setBlockedBy(prev);
+      throw error;
+    }
+    onProjectUpdate?.(project.id, { blockedBy: next });
+  };
+
+  const handleParentChange = async (next: string | null) => {
+    if ((await saveProject({ parentId: next })) === 'failed') return;
+    setParentId(next);
+    onProjectUpdate?.(project.id, { parentId: next });
+    router.refresh();
+  };
+
   const handleProjectGroupChange = async (groupId: string) => {
     const newGroupId = groupId === 'none' ? null : groupId;
     setParentProjectId(newGroupId);
-    await updateProject(project.id, { parent_project_id: newGroupId });
+    await saveProject({ parent_project_id: newGroupId });
     router.refresh();
   };
   
@@ -588,6 +764,18 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
   const handleToggleCompleted = async () => {
     const prev = isCompleted;
     const newIsCompleted = !prev;
+    if (newIsCompleted) {
+      const rollup = computeRollups(await getProjectOptions()).get(project.id);
+      const open = rollup ? rollup.childrenTotal - rollup.childrenDone : 0;
+      if (open > 0) {
+        const ok = await confirmDialog({
+          title: 'Finish with open sub-projects?',
+          description: `“${title}” still has ${open} unfinished sub-project${open === 1 ? '' : 's'}. They stay open.`,
+          confirmLabel: 'Mark complete anyway',
+        });
+        if (!ok) return;
+      }
+    }
     setIsCompleted(newIsCompleted);
     const result = await setProjectCompletedState(project.id, newIsCompleted);
     if (!result) {
@@ -595,10 +783,15 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
       return;
     }
     setIsCompleted(result.isCompleted);
+    // The rule moved onto the freshly created next occurrence
+    const handedOver = newIsCompleted && recurrence !== null;
+    if (handedOver) setRecurrence(null);
     onProjectUpdate?.(project.id, {
       isCompleted: result.isCompleted,
+      completedAt: result.isCompleted ? project.completedAt ?? new Date().toISOString() : null,
       status: result.status,
       position: result.position,
+      ...(handedOver ? { recurrence: null } : {}),
     });
     router.refresh();
   };
@@ -620,16 +813,21 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
       // Move to the first available column automatically
       const firstColumnId = columns[0]?.id;
       if (firstColumnId) {
-        await moveIdeaToKanban(project.id, firstColumnId);
+        const moved = await moveIdeaToKanban(project.id, firstColumnId);
+        if (!moved.ok) {
+          setLocalItemType('idea');
+          setEditorError(moved.error);
+          return;
+        }
       }
       if (type === 'task') {
-        await updateProject(project.id, { is_task: true });
+        await saveProject({ is_task: true });
       }
       setIsIdea(false);
       router.refresh();
       onClose?.();
     } else {
-      await updateProject(project.id, { is_task: type === 'task' });
+      await saveProject({ is_task: type === 'task' });
       router.refresh();
     }
   };
@@ -651,7 +849,7 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
       }));
       const newList = [...materialsList, ...newMaterials];
       setMaterialsList(newList);
-      await updateProject(project.id, { materialsList: newList });
+      await saveProject({ materialsList: newList });
     } else {
       // Single material
       const newMaterial: Material = {
@@ -662,7 +860,7 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
       };
       const newList = [...materialsList, newMaterial];
       setMaterialsList(newList);
-      await updateProject(project.id, { materialsList: newList });
+      await saveProject({ materialsList: newList });
     }
     
     router.refresh();
@@ -685,7 +883,7 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
       }));
       const newList = [...materialsList, ...newMaterials];
       setMaterialsList(newList);
-      await updateProject(project.id, { materialsList: newList });
+      await saveProject({ materialsList: newList });
       router.refresh();
       setMaterialsInput('');
     }
@@ -697,14 +895,14 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
       item.id === id ? { ...item, [field]: !item[field] } : item
     );
     setMaterialsList(newList);
-    await updateProject(project.id, { materialsList: newList });
+    await saveProject({ materialsList: newList });
     router.refresh();
   };
   
   const handleDeleteMaterial = async (id: string) => {
     const newList = materialsList.filter(item => item.id !== id);
     setMaterialsList(newList);
-    await updateProject(project.id, { materialsList: newList });
+    await saveProject({ materialsList: newList });
     router.refresh();
   };
 
@@ -723,7 +921,7 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
       item.id === editingMaterialId ? { ...item, text: editingMaterialText.trim() } : item
     );
     setMaterialsList(newList);
-    await updateProject(project.id, { materialsList: newList });
+    await saveProject({ materialsList: newList });
     router.refresh();
     setEditingMaterialId(null);
   };
@@ -749,7 +947,7 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
       }
       const newPlans = [...plans, ...newAttachments];
       setPlans(newPlans);
-      await updateProject(project.id, { plans: newPlans });
+      await saveProject({ plans: newPlans });
       router.refresh();
     } catch (error) {
       console.error('Failed to upload plans', error);
@@ -760,7 +958,7 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
   const handleRemovePlan = async (id: string) => {
     const newPlans = plans.filter(item => item.id !== id);
     setPlans(newPlans);
-    await updateProject(project.id, { plans: newPlans });
+    await saveProject({ plans: newPlans });
     router.refresh();
   };
   
@@ -798,7 +996,7 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
         updateData.imageUrl = newAttachments[0].url;
       }
       
-      await updateProject(project.id, updateData);
+      await saveProject(updateData);
       router.refresh();
     } catch (error) {
       console.error('Failed to upload inspiration', error);
@@ -818,9 +1016,9 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
     // If the removed item was the cover image, remove the cover too
     if (itemToRemove && itemToRemove.url === imageUrl) {
       setImageUrl('');
-      await updateProject(project.id, { inspiration: newInspiration, imageUrl: null });
+      await saveProject({ inspiration: newInspiration, imageUrl: null });
     } else {
-      await updateProject(project.id, { inspiration: newInspiration });
+      await saveProject({ inspiration: newInspiration });
     }
     
     router.refresh();
@@ -828,7 +1026,7 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
   
   const handleSetInspirationAsCover = async (url: string) => {
     setImageUrl(url);
-    await updateProject(project.id, { imageUrl: url });
+    await saveProject({ imageUrl: url });
     router.refresh();
   };
 
@@ -868,7 +1066,7 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
       const newInspiration = [...inspiration, result];
       setInspiration(newInspiration);
       
-      await updateProject(project.id, { 
+      await saveProject({ 
         imageUrl: result.url,
         inspiration: newInspiration 
       });
@@ -888,9 +1086,9 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
     const newInspiration = inspiration.filter(item => item.url !== currentCoverUrl);
     if (newInspiration.length !== inspiration.length) {
       setInspiration(newInspiration);
-      await updateProject(project.id, { imageUrl: null, inspiration: newInspiration });
+      await saveProject({ imageUrl: null, inspiration: newInspiration });
     } else {
-      await updateProject(project.id, { imageUrl: null });
+      await saveProject({ imageUrl: null });
     }
     
     router.refresh();
@@ -925,7 +1123,7 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
                 updateData.imageUrl = result.url;
               }
               
-              await updateProject(project.id, updateData);
+              await saveProject(updateData);
               router.refresh();
             } catch (error) {
               console.error('Failed to upload pasted image', error);
@@ -1023,7 +1221,7 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
       };
       const newInspiration = [...inspiration, generatedAttachment];
       setInspiration(newInspiration);
-      await updateProject(project.id, { imageUrl: finalUrl, inspiration: newInspiration });
+      await saveProject({ imageUrl: finalUrl, inspiration: newInspiration });
       setGenerateAttempt(0);
     } catch (err) {
       console.error('[AI Generate] Failed to save image to Supabase, using Pollinations URL:', err);
@@ -1069,14 +1267,14 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
       const result = await fetchAndSetOgImage(project.id);
       if (result.success && result.imageUrl) {
         setImageUrl(result.imageUrl);
-        setOgImageError(null);
+        setEditorError(null);
         router.refresh();
       } else {
-        setOgImageError(result.error || 'Could not find an image from the links in your project');
+        setEditorError(result.error || 'Could not find an image from the links in your project');
       }
     } catch (err) {
       console.error('Failed to fetch OG image:', err);
-      setOgImageError('Failed to fetch image from link');
+      setEditorError('Failed to fetch image from link');
     } finally {
       setIsFetchingOgImage(false);
     }
@@ -1159,7 +1357,7 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
       if (newAttachments.length > 0) {
         const newPlans = [...plans, ...newAttachments];
         setPlans(newPlans);
-        await updateProject(project.id, { plans: newPlans });
+        await saveProject({ plans: newPlans });
         router.refresh();
       }
     } catch (error) {
@@ -1209,7 +1407,7 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
           setImageUrl(newAttachments[0].url);
           updateData.imageUrl = newAttachments[0].url;
         }
-        await updateProject(project.id, updateData);
+        await saveProject(updateData);
         router.refresh();
       }
     } catch (error) {
@@ -1228,7 +1426,7 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
   
   useEffect(() => {
     const handleScroll = () => {
-      const sections = ['overview', 'materials', 'plans', 'inspiration'];
+      const sections = ['overview', 'subprojects', 'materials', 'plans', 'inspiration', 'history'];
       for (const section of sections) {
         const el = document.getElementById(`section-${section}`);
         if (el) {
@@ -1353,14 +1551,14 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
   
   return (
     <div className={cn("flex h-full bg-background relative", className)}>
-      {ogImageError && (
+      {editorError && (
         <div
           role="alert"
           className="absolute top-4 left-1/2 -translate-x-1/2 z-[60] max-w-md rounded-md border border-destructive/40 bg-destructive/10 px-4 py-2 text-sm text-destructive shadow-md flex items-center gap-2"
         >
-          <span>{ogImageError}</span>
+          <span>{editorError}</span>
           <button
-            onClick={() => setOgImageError(null)}
+            onClick={() => setEditorError(null)}
             aria-label="Dismiss error"
             className="ml-2 opacity-70 hover:opacity-100"
           >
@@ -1404,6 +1602,9 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
         <button onClick={() => scrollToSection('overview')} className={cn("text-left px-2 py-1.5 rounded text-sm font-medium transition-colors", activeSection === 'overview' ? "bg-accent text-accent-foreground" : "text-muted-foreground hover:bg-accent/50 hover:text-accent-foreground")}>
           Project Overview
         </button>
+        <button onClick={() => scrollToSection('subprojects')} className={cn("text-left px-2 py-1.5 rounded text-sm font-medium transition-colors", activeSection === 'subprojects' ? "bg-accent text-accent-foreground" : "text-muted-foreground hover:bg-accent/50 hover:text-accent-foreground")}>
+          Sub-projects
+        </button>
         <button onClick={() => scrollToSection('materials')} className={cn("text-left px-2 py-1.5 rounded text-sm font-medium transition-colors", activeSection === 'materials' ? "bg-accent text-accent-foreground" : "text-muted-foreground hover:bg-accent/50 hover:text-accent-foreground")}>
           Materials List
         </button>
@@ -1413,6 +1614,9 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
         <button onClick={() => scrollToSection('inspiration')} className={cn("text-left px-2 py-1.5 rounded text-sm font-medium transition-colors", activeSection === 'inspiration' ? "bg-accent text-accent-foreground" : "text-muted-foreground hover:bg-accent/50 hover:text-accent-foreground")}>
           Inspiration
         </button>
+        <button onClick={() => scrollToSection('history')} className={cn("text-left px-2 py-1.5 rounded text-sm font-medium transition-colors", activeSection === 'history' ? "bg-accent text-accent-foreground" : "text-muted-foreground hover:bg-accent/50 hover:text-accent-foreground")}>
+          History
+        </button>
         
         {isSaving && (
           <div className="mt-auto pt-4 border-t text-xs text-muted-foreground flex items-center gap-2">
@@ -1569,6 +1773,32 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
                 </Button>
               </Link>
             )}
+
+            <Button
+              type="button"
+              variant="secondary"
+              size="sm"
+              className="h-8 bg-background/80 backdrop-blur-sm hover:bg-background/90 gap-1"
+              onClick={() => setIsSaveTemplateOpen(true)}
+              disabled={isSaving}
+              title="Save as template"
+            >
+              <LayoutTemplate className="h-4 w-4" />
+              <span className="hidden sm:inline">Save as Template</span>
+            </Button>
+
+            <Button
+              type="button"
+              variant="secondary"
+              size="sm"
+              className="h-8 bg-background/80 backdrop-blur-sm hover:bg-background/90 gap-1"
+              onClick={() => setIsDuplicateOpen(true)}
+              disabled={isSaving}
+              title="Duplicate"
+            >
+              <Copy className="h-4 w-4" />
+              <span className="hidden sm:inline">Duplicate</span>
+            </Button>
           </div>
 
           {/* Action Buttons */}
@@ -1788,7 +2018,7 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
                       )}
                       onClick={async () => {
                         setImageUrl(item.url);
-                        await updateProject(project.id, { imageUrl: item.url });
+                        await saveProject({ imageUrl: item.url });
                         setShowInspirationPicker(false);
                         router.refresh();
                       }}
@@ -2005,6 +2235,65 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
                 </Select>
               </div>
 
+              {/* Dates */}
+              <div className="flex items-center gap-3 pb-2 flex-wrap">
+                <label className="text-sm text-muted-foreground min-w-[80px]">Dates:</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="date"
+                    aria-label="Start date"
+                    value={startDate}
+                    max={dueDate || undefined}
+                    onChange={(e) => handleDateChange('startDate', e.target.value)}
+                    className="h-8 rounded-md border bg-transparent px-2 text-sm"
+                  />
+                  <span className="text-sm text-muted-foreground">→</span>
+                  <input
+                    type="date"
+                    aria-label="Due date"
+                    value={dueDate}
+                    min={startDate || undefined}
+                    onChange={(e) => handleDateChange('dueDate', e.target.value)}
+                    className={cn(
+                      "h-8 rounded-md border bg-transparent px-2 text-sm",
+                      dueStatus === 'overdue' && "border-red-500 text-red-600",
+                      (dueStatus === 'due-today' || dueStatus === 'due-soon') && "border-amber-500 text-amber-600"
+                    )}
+                  />
+                  {(startDate || dueDate) && (
+                    <button
+                      onClick={async () => {
+                        setStartDate('');
+                        setDueDate('');
+                        await saveProject({ startDate: null, dueDate: null });
+                        onProjectUpdate?.(project.id, { startDate: null, dueDate: null });
+                      }}
+                      className="text-muted-foreground hover:text-foreground p-1"
+                      aria-label="Clear dates"
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {/* Recurrence — tasks only, but keep showing an existing rule */}
+              {(localItemType === 'task' || recurrence) && (
+                <div className="flex items-center gap-3 pb-2">
+                  <label className="text-sm text-muted-foreground min-w-[80px]">Repeat:</label>
+                  <RecurrencePicker value={recurrence} onChange={handleRecurrenceChange} />
+                </div>
+              )}
+
+              {/* Blocked-by dependencies */}
+              <div className="pb-2">
+                <ProjectDependencies
+                  projectId={project.id}
+                  blockedBy={blockedBy}
+                  onChange={handleBlockedByChange}
+                />
+              </div>
+
               {/* Tags Row */}
               <div className="flex flex-wrap gap-2 items-center min-h-[32px]">
                 {tags.map(tag => {
@@ -2091,6 +2380,12 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
               />
             </div>
 
+            {/* Sub-projects Section */}
+            <div id="section-subprojects" className="space-y-4 pt-8 border-t">
+              <h2 className="text-2xl font-bold">Sub-projects</h2>
+              <ProjectChildren projectId={project.id} parentId={parentId} onParentChange={handleParentChange} />
+            </div>
+
             {/* Materials List Section */}
             <div id="section-materials" className="space-y-4 pt-8 border-t">
               <h2 className="text-2xl font-bold">Materials List</h2>
@@ -2557,6 +2852,17 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
               )}
             </div>
 
+            {/* History Section */}
+            <div id="section-history" className="space-y-4 pt-8 border-t">
+              <h2 className="text-2xl font-bold">History</h2>
+              <ProjectHistory
+                projectId={project.id}
+                columns={columns}
+                projectGroups={projectGroups}
+                isSaving={isSaving}
+              />
+            </div>
+
             {/* Delete link — inside the scroll area, below all content */}
             {isModal && (
               <div className="flex justify-center pt-8 pb-2">
@@ -2621,6 +2927,34 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
         showSetCoverButton={true}
       />
 
+      {isDuplicateOpen && (
+        <DuplicateProjectDialog
+          projectId={project.id}
+          projectTitle={title}
+          onClose={() => setIsDuplicateOpen(false)}
+          onDuplicated={() => router.refresh()}
+        />
+      )}
+
+      {saveConflict && (
+        <SaveConflictDialog
+          fields={saveConflict.fields}
+          mine={saveConflict.mine}
+          theirs={saveConflict.theirs}
+          onKeepMine={handleKeepMine}
+          onTakeTheirs={handleTakeTheirs}
+        />
+      )}
+
+      {isSaveTemplateOpen && (
+        <SaveAsTemplateDialog
+          projectId={project.id}
+          projectTitle={title}
+          imageStyles={imageStyles}
+          onClose={() => setIsSaveTemplateOpen(false)}
+        />
+      )}
+
       {/* Cover image crop modal */}
       {imageUrl && (
         <ImageCropModal
@@ -2630,7 +2964,7 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
           upload={uploadImageBase64}
           onSave={async (newUrl) => {
             setImageUrl(newUrl);
-            await updateProject(project.id, { imageUrl: newUrl });
+            await saveProject({ imageUrl: newUrl });
           }}
         />
       )}
@@ -2653,7 +2987,7 @@ export function ProjectEditor({ project, onClose, isModal = false, className, id
               setImageUrl(newUrl);
               updateData.imageUrl = newUrl;
             }
-            await updateProject(project.id, updateData);
+            await saveProject(updateData);
           }}
         />
       )}
@@ -0,0 +1,194 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow, format, parseISO } from 'date-fns';
+import { History, Loader2 } from 'lucide-react';
+import { getProjectEvents } from '@/app/actions';
+import type { ProjectEvent, ProjectFieldChange } from '@/lib/project-events';
+import { parseProjectDate } from '@/lib/project-dates';
+import { Column } from './KanbanBoard';
+
+type ProjectGroup = { id: string; name: string };
+
+type ProjectHistoryProps = {
+  projectId: string;
+  columns: Column[];
+  projectGroups: ProjectGroup[];
+  /** History reloads whenever this flips back to false (i.e. after each save). */
+  isSaving?: boolean;
+};
+
+const ORIGIN_LABELS: Record<ProjectEvent['origin'], string> = {
+  ui: 'Board',
+  mcp: 'MCP',
+  capture: 'Quick capture',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  rich_content: 'notes',
+  materials_list: 'materials',
+  plans: 'plans',
+  inspiration: 'inspiration',
+  attachments: 'attachments',
+  image_url: 'cover image',
+  tags: 'tags',
+  parent_project_id: 'group',
+  is_task: 'type',
+  start_date: 'start date',
+  due_date: 'due date',
+  blocked_by: 'blockers',
+  recurrence: 'repeat',
+  parent_id: 'parent project',
+};
+
+function formatDate(value: unknown): string {
+  const date = typeof value === 'string' ? parseProjectDate(value) : null;
+  return date ? format(date, 'PP') : String(value);
+}
+
+function asTags(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((t): t is string => typeof t === 'string') : [];
+}
+
+export function ProjectHistory({ projectId, columns, projectGroups, isSaving }: ProjectHistoryProps) {
+  const [events, setEvents] = useState<ProjectEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (isSaving) return;
+    let cancelled = false;
+    getProjectEvents(projectId)
+      .then((rows) => {
+        if (!cancelled) setEvents(rows);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, isSaving]);
+
+  const columnTitle = (id: unknown) =>
+    columns.find((c) => c.id === id)?.title ?? 'a removed column';
+
+  const groupName = (id: unknown) =>
+    id ? projectGroups.find((g) => g.id === id)?.name ?? 'a removed group' : 'no group';
+
+  const describeChange = (field: string, change: ProjectFieldChange): string => {
+    const label = FIELD_LABELS[field] ?? field;
+    switch (field) {
+      case 'tags': {
+        const before = asTags(change.from);
+        const after = asTags(change.to);
+        const added = after.filter((t) => !before.includes(t));
+        const removed = before.filter((t) => !after.includes(t));
+        const parts = [
+          ...(added.length ? [`added ${added.map((t) => `#${t}`).join(', ')}`] : []),
+          ...(removed.length ? [`removed ${removed.map((t) => `#${t}`).join(', ')}`] : []),
+        ];
+        return parts.length ? `Tags: ${parts.join('; ')}` : 'Retagged';
+      }
+      case 'title':
+        return `Renamed from “${String(change.from ?? '')}” to “${String(change.to ?? '')}”`;
+      case 'parent_project_id':
+        return `Moved from ${groupName(change.from)} to ${groupName(change.to)}`;
+      case 'parent_id':
+        if (!change.to) return 'Moved out of its parent project';
+        return change.from ? 'Moved under another parent project' : 'Nested under a parent project';
+      case 'is_task':
+        return change.to ? 'Changed to a task' : 'Changed to a project';
+      case 'image_url':
+        return change.to ? 'Cover image changed' : 'Cover image removed';
+      case 'blocked_by': {
+        const before = asTags(change.from).length;
+        const after = asTags(change.to).length;
+        if (after > before) return `Added ${after - before === 1 ? 'a blocker' : `${after - before} blockers`}`;
+        if (after < before) return after === 0 ? 'Cleared blockers' : `Removed ${before - after === 1 ? 'a blocker' : `${before - after} blockers`}`;
+        return 'Changed blockers';
+      }
+      case 'start_date':
+      case 'due_date':
+        return change.to
+          ? `Set ${label} to ${formatDate(change.to)}`
+          : `Cleared ${label}`;
+      default:
+        return `Edited ${label}`;
+    }
+  };
+
+  const describeEvent = (event: ProjectEvent): string[] => {
+    const status = event.changes.status;
+    switch (event.kind) {
+      case 'created':
+        return ['Created'];
+      case 'moved':
+        return [`Moved from ${columnTitle(status?.from)} to ${columnTitle(status?.to)}`];
+      case 'completed':
+        return ['Marked complete'];
+      case 'reopened':
+        return ['Marked incomplete'];
+      case 'moved_to_board':
+        return [status ? `Moved from Ideas to ${columnTitle(status.to)}` : 'Moved from Ideas to the board'];
+      case 'moved_to_ideas':
+        return ['Moved back to Ideas'];
+      case 'pinned':
+        return ['Pinned'];
+      case 'unpinned':
+        return ['Unpinned'];
+      case 'trashed':
+        return ['Moved to Trash'];
+      case 'restored':
+        return ['Restored from Trash'];
+      case 'archived':
+        return ['Archived'];
+      case 'unarchived':
+        return ['Unarchived'];
+      case 'updated':
+        return Object.entries(event.changes).map(([field, change]) => describeChange(field, change));
+      default:
+        return [event.kind];
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading history…
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return (
+      <div className="border-2 border-dashed rounded-lg p-8 text-center text-muted-foreground flex flex-col items-center gap-2">
+        <History className="h-8 w-8 opacity-50" />
+        <p>No activity recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l pl-5 space-y-4">
+      {events.map((event) => (
+        <li key={event.id} className="relative">
+          <span className="absolute -left-[25px] top-1.5 h-2 w-2 rounded-full bg-muted-foreground/60" />
+          <div className="space-y-0.5">
+            {describeEvent(event).map((line, i) => (
+              <p key={i} className="text-sm">{line}</p>
+            ))}
+          </div>
+          <p
+            className="text-xs text-muted-foreground"
+            title={format(parseISO(event.createdAt), 'PPpp')}
+          >
+            {formatDistanceToNow(parseISO(event.createdAt), { addSuffix: true })} · {ORIGIN_LABELS[event.origin] ?? event.origin}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+}
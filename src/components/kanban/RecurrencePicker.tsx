@@ -0,0 +1,81 @@
+'use client';
+
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { parseRecurrence, type RecurrenceRule } from '@/lib/recurrence';
+
+type RecurrenceMode = 'none' | 'day' | 'week' | 'after-completion';
+
+type RecurrencePickerProps = {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+};
+
+function modeOf(rule: RecurrenceRule | null): RecurrenceMode {
+  if (!rule) return 'none';
+  return rule.type === 'after-completion' ? 'after-completion' : rule.unit;
+}
+
+function countOf(rule: RecurrenceRule | null): number {
+  if (!rule) return 1;
+  return rule.type === 'after-completion' ? rule.days : rule.every;
+}
+
+function buildRule(mode: RecurrenceMode, count: number): RecurrenceRule | null {
+  if (mode === 'none') return null;
+  return parseRecurrence(
+    mode === 'after-completion' ? { type: mode, days: count } : { type: 'interval', every: count, unit: mode }
+  );
+}
+
+export function RecurrencePicker({ value, onChange }: RecurrencePickerProps) {
+  const mode = modeOf(value);
+  const [countInput, setCountInput] = useState(String(countOf(value)));
+
+  const commitCount = () => {
+    const rule = buildRule(mode, Number(countInput));
+    if (!rule) {
+      setCountInput(String(countOf(value)));
+      return;
+    }
+    if (countOf(rule) !== countOf(value)) onChange(rule);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {mode !== 'none' && (
+        <>
+          {mode !== 'after-completion' && <span className="text-sm text-muted-foreground">Every</span>}
+          <Input
+            type="number"
+            min={1}
+            max={365}
+            aria-label="Repeat interval"
+            value={countInput}
+            onChange={(e) => setCountInput(e.target.value)}
+            onBlur={commitCount}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            className="h-8 w-16"
+          />
+        </>
+      )}
+      <Select
+        value={mode}
+        onValueChange={(next) => onChange(buildRule(next as RecurrenceMode, Number(countInput) || 1))}
+      >
+        <SelectTrigger className="w-[170px] h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">
+            <span className="text-muted-foreground">Doesn&apos;t repeat</span>
+          </SelectItem>
+          <SelectItem value="day">days</SelectItem>
+          <SelectItem value="week">weeks</SelectItem>
+          <SelectItem value="after-completion">days after done</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
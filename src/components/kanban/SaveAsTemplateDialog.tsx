@@ -0,0 +1,99 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { saveProjectAsTemplate, type ImageStyle } from '@/app/actions';
+
+const NO_STYLE = '__none__';
+
+type SaveAsTemplateDialogProps = {
+  projectId: string;
+  projectTitle: string;
+  imageStyles: ImageStyle[];
+  onClose: () => void;
+};
+
+export function SaveAsTemplateDialog({ projectId, projectTitle, imageStyles, onClose }: SaveAsTemplateDialogProps) {
+  const [name, setName] = useState(projectTitle);
+  const [styleId, setStyleId] = useState(NO_STYLE);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveProjectAsTemplate(projectId, {
+        name: name.trim(),
+        imageStyleId: styleId === NO_STYLE ? null : styleId,
+      });
+      setSaved(true);
+    } catch (err) {
+      console.error('Failed to save template:', err);
+      setError('Could not save the template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Save as template</DialogTitle>
+          <DialogDescription>
+            {saved
+              ? `“${name.trim()}” is ready. Pick it under “From Template” on the board or a lane’s + menu.`
+              : 'Keeps the notes (with checklists unticked), materials, tags, group and lane of this card.'}
+          </DialogDescription>
+        </DialogHeader>
+        {saved ? (
+          <DialogFooter>
+            <Button onClick={onClose}>Done</Button>
+          </DialogFooter>
+        ) : (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Template name</Label>
+              <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} autoFocus required />
+            </div>
+            <div className="space-y-2">
+              <Label>Cover for new cards</Label>
+              <Select value={styleId} onValueChange={setStyleId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_STYLE}>
+                    <span className="text-muted-foreground">No cover</span>
+                  </SelectItem>
+                  {imageStyles.map((style) => (
+                    <SelectItem key={style.id} value={style.id}>
+                      AI cover: {style.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+              <Button type="submit" disabled={!name.trim() || isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save template
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
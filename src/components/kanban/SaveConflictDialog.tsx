@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import {
+  FIELD_LABELS,
+  diffLines,
+  fieldText,
+  type ProjectSnapshot,
+  type VersionedField,
+} from '@/lib/project-versions';
+
+type SaveConflictDialogProps = {
+  fields: VersionedField[];
+  mine: Record<string, unknown>;
+  theirs: ProjectSnapshot;
+  onKeepMine: () => Promise<void>;
+  onTakeTheirs: () => Promise<void>;
+};
+
+/**
+ * Shown when an autosave would overwrite a newer edit made somewhere else
+ * (another tab, the phone, MCP). Nothing is saved until one side is picked.
+ */
+export function SaveConflictDialog({ fields, mine, theirs, onKeepMine, onTakeTheirs }: SaveConflictDialogProps) {
+  const [showDiff, setShowDiff] = useState(false);
+  const [resolving, setResolving] = useState<'mine' | 'theirs' | null>(null);
+  const labels = fields.map((field) => FIELD_LABELS[field].toLowerCase());
+
+  const resolve = async (side: 'mine' | 'theirs') => {
+    setResolving(side);
+    try {
+      await (side === 'mine' ? onKeepMine() : onTakeTheirs());
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  return (
+    <Dialog open>
+      <DialogContent
+        className={cn('sm:max-w-[480px]', showDiff && 'sm:max-w-[720px]')}
+        showCloseButton={false}
+        onInteractOutside={(e) => e.preventDefault()}
+        onEscapeKeyDown={(e) => e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle>Edited somewhere else</DialogTitle>
+          <DialogDescription>
+            This card&rsquo;s {labels.join(', ')} changed on another device or tab while you were editing.
+            Saving now would overwrite that change.
+          </DialogDescription>
+        </DialogHeader>
+
+        {showDiff && (
+          <div className="max-h-[50vh] overflow-y-auto space-y-4">
+            {fields.map((field) => (
+              <div key={field} className="space-y-1">
+                <p className="text-xs font-medium text-muted-foreground">{FIELD_LABELS[field]}</p>
+                <div className="rounded-md border bg-muted/20 font-mono text-xs">
+                  {diffLines(fieldText(field, theirs[field]), fieldText(field, mine[field])).map((line, index) => (
+                    <div
+                      key={index}
+                      className={cn(
+                        'px-2 py-0.5 whitespace-pre-wrap break-words',
+                        line.kind === 'theirs' && 'bg-red-500/10 text-red-700 dark:text-red-400',
+                        line.kind === 'mine' && 'bg-green-500/10 text-green-700 dark:text-green-400'
+                      )}
+                    >
+                      {line.kind === 'theirs' ? '− ' : line.kind === 'mine' ? '+ ' : '  '}
+                      {line.text || ' '}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              <span className="text-red-700 dark:text-red-400">− theirs</span>
+              {' · '}
+              <span className="text-green-700 dark:text-green-400">+ mine</span>
+            </p>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button variant="ghost" onClick={() => setShowDiff((prev) => !prev)}>
+            {showDiff ? 'Hide diff' : 'View diff'}
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => resolve('theirs')} disabled={resolving !== null}>
+              {resolving === 'theirs' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Take theirs
+            </Button>
+            <Button onClick={() => resolve('mine')} disabled={resolving !== null}>
+              {resolving === 'mine' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Keep mine
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
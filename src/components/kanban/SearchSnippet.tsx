@@ -0,0 +1,28 @@
+'use client';
+
+import { splitSnippet } from '@/lib/project-search';
+import { cn } from '@/lib/utils';
+
+type SearchSnippetProps = {
+  snippet: string;
+  className?: string;
+};
+
+/** Search result excerpt with matched words highlighted. */
+export function SearchSnippet({ snippet, className }: SearchSnippetProps) {
+  const parts = splitSnippet(snippet);
+  if (parts.length === 0) return null;
+  return (
+    <p className={cn("text-xs text-muted-foreground line-clamp-2", className)}>
+      {parts.map((part, i) =>
+        part.highlight ? (
+          <mark key={i} className="bg-yellow-200/70 dark:bg-yellow-500/30 text-foreground rounded-sm px-0.5">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={i}>{part.text}</span>
+        )
+      )}
+    </p>
+  );
+}
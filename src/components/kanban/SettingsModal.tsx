@@ -20,6 +20,14 @@ import { Loader2, LogOut, Trash2, Image as ImageIcon, FileText, Plus, Edit2, Upl
 import Image from 'next/image';
 import { useConfirm } from '@/components/ui/confirm-dialog';
 import { DEFAULT_TAG_COLOR } from '@/lib/constants';
+import {
+  CAPTURE_DUPLICATE_MODES,
+  DEFAULT_CAPTURE_DUPLICATE_MODE,
+  isCaptureDuplicateMode,
+  type CaptureDuplicateMode,
+} from '@/lib/capture-dedup';
+import { TemplateSettings } from './TemplateSettings';
+import { DeviceTokenSettings } from './DeviceTokenSettings';
 
 type SettingsModalProps = {
   isOpen: boolean;
@@ -247,6 +255,9 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [aiPrompt, setAiPrompt] = useState('');
   const [cardSize, setCardSize] = useState('medium');
+  const [trashRetentionDays, setTrashRetentionDays] = useState(30);
+  const [autoArchiveDays, setAutoArchiveDays] = useState(30);
+  const [captureDuplicateMode, setCaptureDuplicateMode] = useState<CaptureDuplicateMode>(DEFAULT_CAPTURE_DUPLICATE_MODE);
   const [mediaFiles, setMediaFiles] = useState<MediaFile[]>([]);
   const [isLoadingMedia, setIsLoadingMedia] = useState(false);
   const [activeTab, setActiveTab] = useState('general');
@@ -283,6 +294,9 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
       getSettings().then((settings) => {
         setAiPrompt(settings.aiPromptTemplate);
         setCardSize(settings.cardSize || 'medium');
+        setTrashRetentionDays(settings.trashRetentionDays);
+        setAutoArchiveDays(settings.autoArchiveDays);
+        setCaptureDuplicateMode(settings.captureDuplicateMode);
         setIsLoading(false);
       });
     }
@@ -574,7 +588,10 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
     try {
       await updateSettings({ 
         aiPromptTemplate: aiPrompt,
-        cardSize: cardSize
+        cardSize: cardSize,
+        trashRetentionDays,
+        autoArchiveDays,
+        captureDuplicateMode,
       });
       onClose();
     } catch (error) {
@@ -608,13 +625,15 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
         )}
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 flex flex-col overflow-hidden">
-          <TabsList className="grid w-full grid-cols-6">
+          <TabsList className="grid w-full grid-cols-8">
             <TabsTrigger value="general">General</TabsTrigger>
             <TabsTrigger value="tags">Tags</TabsTrigger>
             <TabsTrigger value="projects">Projects</TabsTrigger>
             <TabsTrigger value="styles">AI Styles</TabsTrigger>
+            <TabsTrigger value="templates">Templates</TabsTrigger>
             <TabsTrigger value="media">Media</TabsTrigger>
             <TabsTrigger value="embed">Embed</TabsTrigger>
+            <TabsTrigger value="devices">Devices</TabsTrigger>
           </TabsList>
           
           <TabsContent value="general" className="flex-1 overflow-y-auto">
@@ -645,6 +664,60 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                   Use <code>{'{title}'}</code> and <code>{'{description}'}</code> as placeholders.
                 </p>
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="trashRetention">Keep deleted items in Trash for (days)</Label>
+                <Input
+                  id="trashRetention"
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={trashRetentionDays}
+                  onChange={(e) => setTrashRetentionDays(Math.min(365, Math.max(1, Number(e.target.value) || 1)))}
+                  className="w-32"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Older items are permanently deleted the next time the Trash is opened.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="autoArchive">Archive completed projects after (days)</Label>
+                <Input
+                  id="autoArchive"
+                  type="number"
+                  min={0}
+                  max={365}
+                  value={autoArchiveDays}
+                  onChange={(e) => setAutoArchiveDays(Math.min(365, Math.max(0, Number(e.target.value) || 0)))}
+                  className="w-32"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Archived projects leave the board but stay in Completed and search. 0 turns this off.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="captureDuplicates">When a captured link is already on a card</Label>
+                <Select
+                  value={captureDuplicateMode}
+                  onValueChange={(v) => isCaptureDuplicateMode(v) && setCaptureDuplicateMode(v)}
+                >
+                  <SelectTrigger id="captureDuplicates" className="w-72">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CAPTURE_DUPLICATE_MODES.map((mode) => (
+                      <SelectItem key={mode.value} value={mode.value}>
+                        {mode.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Applies to Quick capture and POST /api/capture (which can override it with <code>on_duplicate</code>).
+                </p>
+              </div>
               
               <DialogFooter className="flex justify-between sm:justify-between gap-2">
                 <Button type="button" variant="destructive" onClick={() => logout()} className="mr-auto">
@@ -978,6 +1051,14 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
             </div>
           </TabsContent>
 
+          <TabsContent value="templates" className="flex-1 overflow-y-auto">
+            {activeTab === 'templates' && <TemplateSettings onError={setSettingsError} />}
+          </TabsContent>
+
+          <TabsContent value="devices" className="flex-1 overflow-y-auto">
+            {activeTab === 'devices' && <DeviceTokenSettings onError={setSettingsError} />}
+          </TabsContent>
+
           <TabsContent value="embed" className="flex-1 overflow-y-auto">
             <div className="space-y-4 py-4">
               <div>
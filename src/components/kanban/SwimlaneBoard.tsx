@@ -0,0 +1,267 @@
+'use client';
+
+import { useDroppable } from '@dnd-kit/core';
+import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { ChevronDown, ChevronRight, Eye, Plus } from 'lucide-react';
+import { KanbanCard } from './KanbanCard';
+import { Project, Column } from './KanbanBoard';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { isDoneColumn } from '@/lib/board-columns';
+import { isOverWipLimit } from '@/lib/wip-limits';
+import { swimlaneCellId, swimlaneKeyOf, type Swimlane, type SwimlaneSetting } from '@/lib/swimlanes';
+import type { ProjectRollup } from '@/lib/project-tree';
+import type { SelectModifiers } from '@/hooks/use-selection';
+
+const CELL_WIDTH = 'w-[85vw] md:w-60 md:min-w-[240px] shrink-0';
+
+type CardHandlers = {
+  onCardClick: (project: Project) => void;
+  onDeleteProject: (id: string) => void;
+  onTogglePin: (id: string, pinned: boolean) => void;
+  onDuplicateProject?: (project: Project) => void;
+  onArchiveProject?: (id: string) => void;
+  onMoveCard: (projectId: string, newColumnId: string) => void;
+  blockersById?: Map<string, Project[]>;
+  rollupById?: Map<string, ProjectRollup>;
+  selectedIds?: Set<string>;
+  onSelectCard?: (projectId: string, modifiers: SelectModifiers) => void;
+  cardSize?: string;
+};
+
+type SwimlaneBoardProps = CardHandlers & {
+  setting: SwimlaneSetting;
+  swimlanes: Swimlane[];
+  cols: Column[];
+  /** Visible (filtered) cards per column, already in display order. */
+  cardsByColumn: Map<string, Project[]>;
+  /** Cards per column regardless of filters, counted against WIP limits. */
+  countByColumn: Map<string, number>;
+  hiddenColumns: string[];
+  onToggleColumnVisibility: (columnId: string) => void;
+  collapsed: string[];
+  onToggleCollapsed: (key: string) => void;
+  wipBlockedColumnId?: string | null;
+  isCreatingInColumn: string | null;
+  onAddProject: (columnId: string) => void;
+  onConfirmCreate: (columnId: string, title: string) => void;
+  onCancelCreate: () => void;
+  onMouseDown?: (e: React.MouseEvent<HTMLElement>) => void;
+};
+
+/**
+ * The Kanban view split into horizontal swimlanes: one row per group, tag
+ * state or pin state, with the usual columns across. Rendered inside
+ * ClientDndWrapper's DndContext; every cell is a drop target of its own.
+ */
+export function SwimlaneBoard({
+  setting,
+  swimlanes,
+  cols,
+  cardsByColumn,
+  countByColumn,
+  hiddenColumns,
+  onToggleColumnVisibility,
+  collapsed,
+  onToggleCollapsed,
+  wipBlockedColumnId,
+  isCreatingInColumn,
+  onAddProject,
+  onConfirmCreate,
+  onCancelCreate,
+  onMouseDown,
+  ...cardHandlers
+}: SwimlaneBoardProps) {
+  // Cards pointing at a group that no longer exists land in the last ("No group") swimlane
+  const keys = new Set(swimlanes.map((lane) => lane.key));
+  const fallbackKey = swimlanes[swimlanes.length - 1]?.key;
+  const keyOf = (project: Project) => {
+    const key = swimlaneKeyOf(setting, project);
+    return keys.has(key) ? key : fallbackKey;
+  };
+  const cardsIn = (key: string, columnId: string) =>
+    (cardsByColumn.get(columnId) ?? []).filter((p) => keyOf(p) === key);
+
+  return (
+    <div className="flex flex-1 flex-col w-full overflow-auto p-4 select-none" onMouseDown={onMouseDown}>
+      {/* Column headers */}
+      <div className="flex gap-4 sticky top-0 z-10 bg-background pb-2">
+        {cols.map((col) => {
+          if (hiddenColumns.includes(col.id)) {
+            return (
+              <button
+                key={col.id}
+                onClick={() => onToggleColumnVisibility(col.id)}
+                className="w-10 shrink-0 rounded-lg border-2 border-dashed border-muted-foreground/30 text-muted-foreground/60 hover:text-muted-foreground hover:border-muted-foreground/50 text-xs [writing-mode:vertical-rl] py-2"
+                title={`Show ${col.title}`}
+              >
+                {col.title}
+              </button>
+            );
+          }
+          const count = countByColumn.get(col.id) ?? 0;
+          const isOverWip = isOverWipLimit(count, col.wip_limit ?? null);
+          return (
+            <div
+              key={col.id}
+              className={cn(
+                CELL_WIDTH,
+                'group flex flex-col gap-2 rounded-lg bg-muted px-3 py-2',
+                wipBlockedColumnId === col.id ? 'ring-2 ring-destructive' : isOverWip && 'ring-1 ring-destructive/50'
+              )}
+            >
+              <div className="flex h-6 items-center justify-between gap-1">
+                <h3 className="truncate text-sm font-semibold text-muted-foreground">{col.title}</h3>
+                <div className="flex items-center gap-1">
+                  <Badge
+                    variant={isOverWip ? 'destructive' : 'secondary'}
+                    className="text-xs h-5 px-1.5 tabular-nums"
+                  >
+                    {col.wip_limit != null ? `${count}/${col.wip_limit}` : count}
+                  </Badge>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-muted-foreground hover:text-foreground"
+                    onClick={() => onAddProject(col.id)}
+                    title={`Add project to ${col.title}`}
+                    aria-label={`Add project to ${col.title}`}
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-foreground"
+                    onClick={() => onToggleColumnVisibility(col.id)}
+                    title="Hide column"
+                    aria-label="Hide column"
+                  >
+                    <Eye className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              {isCreatingInColumn === col.id && (
+                <Input
+                  autoFocus
+                  placeholder="Enter project title..."
+                  className="h-8 bg-background"
+                  onKeyDown={(e) => {
+                    e.stopPropagation();
+                    if (e.key === 'Enter') onConfirmCreate(col.id, e.currentTarget.value);
+                    else if (e.key === 'Escape') onCancelCreate();
+                  }}
+                  onBlur={(e) => {
+                    if (e.currentTarget.value.trim()) onConfirmCreate(col.id, e.currentTarget.value);
+                    else onCancelCreate();
+                  }}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {swimlanes.map((lane) => {
+        const isCollapsed = collapsed.includes(lane.key);
+        const total = cols.reduce((sum, col) => sum + cardsIn(lane.key, col.id).length, 0);
+        return (
+          <section key={lane.key} className="mt-3">
+            <button
+              onClick={() => onToggleCollapsed(lane.key)}
+              className="sticky left-0 mb-2 flex items-center gap-2 rounded px-1 text-sm font-medium text-muted-foreground hover:text-foreground"
+              aria-expanded={!isCollapsed}
+            >
+              {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+              {lane.color && <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: lane.color }} />}
+              {lane.emoji && <span>{lane.emoji}</span>}
+              <span>{lane.label}</span>
+              <Badge variant="secondary" className="text-xs h-5 px-1.5 tabular-nums">{total}</Badge>
+            </button>
+            {!isCollapsed && (
+              <div className="flex gap-4">
+                {cols.map((col) =>
+                  hiddenColumns.includes(col.id) ? (
+                    <div key={col.id} className="w-10 shrink-0" />
+                  ) : (
+                    <SwimlaneCell
+                      key={col.id}
+                      id={swimlaneCellId(lane.key, col.id)}
+                      column={col}
+                      items={cardsIn(lane.key, col.id)}
+                      columns={cols}
+                      {...cardHandlers}
+                    />
+                  )
+                )}
+              </div>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+}
+
+type SwimlaneCellProps = CardHandlers & {
+  id: string;
+  column: Column;
+  columns: Column[];
+  items: Project[];
+};
+
+function SwimlaneCell({
+  id,
+  column,
+  columns,
+  items,
+  onCardClick,
+  onDeleteProject,
+  onTogglePin,
+  onDuplicateProject,
+  onArchiveProject,
+  onMoveCard,
+  blockersById,
+  rollupById,
+  selectedIds,
+  onSelectCard,
+  cardSize,
+}: SwimlaneCellProps) {
+  const { setNodeRef, isOver } = useDroppable({ id, data: { type: 'SwimlaneCell' } });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        CELL_WIDTH,
+        'flex min-h-16 flex-col gap-2 rounded-lg bg-muted/60 p-2 transition-colors',
+        isOver && 'bg-muted ring-1 ring-primary/40'
+      )}
+    >
+      <SortableContext items={items.map((i) => i.id)} strategy={verticalListSortingStrategy}>
+        {items.map((project) => (
+          <KanbanCard
+            key={project.id}
+            project={project}
+            onClick={() => onCardClick(project)}
+            onDelete={() => onDeleteProject(project.id)}
+            onTogglePin={(pinned) => onTogglePin(project.id, pinned)}
+            onDuplicate={onDuplicateProject && (() => onDuplicateProject(project))}
+            onArchive={onArchiveProject && (() => onArchiveProject(project.id))}
+            onMoveToColumn={(columnId) => onMoveCard(project.id, columnId)}
+            columns={columns}
+            currentColumnId={column.id}
+            size={cardSize || 'small'}
+            inDoneColumn={isDoneColumn(column)}
+            blockers={blockersById?.get(project.id)?.map((b) => b.title)}
+            rollup={rollupById?.get(project.id)}
+            isSelected={selectedIds?.has(project.id)}
+            onSelect={onSelectCard ? (modifiers) => onSelectCard(project.id, modifiers) : undefined}
+          />
+        ))}
+      </SortableContext>
+    </div>
+  );
+}
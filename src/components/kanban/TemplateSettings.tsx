@@ -0,0 +1,415 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { Edit2, Hammer, LayoutTemplate, ListTodo, Loader2, Plus, ShoppingCart, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useConfirm } from '@/components/ui/confirm-dialog';
+import {
+  createProjectTemplate,
+  deleteProjectTemplate,
+  getAllProjectGroups,
+  getAllTags,
+  getColumns,
+  getImageStyles,
+  getProjectTemplates,
+  updateProjectTemplate,
+  type ImageStyle,
+} from '@/app/actions';
+import type { ProjectTemplate, ProjectTemplateInput, TemplateMaterial } from '@/lib/project-templates';
+import { cn } from '@/lib/utils';
+
+const RichTextEditor = dynamic(
+  () => import('@/components/ui/rich-text-editor').then(mod => ({ default: mod.RichTextEditor })),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="min-h-[120px] w-full rounded-md border bg-muted/20 p-3 text-sm text-muted-foreground">
+        Loading editor…
+      </div>
+    ),
+  }
+);
+
+const NONE = '__none__';
+
+type Option = { id: string; name: string };
+
+const EMPTY_TEMPLATE: ProjectTemplateInput = {
+  name: '',
+  description: null,
+  richContent: null,
+  materials: [],
+  tags: [],
+  groupId: null,
+  defaultColumnId: null,
+  imageStyleId: null,
+  isTask: false,
+};
+
+export function TemplateSettings({ onError }: { onError: (message: string) => void }) {
+  const confirmDialog = useConfirm();
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [columns, setColumns] = useState<Option[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [groups, setGroups] = useState<Option[]>([]);
+  const [styles, setStyles] = useState<ImageStyle[]>([]);
+
+  // Template being edited; `editingId` is null for a new one
+  const [form, setForm] = useState<ProjectTemplateInput | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [newMaterial, setNewMaterial] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Bumped after every change so the list reloads
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([getProjectTemplates(), getColumns(), getAllTags(), getAllProjectGroups(), getImageStyles()]).then(
+      ([templateRows, columnRows, tagRows, groupRows, styleRows]) => {
+        if (cancelled) return;
+        setTemplates(templateRows);
+        setColumns(columnRows.map((c: { id: string; title: string }) => ({ id: c.id, name: c.title })));
+        setTags(tagRows.map((t: { name: string }) => t.name));
+        setGroups(groupRows.map((g: { id: string; name: string }) => ({ id: g.id, name: g.name })));
+        setStyles(styleRows);
+        setIsLoading(false);
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [version]);
+
+  const openForm = (template: ProjectTemplate | null) => {
+    setEditingId(template?.id ?? null);
+    setForm(template ? { ...template } : { ...EMPTY_TEMPLATE });
+    setNewMaterial('');
+  };
+
+  const patchForm = (patch: Partial<ProjectTemplateInput>) => {
+    setForm((prev) => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const addMaterials = () => {
+    if (!form || !newMaterial.trim()) return;
+    // One item per line, like the editor's bulk add
+    const added: TemplateMaterial[] = newMaterial
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((text) => ({ text, toBuy: false, toBuild: false }));
+    patchForm({ materials: [...form.materials, ...added] });
+    setNewMaterial('');
+  };
+
+  const toggleMaterial = (index: number, field: 'toBuy' | 'toBuild') => {
+    if (!form) return;
+    patchForm({
+      materials: form.materials.map((m, i) => (i === index ? { ...m, [field]: !m[field] } : m)),
+    });
+  };
+
+  const toggleTag = (tag: string) => {
+    if (!form) return;
+    patchForm({ tags: form.tags.includes(tag) ? form.tags.filter((t) => t !== tag) : [...form.tags, tag] });
+  };
+
+  const handleSave = async () => {
+    if (!form || !form.name.trim()) return;
+    setIsSaving(true);
+    try {
+      if (editingId) await updateProjectTemplate(editingId, form);
+      else await createProjectTemplate(form);
+      setForm(null);
+      setVersion((v) => v + 1);
+    } catch (error) {
+      console.error('Failed to save template', error);
+      onError('Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: ProjectTemplate) => {
+    const ok = await confirmDialog({
+      title: `Delete template "${template.name}"?`,
+      description: 'Cards already created from it are not affected.',
+      confirmLabel: 'Delete',
+      destructive: true,
+    });
+    if (!ok) return;
+    try {
+      await deleteProjectTemplate(template.id);
+      setVersion((v) => v + 1);
+    } catch (error) {
+      console.error('Failed to delete template', error);
+      onError('Failed to delete template');
+    }
+  };
+
+  const nameOf = (options: Option[], id: string | null) => options.find((o) => o.id === id)?.name;
+
+  return (
+    <div className="space-y-4 py-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium">Project Templates</p>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            Starting points for new cards: notes and checklists, materials, tags, group, lane and cover style.
+          </p>
+        </div>
+        {!form && (
+          <Button size="sm" onClick={() => openForm(null)}>
+            <Plus className="h-4 w-4 mr-1" /> New Template
+          </Button>
+        )}
+      </div>
+
+      {form && (
+        <div className="border rounded-lg p-4 space-y-3 bg-muted/30">
+          <p className="text-sm font-medium">{editingId ? 'Edit Template' : 'New Template'}</p>
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-muted-foreground">Name</label>
+            <Input
+              className="h-8"
+              placeholder="e.g. Furniture build, Print job…"
+              value={form.name}
+              onChange={(e) => patchForm({ name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-muted-foreground">Description</label>
+            <Input
+              className="h-8"
+              value={form.description ?? ''}
+              onChange={(e) => patchForm({ description: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-muted-foreground">
+              Notes <span className="font-normal opacity-70">— task lists start unticked on every new card</span>
+            </label>
+            <div className="rounded-md border bg-background px-3 py-2">
+              <RichTextEditor
+                key={editingId ?? 'new'}
+                content={form.richContent ?? ''}
+                onChange={(html) => patchForm({ richContent: html })}
+                placeholder="Steps, checklists, links…"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-muted-foreground">Materials</label>
+            {form.materials.length > 0 && (
+              <ul className="space-y-1">
+                {form.materials.map((material, index) => (
+                  <li key={index} className="flex items-center gap-2 text-sm">
+                    <span className="flex-1 truncate">{material.text}</span>
+                    <button
+                      onClick={() => toggleMaterial(index, 'toBuy')}
+                      className={cn('p-1 rounded', material.toBuy ? 'text-primary' : 'text-muted-foreground/50')}
+                      aria-label="To buy"
+                      aria-pressed={material.toBuy}
+                      title="To buy"
+                    >
+                      <ShoppingCart className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      onClick={() => toggleMaterial(index, 'toBuild')}
+                      className={cn('p-1 rounded', material.toBuild ? 'text-primary' : 'text-muted-foreground/50')}
+                      aria-label="To build"
+                      aria-pressed={material.toBuild}
+                      title="To build"
+                    >
+                      <Hammer className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      onClick={() => patchForm({ materials: form.materials.filter((_, i) => i !== index) })}
+                      className="p-1 rounded text-muted-foreground hover:text-destructive"
+                      aria-label={`Remove ${material.text}`}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex gap-2">
+              <Input
+                className="h-8"
+                placeholder="Add material (paste a list to add several)"
+                value={newMaterial}
+                onChange={(e) => setNewMaterial(e.target.value)}
+                onPaste={(e) => {
+                  const text = e.clipboardData.getData('text');
+                  if (text.includes('\n')) {
+                    e.preventDefault();
+                    setNewMaterial(text);
+                  }
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addMaterials();
+                  }
+                }}
+              />
+              <Button variant="outline" size="sm" className="h-8" onClick={addMaterials} disabled={!newMaterial.trim()}>
+                Add
+              </Button>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-muted-foreground">Tags</label>
+            {tags.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No tags yet — create them in the Tags tab.</p>
+            ) : (
+              <div className="flex flex-wrap gap-1">
+                {tags.map((tag) => (
+                  <button
+                    key={tag}
+                    onClick={() => toggleTag(tag)}
+                    aria-pressed={form.tags.includes(tag)}
+                    className={cn(
+                      'px-2 py-0.5 rounded-full border text-xs transition-colors',
+                      form.tags.includes(tag) ? 'bg-primary text-primary-foreground border-primary' : 'hover:bg-muted'
+                    )}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-muted-foreground">Group</label>
+              <Select value={form.groupId ?? NONE} onValueChange={(v) => patchForm({ groupId: v === NONE ? null : v })}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>
+                    <span className="text-muted-foreground">No group</span>
+                  </SelectItem>
+                  {groups.map((g) => (
+                    <SelectItem key={g.id} value={g.id}>{g.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-muted-foreground">Lane</label>
+              <Select
+                value={form.defaultColumnId ?? NONE}
+                onValueChange={(v) => patchForm({ defaultColumnId: v === NONE ? null : v })}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>
+                    <span className="text-muted-foreground">First lane</span>
+                  </SelectItem>
+                  {columns.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-muted-foreground">Cover style</label>
+              <Select
+                value={form.imageStyleId ?? NONE}
+                onValueChange={(v) => patchForm({ imageStyleId: v === NONE ? null : v })}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>
+                    <span className="text-muted-foreground">No cover</span>
+                  </SelectItem>
+                  {styles.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={form.isTask} onCheckedChange={(checked) => patchForm({ isTask: checked === true })} />
+            Create as task
+          </label>
+          <div className="flex justify-end gap-2 pt-1">
+            <Button variant="outline" size="sm" onClick={() => setForm(null)}>Cancel</Button>
+            <Button size="sm" onClick={handleSave} disabled={!form.name.trim() || isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              {editingId ? 'Save Changes' : 'Create Template'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : templates.length === 0 && !form ? (
+        <div className="text-center py-10 text-muted-foreground">
+          <LayoutTemplate className="h-8 w-8 mx-auto mb-2 opacity-40" />
+          <p className="text-sm">No templates yet.</p>
+          <p className="text-xs mt-1">Create one here, or use “Save as template” on any project.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {templates.map((template) => {
+            const details = [
+              template.isTask ? 'Task' : null,
+              nameOf(columns, template.defaultColumnId),
+              nameOf(groups, template.groupId),
+              template.materials.length > 0 ? `${template.materials.length} materials` : null,
+              styles.find((s) => s.id === template.imageStyleId)?.name,
+            ].filter(Boolean);
+            return (
+              <div key={template.id} className="flex items-center gap-3 p-3 border rounded-lg">
+                {template.isTask ? (
+                  <ListTodo className="h-4 w-4 text-muted-foreground shrink-0" />
+                ) : (
+                  <LayoutTemplate className="h-4 w-4 text-muted-foreground shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{template.name}</p>
+                  {details.length > 0 && (
+                    <p className="text-xs text-muted-foreground truncate">{details.join(' · ')}</p>
+                  )}
+                  {template.tags.length > 0 && (
+                    <p className="text-xs text-muted-foreground truncate">{template.tags.map((t) => `#${t}`).join(' ')}</p>
+                  )}
+                </div>
+                <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => openForm(template)}>
+                  <Edit2 className="h-3 w-3 mr-1" /> Edit
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 px-2 text-xs text-destructive hover:text-destructive"
+                  onClick={() => handleDelete(template)}
+                  aria-label={`Delete ${template.name}`}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
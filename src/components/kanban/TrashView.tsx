@@ -0,0 +1,192 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { formatDistanceToNow, parseISO, differenceInCalendarDays } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Trash2, RotateCcw, Loader2, FolderKanban, ListTodo, Lightbulb, Columns3, FileText, LayoutDashboard } from 'lucide-react';
+import { getTrash, restoreTrashItem, deleteTrashItemPermanently, emptyTrash, type TrashItem, type TrashItemKind } from '@/app/actions';
+import { useConfirm } from '@/components/ui/confirm-dialog';
+
+type TrashViewProps = {
+  retentionDays: number;
+  /** Called after a restore so the board can reload projects/columns/widgets. */
+  onRestored?: (kind: TrashItemKind) => void;
+};
+
+const SECTIONS: Array<{ kind: TrashItemKind; label: string }> = [
+  { kind: 'project', label: 'Projects & ideas' },
+  { kind: 'column', label: 'Columns' },
+  { kind: 'plan', label: 'Plans' },
+  { kind: 'widget', label: 'Widgets' },
+];
+
+function ItemIcon({ item }: { item: TrashItem }) {
+  const className = 'h-4 w-4 text-muted-foreground shrink-0';
+  switch (item.kind) {
+    case 'project':
+      if (item.isIdea) return <Lightbulb className={className} />;
+      return item.isTask ? <ListTodo className={className} /> : <FolderKanban className={className} />;
+    case 'column':
+      return <Columns3 className={className} />;
+    case 'plan':
+      return <FileText className={className} />;
+    case 'widget':
+      return <LayoutDashboard className={className} />;
+  }
+}
+
+export function TrashView({ retentionDays, onRestored }: TrashViewProps) {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const confirmDialog = useConfirm();
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setItems(await getTrash());
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    try {
+      await restoreTrashItem(item.kind, item.id);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+      onRestored?.(item.kind);
+    } catch (error) {
+      console.error('Failed to restore item:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDeleteForever = async (item: TrashItem) => {
+    const ok = await confirmDialog({
+      title: 'Delete forever?',
+      description: `"${item.title}" will be permanently removed. This cannot be undone.`,
+      confirmLabel: 'Delete',
+      destructive: true,
+    });
+    if (!ok) return;
+
+    setBusyId(item.id);
+    try {
+      await deleteTrashItemPermanently(item.kind, item.id);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+    } catch (error) {
+      console.error('Failed to delete item:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    const ok = await confirmDialog({
+      title: 'Empty trash?',
+      description: `All ${items.length} item${items.length === 1 ? '' : 's'} will be permanently removed.`,
+      confirmLabel: 'Empty trash',
+      destructive: true,
+    });
+    if (!ok) return;
+
+    setIsLoading(true);
+    try {
+      await emptyTrash();
+      setItems([]);
+    } catch (error) {
+      console.error('Failed to empty trash:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const daysLeft = (item: TrashItem) =>
+    Math.max(0, retentionDays - differenceInCalendarDays(new Date(), parseISO(item.deletedAt)));
+
+  return (
+    <div className="flex flex-col h-full overflow-hidden">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between gap-2 px-4 py-2 border-b bg-muted/20">
+        <p className="text-sm text-muted-foreground">
+          Deleted items are kept for {retentionDays} day{retentionDays === 1 ? '' : 's'}.
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleEmptyTrash}
+          disabled={isLoading || items.length === 0}
+        >
+          <Trash2 className="mr-2 h-4 w-4" /> Empty Trash
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex flex-1 items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : items.length === 0 ? (
+        <div className="flex flex-1 items-center justify-center flex-col gap-3 text-muted-foreground py-12">
+          <Trash2 className="h-12 w-12 opacity-20" />
+          <p className="text-sm">Trash is empty.</p>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {SECTIONS.map(({ kind, label }) => {
+            const sectionItems = items.filter(i => i.kind === kind);
+            if (sectionItems.length === 0) return null;
+            return (
+              <section key={kind} className="space-y-2">
+                <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+                  {label} <span className="font-normal">({sectionItems.length})</span>
+                </h2>
+                <ul className="divide-y rounded-lg border">
+                  {sectionItems.map(item => (
+                    <li key={item.id} className="flex items-center gap-3 px-3 py-2">
+                      <ItemIcon item={item} />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{item.title || 'Untitled'}</p>
+                        <p className="text-xs text-muted-foreground">
+                          Deleted {formatDistanceToNow(parseISO(item.deletedAt), { addSuffix: true })}
+                          {' · '}
+                          {daysLeft(item) === 0 ? 'purged soon' : `purged in ${daysLeft(item)}d`}
+                        </p>
+                      </div>
+                      {item.isIdea && <Badge variant="outline" className="text-xs">Idea</Badge>}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRestore(item)}
+                        disabled={busyId === item.id}
+                      >
+                        <RotateCcw className="mr-1 h-4 w-4" /> Restore
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => handleDeleteForever(item)}
+                        disabled={busyId === item.id}
+                        aria-label={`Delete ${item.title} forever`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,19 @@
 'use client';
 
 import { useState, useMemo } from 'react';
-import { Settings2, ExternalLink, FolderKanban, ListTodo, ArrowUpDown, Filter } from 'lucide-react';
+import { Settings2, ExternalLink, FolderKanban, ListTodo, ArrowUpDown, Filter, CalendarClock, Lock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { useRouter } from 'next/navigation';
 import type { Project } from '@/components/kanban/KanbanBoard';
+import { trackRecentProject } from '@/lib/recent-projects';
 import { ScrollFade } from './ScrollFade';
 import { useDragHandle } from './WidgetsSection';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
+import { getDueStatus, formatDueLabel } from '@/lib/project-dates';
+import { isInDoneColumn, type ColumnRole } from '@/lib/board-columns';
+import { getOpenBlockers } from '@/lib/project-dependencies';
 
 type Tag = {
   name: string;
@@ -28,6 +32,7 @@ type Column = {
   id: string;
   title: string;
   order: number;
+  role?: ColumnRole;
 };
 
 type ActiveProjectsWidgetProps = {
@@ -47,7 +52,7 @@ type ActiveProjectsWidgetProps = {
   onRefresh?: () => void;
 };
 
-type SortOption = 'title' | 'created' | 'updated' | 'column';
+type SortOption = 'title' | 'created' | 'updated' | 'column' | 'due' | 'start';
 type FilterOption = 'all' | string; // 'all' or tag name or project group id
 
 export function ActiveProjectsWidget({
@@ -64,20 +69,20 @@ export function ActiveProjectsWidget({
   const dragListeners = useDragHandle();
   const [sortBy, setSortBy] = useState<SortOption>('updated');
   const [filterBy, setFilterBy] = useState<FilterOption>('all');
-  const [filterType, setFilterType] = useState<'all' | 'tag' | 'group'>('all');
+  const [filterType, setFilterType] = useState<'all' | 'tag' | 'group' | 'blocked'>('all');
+
+  const blockersById = useMemo(() => {
+    const byId = new Map(projects.map(p => [p.id, p]));
+    return new Map(projects.map(p => [p.id, getOpenBlockers(p, byId)]));
+  }, [projects]);
 
-  // Find completed column
-  const doneColumn = columns.find(c => 
-    c.title.toLowerCase() === 'done' || 
-    c.title.toLowerCase() === 'completed'
-  );
 
   // Filter and sort projects
   const displayProjects = useMemo(() => {
     const filtered = projects.filter(p => {
       // Filter by completion status
       if (p.isCompleted === true) return false;
-      if (doneColumn && p.status === doneColumn.id) return false;
+      if (isInDoneColumn(p.status, columns)) return false;
 
       // Filter by project/task type
       if (widget.config.showType === 'projects' && p.isTask === true) return false;
@@ -90,6 +95,9 @@ export function ActiveProjectsWidget({
       if (filterType === 'group' && filterBy !== 'all') {
         return p.parentProjectId === filterBy;
       }
+      if (filterType === 'blocked') {
+        return (blockersById.get(p.id)?.length ?? 0) > 0;
+      }
 
       return true;
     });
@@ -107,32 +115,28 @@ export function ActiveProjectsWidget({
           const aCol = columns.find(c => c.id === a.status);
           const bCol = columns.find(c => c.id === b.status);
           return (aCol?.order || 0) - (bCol?.order || 0);
+        case 'due':
+        case 'start': {
+          // Soonest first; undated items sink to the bottom
+          const key = sortBy === 'due' ? 'dueDate' : 'startDate';
+          const aDate = a[key] || '9999-12-31';
+          const bDate = b[key] || '9999-12-31';
+          return aDate.localeCompare(bDate);
+        }
         default:
           return 0;
       }
     });
 
     return filtered;
-  }, [projects, widget.config.showType, sortBy, filterBy, filterType, doneColumn, columns]);
-
-  // Track project as recently opened
-  const trackRecentProject = (projectId: string) => {
-    try {
-      const recent = localStorage.getItem('recentProjects');
-      const recentIds = recent ? JSON.parse(recent) : [];
-      const updated = [projectId, ...recentIds.filter((id: string) => id !== projectId)].slice(0, 10);
-      localStorage.setItem('recentProjects', JSON.stringify(updated));
-    } catch (error) {
-      console.error('Failed to track recent project:', error);
-    }
-  };
+  }, [projects, widget.config.showType, sortBy, filterBy, filterType, columns, blockersById]);
 
   const handleProjectClick = (project: Project) => {
     trackRecentProject(project.id);
     onProjectClick(project);
   };
 
-  const handleFilterTypeChange = (type: 'all' | 'tag' | 'group') => {
+  const handleFilterTypeChange = (type: 'all' | 'tag' | 'group' | 'blocked') => {
     setFilterType(type);
     setFilterBy('all');
   };
@@ -182,6 +186,7 @@ export function ActiveProjectsWidget({
               <SelectItem value="all">All</SelectItem>
               <SelectItem value="tag">By Tag</SelectItem>
               <SelectItem value="group">By Group</SelectItem>
+              <SelectItem value="blocked">Blocked</SelectItem>
             </SelectContent>
           </Select>
           {filterType === 'tag' && (
@@ -232,6 +237,8 @@ export function ActiveProjectsWidget({
               <SelectItem value="created">Newest</SelectItem>
               <SelectItem value="title">A-Z</SelectItem>
               <SelectItem value="column">By Column</SelectItem>
+              <SelectItem value="due">Due Date</SelectItem>
+              <SelectItem value="start">Start Date</SelectItem>
             </SelectContent>
           </Select>
         </div>
@@ -250,6 +257,8 @@ export function ActiveProjectsWidget({
               const projectGroup = project.parentProjectId 
                 ? projectGroups.find(g => g.id === project.parentProjectId)
                 : null;
+              const dueStatus = getDueStatus(project.dueDate, project.isCompleted);
+              const blockers = blockersById.get(project.id) ?? [];
 
               return (
                 <li 
@@ -268,6 +277,24 @@ export function ActiveProjectsWidget({
                     </span>
                   </div>
                   <div className="flex items-center gap-2 flex-shrink-0">
+                    {blockers.length > 0 && (
+                      <span title={`Blocked by ${blockers.map(b => b.title).join(', ')}`}>
+                        <Lock className="h-3 w-3 text-amber-600 dark:text-amber-400" aria-label="Blocked" />
+                      </span>
+                    )}
+                    {dueStatus && (
+                      <span
+                        className={cn(
+                          "flex items-center gap-1 text-xs",
+                          dueStatus === 'overdue' && "text-red-600 dark:text-red-400 font-medium",
+                          (dueStatus === 'due-today' || dueStatus === 'due-soon') && "text-amber-600 dark:text-amber-400",
+                          dueStatus === 'upcoming' && "text-muted-foreground"
+                        )}
+                      >
+                        <CalendarClock className="h-3 w-3" />
+                        {formatDueLabel(project.dueDate)}
+                      </span>
+                    )}
                     {projectGroup && (
                       <Badge variant="outline" className="text-xs h-5 px-1.5">
                         {projectGroup.emoji && <span className="mr-1">{projectGroup.emoji}</span>}
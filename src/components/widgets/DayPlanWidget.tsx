@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useContext, useRef, useEffect } from 'react';
-import { Calendar, Settings2, X, GripVertical, Plus, Search } from 'lucide-react';
+import { Calendar, Settings2, X, GripVertical, Plus, Search, ChevronLeft, ChevronRight } from 'lucide-react';
+import { addDays } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
@@ -9,22 +10,27 @@ import { cn } from '@/lib/utils';
 import { updateWidget } from '@/app/actions';
 import { useRouter } from 'next/navigation';
 import { useConfirm } from '@/components/ui/confirm-dialog';
+import { getRecentProjectIds, trackRecentProject } from '@/lib/recent-projects';
 import { DragHandleContext } from './WidgetsSection';
 import { ScrollFade } from './ScrollFade';
 import type { Project } from '@/components/kanban/KanbanBoard';
+import { isInDoneColumn, type ColumnRole } from '@/lib/board-columns';
+import { getDayPlanProjectIds, setDayPlanProjectIds, todayPlanDate, type DayPlanConfig } from '@/lib/day-plans';
+import { parseProjectDate, toProjectDateString } from '@/lib/project-dates';
+import { useProjectSearch } from '@/hooks/use-project-search';
+import { SearchSnippet } from '@/components/kanban/SearchSnippet';
 
 type Column = {
   id: string;
   title: string;
+  role?: ColumnRole;
 };
 
 type DayPlanWidgetProps = {
   widget: {
     id: string;
     title: string;
-    config: {
-      projectIds?: string[];
-    };
+    config: DayPlanConfig;
   };
   projects: Project[];
   columns?: Column[];
@@ -38,54 +44,55 @@ export function DayPlanWidget({ widget, projects, columns = [], onEdit, onProjec
   const confirmDialog = useConfirm();
   const dragListeners = useContext(DragHandleContext);
   
-  const projectIds = widget.config.projectIds || [];
+  const today = todayPlanDate();
+  const [planDate, setPlanDate] = useState(today);
+  const isToday = planDate === today;
+  const projectIds = getDayPlanProjectIds(widget.config, planDate, today);
+
+  const savePlan = (ids: string[]) =>
+    updateWidget(widget.id, {
+      config: setDayPlanProjectIds(widget.config, planDate, ids, today)
+    });
+
+  const shiftPlanDate = (days: number) => {
+    const current = parseProjectDate(planDate) ?? new Date();
+    setPlanDate(toProjectDateString(addDays(current, days)));
+  };
   const dayProjects = projectIds
     .map(id => projects.find(p => p.id === id))
     .filter((p): p is Project => p !== undefined);
 
   // Check if a project is in the Done column
-  const isProjectDone = (project: Project) => {
-    const doneColumn = columns.find(c => 
-      c.title.toLowerCase() === 'done' || 
-      c.title.toLowerCase() === 'completed'
-    );
-    return doneColumn ? project.status === doneColumn.id : false;
-  };
+  const isProjectDone = (project: Project) => isInDoneColumn(project.status, columns);
 
   const [isDragOver, setIsDragOver] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [showSuggestions, setShowSuggestions] = useState(false);
   const searchRef = useRef<HTMLDivElement>(null);
+  const { matches: searchMatches, matchById: searchMatchById, isSearching } = useProjectSearch(searchQuery, {
+    isIdea: false,
+    isCompleted: false,
+    limit: 20,
+  });
   
   // Get projects not already in the day plan and not completed
   const availableProjects = projects.filter(p => 
     !projectIds.includes(p.id) && !isProjectDone(p)
   );
   
-  // Get recently opened projects from localStorage
-  const getRecentProjects = () => {
-    try {
-      const recent = localStorage.getItem('recentProjects');
-      return recent ? JSON.parse(recent) : [];
-    } catch {
-      return [];
-    }
-  };
-  
   // Sort available projects: recently opened first, then by recent updates
   const getSuggestedProjects = () => {
-    if (searchQuery) {
-      // Filter by search query
-      return availableProjects.filter(p =>
-        p.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        p.tags?.some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase()))
-      );
+    if (searchMatches) {
+      // Server-side search results, best match first
+      return availableProjects
+        .filter(p => searchMatchById.has(p.id))
+        .sort((a, b) => searchMatchById.get(a.id)!.order - searchMatchById.get(b.id)!.order);
     } else {
       // Show recently opened projects first
-      const recentIds = getRecentProjects();
+      const recentIds = getRecentProjectIds();
       const recentProjects = recentIds
-        .map((id: string) => availableProjects.find(p => p.id === id))
-        .filter((p: Project | undefined): p is Project => p !== undefined);
+        .map(id => availableProjects.find(p => p.id === id))
+        .filter((p): p is Project => p !== undefined);
       
       const remainingProjects = availableProjects.filter(
         p => !recentIds.includes(p.id)
@@ -115,17 +122,6 @@ export function DayPlanWidget({ widget, projects, columns = [], onEdit, onProjec
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
   
-  // Track project as recently opened
-  const trackRecentProject = (projectId: string) => {
-    try {
-      const recent = getRecentProjects();
-      const updated = [projectId, ...recent.filter((id: string) => id !== projectId)].slice(0, 10);
-      localStorage.setItem('recentProjects', JSON.stringify(updated));
-    } catch (error) {
-      console.error('Failed to track recent project:', error);
-    }
-  };
-
   // Handle project click with tracking
   const handleProjectClick = (project: Project) => {
     trackRecentProject(project.id);
@@ -137,10 +133,7 @@ export function DayPlanWidget({ widget, projects, columns = [], onEdit, onProjec
     if (!projectId || projectIds.includes(projectId)) return;
     
     try {
-      const newProjectIds = [...projectIds, projectId];
-      await updateWidget(widget.id, {
-        config: { ...widget.config, projectIds: newProjectIds }
-      });
+      await savePlan([...projectIds, projectId]);
       setSearchQuery('');
       setShowSuggestions(false);
       router.refresh();
@@ -177,10 +170,7 @@ export function DayPlanWidget({ widget, projects, columns = [], onEdit, onProjec
     try {
       const projectId = e.dataTransfer.getData('application/project-card');
       if (projectId && !projectIds.includes(projectId)) {
-        const newProjectIds = [...projectIds, projectId];
-        await updateWidget(widget.id, {
-          config: { ...widget.config, projectIds: newProjectIds }
-        });
+        await savePlan([...projectIds, projectId]);
         router.refresh();
       }
     } catch (error) {
@@ -192,10 +182,7 @@ export function DayPlanWidget({ widget, projects, columns = [], onEdit, onProjec
   const handleRemoveProject = async (projectId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     try {
-      const newProjectIds = projectIds.filter(id => id !== projectId);
-      await updateWidget(widget.id, {
-        config: { ...widget.config, projectIds: newProjectIds }
-      });
+      await savePlan(projectIds.filter(id => id !== projectId));
       router.refresh();
     } catch (error) {
       console.error('Failed to remove project from day plan:', error);
@@ -212,9 +199,7 @@ export function DayPlanWidget({ widget, projects, columns = [], onEdit, onProjec
     });
     if (!ok) return;
     try {
-      await updateWidget(widget.id, {
-        config: { ...widget.config, projectIds: [] }
-      });
+      await savePlan([]);
       router.refresh();
     } catch (error) {
       console.error('Failed to clear day plan:', error);
@@ -222,11 +207,11 @@ export function DayPlanWidget({ widget, projects, columns = [], onEdit, onProjec
   };
 
   // Format date
-  const todayFormatted = new Intl.DateTimeFormat('en-US', {
+  const planDateFormatted = new Intl.DateTimeFormat('en-US', {
     weekday: 'long',
     month: 'long',
     day: 'numeric'
-  }).format(new Date());
+  }).format(parseProjectDate(planDate) ?? new Date());
 
   return (
     <div 
@@ -276,8 +261,34 @@ export function DayPlanWidget({ widget, projects, columns = [], onEdit, onProjec
       </div>
 
       {/* Subtitle */}
-      <div className="px-4 pt-2">
-        <p className="text-xs text-muted-foreground">{todayFormatted}</p>
+      <div className="px-4 pt-2 flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-5 w-5 p-0 text-muted-foreground"
+          onClick={() => shiftPlanDate(-1)}
+          title="Previous day"
+        >
+          <ChevronLeft className="h-3 w-3" />
+        </Button>
+        <p className="text-xs text-muted-foreground">{planDateFormatted}</p>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-5 w-5 p-0 text-muted-foreground"
+          onClick={() => shiftPlanDate(1)}
+          title="Next day"
+        >
+          <ChevronRight className="h-3 w-3" />
+        </Button>
+        {!isToday && (
+          <button
+            className="ml-1 text-[10px] text-primary hover:underline"
+            onClick={() => setPlanDate(today)}
+          >
+            Today
+          </button>
+        )}
       </div>
 
       {/* Items */}
@@ -366,7 +377,7 @@ export function DayPlanWidget({ widget, projects, columns = [], onEdit, onProjec
             {/* Autocomplete Suggestions */}
             {showSuggestions && filteredProjects.length > 0 && (
               <div className="absolute bottom-full left-0 right-0 mb-1 bg-popover border rounded-md shadow-lg max-h-[200px] overflow-auto z-50">
-                {!searchQuery && getRecentProjects().length > 0 && (
+                {!searchQuery && getRecentProjectIds().length > 0 && (
                   <div className="px-3 py-1.5 text-[10px] text-muted-foreground uppercase tracking-wider font-semibold border-b bg-muted/30">
                     Recent
                   </div>
@@ -394,6 +405,9 @@ export function DayPlanWidget({ widget, projects, columns = [], onEdit, onProjec
                         </div>
                       )}
                     </div>
+                    {searchMatchById.get(project.id)?.snippet && (
+                      <SearchSnippet snippet={searchMatchById.get(project.id)!.snippet} className="mt-0.5 line-clamp-1" />
+                    )}
                   </button>
                 ))}
                 {filteredProjects.length > 5 && (
@@ -408,7 +422,7 @@ export function DayPlanWidget({ widget, projects, columns = [], onEdit, onProjec
             {showSuggestions && searchQuery && filteredProjects.length === 0 && (
               <div className="absolute bottom-full left-0 right-0 mb-1 bg-popover border rounded-md shadow-lg p-3 z-50">
                 <p className="text-sm text-muted-foreground text-center">
-                  No projects found
+                  {isSearching ? 'Searching…' : 'No projects found'}
                 </p>
               </div>
             )}
@@ -8,6 +8,7 @@ import { updateProject, updateWidget } from '@/app/actions';
 import { useRouter } from 'next/navigation';
 import type { Project } from '@/components/kanban/KanbanBoard';
 import { v4 as uuidv4 } from 'uuid';
+import { trackRecentProject } from '@/lib/recent-projects';
 import { ScrollFade } from './ScrollFade';
 import { useDragHandle } from './WidgetsSection';
 
@@ -303,18 +304,6 @@ export function MaterialsShoppingWidget({
     onRefresh?.();
   };
 
-  // Track project as recently opened
-  const trackRecentProject = (projectId: string) => {
-    try {
-      const recent = localStorage.getItem('recentProjects');
-      const recentIds = recent ? JSON.parse(recent) : [];
-      const updated = [projectId, ...recentIds.filter((id: string) => id !== projectId)].slice(0, 10);
-      localStorage.setItem('recentProjects', JSON.stringify(updated));
-    } catch (error) {
-      console.error('Failed to track recent project:', error);
-    }
-  };
-
   const handleOpenProject = (item: DisplayItem) => {
     if (item.projectId && onProjectClick) {
       const project = projects.find(p => p.id === item.projectId);
@@ -7,6 +7,7 @@ import { cn } from '@/lib/utils';
 import { updateProject, moveProjectFromDoneIfNeeded } from '@/app/actions';
 import { useRouter } from 'next/navigation';
 import type { Project } from '@/components/kanban/KanbanBoard';
+import { trackRecentProject } from '@/lib/recent-projects';
 import { ScrollFade } from './ScrollFade';
 import { useDragHandle } from './WidgetsSection';
 
@@ -228,18 +229,6 @@ export function ProjectTodosWidget({
     return allTodos.filter(todo => !todo.checked);
   }, [allTodos, widget.config.showCompleted]);
 
-  // Track project as recently opened
-  const trackRecentProject = (projectId: string) => {
-    try {
-      const recent = localStorage.getItem('recentProjects');
-      const recentIds = recent ? JSON.parse(recent) : [];
-      const updated = [projectId, ...recentIds.filter((id: string) => id !== projectId)].slice(0, 10);
-      localStorage.setItem('recentProjects', JSON.stringify(updated));
-    } catch (error) {
-      console.error('Failed to track recent project:', error);
-    }
-  };
-
   const handleProjectClick = (project: Project) => {
     trackRecentProject(project.id);
     onProjectClick(project);
@@ -9,12 +9,12 @@ import { cn } from '@/lib/utils';
 import type { Project } from '@/components/kanban/KanbanBoard';
 import { ScrollFade } from './ScrollFade';
 import { useDragHandle } from './WidgetsSection';
-import { resolveWorkflowLanes, findDoneColumn } from '@/lib/board-columns';
+import { resolveWorkflowLanes, isInDoneColumn, type BoardColumn } from '@/lib/board-columns';
 import { renderTagLaneAccentIcon } from '@/lib/tag-lane-accent-icons';
 
 type Tag = { name: string; color: string; emoji?: string };
 type ProjectGroup = { id: string; name: string; color: string; emoji?: string };
-type Column = { id: string; title: string; order: number };
+type Column = BoardColumn;
 
 export type TagLaneBoardConfig = {
   filterType: 'tag' | 'project-group';
@@ -50,12 +50,10 @@ function useFilteredLaneProjects(
     const lanes = resolveWorkflowLanes(columns);
     if (!lanes) return { lanes: null as null, items: [] as Project[] };
 
-    const doneCol = findDoneColumn(columns);
-
     const filtered = projects.filter((p) => {
       if (p.isIdea) return false;
       if (p.isCompleted === true) return false;
-      if (doneCol && p.status === doneCol.id) return false;
+      if (isInDoneColumn(p.status, columns)) return false;
       const inLane =
         p.status === lanes.todoColumn.id || p.status === lanes.inProgressColumn.id;
       if (!inLane) return false;
@@ -246,7 +244,7 @@ export function TagLaneBoardWidget({
           ) : (
             <LayoutGrid className="h-3 w-3 shrink-0" />
           )}
-          To do and in progress only. Column titles like "To do" and "In progress" improve detection.
+          To do and in progress only. Set a column&apos;s role to To do or In progress (right-click its header on the board) to include it.
         </p>
       </div>
 
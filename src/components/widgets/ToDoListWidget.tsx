@@ -7,6 +7,8 @@ import { cn } from '@/lib/utils';
 import { toggleProjectCompletion } from '@/app/actions';
 import { useRouter } from 'next/navigation';
 import type { Project } from '@/components/kanban/KanbanBoard';
+import { isInDoneColumn, type ColumnRole } from '@/lib/board-columns';
+import { trackRecentProject } from '@/lib/recent-projects';
 import { ScrollFade } from './ScrollFade';
 import { useDragHandle } from './WidgetsSection';
 
@@ -27,6 +29,7 @@ type Column = {
   id: string;
   title: string;
   order: number;
+  role?: ColumnRole;
 };
 
 type ToDoListWidgetProps = {
@@ -61,16 +64,8 @@ export function ToDoListWidget({
   const router = useRouter();
   const dragListeners = useDragHandle();
 
-  // Find the Done column
-  const doneColumn = columns.find(c => 
-    c.title.toLowerCase() === 'done' || 
-    c.title.toLowerCase() === 'completed'
-  );
-
   // Helper to check if a project is completed
-  const isProjectDone = (project: Project) => {
-    return doneColumn ? project.status === doneColumn.id : false;
-  };
+  const isProjectDone = (project: Project) => isInDoneColumn(project.status, columns);
 
   // Filter projects based on widget config
   const filteredProjects = projects.filter(project => {
@@ -98,18 +93,6 @@ export function ToDoListWidget({
     ? tags.find(t => t.name === widget.config.filterId)
     : projectGroups.find(g => g.id === widget.config.filterId);
 
-  // Track project as recently opened
-  const trackRecentProject = (projectId: string) => {
-    try {
-      const recent = localStorage.getItem('recentProjects');
-      const recentIds = recent ? JSON.parse(recent) : [];
-      const updated = [projectId, ...recentIds.filter((id: string) => id !== projectId)].slice(0, 10);
-      localStorage.setItem('recentProjects', JSON.stringify(updated));
-    } catch (error) {
-      console.error('Failed to track recent project:', error);
-    }
-  };
-
   const handleProjectClick = (project: Project) => {
     trackRecentProject(project.id);
     onProjectClick(project);
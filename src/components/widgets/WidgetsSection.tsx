@@ -17,6 +17,7 @@ import { cn } from '@/lib/utils';
 import { updateWidget, reorderWidgets } from '@/app/actions';
 import { useRouter } from 'next/navigation';
 import type { Project } from '@/components/kanban/KanbanBoard';
+import type { ColumnRole } from '@/lib/board-columns';
 
 // Context for passing drag listeners to widget headers
 type DragListeners = {
@@ -182,6 +183,7 @@ type Column = {
   id: string;
   title: string;
   order: number;
+  role?: ColumnRole;
 };
 
 type WidgetsSectionProps = {
@@ -1,4 +1,4 @@
-import { pgTable, text, integer, timestamp, jsonb, boolean } from 'drizzle-orm/pg-core';
+import { pgTable, text, integer, doublePrecision, timestamp, jsonb, boolean, date } from 'drizzle-orm/pg-core';
 
 export const projects = pgTable('projects', {
   id: text('id').primaryKey(),
@@ -7,18 +7,38 @@ export const projects = pgTable('projects', {
   richContent: text('rich_content'),
   imageUrl: text('image_url'),
   status: text('status').notNull().default('todo'), // todo, in-progress, done
-  position: integer('position').notNull().default(0),
+  position: doublePrecision('position').notNull().default(0), // Fractional lane order, see lib/lane-positions
   createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(), // Trigger-maintained row version, see lib/project-versions
   tags: text('tags').array(), 
   attachments: jsonb('attachments').$type<{ id: string; url: string; name: string; type: string; size: number }[]>().default([]),
   parentProjectId: text('parent_project_id'), // For grouping cards under a project
+  parentId: text('parent_id'), // Parent project in the sub-project tree, see lib/project-tree
+  childPosition: integer('child_position').notNull().default(0), // Order among siblings
   isIdea: boolean('is_idea').notNull().default(false),
+  startDate: date('start_date'),
+  dueDate: date('due_date'),
+  completedAt: timestamp('completed_at'), // Set when is_completed flips on
+  blockedBy: text('blocked_by').array().notNull().default([]), // see lib/project-dependencies
+  checklistTotal: integer('checklist_total'), // Generated from rich_content
+  checklistDone: integer('checklist_done'), // Generated from rich_content
+  searchText: text('search_text'), // Trigger-maintained alongside search_vector (tsvector), see lib/project-search
+  recurrence: jsonb('recurrence').$type<{ type: 'interval'; every: number; unit: 'day' | 'week' } | { type: 'after-completion'; days: number }>(), // see lib/recurrence
+  deletedAt: timestamp('deleted_at'), // Set when moved to Trash
+  archivedAt: timestamp('archived_at'), // Set when archived (kept off the board, still in Completed)
+  unarchivedAt: timestamp('unarchived_at'), // Last manual unarchive; restarts the auto-archive clock
+  sourceUrl: text('source_url'), // Cleaned link the card was captured from, for de-duplication
 });
 
 export const columns = pgTable('columns', {
   id: text('id').primaryKey(),
   title: text('title').notNull(),
   order: integer('order').notNull().default(0),
+  role: text('role').notNull().default('custom'), // backlog, todo, in-progress, done, custom
+  rules: jsonb('rules').$type<Array<{ id: string; trigger: 'enter' | 'exit'; action: Record<string, unknown> }>>().notNull().default([]), // see lib/column-rules
+  wipLimit: integer('wip_limit'), // null = unlimited
+  wipEnforcement: text('wip_enforcement').notNull().default('warn'), // warn, block
+  deletedAt: timestamp('deleted_at'),
 });
 
 export const settings = pgTable('settings', {
@@ -34,6 +54,11 @@ export const settings = pgTable('settings', {
   visibleTags: text('visible_tags').array().default([]), // Which tags are visible by default
   hiddenProjects: text('hidden_projects').array().default([]), // Which project groups are hidden
   hiddenTags: text('hidden_tags').array().default([]), // Which tags are hidden
+  trashRetentionDays: integer('trash_retention_days').default(30), // Trashed rows older than this are purged
+  trashPurgedAt: timestamp('trash_purged_at'), // Last lazy purge of the Trash
+  autoArchiveDays: integer('auto_archive_days').default(30), // Completed cards older than this are archived; 0 = off
+  autoArchivedAt: timestamp('auto_archived_at'), // Last lazy auto-archive pass
+  captureDuplicateMode: text('capture_duplicate_mode').notNull().default('existing'), // existing, append, create
 });
 
 export const tags = pgTable('tags', {
@@ -59,6 +84,7 @@ export const widgets = pgTable('widgets', {
   config: jsonb('config').$type<Record<string, unknown>>().notNull().default({}),
   position: integer('position').notNull().default(0),
   createdAt: timestamp('created_at').notNull().defaultNow(),
+  deletedAt: timestamp('deleted_at'),
 });
 
 export const standalonePlans = pgTable('standalone_plans', {
@@ -70,6 +96,7 @@ export const standalonePlans = pgTable('standalone_plans', {
   projectId: text('project_id'), // nullable - null means unassigned
   notes: text('notes'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
+  deletedAt: timestamp('deleted_at'),
 });
 
 export const imageStyles = pgTable('image_styles', {
@@ -80,3 +107,52 @@ export const imageStyles = pgTable('image_styles', {
   position: integer('position').notNull().default(0),
   createdAt: timestamp('created_at').notNull().defaultNow(),
 });
+
+export const projectTemplates = pgTable('project_templates', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  description: text('description'),
+  richContent: text('rich_content'),
+  materialsList: jsonb('materials_list').$type<Array<{ text: string; toBuy: boolean; toBuild: boolean }>>().notNull().default([]), // see lib/project-templates
+  tags: text('tags').array().notNull().default([]),
+  parentProjectId: text('parent_project_id'), // project group for new cards
+  defaultColumnId: text('default_column_id'), // lane new cards land in; first lane when null
+  imageStyleId: text('image_style_id'), // AI cover style; no cover when null
+  isTask: boolean('is_task').notNull().default(false),
+  position: integer('position').notNull().default(0),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+export const projectEvents = pgTable('project_events', {
+  id: text('id').primaryKey(),
+  projectId: text('project_id').notNull(), // FK to projects, cascades on delete
+  kind: text('kind').notNull(), // created | updated | moved | completed | reopened | moved_to_board | moved_to_ideas | pinned | unpinned
+  origin: text('origin').notNull().default('ui'), // ui | mcp | capture
+  changes: jsonb('changes').$type<Record<string, { from?: unknown; to?: unknown }>>().notNull().default({}),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+export const captureRequests = pgTable('capture_requests', {
+  key: text('key').primaryKey(), // Idempotency-Key header of POST /api/capture
+  fingerprint: text('fingerprint').notNull(), // Hash of the request body, to refuse a reused key
+  response: jsonb('response').$type<Record<string, unknown>>(), // null while the first request is running
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+export const apiTokens = pgTable('api_tokens', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(), // Device label, e.g. "Workshop iPhone"
+  tokenHash: text('token_hash').notNull().unique(), // SHA-256 of the bearer token, see lib/api-token-auth
+  tokenPrefix: text('token_prefix').notNull(), // Shown in Settings to recognise the token
+  scope: text('scope').notNull(), // capture | mcp:read | mcp
+  expiresAt: timestamp('expires_at'),
+  lastUsedAt: timestamp('last_used_at'),
+  revokedAt: timestamp('revoked_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+export const rateLimits = pgTable('rate_limits', {
+  key: text('key').primaryKey(), // e.g. ip:capture:<ip>, token:mcp:<token id>, link-preview
+  count: integer('count').notNull(), // Hits in the current window
+  resetAt: timestamp('reset_at').notNull(), // When the window ends and the count restarts, see lib/rate-limit
+});
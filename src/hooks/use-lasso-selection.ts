@@ -0,0 +1,77 @@
+import { useState, type MouseEvent as ReactMouseEvent } from 'react';
+
+export type LassoRect = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+/** Pointer travel before a press on empty space turns into a lasso. */
+const LASSO_THRESHOLD_PX = 4;
+
+// Presses on cards, controls and drag handles belong to them, not the lasso
+const LASSO_IGNORE = '[data-project-id], button, a, input, textarea, select, [role="button"], [role="menuitem"]';
+
+function toRect(start: { x: number; y: number }, end: { clientX: number; clientY: number }): LassoRect {
+  return {
+    left: Math.min(start.x, end.clientX),
+    top: Math.min(start.y, end.clientY),
+    width: Math.abs(end.clientX - start.x),
+    height: Math.abs(end.clientY - start.y),
+  };
+}
+
+function intersects(a: DOMRect, b: LassoRect) {
+  return a.left < b.left + b.width && a.right > b.left && a.top < b.top + b.height && a.bottom > b.top;
+}
+
+/**
+ * Rubber-band selection: dragging across empty space in the container selects
+ * every `[data-project-id]` element the rectangle touches. Holding
+ * shift/cmd/ctrl adds to the current selection instead of replacing it; a
+ * plain click on empty space clears it.
+ */
+export function useLassoSelection(onSelect: ((ids: string[], additive: boolean) => void) | undefined) {
+  const [lassoRect, setLassoRect] = useState<LassoRect | null>(null);
+
+  const onLassoMouseDown = (e: ReactMouseEvent<HTMLElement>) => {
+    if (!onSelect || e.button !== 0) return;
+    // React bubbles events out of portals (menus, dialogs); only the container's own DOM counts
+    if (!e.currentTarget.contains(e.target as Node)) return;
+    if ((e.target as HTMLElement).closest(LASSO_IGNORE)) return;
+
+    const container = e.currentTarget;
+    const start = { x: e.clientX, y: e.clientY };
+    const additive = e.shiftKey || e.metaKey || e.ctrlKey;
+    let active = false;
+
+    const handleMove = (event: MouseEvent) => {
+      const rect = toRect(start, event);
+      if (!active && rect.width < LASSO_THRESHOLD_PX && rect.height < LASSO_THRESHOLD_PX) return;
+      active = true;
+      event.preventDefault();
+      setLassoRect(rect);
+    };
+    const handleUp = (event: MouseEvent) => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      setLassoRect(null);
+      if (!active) {
+        // A plain click on empty space drops the selection
+        if (!additive) onSelect([], false);
+        return;
+      }
+      const rect = toRect(start, event);
+      const ids = Array.from(container.querySelectorAll<HTMLElement>('[data-project-id]'))
+        .filter((el) => intersects(el.getBoundingClientRect(), rect))
+        .map((el) => el.dataset.projectId!);
+      onSelect(ids, additive);
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  return { lassoRect, onLassoMouseDown };
+}
@@ -0,0 +1,89 @@
+import { useEffect, useRef } from 'react';
+import { createClient } from '@/utils/supabase/client';
+import {
+  LIVE_TABLES,
+  eventSourceTransport,
+  liveSyncMode,
+  supabaseRealtimeTransport,
+  type LiveTable,
+  type LiveTransport,
+} from '@/lib/live-sync';
+
+/** Bursts (a bulk move, a template with tags) settle into one refetch. */
+const FLUSH_DELAY_MS = 400;
+/** How often to look again while the board is busy (mid-drag, save in flight). */
+const BUSY_RETRY_MS = 500;
+
+function transportFromEnv(): LiveTransport | null {
+  const mode = liveSyncMode();
+  if (mode === 'off') return null;
+  if (mode === 'sse') return eventSourceTransport();
+  try {
+    return supabaseRealtimeTransport(createClient());
+  } catch (error) {
+    console.error('Live sync disabled:', error);
+    return null;
+  }
+}
+
+/**
+ * Calls `onChange` with the tables that changed elsewhere, batched and held
+ * back while `isBusy()` so a refetch never lands in the middle of a drag or
+ * an optimistic update. A (re)connect reports every table, since anything
+ * could have changed while the connection was down.
+ */
+export function useLiveSync(
+  onChange: (tables: Set<LiveTable>) => void | Promise<void>,
+  { isBusy, transport }: { isBusy?: () => boolean; transport?: LiveTransport | null } = {}
+) {
+  // Latest callbacks without resubscribing on every render
+  const onChangeRef = useRef(onChange);
+  const isBusyRef = useRef(isBusy);
+  useEffect(() => {
+    onChangeRef.current = onChange;
+    isBusyRef.current = isBusy;
+  });
+
+  useEffect(() => {
+    const subscribe = transport === undefined ? transportFromEnv() : transport;
+    if (!subscribe) return;
+
+    const pending = new Set<LiveTable>();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let connectedOnce = false;
+
+    const flush = async () => {
+      timer = null;
+      if (isBusyRef.current?.()) {
+        timer = setTimeout(flush, BUSY_RETRY_MS);
+        return;
+      }
+      const tables = new Set(pending);
+      pending.clear();
+      try {
+        await onChangeRef.current(tables);
+      } catch (error) {
+        console.error('Live sync refresh failed:', error);
+      }
+    };
+
+    const queue = (tables: readonly LiveTable[]) => {
+      for (const table of tables) pending.add(table);
+      if (!timer) timer = setTimeout(flush, FLUSH_DELAY_MS);
+    };
+
+    const unsubscribe = subscribe({
+      onChange: (change) => queue([change.table]),
+      onConnect: () => {
+        // The first connect follows the server render, which is already fresh
+        if (connectedOnce) queue(LIVE_TABLES);
+        connectedOnce = true;
+      },
+    });
+
+    return () => {
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+    };
+  }, [transport]);
+}
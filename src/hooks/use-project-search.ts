@@ -0,0 +1,73 @@
+import { useEffect, useMemo, useState } from 'react';
+import { searchProjects } from '@/app/actions';
+import type { ProjectSearchMatch, ProjectSearchOptions } from '@/lib/project-search';
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+type SearchState = {
+  key: string;
+  matches: ProjectSearchMatch[];
+  total: number;
+};
+
+/**
+ * Debounced server-side search for in-app search boxes. `matches` is null
+ * while the query is empty so callers can fall back to their full list; the
+ * previous results stay up while a new query is in flight to avoid flicker.
+ */
+export function useProjectSearch(
+  query: string,
+  { isIdea, isCompleted, limit = 50 }: Omit<ProjectSearchOptions, 'offset'> = {}
+) {
+  const trimmed = query.trim();
+  const key = JSON.stringify([trimmed, isIdea ?? null, isCompleted ?? null, limit]);
+  const [state, setState] = useState<SearchState | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  useEffect(() => {
+    if (!trimmed) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchProjects(trimmed, { isIdea, isCompleted, limit }).then((page) => {
+        if (!cancelled) setState({ key, matches: page.matches, total: page.total });
+      });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [key, trimmed, isIdea, isCompleted, limit]);
+
+  const current = trimmed ? state : null;
+  const isSearching = !!trimmed && state?.key !== key;
+  const hasMore = !!current && !isSearching && current.matches.length < current.total;
+
+  const loadMore = async () => {
+    if (!current || !hasMore || isLoadingMore) return;
+    setIsLoadingMore(true);
+    try {
+      const page = await searchProjects(trimmed, { isIdea, isCompleted, limit, offset: current.matches.length });
+      setState((prev) =>
+        prev && prev.key === key ? { ...prev, matches: [...prev.matches, ...page.matches], total: page.total } : prev
+      );
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Rank order and snippet per id, for sorting and annotating locally loaded cards
+  const matchById = useMemo(
+    () => new Map((current?.matches ?? []).map((match, order) => [match.id, { order, snippet: match.snippet }])),
+    [current]
+  );
+
+  return {
+    matches: current?.matches ?? (trimmed ? [] : null),
+    matchById,
+    total: current?.total ?? 0,
+    isSearching,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+  };
+}
@@ -0,0 +1,49 @@
+import { useRef, useState } from 'react';
+
+export type SelectModifiers = {
+  shiftKey: boolean;
+  metaKey: boolean;
+  ctrlKey: boolean;
+};
+
+/**
+ * Multi-selection with desktop conventions: cmd/ctrl-click toggles one item,
+ * shift-click adds the range from the last clicked item. `orderedIds` is the
+ * on-screen order the range is taken from.
+ */
+export function useSelection() {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const anchorRef = useRef<string | null>(null);
+
+  const selectWithModifiers = (id: string, modifiers: SelectModifiers, orderedIds: string[]) => {
+    const anchor = anchorRef.current;
+    if (modifiers.shiftKey && anchor && anchor !== id) {
+      const from = orderedIds.indexOf(anchor);
+      const to = orderedIds.indexOf(id);
+      if (from !== -1 && to !== -1) {
+        const range = orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+        setSelectedIds((prev) => new Set([...prev, ...range]));
+        return;
+      }
+    }
+    anchorRef.current = id;
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const selectMany = (ids: string[], additive: boolean) => {
+    anchorRef.current = ids[ids.length - 1] ?? anchorRef.current;
+    setSelectedIds((prev) => new Set(additive ? [...prev, ...ids] : ids));
+  };
+
+  const clearSelection = () => {
+    anchorRef.current = null;
+    setSelectedIds(new Set());
+  };
+
+  return { selectedIds, selectWithModifiers, selectMany, clearSelection };
+}
@@ -0,0 +1,90 @@
+/**
+ * Bearer auth for POST /api/capture and /api/mcp. A request passes with a live
+ * `api_tokens` row whose scope fits the route (lib/api-tokens), or with the
+ * route's own env token (QUICK_CAPTURE_TOKEN / REMOTE_MCP_TOKEN) for setups
+ * from before per-device tokens.
+ */
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isApiTokenScope, scopeAllows, type ApiTokenScope } from './api-tokens';
+
+const TOKEN_PREFIX = 'twk_';
+/** Characters of the token kept in the clear for the Settings list. */
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+/** last_used_at is only rewritten when it's older than this. */
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+export function safeCompare(a: string, b: string): boolean {
+  try {
+    const ba = Buffer.from(a, 'utf8');
+    const bb = Buffer.from(b, 'utf8');
+    if (ba.length !== bb.length) return false;
+    return timingSafeEqual(ba, bb);
+  } catch {
+    return false;
+  }
+}
+
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token, 'utf8').digest('hex');
+}
+
+/** A new random token, its hash for the table and the prefix to display. */
+export function generateApiToken(): { token: string; hash: string; prefix: string } {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return { token, hash: hashApiToken(token), prefix: token.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+export function bearerToken(req: Request): string | null {
+  const auth = req.headers.get('authorization');
+  return auth?.startsWith('Bearer ') ? auth.slice(7).trim() || null : null;
+}
+
+export type ApiAuth =
+  | {
+      ok: true;
+      scope: ApiTokenScope;
+      /** `api_tokens.id`, or 'env' for the route's env token. */
+      tokenId: string;
+    }
+  | { ok: false; status: 401 | 403; error: string };
+
+export async function authenticateApiRequest(
+  supabase: SupabaseClient,
+  req: Request,
+  route: 'capture' | 'mcp',
+  envToken: string | undefined
+): Promise<ApiAuth> {
+  const bearer = bearerToken(req);
+  if (!bearer) return { ok: false, status: 401, error: 'Unauthorized' };
+
+  const legacy = envToken?.trim();
+  if (legacy && safeCompare(bearer, legacy)) {
+    return { ok: true, scope: route === 'capture' ? 'capture' : 'mcp', tokenId: 'env' };
+  }
+
+  const { data: row, error } = await supabase
+    .from('api_tokens')
+    .select('id, scope, expires_at, last_used_at, revoked_at')
+    .eq('token_hash', hashApiToken(bearer))
+    .maybeSingle();
+  if (error) console.error('Error looking up API token:', error);
+
+  const now = Date.now();
+  if (!row || row.revoked_at || (row.expires_at && new Date(row.expires_at).getTime() <= now)) {
+    return { ok: false, status: 401, error: 'Unauthorized' };
+  }
+  if (!isApiTokenScope(row.scope) || !scopeAllows(row.scope, route)) {
+    return { ok: false, status: 403, error: 'This token is not allowed to use this endpoint' };
+  }
+
+  if (!row.last_used_at || now - new Date(row.last_used_at).getTime() > LAST_USED_RESOLUTION_MS) {
+    const { error: touchError } = await supabase
+      .from('api_tokens')
+      .update({ last_used_at: new Date(now).toISOString() })
+      .eq('id', row.id);
+    if (touchError) console.error('Error updating API token last use:', touchError);
+  }
+
+  return { ok: true, scope: row.scope, tokenId: row.id };
+}
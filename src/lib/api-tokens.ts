@@ -0,0 +1,41 @@
+/**
+ * Per-device bearer tokens for POST /api/capture and /api/mcp. Each token has
+ * one scope; see lib/api-token-auth for how requests are checked.
+ */
+
+export type ApiTokenScope = 'capture' | 'mcp:read' | 'mcp';
+
+export const API_TOKEN_SCOPES: Array<{ value: ApiTokenScope; label: string; description: string }> = [
+  { value: 'capture', label: 'Capture only', description: 'POST /api/capture (Shortcuts, scripts)' },
+  { value: 'mcp:read', label: 'Read-only MCP', description: 'Search and list the board over /api/mcp' },
+  { value: 'mcp', label: 'Full MCP', description: 'Create and edit cards over /api/mcp' },
+];
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return value === 'capture' || value === 'mcp:read' || value === 'mcp';
+}
+
+export function apiTokenScopeLabel(scope: string): string {
+  return API_TOKEN_SCOPES.find((s) => s.value === scope)?.label ?? scope;
+}
+
+/** What each route needs: capture tokens can't talk MCP and the other way round. */
+export function scopeAllows(scope: ApiTokenScope, route: 'capture' | 'mcp'): boolean {
+  return route === 'capture' ? scope === 'capture' : scope === 'mcp' || scope === 'mcp:read';
+}
+
+/** A token as listed in Settings; the secret itself is never read back. */
+export type ApiTokenSummary = {
+  id: string;
+  name: string;
+  prefix: string;
+  scope: ApiTokenScope;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+};
+
+export function isApiTokenActive(token: Pick<ApiTokenSummary, 'expiresAt' | 'revokedAt'>, now: Date = new Date()): boolean {
+  return !token.revokedAt && (!token.expiresAt || new Date(token.expiresAt) > now);
+}
@@ -1,46 +1,49 @@
 /**
- * Shared column title heuristics for dashboard widgets and board logic.
- * Keep in sync with server-side completion flows where relevant.
+ * Column roles shared by board logic, dashboard widgets, server actions and
+ * the MCP server. Roles are stored on `columns.role`; titles are free text.
+ *
+ * Uses relative imports only — bundled into the stdio MCP server as well.
  */
 
-export type BoardColumn = { id: string; title: string; order: number };
+export type ColumnRole = 'backlog' | 'todo' | 'in-progress' | 'done' | 'custom';
 
-/** Done-style lanes; avoids treating "Incomplete" as done. */
-export function findDoneColumn(columns: BoardColumn[]): BoardColumn | undefined {
-  return columns.find((c) => {
-    const x = c.title.toLowerCase().trim();
-    if (x.includes('incomplete')) return false;
-    if (/\bdone\b/.test(x) || x.includes('completed')) return true;
-    return x.includes('complete');
-  });
+export const COLUMN_ROLES: Array<{ value: ColumnRole; label: string }> = [
+  { value: 'backlog', label: 'Backlog' },
+  { value: 'todo', label: 'To do' },
+  { value: 'in-progress', label: 'In progress' },
+  { value: 'done', label: 'Done' },
+  { value: 'custom', label: 'Custom' },
+];
+
+export function isColumnRole(value: unknown): value is ColumnRole {
+  return COLUMN_ROLES.some((r) => r.value === value);
+}
+
+export type BoardColumn = { id: string; title: string; order: number; role?: ColumnRole | null };
+
+type RoleColumn = { id: string; role?: ColumnRole | string | null; order?: number };
+
+function byOrder<T extends RoleColumn>(columns: T[]): T[] {
+  return [...columns].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+}
+
+/** First column (by order) carrying `role`. */
+export function findColumnByRole<T extends RoleColumn>(columns: T[], role: ColumnRole): T | undefined {
+  return byOrder(columns).find((c) => c.role === role);
 }
 
-function titleNorm(c: { title: string }) {
-  return c.title.toLowerCase().trim();
+/** The lane that marks cards completed. */
+export function findDoneColumn<T extends RoleColumn>(columns: T[]): T | undefined {
+  return findColumnByRole(columns, 'done');
 }
 
-function isInProgressTitle(title: string) {
-  const x = titleNorm({ title });
-  return (
-    x === 'in progress' ||
-    x === 'in-progress' ||
-    x === 'doing' ||
-    x === 'working' ||
-    x.includes('in progress')
-  );
+export function isDoneColumn(column: { role?: ColumnRole | string | null } | null | undefined): boolean {
+  return column?.role === 'done';
 }
 
-function isTodoTitle(title: string) {
-  const x = titleNorm({ title });
-  return (
-    x === 'to do' ||
-    x === 'todo' ||
-    x === 'backlog' ||
-    x === 'not started' ||
-    x === 'planned' ||
-    x.includes('to do') ||
-    x.endsWith(' todo')
-  );
+/** True when the card sits in any Done-role lane. */
+export function isInDoneColumn(status: string, columns: RoleColumn[]): boolean {
+  return columns.some((c) => c.id === status && c.role === 'done');
 }
 
 export type WorkflowLanes = {
@@ -50,20 +53,21 @@ export type WorkflowLanes = {
 };
 
 /**
- * Resolves todo + in-progress columns for lane widgets.
- * Falls back to first two non-done columns by `order` when titles don't match.
+ * Resolves todo + in-progress columns for lane widgets from column roles
+ * (a backlog lane stands in for a missing todo lane). Falls back to the first
+ * two non-done columns by `order` when no lane carries those roles.
  */
 export function resolveWorkflowLanes(columns: BoardColumn[]): WorkflowLanes | null {
   if (!columns.length) return null;
 
-  const sorted = [...columns].sort((a, b) => a.order - b.order);
+  const sorted = byOrder(columns);
   const doneColumn = findDoneColumn(sorted);
-  const nonDone = sorted.filter((c) => !doneColumn || c.id !== doneColumn.id);
+  const nonDone = sorted.filter((c) => c.role !== 'done');
 
   if (nonDone.length === 0) return null;
 
-  let inProgressColumn = nonDone.find((c) => isInProgressTitle(c.title));
-  let todoColumn = nonDone.find((c) => isTodoTitle(c.title));
+  let inProgressColumn = findColumnByRole(nonDone, 'in-progress');
+  let todoColumn = findColumnByRole(nonDone, 'todo') ?? findColumnByRole(nonDone, 'backlog');
 
   if (!todoColumn && !inProgressColumn && nonDone.length >= 2) {
     todoColumn = nonDone[0];
@@ -0,0 +1,20 @@
+/**
+ * What a capture does when its link (cleaned, see quickCapture) is already
+ * some card's `source_url`: settings.capture_duplicate_mode, or
+ * `on_duplicate` per request on POST /api/capture. Retries of the same
+ * request are handled separately, see lib/capture-idempotency.
+ */
+
+export type CaptureDuplicateMode = 'existing' | 'append' | 'create';
+
+export const CAPTURE_DUPLICATE_MODES: Array<{ value: CaptureDuplicateMode; label: string }> = [
+  { value: 'existing', label: 'Open the existing card' },
+  { value: 'append', label: 'Add the note to the existing card' },
+  { value: 'create', label: 'Create a new idea anyway' },
+];
+
+export const DEFAULT_CAPTURE_DUPLICATE_MODE: CaptureDuplicateMode = 'existing';
+
+export function isCaptureDuplicateMode(value: unknown): value is CaptureDuplicateMode {
+  return value === 'existing' || value === 'append' || value === 'create';
+}
@@ -0,0 +1,107 @@
+/**
+ * Files sent to POST /api/capture: photos become the cover (the rest go to
+ * inspiration) and PDFs go to plans. The type is taken from the file's first
+ * bytes, not from the name or the declared type, so only real images and
+ * PDFs reach storage.
+ *
+ * Limits come from QUICK_CAPTURE_MAX_FILE_MB (per file, default 10) and
+ * QUICK_CAPTURE_MAX_FILES (per capture, default 5).
+ */
+
+export type CaptureFileKind = 'image' | 'pdf';
+
+export type CaptureFile = {
+  name: string;
+  /** Sniffed MIME type, e.g. image/jpeg. */
+  type: string;
+  kind: CaptureFileKind;
+  bytes: Uint8Array;
+};
+
+export type CaptureFileLimits = {
+  maxFileBytes: number;
+  maxFiles: number;
+};
+
+/** Why a file was refused, with the HTTP status the capture route answers with. */
+export type CaptureFileRejection = { error: string; status: 400 | 413 | 415 };
+
+const DEFAULT_MAX_FILE_MB = 10;
+const DEFAULT_MAX_FILES = 5;
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+export function captureFileLimits(env: Record<string, string | undefined> = process.env): CaptureFileLimits {
+  return {
+    maxFileBytes: Math.round(positiveNumber(env.QUICK_CAPTURE_MAX_FILE_MB, DEFAULT_MAX_FILE_MB) * 1024 * 1024),
+    maxFiles: Math.floor(positiveNumber(env.QUICK_CAPTURE_MAX_FILES, DEFAULT_MAX_FILES)),
+  };
+}
+
+/** Largest request body worth reading: every file at the limit, base64-encoded, plus the text. */
+export function maxCaptureBodyBytes(limits: CaptureFileLimits): number {
+  return Math.ceil((limits.maxFileBytes * limits.maxFiles * 4) / 3) + 64 * 1024;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/heic': '.heic',
+  'application/pdf': '.pdf',
+};
+
+export function captureFileExtension(type: string): string {
+  return EXTENSIONS[type] ?? '';
+}
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((b, i) => bytes[offset + i] === b);
+}
+
+function ascii(bytes: Uint8Array, from: number, to: number): string {
+  return String.fromCharCode(...bytes.subarray(from, to));
+}
+
+/** The MIME type of an accepted image or PDF, or null for anything else. */
+export function sniffCaptureType(bytes: Uint8Array): string | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (ascii(bytes, 0, 6) === 'GIF87a' || ascii(bytes, 0, 6) === 'GIF89a') return 'image/gif';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') return 'image/webp';
+  // iPhone photos shared as-is
+  if (ascii(bytes, 4, 8) === 'ftyp' && ['heic', 'heix', 'mif1', 'msf1'].includes(ascii(bytes, 8, 12))) return 'image/heic';
+  if (ascii(bytes, 0, 5) === '%PDF-') return 'application/pdf';
+  return null;
+}
+
+/** Checks one file against the limits and tags it as image or PDF. */
+export function toCaptureFile(
+  name: string,
+  bytes: Uint8Array,
+  limits: CaptureFileLimits
+): CaptureFile | CaptureFileRejection {
+  const label = name || 'file';
+  if (bytes.length === 0) return { error: `${label} is empty`, status: 400 };
+  if (bytes.length > limits.maxFileBytes) {
+    return { error: `${label} is larger than ${Math.round(limits.maxFileBytes / 1024 / 1024)} MB`, status: 413 };
+  }
+  const type = sniffCaptureType(bytes);
+  if (!type) return { error: `${label} is not an image or PDF`, status: 415 };
+  return { name: name || `capture${captureFileExtension(type)}`, type, kind: type === 'application/pdf' ? 'pdf' : 'image', bytes };
+}
+
+/**
+ * Accepts plain base64 or a data: URL (what Shortcuts' Base64 Encode and
+ * FileReader produce). Returns null when it isn't base64 at all.
+ */
+export function decodeBase64File(data: string): Uint8Array | null {
+  const payload = data.startsWith('data:') ? data.slice(data.indexOf(',') + 1) : data;
+  const clean = payload.replace(/\s+/g, '');
+  if (!clean || !/^[A-Za-z0-9+/_-]*={0,2}$/.test(clean)) return null;
+  return new Uint8Array(Buffer.from(clean, clean.includes('-') || clean.includes('_') ? 'base64url' : 'base64'));
+}
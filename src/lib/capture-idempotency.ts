@@ -0,0 +1,94 @@
+/**
+ * Idempotency-Key on POST /api/capture. The first request with a key claims a
+ * `capture_requests` row; a retry with the same key (iOS Shortcuts retries on
+ * flaky connections) gets the stored answer back instead of a second card.
+ * Keys are scoped to the token that sent them and kept for a day.
+ */
+import { createHash } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const IDEMPOTENCY_TTL_HOURS = 24;
+/** An unanswered claim older than this belongs to a request that died; a retry takes it over. */
+const STALE_CLAIM_MS = 60_000;
+const MAX_KEY_LENGTH = 255;
+
+export function isValidIdempotencyKey(key: string): boolean {
+  return key.length > 0 && key.length <= MAX_KEY_LENGTH && /^[\x21-\x7e]+$/.test(key);
+}
+
+/** Row key for a header value, so one device can't replay another device's response. */
+export function scopedIdempotencyKey(tokenId: string, key: string): string {
+  return `${tokenId}:${key}`;
+}
+
+/** Stable hash of a capture's contents, so a key can't be reused for a different request. */
+export function captureFingerprint(parts: Array<string | Uint8Array | null | undefined>): string {
+  const hash = createHash('sha256');
+  for (const part of parts) {
+    hash.update(part ?? '');
+    hash.update('\0');
+  }
+  return hash.digest('hex');
+}
+
+export type IdempotencyClaim =
+  | { status: 'claimed' }
+  | { status: 'replay'; response: Record<string, unknown> }
+  | { status: 'in-progress' }
+  | { status: 'mismatch' };
+
+/**
+ * Claims `key` for this request. Only one request can claim a key: later ones
+ * get its stored response, or learn that it's still running or was made with
+ * a different body.
+ */
+export async function claimIdempotencyKey(
+  supabase: SupabaseClient,
+  key: string,
+  fingerprint: string
+): Promise<IdempotencyClaim> {
+  const cutoff = new Date(Date.now() - IDEMPOTENCY_TTL_HOURS * 60 * 60 * 1000).toISOString();
+  await supabase.from('capture_requests').delete().lt('created_at', cutoff);
+
+  const { error } = await supabase.from('capture_requests').insert({ key, fingerprint });
+  if (!error) return { status: 'claimed' };
+  // 23505: someone already holds the key
+  if (error.code !== '23505') throw new Error(`Failed to claim idempotency key: ${error.message}`);
+
+  const { data } = await supabase
+    .from('capture_requests')
+    .select('fingerprint, response')
+    .eq('key', key)
+    .maybeSingle();
+  // Released by a failed first attempt in the meantime; the client retries
+  if (!data) return { status: 'in-progress' };
+  if (data.fingerprint !== fingerprint) return { status: 'mismatch' };
+  if (data.response) return { status: 'replay', response: data.response };
+
+  // Only one retry wins the takeover: the update re-checks claimed_at
+  const staleBefore = new Date(Date.now() - STALE_CLAIM_MS).toISOString();
+  const { data: takenOver, error: takeoverError } = await supabase
+    .from('capture_requests')
+    .update({ claimed_at: new Date().toISOString() })
+    .eq('key', key)
+    .is('response', null)
+    .lt('claimed_at', staleBefore)
+    .select('key');
+  if (takeoverError) throw new Error(`Failed to claim idempotency key: ${takeoverError.message}`);
+  return takenOver && takenOver.length > 0 ? { status: 'claimed' } : { status: 'in-progress' };
+}
+
+export async function saveIdempotentResponse(
+  supabase: SupabaseClient,
+  key: string,
+  response: Record<string, unknown>
+): Promise<void> {
+  const { error } = await supabase.from('capture_requests').update({ response }).eq('key', key);
+  if (error) console.error('Error saving capture response:', error);
+}
+
+/** Frees the key after a failed capture so the client's retry can run. */
+export async function releaseIdempotencyKey(supabase: SupabaseClient, key: string): Promise<void> {
+  const { error } = await supabase.from('capture_requests').delete().eq('key', key).is('response', null);
+  if (error) console.error('Error releasing idempotency key:', error);
+}
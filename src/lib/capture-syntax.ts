@@ -0,0 +1,187 @@
+/**
+ * Inline capture syntax, shared by Quick capture, POST /api/capture and the
+ * MCP create_idea tool. Tokens on the first line are stripped from the title
+ * and applied to the new card:
+ *
+ *   #tag          tag (created if new)
+ *   +group        file under a project group
+ *   >column       put on the board in that column instead of Ideas
+ *   !task         make it a task
+ *   due:friday    due date: today, tomorrow, a weekday, 3d / 2w, or YYYY-MM-DD
+ *   pin / !pin    pin to the top of its lane
+ *
+ * Multi-word names can be quoted (`+"garden shed"`) or hyphenated
+ * (`>in-progress`); group and column names match case-insensitively. A bare
+ * `pin` only counts at the end of the line, so "pin the poster" stays a title.
+ *
+ * Uses relative imports only — bundled into the stdio MCP server as well.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type CaptureToken =
+  | { kind: 'tag'; value: string; raw: string }
+  | { kind: 'group'; value: string; raw: string }
+  | { kind: 'column'; value: string; raw: string }
+  | { kind: 'task'; raw: string }
+  | { kind: 'due'; value: string; raw: string }
+  | { kind: 'pin'; raw: string };
+
+export type ParsedCapture = {
+  /** First line without tokens. */
+  title: string;
+  /** Remaining lines, untouched. */
+  body: string;
+  /** The whole text with the tokens stripped from the first line. */
+  text: string;
+  tags: string[];
+  group: string | null;
+  column: string | null;
+  isTask: boolean;
+  /** YYYY-MM-DD */
+  dueDate: string | null;
+  pinned: boolean;
+  /** In the order they appeared, for preview chips. */
+  tokens: CaptureToken[];
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// A word, or a sigil followed by a quoted name
+const WORD = /(?:[#+>]"[^"]*"|\S)+/g;
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function toDateString(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+/**
+ * `due:` values as local dates. Weekdays mean the next one, today included.
+ * Returns null for anything it doesn't understand.
+ */
+export function parseDueValue(value: string, today: Date = new Date()): string | null {
+  const v = value.trim().toLowerCase();
+  if (!v) return null;
+  if (v === 'today') return toDateString(today);
+  if (v === 'tomorrow' || v === 'tmr') return toDateString(addDays(today, 1));
+
+  const weekday = WEEKDAYS.findIndex((day) => v.length >= 3 && day.startsWith(v));
+  if (weekday !== -1) return toDateString(addDays(today, (weekday - today.getDay() + 7) % 7));
+
+  const relative = v.match(/^\+?(\d{1,3})([dw])$/);
+  if (relative) return toDateString(addDays(today, Number(relative[1]) * (relative[2] === 'w' ? 7 : 1)));
+
+  const iso = v.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    const date = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    return date.getMonth() === Number(iso[2]) - 1 ? toDateString(date) : null;
+  }
+  return null;
+}
+
+function unquote(name: string): string {
+  return name.startsWith('"') && name.endsWith('"') && name.length >= 2 ? name.slice(1, -1).trim() : name;
+}
+
+function readToken(word: string, today: Date): CaptureToken | null {
+  const lower = word.toLowerCase();
+  if (lower === '!task') return { kind: 'task', raw: word };
+  if (lower === '!pin') return { kind: 'pin', raw: word };
+  if (lower.startsWith('due:')) {
+    const value = parseDueValue(word.slice(4), today);
+    return value ? { kind: 'due', value, raw: word } : null;
+  }
+
+  const sigil = word[0];
+  const name = unquote(word.slice(1)).replace(/[.,;:!?]+$/, '');
+  // "#12" is an issue number and "+1" a vote, not a tag or group
+  if (!name || /^\d+$/.test(name)) return null;
+  if (sigil === '#') return { kind: 'tag', value: name, raw: word };
+  if (sigil === '+') return { kind: 'group', value: name, raw: word };
+  if (sigil === '>') return { kind: 'column', value: name, raw: word };
+  return null;
+}
+
+export function parseCaptureText(input: string, today: Date = new Date()): ParsedCapture {
+  const [firstLine = '', ...rest] = input.trim().split(/\r?\n/);
+  const words = firstLine.match(WORD) ?? [];
+
+  const tokens: Array<CaptureToken | null> = words.map((word) => readToken(word, today));
+  // Bare "pin" only in the trailing run of tokens
+  for (let i = words.length - 1; i >= 0; i--) {
+    if (tokens[i]) continue;
+    if (words[i].toLowerCase() !== 'pin') break;
+    tokens[i] = { kind: 'pin', raw: words[i] };
+  }
+
+  const found = tokens.filter((t): t is CaptureToken => t !== null);
+  const title = words.filter((_, i) => !tokens[i]).join(' ');
+  const body = rest.join('\n').trim();
+  // Later tokens win: "+shed … +garden" files under garden
+  const last = (kind: 'group' | 'column' | 'due') => {
+    const token = found.filter((t) => t.kind === kind).pop();
+    return token && 'value' in token ? token.value : null;
+  };
+
+  return {
+    title,
+    body,
+    text: [title, body].filter(Boolean).join('\n'),
+    tags: [...new Set(found.flatMap((t) => (t.kind === 'tag' ? [t.value] : [])))],
+    group: last('group'),
+    column: last('column'),
+    isTask: found.some((t) => t.kind === 'task'),
+    dueDate: last('due'),
+    pinned: found.some((t) => t.kind === 'pin'),
+    tokens: found,
+  };
+}
+
+/** Loose name match for +group / >column: case, spaces, dashes and underscores don't matter. */
+export function captureNameKey(name: string): string {
+  return name.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+export function findByCaptureName<T>(items: T[], name: string, nameOf: (item: T) => string): T | undefined {
+  const key = captureNameKey(name);
+  return items.find((item) => captureNameKey(nameOf(item)) === key);
+}
+
+export type CaptureTargets = {
+  groupId: string | null;
+  columnId: string | null;
+  /** Names that didn't match anything; the card is still created. */
+  notices: string[];
+};
+
+/** Looks up the +group and >column names of a parsed capture. */
+export async function resolveCaptureTargets(
+  supabase: SupabaseClient,
+  parsed: Pick<ParsedCapture, 'group' | 'column'>
+): Promise<CaptureTargets> {
+  const targets: CaptureTargets = { groupId: null, columnId: null, notices: [] };
+
+  if (parsed.group) {
+    const { data } = await supabase.from('project_groups').select('id, name');
+    const group = findByCaptureName(data ?? [], parsed.group, (g) => g.name as string);
+    if (group) targets.groupId = group.id as string;
+    else targets.notices.push(`No project group named “${parsed.group}”`);
+  }
+
+  if (parsed.column) {
+    const { data } = await supabase.from('columns').select('id, title').is('deleted_at', null);
+    const column = findByCaptureName(data ?? [], parsed.column, (c) => c.title as string);
+    if (column) targets.columnId = column.id as string;
+    else targets.notices.push(`No column named “${parsed.column}”; saved to Ideas`);
+  }
+
+  return targets;
+}
@@ -0,0 +1,254 @@
+/**
+ * Per-column automation rules that run when a card enters or leaves a lane.
+ * Stored as JSON on `columns.rules` and applied server-side by every move path
+ * (board drags, completion toggles, widgets, MCP).
+ *
+ * Uses relative imports only — bundled into the stdio MCP server as well.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { addDays } from 'date-fns';
+import { PROJECT_EVENT_COLUMNS, recordProjectPatch, type ProjectEventOrigin } from './project-events';
+import { dayPlanIncludes, removeProjectFromDayPlan, type DayPlanConfig } from './day-plans';
+import { toProjectDateString } from './project-dates';
+import { spawnRecurringOccurrences } from './recurring-occurrences';
+import { DEFAULT_TAG_COLOR } from './constants';
+
+export type ColumnRuleTrigger = 'enter' | 'exit';
+
+export type ColumnRuleAction =
+  | { type: 'add-tag'; tag: string }
+  | { type: 'remove-tag'; tag: string }
+  | { type: 'mark-completed' }
+  | { type: 'set-due-date'; daysFromNow: number }
+  | { type: 'append-checklist'; items: string[] }
+  | { type: 'remove-from-day-plans' };
+
+export type ColumnRuleActionType = ColumnRuleAction['type'];
+
+export type ColumnRule = {
+  id: string;
+  trigger: ColumnRuleTrigger;
+  action: ColumnRuleAction;
+};
+
+export const COLUMN_RULE_ACTIONS: Array<{ type: ColumnRuleActionType; label: string }> = [
+  { type: 'add-tag', label: 'Add tag' },
+  { type: 'remove-tag', label: 'Remove tag' },
+  { type: 'mark-completed', label: 'Mark completed' },
+  { type: 'set-due-date', label: 'Set due date' },
+  { type: 'append-checklist', label: 'Append checklist' },
+  { type: 'remove-from-day-plans', label: 'Remove from day plans' },
+];
+
+/**
+ * A card moving from one lane to another; `from` is null when an idea lands on
+ * the board, `to` is null when a card goes back to Ideas (only exit rules run).
+ */
+export type ColumnTransition = { projectId: string; from: string | null; to: string | null };
+
+function parseAction(raw: unknown): ColumnRuleAction | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const a = raw as Record<string, unknown>;
+  switch (a.type) {
+    case 'add-tag':
+    case 'remove-tag': {
+      const tag = typeof a.tag === 'string' ? a.tag.trim() : '';
+      return tag ? { type: a.type, tag } : null;
+    }
+    case 'mark-completed':
+    case 'remove-from-day-plans':
+      return { type: a.type };
+    case 'set-due-date': {
+      const days = Number(a.daysFromNow);
+      return Number.isInteger(days) && days >= 0 && days <= 365 ? { type: a.type, daysFromNow: days } : null;
+    }
+    case 'append-checklist': {
+      const items = Array.isArray(a.items)
+        ? a.items.filter((i): i is string => typeof i === 'string').map((i) => i.trim()).filter(Boolean)
+        : [];
+      return items.length > 0 ? { type: a.type, items } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/** Drops malformed entries; safe to call on whatever is stored in the jsonb column. */
+export function parseColumnRules(raw: unknown): ColumnRule[] {
+  if (!Array.isArray(raw)) return [];
+  const rules: ColumnRule[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') continue;
+    const r = entry as Record<string, unknown>;
+    const action = parseAction(r.action);
+    if (!action || (r.trigger !== 'enter' && r.trigger !== 'exit') || typeof r.id !== 'string') continue;
+    rules.push({ id: r.id, trigger: r.trigger, action });
+  }
+  return rules;
+}
+
+export function describeColumnRule(rule: ColumnRule): string {
+  const when = rule.trigger === 'enter' ? 'On enter' : 'On exit';
+  const { action } = rule;
+  switch (action.type) {
+    case 'add-tag':
+      return `${when}: add #${action.tag}`;
+    case 'remove-tag':
+      return `${when}: remove #${action.tag}`;
+    case 'mark-completed':
+      return `${when}: mark completed`;
+    case 'set-due-date':
+      return action.daysFromNow === 0
+        ? `${when}: due today`
+        : `${when}: due in ${action.daysFromNow} day${action.daysFromNow === 1 ? '' : 's'}`;
+    case 'append-checklist':
+      return `${when}: append ${action.items.length}-item checklist`;
+    case 'remove-from-day-plans':
+      return `${when}: remove from day plans`;
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Appends unchecked task items, skipping any the card already has. */
+function appendChecklist(html: string | null | undefined, items: string[]): string | null {
+  const current = html ?? '';
+  const missing = items.map(escapeHtml).filter((item) => !current.includes(`<p>${item}</p>`));
+  if (missing.length === 0) return null;
+  const taskItems = missing
+    .map((item) => `<li data-type="taskItem" data-checked="false"><label><input type="checkbox"><span></span></label><div><p>${item}</p></div></li>`)
+    .join('');
+  return `${current}<ul data-type="taskList">${taskItems}</ul>`;
+}
+
+type RuleResult = { patch: Record<string, unknown>; removeFromDayPlans: boolean };
+
+/** Pure: folds the rules into a snake_case patch for one project row. */
+export function applyColumnRulesToRow(
+  row: Record<string, unknown>,
+  rules: ColumnRule[],
+  now: Date = new Date()
+): RuleResult {
+  const patch: Record<string, unknown> = {};
+  let removeFromDayPlans = false;
+  let tags = Array.isArray(row.tags) ? [...(row.tags as string[])] : [];
+  let tagsChanged = false;
+
+  for (const { action } of rules) {
+    switch (action.type) {
+      case 'add-tag':
+        if (!tags.includes(action.tag)) {
+          tags.push(action.tag);
+          tagsChanged = true;
+        }
+        break;
+      case 'remove-tag':
+        if (tags.includes(action.tag)) {
+          tags = tags.filter((t) => t !== action.tag);
+          tagsChanged = true;
+        }
+        break;
+      case 'mark-completed':
+        if (!row.is_completed) {
+          patch.is_completed = true;
+          patch.completed_at = now.toISOString();
+        }
+        break;
+      case 'set-due-date':
+        patch.due_date = toProjectDateString(addDays(now, action.daysFromNow));
+        break;
+      case 'append-checklist': {
+        const html = appendChecklist((patch.rich_content ?? row.rich_content) as string | null, action.items);
+        if (html !== null) patch.rich_content = html;
+        break;
+      }
+      case 'remove-from-day-plans':
+        removeFromDayPlans = true;
+        break;
+    }
+  }
+
+  if (tagsChanged) patch.tags = tags;
+  return { patch, removeFromDayPlans };
+}
+
+/**
+ * Runs exit rules of the lane each card left and enter rules of the lane it
+ * landed in; cards a `mark-completed` rule finishes spawn their next
+ * occurrence. Errors are logged, never thrown — the move itself already happened.
+ */
+export async function runColumnTransitionRules(
+  supabase: SupabaseClient,
+  transitions: ColumnTransition[],
+  origin: ProjectEventOrigin
+): Promise<void> {
+  const moves = transitions.filter((t) => t.from !== t.to);
+  if (moves.length === 0) return;
+
+  try {
+    const columnIds = [...new Set(moves.flatMap((m) => [m.from, m.to]).filter((id): id is string => id !== null))];
+    const { data: columns } = await supabase.from('columns').select('id, rules').in('id', columnIds);
+    const rulesByColumn = new Map((columns ?? []).map((c) => [c.id as string, parseColumnRules(c.rules)]));
+
+    const rulesFor = (move: ColumnTransition) => [
+      ...(move.from ? rulesByColumn.get(move.from) ?? [] : []).filter((r) => r.trigger === 'exit'),
+      ...(move.to ? rulesByColumn.get(move.to) ?? [] : []).filter((r) => r.trigger === 'enter'),
+    ];
+    const active = moves.filter((m) => rulesFor(m).length > 0);
+    if (active.length === 0) return;
+
+    const { data: rows } = await supabase
+      .from('projects')
+      .select(PROJECT_EVENT_COLUMNS)
+      .in('id', active.map((m) => m.projectId));
+
+    const dayPlanRemovals: string[] = [];
+    const completed: string[] = [];
+    for (const move of active) {
+      const row = (rows ?? []).find((r) => r.id === move.projectId) as Record<string, unknown> | undefined;
+      if (!row) continue;
+      const { patch, removeFromDayPlans } = applyColumnRulesToRow(row, rulesFor(move));
+      if (removeFromDayPlans) dayPlanRemovals.push(move.projectId);
+      if (Object.keys(patch).length === 0) continue;
+
+      if (Array.isArray(patch.tags)) {
+        for (const tag of patch.tags as string[]) await ensureTag(supabase, tag);
+      }
+      const { error } = await supabase.from('projects').update(patch).eq('id', move.projectId);
+      if (error) {
+        console.error('Error applying column rules:', error);
+        continue;
+      }
+      await recordProjectPatch(supabase, row, patch, origin);
+      if (patch.is_completed) completed.push(move.projectId);
+    }
+
+    if (dayPlanRemovals.length > 0) await removeFromDayPlans(supabase, dayPlanRemovals);
+    await spawnRecurringOccurrences(supabase, completed, origin);
+  } catch (error) {
+    console.error('Error running column rules:', error);
+  }
+}
+
+async function ensureTag(supabase: SupabaseClient, name: string) {
+  const { data } = await supabase.from('tags').select('name').eq('name', name).maybeSingle();
+  if (!data) await supabase.from('tags').insert({ name, color: DEFAULT_TAG_COLOR });
+}
+
+async function removeFromDayPlans(supabase: SupabaseClient, projectIds: string[]) {
+  const { data: widgets } = await supabase
+    .from('widgets')
+    .select('id, config')
+    .eq('type', 'day-plan')
+    .is('deleted_at', null);
+
+  for (const widget of widgets ?? []) {
+    let config = (widget.config ?? {}) as DayPlanConfig;
+    if (!projectIds.some((id) => dayPlanIncludes(config, id))) continue;
+    for (const id of projectIds) config = removeProjectFromDayPlan(config, id);
+    const { error } = await supabase.from('widgets').update({ config }).eq('id', widget.id);
+    if (error) console.error('Error removing card from day plan:', error);
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Pollinations cover URLs. The app enhances prompts with Gemini first
+ * (generateProjectImage); the MCP server and templates fall back to the raw
+ * style prompt when that isn't available.
+ *
+ * Uses relative imports only — bundled into the stdio MCP server as well.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/** Fills the {title} / {description} placeholders of a style or settings prompt. */
+export function fillCoverPrompt(template: string, project: { title: string; description?: string | null }): string {
+  return template
+    .replace('{title}', project.title)
+    .replace('{description}', project.description ?? '');
+}
+
+export function pollinationsImageUrl(prompt: string): string {
+  // Strip markdown formatting (Gemini output) and clean whitespace.
+  // Keep prompt short — long prompts can cause Pollinations to fail
+  const cleanPrompt = prompt
+    .replace(/[*_`#[\]]/g, '')
+    .replace(/\n+/g, ' ')
+    .replace(/\s{2,}/g, ' ')
+    .trim()
+    .slice(0, 150);
+
+  const encodedPrompt = encodeURIComponent(cleanPrompt);
+  const seed = Math.floor(Math.random() * 1000000);
+  // Use flux-schnell model: faster, more reliable. Avoid extra params that can cause failures.
+  return `https://image.pollinations.ai/prompt/${encodedPrompt}?seed=${seed}&model=flux-schnell&nologo=true`;
+}
+
+/**
+ * Cover for a new card in the given image style, without prompt enhancement.
+ * Uses the style's prompt, or the board's default prompt when the style has none.
+ */
+export async function styledCoverImageUrl(
+  supabase: SupabaseClient,
+  styleId: string,
+  project: { title: string; description?: string | null }
+): Promise<string | null> {
+  const { data: style } = await supabase
+    .from('image_styles')
+    .select('prompt_override')
+    .eq('id', styleId)
+    .maybeSingle();
+  if (!style) return null;
+
+  let template = (style.prompt_override as string | null) ?? '';
+  if (!template) {
+    const { data: settings } = await supabase.from('settings').select('ai_prompt_template').limit(1).maybeSingle();
+    template = (settings?.ai_prompt_template as string | null) ?? '';
+  }
+  if (!template) return null;
+  return pollinationsImageUrl(fillCoverPrompt(template, project));
+}
@@ -0,0 +1,69 @@
+/**
+ * Day plan widget storage. `projectIds` is the rolling plan that always shows
+ * on today; `days` holds lists planned ahead for specific dates (YYYY-MM-DD),
+ * which the calendar links to. A dated list merges into today's plan when its
+ * day arrives.
+ */
+import { addDays } from 'date-fns';
+import { toProjectDateString } from './project-dates';
+
+export type DayPlanConfig = {
+  projectIds?: string[];
+  days?: Record<string, string[]>;
+};
+
+/** Dated lists older than this are dropped on the next write. */
+const DAY_PLAN_HISTORY_DAYS = 90;
+
+export function todayPlanDate(): string {
+  return toProjectDateString(new Date());
+}
+
+export function getDayPlanProjectIds(
+  config: DayPlanConfig,
+  date: string,
+  today: string = todayPlanDate()
+): string[] {
+  const dated = config.days?.[date] ?? [];
+  if (date !== today) return dated;
+  return [...new Set([...(config.projectIds ?? []), ...dated])];
+}
+
+/** Returns the config with `date`'s list replaced; editing today rewrites the rolling plan. */
+export function setDayPlanProjectIds<T extends DayPlanConfig>(
+  config: T,
+  date: string,
+  projectIds: string[],
+  today: string = todayPlanDate()
+): T {
+  const cutoff = toProjectDateString(addDays(new Date(), -DAY_PLAN_HISTORY_DAYS));
+  const days: Record<string, string[]> = {};
+  for (const [day, ids] of Object.entries(config.days ?? {})) {
+    if (day >= cutoff && day !== date && ids.length > 0) days[day] = ids;
+  }
+
+  if (date === today) return { ...config, projectIds, days };
+  if (projectIds.length > 0) days[date] = projectIds;
+  return { ...config, days };
+}
+
+/** Drops a project from the rolling plan and every dated list. */
+export function removeProjectFromDayPlan<T extends DayPlanConfig>(config: T, projectId: string): T {
+  const days: Record<string, string[]> = {};
+  for (const [day, ids] of Object.entries(config.days ?? {})) {
+    const kept = ids.filter((id) => id !== projectId);
+    if (kept.length > 0) days[day] = kept;
+  }
+  return {
+    ...config,
+    projectIds: (config.projectIds ?? []).filter((id) => id !== projectId),
+    days,
+  };
+}
+
+export function dayPlanIncludes(config: DayPlanConfig, projectId: string): boolean {
+  return (
+    (config.projectIds ?? []).includes(projectId) ||
+    Object.values(config.days ?? {}).some((ids) => ids.includes(projectId))
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * Small fuzzy matcher for the command palette. Every query character has to
+ * appear in order; consecutive runs, word starts and an exact prefix score
+ * higher, and gaps cost a little.
+ */
+
+const WORD_BOUNDARY = /[\s\-_/.#+:]/;
+
+/** Score for `query` against `text`, or null when it doesn't match. Higher is better. */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.trim().toLowerCase();
+  if (!q) return 0;
+  const t = text.toLowerCase();
+
+  if (t === q) return 1000;
+  if (t.startsWith(q)) return 800 - t.length;
+  const substring = t.indexOf(q);
+  if (substring !== -1) {
+    const atWord = substring === 0 || WORD_BOUNDARY.test(t[substring - 1]);
+    return (atWord ? 600 : 400) - substring - t.length / 10;
+  }
+
+  let score = 0;
+  let ti = 0;
+  let run = 0;
+  for (const ch of q) {
+    if (ch === ' ') continue;
+    const found = t.indexOf(ch, ti);
+    if (found === -1) return null;
+    const atWord = found === 0 || WORD_BOUNDARY.test(t[found - 1]);
+    run = found === ti ? run + 1 : 0;
+    score += 10 + run * 5 + (atWord ? 15 : 0) - Math.min(found - ti, 10);
+    ti = found + 1;
+  }
+  return score;
+}
+
+/** Best score across an item's title and extra keywords. */
+export function bestFuzzyScore(query: string, texts: Array<string | null | undefined>): number | null {
+  let best: number | null = null;
+  for (const text of texts) {
+    if (!text) continue;
+    const score = fuzzyScore(query, text);
+    if (score !== null && (best === null || score > best)) best = score;
+  }
+  return best;
+}
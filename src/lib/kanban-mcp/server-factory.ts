@@ -1,10 +1,36 @@
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, type RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { v4 as uuidv4 } from 'uuid';
 import { z } from 'zod';
 
 import { getSupabaseUrl } from '../../utils/supabase/env';
 import { DEFAULT_TAG_COLOR } from '../constants';
+import {
+  PROJECT_EVENT_COLUMNS,
+  recordProjectEvents,
+  recordProjectPatch,
+} from '../project-events';
+import { isDoneColumn } from '../board-columns';
+import { runColumnTransitionRules } from '../column-rules';
+import { checkWipLimit, wipLimitMessage } from '../wip-limits';
+import { nextLanePosition } from '../lane-positions';
+import { spawnRecurringOccurrences } from '../recurring-occurrences';
+import { validateProjectParent } from '../project-tree';
+import { styledCoverImageUrl } from '../cover-images';
+import { parseCaptureText, resolveCaptureTargets } from '../capture-syntax';
+import {
+  PROJECT_TEMPLATE_COLUMNS,
+  getProjectTemplate,
+  instantiateProjectTemplate,
+  mapProjectTemplate,
+} from '../project-templates';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  searchProjectIndex,
+  snippetToMarkdown,
+  toPrefixTsQuery,
+} from '../project-search';
 
 export function createServiceClientFromEnv(): SupabaseClient {
   const url = getSupabaseUrl();
@@ -26,6 +52,7 @@ async function getFirstColumnId(supabase: SupabaseClient): Promise<string> {
   const { data } = await supabase
     .from('columns')
     .select('id')
+    .is('deleted_at', null)
     .order('order', { ascending: true })
     .limit(1);
   return data?.[0]?.id ?? 'todo';
@@ -54,95 +81,164 @@ async function moveIdeaToKanbanImpl(
   supabase: SupabaseClient,
   ideaId: string,
   columnId: string
-): Promise<{ error?: string }> {
-  const { data: columnProjects } = await supabase
+): Promise<{ error?: string; warning?: string }> {
+  const position = await nextLanePosition(supabase, columnId);
+
+  const { data: before } = await supabase
     .from('projects')
-    .select('position')
-    .eq('status', columnId)
-    .or('is_idea.is.null,is_idea.eq.false');
+    .select('id, status, is_idea, is_completed')
+    .eq('id', ideaId)
+    .maybeSingle();
+
+  const { data: column } = await supabase
+    .from('columns')
+    .select('role')
+    .eq('id', columnId)
+    .is('deleted_at', null)
+    .maybeSingle();
+  if (!column) return { error: `Column ${columnId} not found` };
+
+  // Lanes set to 'block' refuse the move; 'warn' lanes accept it and say so
+  const wip = await checkWipLimit(supabase, columnId);
+  if (wip?.blocked) return { error: `${wipLimitMessage(wip)}; move refused` };
 
-  const maxPosition = columnProjects?.length ?? 0;
+  const patch: Record<string, unknown> = {
+    is_idea: false,
+    status: columnId,
+    position,
+  };
+  // Same rule as the board: landing in a Done-role lane completes the card
+  if (isDoneColumn(column)) {
+    patch.is_completed = true;
+    if (!before?.is_completed) patch.completed_at = new Date().toISOString();
+  }
 
   const { error } = await supabase
     .from('projects')
-    .update({
-      is_idea: false,
-      status: columnId,
-      position: maxPosition,
-    })
+    .update(patch)
     .eq('id', ideaId);
 
   if (error) return { error: error.message };
-  return {};
+  await recordProjectPatch(supabase, before, patch, 'mcp');
+  await runColumnTransitionRules(supabase, [{ projectId: ideaId, from: null, to: columnId }], 'mcp');
+  if (patch.is_completed && !before?.is_completed) await spawnRecurringOccurrences(supabase, [ideaId], 'mcp');
+  return wip ? { warning: wipLimitMessage(wip) } : {};
 }
 
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD');
+
 function jsonResult(obj: unknown) {
   return {
     content: [{ type: 'text' as const, text: JSON.stringify(obj, null, 2) }],
   };
 }
 
+/** Validates a parent card and places the child after its existing siblings. */
+async function childPlacement(
+  supabase: SupabaseClient,
+  childId: string,
+  parentId: string
+): Promise<{ parent_id: string; child_position: number } | { error: string }> {
+  const problem = await validateProjectParent(supabase, childId, parentId);
+  if (problem) return { error: problem };
+  const { count } = await supabase
+    .from('projects')
+    .select('*', { count: 'exact', head: true })
+    .eq('parent_id', parentId);
+  return { parent_id: parentId, child_position: count ?? 0 };
+}
+
 const MCP_INSTRUCTIONS = `Workflow for new items (follow unless the user already specified everything):
 
 1) **Placement** — Before calling create_idea, ask: keep it in the **Ideas bin** only, or put it **on the Kanban board** in a specific column? If they want a column, call list_columns first; let them pick a column by name or id.
 
 2) **Missing fields** — If title, tags, description, link, or parent project are unclear, ask **one concise follow-up** (bullet list is fine). Offer optional extras: "Anything else—tags, link, nest under another card?"
 
-3) **Tools** — create_idea always creates an **idea** (Ideas bin). To land **directly in a column**, still create_idea then move_idea_to_kanban with the chosen column_id. Use update_project to add tags, description, or parent_project_id after the fact.
+3) **Tools** — create_idea creates an **idea** (Ideas bin). To land **directly in a column**, end the title with \`>column-name\` or call move_idea_to_kanban with the chosen column_id afterwards. Use update_project to add tags, description, a project group (parent_project_id) or a parent card (parent_id) after the fact.
+
+4) **Templates** — If the user mentions a kind of project they have a template for (see list_templates), prefer create_from_template: it fills in notes, checklists, materials, tags and group.
+
+5) **Linking** — Use search_projects when the user might want to attach to an existing card or match tags to existing names.`;
 
-4) **Linking** — Use search_projects when the user might want to attach to an existing card or match tags to existing names.`;
+const READ_ONLY_INSTRUCTIONS = `This connection is **read-only**: search and list the board, but there are no tools to create or change cards. If the user wants to add or edit something, tell them to use the app or a connection with full access.`;
 
-export function createKanbanMcpServer(supabase: SupabaseClient): McpServer {
+/**
+ * `readOnly` leaves out every tool that writes (for tokens scoped to reading
+ * the board, see lib/api-tokens).
+ */
+export function createKanbanMcpServer(
+  supabase: SupabaseClient,
+  { readOnly = false }: { readOnly?: boolean } = {}
+): McpServer {
   const server = new McpServer(
     {
       name: 'tiny-workshop-kanban',
       version: '1.0.0',
     },
     {
-      instructions: MCP_INSTRUCTIONS,
+      instructions: readOnly ? READ_ONLY_INSTRUCTIONS : MCP_INSTRUCTIONS,
     }
   );
+  const writeTools: RegisteredTool[] = [];
 
   server.registerTool(
     'search_projects',
     {
       description:
-        'Search projects and ideas by title/description substring. Use to find existing work to link or tag.',
+        'Full-text search over projects and ideas: title, tags, description, notes, materials and plans. Results are ranked best match first with a snippet (**bold** marks hits); archived cards are included and have archived_at set. Use to find existing work to link or tag. Page with limit/offset.',
       inputSchema: {
-        query: z.string().describe('Substring to match (case-insensitive)'),
+        query: z.string().describe('Words to search for; partial words match as prefixes. Empty lists the newest cards.'),
         is_idea: z
           .boolean()
           .optional()
           .describe(
             'If true, only ideas; if false, only board projects; omit for both'
           ),
+        is_completed: z.boolean().optional().describe('If set, only completed (true) or open (false) cards'),
+        limit: z.number().int().min(1).max(MAX_SEARCH_LIMIT).optional().describe(`Page size (default ${DEFAULT_SEARCH_LIMIT})`),
+        offset: z.number().int().min(0).optional().describe('Results to skip, for the next page'),
       },
     },
-    async ({ query, is_idea: isIdea }) => {
-      let req = supabase
-        .from('projects')
-        .select(
-          'id, title, description, tags, parent_project_id, status, is_idea, created_at'
-        )
-        .order('created_at', { ascending: false })
-        .limit(200);
+    async ({ query, is_idea: isIdea, is_completed: isCompleted, limit, offset }) => {
+      const columns =
+        'id, title, description, tags, parent_project_id, parent_id, status, is_idea, is_completed, start_date, due_date, created_at, archived_at';
+
+      if (!toPrefixTsQuery(query)) {
+        const pageSize = limit ?? DEFAULT_SEARCH_LIMIT;
+        const from = offset ?? 0;
+        let req = supabase
+          .from('projects')
+          .select(columns, { count: 'exact' })
+          .is('deleted_at', null)
+          .order('created_at', { ascending: false })
+          .range(from, from + pageSize - 1);
+        if (isIdea !== undefined) req = req.eq('is_idea', isIdea);
+        if (isCompleted !== undefined) req = req.eq('is_completed', isCompleted);
+        const { data, count, error } = await req;
+        if (error) return jsonResult({ error: error.message });
+        return jsonResult({ projects: data ?? [], total: count ?? 0, offset: from });
+      }
 
-      if (isIdea === true) req = req.eq('is_idea', true);
-      else if (isIdea === false) req = req.eq('is_idea', false);
+      let page;
+      try {
+        page = await searchProjectIndex(supabase, query, { isIdea, isCompleted, limit, offset });
+      } catch (err) {
+        return jsonResult({ error: err instanceof Error ? err.message : String(err) });
+      }
 
-      const { data: rows, error } = await req;
+      const ids = page.matches.map((m) => m.id);
+      const { data: rows, error } = ids.length
+        ? await supabase.from('projects').select(columns).in('id', ids)
+        : { data: [], error: null };
       if (error) return jsonResult({ error: error.message });
 
-      const q = query.trim().toLowerCase();
-      const filtered = q.length
-        ? (rows ?? []).filter(
-            (p) =>
-              (p.title && p.title.toLowerCase().includes(q)) ||
-              (p.description && p.description.toLowerCase().includes(q))
-          )
-        : (rows ?? []);
-
-      return jsonResult({ projects: filtered.slice(0, 50) });
+      const byId = new Map((rows ?? []).map((row) => [row.id as string, row]));
+      const projects = page.matches
+        .filter((m) => byId.has(m.id))
+        .map((m) => ({ ...byId.get(m.id), rank: m.rank, snippet: snippetToMarkdown(m.snippet) }));
+      return jsonResult({ projects, total: page.total, offset: page.offset });
     }
   );
 
@@ -161,7 +257,8 @@ export function createKanbanMcpServer(supabase: SupabaseClient): McpServer {
 
       const { data: projects, error: e2 } = await supabase
         .from('projects')
-        .select('tags');
+        .select('tags')
+        .is('deleted_at', null);
       if (e2) return jsonResult({ error: e2.message });
 
       const map = new Map<string, { name: string; color?: string }>();
@@ -185,26 +282,27 @@ export function createKanbanMcpServer(supabase: SupabaseClient): McpServer {
     'list_columns',
     {
       description:
-        'List Kanban columns (id and title). Use column id with move_idea_to_kanban.',
+        'List Kanban columns (id, title and role: backlog, todo, in-progress, done or custom). Use column id with move_idea_to_kanban; moving into a done-role column marks the card completed.',
       inputSchema: {},
     },
     async () => {
       const { data, error } = await supabase
         .from('columns')
-        .select('id, title, order')
+        .select('id, title, order, role, wip_limit, wip_enforcement')
+        .is('deleted_at', null)
         .order('order', { ascending: true });
       if (error) return jsonResult({ error: error.message });
       return jsonResult({ columns: data ?? [] });
     }
   );
 
-  server.registerTool(
+  writeTools.push(server.registerTool(
     'create_idea',
     {
       description:
-        'Create a new idea in the Ideas bin (is_idea=true). Optionally set tags and parent project.',
+        'Create a new idea in the Ideas bin (is_idea=true). Optionally set tags, a project group, or a parent card to nest under as a sub-project. The title understands the quick-capture tokens #tag, +group, >column (lands on the board), !task, due:friday and pin; they are stripped from the title, and explicit parameters win over them.',
       inputSchema: {
-        title: z.string().describe('Card title'),
+        title: z.string().describe('Card title, optionally with inline tokens, e.g. "Fix gate hinge #garden >todo due:sat"'),
         description: z.string().optional().describe('Optional short description'),
         rich_content: z
           .string()
@@ -215,7 +313,14 @@ export function createKanbanMcpServer(supabase: SupabaseClient): McpServer {
           .string()
           .optional()
           .nullable()
-          .describe('UUID of parent project to nest under'),
+          .describe('UUID of the project group to file the card under'),
+        parent_id: z
+          .string()
+          .optional()
+          .nullable()
+          .describe('UUID of a parent card (project or idea) to nest under as a sub-project'),
+        start_date: isoDate.optional().nullable().describe('Optional start date (YYYY-MM-DD)'),
+        due_date: isoDate.optional().nullable().describe('Optional due date (YYYY-MM-DD)'),
       },
     },
     async ({
@@ -224,44 +329,146 @@ export function createKanbanMcpServer(supabase: SupabaseClient): McpServer {
       rich_content: richContent,
       tags,
       parent_project_id: parentProjectId,
+      parent_id: parentId,
+      start_date: startDate,
+      due_date: dueDate,
     }) => {
       const id = uuidv4();
+      const placement = parentId ? await childPlacement(supabase, id, parentId) : null;
+      if (placement && 'error' in placement) return jsonResult({ error: placement.error });
+      const parsed = parseCaptureText(title);
+      const targets = await resolveCaptureTargets(supabase, {
+        group: parentProjectId === undefined ? parsed.group : null,
+        column: parsed.column,
+      });
       const status = await getFirstColumnId(supabase);
-      const tagList = tags ?? [];
+      const tagList = [...new Set([...(tags ?? []), ...parsed.tags])];
       for (const t of tagList) {
         await ensureTagExists(supabase, t.trim()).catch(() => undefined);
       }
       const cleanedTags = tagList.map((t) => t.trim()).filter(Boolean);
+      const cleanTitle = (parsed.title || title).slice(0, 500);
+      const body = [description, parsed.body].filter(Boolean).join('\n\n');
 
       const { error } = await supabase.from('projects').insert({
         id,
-        title: title.slice(0, 500),
-        description: description?.slice(0, 2000) ?? null,
+        title: cleanTitle,
+        description: body ? body.slice(0, 2000) : null,
         rich_content: richContent ?? null,
         tags: cleanedTags.length > 0 ? cleanedTags : null,
-        parent_project_id: parentProjectId ?? null,
+        parent_project_id: parentProjectId !== undefined ? parentProjectId : targets.groupId,
+        ...(placement ?? {}),
+        start_date: startDate ?? null,
+        due_date: dueDate !== undefined ? dueDate : parsed.dueDate,
         status,
         position: 0,
         is_idea: true,
-        is_task: false,
+        is_task: parsed.isTask,
+        pinned: parsed.pinned,
       });
 
       if (error) return jsonResult({ error: error.message });
-      return jsonResult({ id, title, status: 'created' });
+      await recordProjectEvents(supabase, id, [{ kind: 'created', changes: {} }], 'mcp');
+
+      const warnings = [...targets.notices];
+      let placed = 'created';
+      if (targets.columnId) {
+        const moved = await moveIdeaToKanbanImpl(supabase, id, targets.columnId);
+        if (moved.error) warnings.push(moved.error);
+        else placed = 'created_on_board';
+        if (moved.warning) warnings.push(moved.warning);
+      }
+      return jsonResult({ id, title: cleanTitle, status: placed, ...(warnings.length > 0 ? { warnings } : {}) });
     }
-  );
+  ));
 
   server.registerTool(
+    'list_templates',
+    {
+      description:
+        'List project templates: name, description, tags, project group, default column, materials and whether cards are tasks. Use a template id with create_from_template.',
+      inputSchema: {},
+    },
+    async () => {
+      const { data, error } = await supabase
+        .from('project_templates')
+        .select(PROJECT_TEMPLATE_COLUMNS)
+        .order('position', { ascending: true });
+      if (error) return jsonResult({ error: error.message });
+      const templates = (data ?? []).map((row) => {
+        const t = mapProjectTemplate(row);
+        return {
+          id: t.id,
+          name: t.name,
+          description: t.description,
+          tags: t.tags,
+          parent_project_id: t.groupId,
+          default_column_id: t.defaultColumnId,
+          is_task: t.isTask,
+          materials: t.materials.map((m) => m.text),
+          has_cover_style: Boolean(t.imageStyleId),
+        };
+      });
+      return jsonResult({ templates });
+    }
+  );
+
+  writeTools.push(server.registerTool(
+    'create_from_template',
+    {
+      description:
+        "Create a card from a template (see list_templates): copies its notes with checklists unticked, materials, tags and project group, and adds a cover in the template's style. Lands in column_id, else the template's column, else the first column; as_idea puts it in the Ideas bin instead.",
+      inputSchema: {
+        template_id: z.string().describe('UUID of the template'),
+        title: z.string().describe('Card title'),
+        column_id: z.string().optional().describe("UUID of the column (overrides the template's column)"),
+        as_idea: z.boolean().optional().describe('If true, create an idea in the Ideas bin'),
+      },
+    },
+    async ({ template_id: templateId, title, column_id: columnId, as_idea: asIdea }) => {
+      const template = await getProjectTemplate(supabase, templateId);
+      if (!template) return jsonResult({ error: `Template ${templateId} not found` });
+
+      const imageUrl = template.imageStyleId
+        ? await styledCoverImageUrl(supabase, template.imageStyleId, {
+            title,
+            description: template.description,
+          }).catch(() => null)
+        : null;
+
+      const result = await instantiateProjectTemplate(supabase, template, {
+        title,
+        columnId,
+        asIdea,
+        imageUrl,
+        origin: 'mcp',
+      });
+      if ('error' in result) return jsonResult({ error: result.error });
+      return jsonResult({
+        id: result.id,
+        title,
+        column_id: asIdea ? null : result.status,
+        template: template.name,
+        status: 'created',
+        ...(result.warning ? { warning: result.warning } : {}),
+      });
+    }
+  ));
+
+  writeTools.push(server.registerTool(
     'update_project',
     {
       description:
-        'Update an existing project or idea: title, description, tags, parent_project_id.',
+        'Update an existing project or idea: title, description, tags, parent_project_id (project group), parent_id (parent card; null un-nests), start_date, due_date (null clears a date).',
       inputSchema: {
         id: z.string().describe('Project UUID'),
         title: z.string().optional(),
         description: z.string().nullable().optional(),
         tags: z.array(z.string()).optional(),
-        parent_project_id: z.string().nullable().optional(),
+        parent_project_id: z.string().nullable().optional().describe('Project group UUID, or null to ungroup'),
+        parent_id: z.string().nullable().optional().describe('Parent card UUID, or null to move to the top level'),
+        start_date: isoDate.nullable().optional().describe('YYYY-MM-DD, or null to clear'),
+        due_date: isoDate.nullable().optional().describe('YYYY-MM-DD, or null to clear'),
       },
     },
     async ({
@@ -270,6 +477,9 @@ export function createKanbanMcpServer(supabase: SupabaseClient): McpServer {
       description,
       tags,
       parent_project_id: parentProjectId,
+      parent_id: parentId,
+      start_date: startDate,
+      due_date: dueDate,
     }) => {
       const db: Record<string, unknown> = {};
       if (title !== undefined) db.title = title;
@@ -283,18 +493,34 @@ export function createKanbanMcpServer(supabase: SupabaseClient): McpServer {
       if (parentProjectId !== undefined) {
         db.parent_project_id = parentProjectId;
       }
+      if (parentId !== undefined) {
+        const placement = parentId
+          ? await childPlacement(supabase, id, parentId)
+          : { parent_id: null, child_position: 0 };
+        if ('error' in placement) return jsonResult({ error: placement.error });
+        Object.assign(db, placement);
+      }
+      if (startDate !== undefined) db.start_date = startDate;
+      if (dueDate !== undefined) db.due_date = dueDate;
+
+      const { data: before } = await supabase
+        .from('projects')
+        .select(PROJECT_EVENT_COLUMNS)
+        .eq('id', id)
+        .maybeSingle();
 
       const { error } = await supabase.from('projects').update(db).eq('id', id);
       if (error) return jsonResult({ error: error.message });
+      await recordProjectPatch(supabase, before, db, 'mcp');
       return jsonResult({ id, status: 'updated' });
     }
-  );
+  ));
 
-  server.registerTool(
+  writeTools.push(server.registerTool(
     'move_idea_to_kanban',
     {
       description:
-        'Move an idea onto the Kanban board into a column (clears is_idea). Use list_columns for ids.',
+        'Move an idea onto the Kanban board into a column (clears is_idea). Use list_columns for ids. Columns over their WIP limit either refuse the move or return a warning, depending on the column.',
       inputSchema: {
         idea_id: z.string().describe('UUID of the idea'),
         column_id: z.string().describe('UUID of the target column'),
@@ -307,9 +533,14 @@ export function createKanbanMcpServer(supabase: SupabaseClient): McpServer {
         idea_id: ideaId,
         column_id: columnId,
         status: 'moved',
+        ...(result.warning ? { warning: result.warning } : {}),
       });
     }
-  );
+  ));
+
+  if (readOnly) {
+    for (const tool of writeTools) tool.remove();
+  }
 
   return server;
 }
@@ -0,0 +1,86 @@
+/**
+ * Card order within a lane. `projects.position` is fractional: a moved card
+ * takes the midpoint between its new neighbours, so a move writes one row.
+ * The `move_project_in_lane` RPC picks the position under a per-lane lock and
+ * renumbers the lane when the gap runs out (migrations/2026-fractional-positions.sql).
+ *
+ * Uses relative imports only — bundled into the stdio MCP server as well.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/** Neighbours of the drop slot; the server prefers `afterId`, then `beforeId`, else the lane end. */
+export type LanePlacement = {
+  afterId?: string | null;
+  beforeId?: string | null;
+};
+
+/** Display order of a lane: pinned cards first, then by position. */
+export function compareLaneCards(
+  a: { pinned?: boolean | null; position: number },
+  b: { pinned?: boolean | null; position: number }
+): number {
+  if (Boolean(a.pinned) !== Boolean(b.pinned)) return a.pinned ? -1 : 1;
+  return a.position - b.position;
+}
+
+/** Optimistic position for a slot between two cards (null = lane edge). */
+export function positionBetween(after: number | null | undefined, before: number | null | undefined): number {
+  const hasAfter = typeof after === 'number';
+  const hasBefore = typeof before === 'number';
+  if (hasAfter && hasBefore) return (after + before) / 2;
+  if (hasAfter) return after + 1;
+  if (hasBefore) return before - 1;
+  return 0;
+}
+
+/**
+ * Neighbours of display slot `index` in `rest` (the lane in display order,
+ * without the moved card), taken only from cards pinned like the moved one.
+ * Positions order pinned and unpinned cards separately, and the server places
+ * the card by its neighbours' positions alone.
+ */
+export function laneNeighbours<T extends { pinned?: boolean | null; position: number }>(
+  rest: T[],
+  index: number,
+  pinned: boolean | null | undefined
+): { after: T | undefined; before: T | undefined } {
+  const samePin = (card: T) => Boolean(card.pinned) === Boolean(pinned);
+  return {
+    after: rest.slice(0, Math.max(index, 0)).findLast(samePin),
+    before: rest.slice(Math.max(index, 0)).find(samePin),
+  };
+}
+
+/** Position at the end of a lane's board cards (ideas and trashed cards don't count). */
+export async function nextLanePosition(supabase: SupabaseClient, columnId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('projects')
+    .select('position')
+    .eq('status', columnId)
+    .or('is_idea.is.null,is_idea.eq.false')
+    .is('deleted_at', null)
+    .order('position', { ascending: false })
+    .limit(1);
+  if (error) console.error('Error reading lane positions:', error);
+  return data?.[0] ? Number(data[0].position) + 1 : 0;
+}
+
+/**
+ * Writes the card's lane and position in one round trip. Only `status` and
+ * `position` change here; completion and history are the caller's business.
+ */
+export async function moveProjectInLane(
+  supabase: SupabaseClient,
+  projectId: string,
+  columnId: string,
+  placement: LanePlacement = {}
+): Promise<number> {
+  const { data, error } = await supabase.rpc('move_project_in_lane', {
+    p_project_id: projectId,
+    p_status: columnId,
+    p_after_id: placement.afterId ?? null,
+    p_before_id: placement.beforeId ?? null,
+  });
+  if (error) throw error;
+  return Number(data);
+}
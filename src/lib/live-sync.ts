@@ -0,0 +1,130 @@
+/**
+ * Push notifications for board data changed elsewhere (another tab or
+ * device, MCP, /api/capture). A transport only says *what* changed; the
+ * board refetches and reconciles with its local state (reconcileList).
+ *
+ * Pick the transport with NEXT_PUBLIC_LIVE_SYNC:
+ *   - `supabase` (default): Supabase Realtime postgres_changes.
+ *   - `sse`: /api/live, which relays Postgres LISTEN/NOTIFY — for local Postgres.
+ *   - `off`: no live updates.
+ * Both need migrations/2026-live-sync.sql.
+ */
+import type { RealtimePostgresChangesPayload, SupabaseClient } from '@supabase/supabase-js';
+
+export const LIVE_TABLES = ['projects', 'columns', 'tags', 'project_groups', 'widgets', 'standalone_plans'] as const;
+
+export type LiveTable = (typeof LIVE_TABLES)[number];
+
+export type LiveChange = {
+  table: LiveTable;
+  event: 'INSERT' | 'UPDATE' | 'DELETE';
+  id: string | null;
+};
+
+export type LiveTransportHandlers = {
+  onChange: (change: LiveChange) => void;
+  /**
+   * The connection was (re)established. Changes made while it was down were
+   * missed, so subscribers should refetch everything.
+   */
+  onConnect?: () => void;
+};
+
+/** Starts listening; returns the function that stops it. */
+export type LiveTransport = (handlers: LiveTransportHandlers) => () => void;
+
+export type LiveSyncMode = 'supabase' | 'sse' | 'off';
+
+export function liveSyncMode(value: string | undefined = process.env.NEXT_PUBLIC_LIVE_SYNC): LiveSyncMode {
+  return value === 'sse' || value === 'off' ? value : 'supabase';
+}
+
+export function isLiveTable(value: unknown): value is LiveTable {
+  return typeof value === 'string' && (LIVE_TABLES as readonly string[]).includes(value);
+}
+
+/** Validates a payload from either transport (or the NOTIFY trigger). */
+export function parseLiveChange(value: unknown): LiveChange | null {
+  if (!value || typeof value !== 'object') return null;
+  const { table, event, id } = value as Record<string, unknown>;
+  if (!isLiveTable(table)) return null;
+  if (event !== 'INSERT' && event !== 'UPDATE' && event !== 'DELETE') return null;
+  return { table, event, id: typeof id === 'string' ? id : null };
+}
+
+export function supabaseRealtimeTransport(supabase: SupabaseClient): LiveTransport {
+  return ({ onChange, onConnect }) => {
+    const channel = supabase.channel('board-live-sync');
+    for (const table of LIVE_TABLES) {
+      channel.on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table },
+        (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) => {
+          const row = (payload.eventType === 'DELETE' ? payload.old : payload.new) as Record<string, unknown>;
+          const change = parseLiveChange({ table: payload.table, event: payload.eventType, id: row?.id ?? row?.name });
+          if (change) onChange(change);
+        }
+      );
+    }
+    channel.subscribe((status) => {
+      if (status === 'SUBSCRIBED') onConnect?.();
+    });
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  };
+}
+
+export function eventSourceTransport(url = '/api/live'): LiveTransport {
+  return ({ onChange, onConnect }) => {
+    const source = new EventSource(url);
+    source.addEventListener('open', () => onConnect?.());
+    source.addEventListener('change', (event) => {
+      try {
+        const change = parseLiveChange(JSON.parse((event as MessageEvent<string>).data));
+        if (change) onChange(change);
+      } catch {
+        // Ignore malformed events
+      }
+    });
+    return () => source.close();
+  };
+}
+
+/**
+ * Merges freshly fetched rows into local state without needless re-renders:
+ * rows the server hasn't changed keep their local object (and with it any
+ * optimistic edits), and when nothing changed at all `local` itself comes back.
+ * Order and membership follow `incoming`.
+ */
+export function reconcileList<T extends { id: string }>(
+  local: T[],
+  incoming: T[],
+  same: (a: T, b: T) => boolean = sameJson
+): T[] {
+  const byId = new Map(local.map((item) => [item.id, item]));
+  let changed = local.length !== incoming.length;
+  const merged = incoming.map((item, index) => {
+    const current = byId.get(item.id);
+    if (current && same(current, item)) {
+      if (local[index] !== current) changed = true;
+      return current;
+    }
+    changed = true;
+    return item;
+  });
+  return changed ? merged : local;
+}
+
+export function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Projects carry updated_at: same version means the server row hasn't moved. */
+export function sameVersionedRow(
+  a: { updatedAt?: Date | string | null },
+  b: { updatedAt?: Date | string | null }
+): boolean {
+  if (!a.updatedAt || !b.updatedAt) return sameJson(a, b);
+  return new Date(a.updatedAt).getTime() === new Date(b.updatedAt).getTime();
+}
@@ -0,0 +1,104 @@
+/**
+ * Duplicating a card. Files the card owns in the `board-uploads` bucket are
+ * copied to new objects so each copy can be cleaned up on its own
+ * (deleteMediaFile removes the object and every reference to its URL).
+ * Anything hosted elsewhere (OG images, Pollinations covers) is shared.
+ */
+import { resetChecklist } from './recurrence';
+
+export type DuplicateProjectOptions = {
+  /** Tick state of task lists in the notes; reset leaves every item open. */
+  resetChecklists: boolean;
+  /** Clears the toBuy / toBuild flags on materials. */
+  resetMaterialFlags: boolean;
+  includePlans: boolean;
+  includeInspiration: boolean;
+  includeTags: boolean;
+  /** Project group (`parent_project_id`). */
+  includeGroup: boolean;
+};
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateProjectOptions = {
+  resetChecklists: true,
+  resetMaterialFlags: false,
+  includePlans: true,
+  includeInspiration: true,
+  includeTags: true,
+  includeGroup: true,
+};
+
+const BOARD_UPLOADS_PATH = '/storage/v1/object/public/board-uploads/';
+
+export type JsonItem = Record<string, unknown>;
+
+/** materials_list / plans / inspiration are JSON arrays, often stored stringified. */
+export function parseJsonList(raw: unknown): JsonItem[] {
+  let value = raw;
+  try {
+    while (typeof value === 'string') value = JSON.parse(value);
+  } catch {
+    return [];
+  }
+  return Array.isArray(value)
+    ? value.filter((item): item is JsonItem => Boolean(item) && typeof item === 'object')
+    : [];
+}
+
+/** Object name in the board-uploads bucket, or null for files hosted anywhere else. */
+export function boardUploadObjectName(url: string, supabaseHost: string | null): string | null {
+  if (!supabaseHost) return null;
+  try {
+    const parsed = new URL(url);
+    if (parsed.hostname.toLowerCase() !== supabaseHost) return null;
+    if (!parsed.pathname.startsWith(BOARD_UPLOADS_PATH)) return null;
+    const name = decodeURIComponent(parsed.pathname.slice(BOARD_UPLOADS_PATH.length));
+    return name && !name.includes('/') ? name : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Every file URL the copy will carry, for copying storage objects up front. */
+export function collectProjectFileUrls(parts: {
+  imageUrl?: string | null;
+  richContent?: string | null;
+  lists: JsonItem[][];
+}): string[] {
+  const urls = new Set<string>();
+  if (parts.imageUrl) urls.add(parts.imageUrl);
+  for (const list of parts.lists) {
+    for (const item of list) {
+      if (typeof item.url === 'string' && item.url) urls.add(item.url);
+    }
+  }
+  for (const match of (parts.richContent ?? '').matchAll(/\ssrc="([^"]+)"/g)) {
+    urls.add(match[1]);
+  }
+  return [...urls];
+}
+
+/** Fresh item ids (the editor keys on them) and file URLs swapped for the copied objects. */
+export function copyJsonList(
+  list: JsonItem[],
+  newId: () => string,
+  urlMap: Map<string, string>,
+  patch: Partial<JsonItem> = {}
+): JsonItem[] {
+  return list.map((item) => ({
+    ...item,
+    ...patch,
+    ...(item.id !== undefined ? { id: newId() } : {}),
+    ...(typeof item.url === 'string' && urlMap.has(item.url) ? { url: urlMap.get(item.url) } : {}),
+  }));
+}
+
+export function copyRichContent(
+  html: string | null | undefined,
+  urlMap: Map<string, string>,
+  resetChecklists: boolean
+): string | null {
+  let content = html ?? null;
+  if (!content) return content;
+  for (const [from, to] of urlMap) content = content.split(from).join(to);
+  return resetChecklists ? resetChecklist(content) : content;
+}
@@ -0,0 +1,47 @@
+/**
+ * Start/due date helpers shared by cards, widgets and the editor.
+ * Dates are stored as Postgres `date` (YYYY-MM-DD) and treated as local days.
+ */
+import { differenceInCalendarDays, format, parse, isValid } from 'date-fns';
+
+export type DueStatus = 'overdue' | 'due-today' | 'due-soon' | 'upcoming';
+
+/** Days ahead (inclusive) that count as "due soon". */
+export const DUE_SOON_DAYS = 3;
+
+export function parseProjectDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const parsed = parse(value.slice(0, 10), 'yyyy-MM-dd', new Date());
+  return isValid(parsed) ? parsed : null;
+}
+
+export function toProjectDateString(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/** Completed items are never overdue. */
+export function getDueStatus(
+  dueDate: string | null | undefined,
+  isCompleted: boolean | undefined,
+  today: Date = new Date()
+): DueStatus | null {
+  const due = parseProjectDate(dueDate);
+  if (!due || isCompleted) return null;
+  const days = differenceInCalendarDays(due, today);
+  if (days < 0) return 'overdue';
+  if (days === 0) return 'due-today';
+  if (days <= DUE_SOON_DAYS) return 'due-soon';
+  return 'upcoming';
+}
+
+/** Short label for badges: "Today", "Tomorrow", "3d overdue", "Mar 14". */
+export function formatDueLabel(dueDate: string | null | undefined, today: Date = new Date()): string {
+  const due = parseProjectDate(dueDate);
+  if (!due) return '';
+  const days = differenceInCalendarDays(due, today);
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Tomorrow';
+  if (days === -1) return 'Yesterday';
+  if (days < 0) return `${-days}d overdue`;
+  return format(due, due.getFullYear() === today.getFullYear() ? 'MMM d' : 'MMM d, yyyy');
+}
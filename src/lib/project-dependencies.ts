@@ -0,0 +1,47 @@
+/**
+ * Blocked-by relationships between projects. `projects.blocked_by` holds the
+ * ids of cards that have to be finished first; a card is blocked while any of
+ * them is still open. Ids that no longer resolve (trashed or purged cards) are
+ * ignored rather than cleaned up eagerly.
+ */
+
+export type DependencyNode = {
+  id: string;
+  blockedBy?: string[] | null;
+  isCompleted?: boolean | null;
+};
+
+/** Blockers of `project` that are known and not yet completed. */
+export function getOpenBlockers<T extends DependencyNode>(
+  project: Pick<DependencyNode, 'blockedBy'>,
+  byId: Map<string, T>
+): T[] {
+  return (project.blockedBy ?? [])
+    .map((id) => byId.get(id))
+    .filter((blocker): blocker is T => !!blocker && !blocker.isCompleted);
+}
+
+export function isProjectBlocked(
+  project: Pick<DependencyNode, 'blockedBy'>,
+  byId: Map<string, DependencyNode>
+): boolean {
+  return getOpenBlockers(project, byId).length > 0;
+}
+
+/** True when making `projectId` wait on `blockerId` would close a loop. */
+export function createsDependencyCycle(
+  projectId: string,
+  blockerId: string,
+  byId: Map<string, Pick<DependencyNode, 'blockedBy'>>
+): boolean {
+  const seen = new Set<string>();
+  const stack = [blockerId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === projectId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(byId.get(id)?.blockedBy ?? []));
+  }
+  return false;
+}
@@ -0,0 +1,211 @@
+/**
+ * Project activity history. Every project mutation (server actions, MCP tools,
+ * /api/capture) appends rows to `project_events` through these helpers so the
+ * editor can answer "when did this move?" and "who retagged this?".
+ *
+ * Uses relative imports only — bundled into the stdio MCP server as well.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type ProjectEventOrigin = 'ui' | 'mcp' | 'capture';
+
+export type ProjectEventKind =
+  | 'created'
+  | 'updated'
+  | 'moved'
+  | 'completed'
+  | 'reopened'
+  | 'moved_to_board'
+  | 'moved_to_ideas'
+  | 'pinned'
+  | 'unpinned'
+  | 'trashed'
+  | 'restored'
+  | 'archived'
+  | 'unarchived';
+
+/** `from`/`to` are omitted for heavy fields (rich content, materials, plans…). */
+export type ProjectFieldChange = { from?: unknown; to?: unknown };
+
+export type ProjectEvent = {
+  id: string;
+  projectId: string;
+  kind: ProjectEventKind;
+  origin: ProjectEventOrigin;
+  changes: Record<string, ProjectFieldChange>;
+  createdAt: string;
+};
+
+/** Row columns needed to diff a mutation; select these before writing. */
+export const PROJECT_EVENT_COLUMNS =
+  'id, title, description, rich_content, materials_list, plans, inspiration, image_url, tags, attachments, status, parent_project_id, is_task, is_completed, is_idea, pinned, start_date, due_date, blocked_by, recurrence, parent_id';
+
+/** Scalar fields whose before/after values are stored in the event. */
+const VALUE_FIELDS = ['title', 'description', 'image_url', 'tags', 'parent_project_id', 'is_task', 'start_date', 'due_date', 'blocked_by', 'recurrence', 'parent_id'];
+
+/** Large fields — history only notes that they changed. */
+const CONTENT_FIELDS = ['rich_content', 'materials_list', 'plans', 'inspiration', 'attachments'];
+
+/** Consecutive edits from the same origin within this window merge into one event. */
+const COALESCE_WINDOW_MS = 10 * 60 * 1000;
+
+type EventDraft = {
+  kind: ProjectEventKind;
+  changes: Record<string, ProjectFieldChange>;
+};
+
+function parseJsonish(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/** Key-order independent serialisation (jsonb does not preserve key order). */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/** Equality for stored field values: JSON strings parsed, empty and null alike. */
+export function sameValue(a: unknown, b: unknown): boolean {
+  const norm = (v: unknown) => {
+    const parsed = parseJsonish(v);
+    if (parsed === '' || (Array.isArray(parsed) && parsed.length === 0)) return null;
+    return parsed;
+  };
+  return stableStringify(norm(a)) === stableStringify(norm(b));
+}
+
+/**
+ * Turns a row (before) and the snake_case patch written to it into history
+ * entries. Column moves, completion flips, idea/board transitions and pinning
+ * get their own kinds; everything else lands in a single `updated` event.
+ */
+export function diffProjectEvents(
+  before: Record<string, unknown>,
+  patch: Record<string, unknown>
+): EventDraft[] {
+  const drafts: EventDraft[] = [];
+  const has = (field: string) =>
+    patch[field] !== undefined && !sameValue(before[field], patch[field]);
+
+  if (has('is_idea')) {
+    drafts.push({
+      kind: patch.is_idea ? 'moved_to_ideas' : 'moved_to_board',
+      changes: has('status') ? { status: { from: before.status, to: patch.status } } : {},
+    });
+  } else if (has('status')) {
+    drafts.push({ kind: 'moved', changes: { status: { from: before.status, to: patch.status } } });
+  }
+
+  if (has('is_completed')) {
+    drafts.push({ kind: patch.is_completed ? 'completed' : 'reopened', changes: {} });
+  }
+
+  if (has('pinned')) {
+    drafts.push({ kind: patch.pinned ? 'pinned' : 'unpinned', changes: {} });
+  }
+
+  const changes: Record<string, ProjectFieldChange> = {};
+  for (const field of VALUE_FIELDS) {
+    if (has(field)) changes[field] = { from: before[field] ?? null, to: patch[field] ?? null };
+  }
+  for (const field of CONTENT_FIELDS) {
+    if (has(field)) changes[field] = {};
+  }
+  if (Object.keys(changes).length > 0) drafts.push({ kind: 'updated', changes });
+
+  return drafts;
+}
+
+/**
+ * Persists history for one project. Failures are logged, never thrown — the
+ * mutation itself already succeeded and must not be rolled back over history.
+ */
+export async function recordProjectEvents(
+  supabase: SupabaseClient,
+  projectId: string,
+  drafts: EventDraft[],
+  origin: ProjectEventOrigin
+): Promise<void> {
+  if (drafts.length === 0) return;
+  try {
+    const rows: Array<Record<string, unknown>> = [];
+    for (const draft of drafts) {
+      if (draft.kind === 'updated' && (await coalesceUpdate(supabase, projectId, draft, origin))) {
+        continue;
+      }
+      rows.push({ project_id: projectId, kind: draft.kind, origin, changes: draft.changes });
+    }
+    if (rows.length === 0) return;
+    const { error } = await supabase.from('project_events').insert(rows);
+    if (error) console.error('Error recording project events:', error);
+  } catch (error) {
+    console.error('Error recording project events:', error);
+  }
+}
+
+/** Convenience for the common case: diff a before-row against a patch and record. */
+export async function recordProjectPatch(
+  supabase: SupabaseClient,
+  before: Record<string, unknown> | null | undefined,
+  patch: Record<string, unknown>,
+  origin: ProjectEventOrigin
+): Promise<void> {
+  if (!before?.id) return;
+  await recordProjectEvents(supabase, before.id as string, diffProjectEvents(before, patch), origin);
+}
+
+/**
+ * Autosave fires every few seconds while typing; fold those into the latest
+ * `updated` event instead of flooding the timeline. The original `from` wins.
+ */
+async function coalesceUpdate(
+  supabase: SupabaseClient,
+  projectId: string,
+  draft: EventDraft,
+  origin: ProjectEventOrigin
+): Promise<boolean> {
+  const { data: latest } = await supabase
+    .from('project_events')
+    .select('id, kind, origin, changes, created_at')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!latest || latest.kind !== 'updated' || latest.origin !== origin) return false;
+  if (Date.now() - new Date(latest.created_at).getTime() > COALESCE_WINDOW_MS) return false;
+
+  const merged: Record<string, ProjectFieldChange> = { ...(latest.changes ?? {}) };
+  for (const [field, change] of Object.entries(draft.changes)) {
+    const prev = merged[field];
+    merged[field] = prev && 'from' in prev ? { from: prev.from, to: change.to } : change;
+  }
+
+  const { error } = await supabase
+    .from('project_events')
+    .update({ changes: merged, created_at: new Date().toISOString() })
+    .eq('id', latest.id);
+  return !error;
+}
+
+export function mapProjectEvent(row: Record<string, unknown>): ProjectEvent {
+  return {
+    id: row.id as string,
+    projectId: row.project_id as string,
+    kind: row.kind as ProjectEventKind,
+    origin: row.origin as ProjectEventOrigin,
+    changes: (row.changes as Record<string, ProjectFieldChange>) ?? {},
+    createdAt: row.created_at as string,
+  };
+}
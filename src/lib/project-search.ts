@@ -0,0 +1,121 @@
+/**
+ * Full-text search over projects and ideas, backed by the `search_projects`
+ * Postgres function (see migrations/2026-project-search.sql). Used by the
+ * searchProjects server action and the MCP search tool.
+ *
+ * Uses relative imports only — bundled into the stdio MCP server as well.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/** Markers ts_headline puts around matched words in snippets. */
+export const SNIPPET_START = '⟦';
+export const SNIPPET_END = '⟧';
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 200;
+
+export type ProjectSearchOptions = {
+  /** true = ideas only, false = board cards only, omit for both. */
+  isIdea?: boolean;
+  /** true = completed only, false = open only, omit for both. */
+  isCompleted?: boolean;
+  limit?: number;
+  offset?: number;
+};
+
+export type ProjectSearchMatch = {
+  id: string;
+  title: string;
+  status: string;
+  tags: string[];
+  isIdea: boolean;
+  isCompleted: boolean;
+  rank: number;
+  /** Matching excerpt with SNIPPET_START / SNIPPET_END around hits. */
+  snippet: string;
+};
+
+export type ProjectSearchPage = {
+  matches: ProjectSearchMatch[];
+  total: number;
+  offset: number;
+  limit: number;
+};
+
+/**
+ * Turns free text into a prefix tsquery ("walnut she" → "walnut:* & she:*")
+ * so results update while typing. Returns null when nothing searchable is left.
+ */
+export function toPrefixTsQuery(query: string): string | null {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.length > 0 ? words.map((w) => `${w}:*`).join(' & ') : null;
+}
+
+export async function searchProjectIndex(
+  supabase: SupabaseClient,
+  query: string,
+  options: ProjectSearchOptions = {}
+): Promise<ProjectSearchPage> {
+  const limit = Math.min(Math.max(Math.floor(options.limit ?? DEFAULT_SEARCH_LIMIT), 1), MAX_SEARCH_LIMIT);
+  const offset = Math.max(Math.floor(options.offset ?? 0), 0);
+  const tsQuery = toPrefixTsQuery(query);
+  if (!tsQuery) return { matches: [], total: 0, offset, limit };
+
+  const { data, error } = await supabase.rpc('search_projects', {
+    search_query: tsQuery,
+    idea_filter: options.isIdea ?? null,
+    completed_filter: options.isCompleted ?? null,
+    result_limit: limit,
+    result_offset: offset,
+  });
+  if (error) throw new Error(`Search failed: ${error.message}`);
+
+  const rows = (data ?? []) as Array<{
+    id: string;
+    title: string;
+    status: string;
+    tags: string[] | null;
+    is_idea: boolean;
+    is_completed: boolean;
+    rank: number;
+    snippet: string | null;
+    total_count: number | string;
+  }>;
+  return {
+    matches: rows.map((row) => ({
+      id: row.id,
+      title: row.title,
+      status: row.status,
+      tags: row.tags ?? [],
+      isIdea: row.is_idea,
+      isCompleted: row.is_completed,
+      rank: row.rank,
+      snippet: row.snippet ?? '',
+    })),
+    total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+    offset,
+    limit,
+  };
+}
+
+/** Splits a snippet into plain and highlighted runs for rendering. */
+export function splitSnippet(snippet: string): Array<{ text: string; highlight: boolean }> {
+  const parts: Array<{ text: string; highlight: boolean }> = [];
+  for (const chunk of snippet.split(SNIPPET_START)) {
+    const end = chunk.indexOf(SNIPPET_END);
+    if (end === -1) {
+      if (chunk) parts.push({ text: chunk, highlight: false });
+      continue;
+    }
+    parts.push({ text: chunk.slice(0, end), highlight: true });
+    if (end + 1 < chunk.length) parts.push({ text: chunk.slice(end + 1), highlight: false });
+  }
+  return parts;
+}
+
+/** Snippet with hits wrapped in `**`, for plain-text consumers like MCP. */
+export function snippetToMarkdown(snippet: string): string {
+  return splitSnippet(snippet)
+    .map((part) => (part.highlight ? `**${part.text}**` : part.text))
+    .join('');
+}
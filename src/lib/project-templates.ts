@@ -0,0 +1,194 @@
+/**
+ * Project templates (`project_templates`): a saved body with task lists, a
+ * materials list, tags, a project group, the lane new cards land in and the
+ * AI style for their cover. New cards start with every checklist unticked.
+ *
+ * Uses relative imports only — bundled into the stdio MCP server as well.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import { DEFAULT_TAG_COLOR } from './constants';
+import { isDoneColumn } from './board-columns';
+import { runColumnTransitionRules } from './column-rules';
+import { nextLanePosition } from './lane-positions';
+import { recordProjectEvents, type ProjectEventOrigin } from './project-events';
+import { resetChecklist } from './recurrence';
+import { checkWipLimit, wipLimitMessage } from './wip-limits';
+
+export type TemplateMaterial = { text: string; toBuy: boolean; toBuild: boolean };
+
+export type ProjectTemplate = {
+  id: string;
+  name: string;
+  description: string | null;
+  richContent: string | null;
+  materials: TemplateMaterial[];
+  tags: string[];
+  /** Project group new cards are filed under. */
+  groupId: string | null;
+  /** Lane new cards land in; the first lane when unset or deleted. */
+  defaultColumnId: string | null;
+  /** AI image style for the cover; no cover when unset. */
+  imageStyleId: string | null;
+  isTask: boolean;
+  position: number;
+  createdAt: string;
+};
+
+export type ProjectTemplateInput = Omit<ProjectTemplate, 'id' | 'position' | 'createdAt'>;
+
+export const PROJECT_TEMPLATE_COLUMNS =
+  'id, name, description, rich_content, materials_list, tags, parent_project_id, default_column_id, image_style_id, is_task, position, created_at';
+
+/**
+ * Accepts a project's materials_list (JSON, sometimes double-encoded as a
+ * string) and keeps only what a template needs — item ids are per card.
+ */
+export function parseTemplateMaterials(raw: unknown): TemplateMaterial[] {
+  let list = raw;
+  if (typeof list === 'string') {
+    try {
+      list = JSON.parse(list);
+    } catch {
+      return [];
+    }
+  }
+  if (typeof list === 'string') return parseTemplateMaterials(list);
+  if (!Array.isArray(list)) return [];
+  return list
+    .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object')
+    .map((item) => ({
+      text: typeof item.text === 'string' ? item.text : '',
+      toBuy: Boolean(item.toBuy),
+      toBuild: Boolean(item.toBuild),
+    }))
+    .filter((item) => item.text.trim());
+}
+
+export function mapProjectTemplate(row: Record<string, unknown>): ProjectTemplate {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    description: (row.description as string | null) ?? null,
+    richContent: (row.rich_content as string | null) ?? null,
+    materials: parseTemplateMaterials(row.materials_list),
+    tags: (row.tags as string[] | null) ?? [],
+    groupId: (row.parent_project_id as string | null) ?? null,
+    defaultColumnId: (row.default_column_id as string | null) ?? null,
+    imageStyleId: (row.image_style_id as string | null) ?? null,
+    isTask: Boolean(row.is_task),
+    position: (row.position as number) ?? 0,
+    createdAt: row.created_at as string,
+  };
+}
+
+export function toTemplateRow(input: Partial<ProjectTemplateInput>): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  if (input.name !== undefined) row.name = input.name.trim();
+  if (input.description !== undefined) row.description = input.description?.trim() || null;
+  if (input.richContent !== undefined) row.rich_content = input.richContent || null;
+  if (input.materials !== undefined) row.materials_list = parseTemplateMaterials(input.materials);
+  if (input.tags !== undefined) row.tags = [...new Set(input.tags.map((t) => t.trim()).filter(Boolean))];
+  if (input.groupId !== undefined) row.parent_project_id = input.groupId;
+  if (input.defaultColumnId !== undefined) row.default_column_id = input.defaultColumnId;
+  if (input.imageStyleId !== undefined) row.image_style_id = input.imageStyleId;
+  if (input.isTask !== undefined) row.is_task = input.isTask;
+  return row;
+}
+
+export async function getProjectTemplate(supabase: SupabaseClient, id: string): Promise<ProjectTemplate | null> {
+  const { data, error } = await supabase
+    .from('project_templates')
+    .select(PROJECT_TEMPLATE_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+  if (error) console.error('Error loading project template:', error);
+  return data ? mapProjectTemplate(data) : null;
+}
+
+/** Explicit lane, else the template's (if it still exists), else the first lane. */
+async function resolveTemplateColumn(
+  supabase: SupabaseClient,
+  columnId: string | null
+): Promise<{ id: string; role: string | null } | null> {
+  if (columnId) {
+    const { data } = await supabase
+      .from('columns')
+      .select('id, role')
+      .eq('id', columnId)
+      .is('deleted_at', null)
+      .maybeSingle();
+    if (data) return data;
+  }
+  const { data } = await supabase
+    .from('columns')
+    .select('id, role')
+    .is('deleted_at', null)
+    .order('order', { ascending: true })
+    .limit(1);
+  return data?.[0] ?? null;
+}
+
+/**
+ * Creates a card from a template: lands at the end of its lane (or in the
+ * Ideas bin), with unticked checklists and fresh material ids. Lanes whose
+ * WIP limit blocks refuse the new card; 'warn' lanes accept it and say so.
+ */
+export async function instantiateProjectTemplate(
+  supabase: SupabaseClient,
+  template: ProjectTemplate,
+  options: {
+    title: string;
+    columnId?: string | null;
+    asIdea?: boolean;
+    imageUrl?: string | null;
+    origin: ProjectEventOrigin;
+  }
+): Promise<{ id: string; status: string; warning?: string } | { error: string }> {
+  const title = options.title.trim();
+  if (!title) return { error: 'A title is required' };
+
+  const column = await resolveTemplateColumn(supabase, options.columnId ?? template.defaultColumnId);
+  const status = column?.id ?? 'todo';
+  const asIdea = Boolean(options.asIdea);
+
+  const wip = asIdea ? null : await checkWipLimit(supabase, status);
+  if (wip?.blocked) return { error: `${wipLimitMessage(wip)}; card not created` };
+
+  const position = asIdea ? 0 : await nextLanePosition(supabase, status);
+
+  if (template.tags.length > 0) {
+    const { error: tagError } = await supabase
+      .from('tags')
+      .upsert(
+        template.tags.map((name) => ({ name, color: DEFAULT_TAG_COLOR })),
+        { onConflict: 'name', ignoreDuplicates: true }
+      );
+    if (tagError) console.error('Error creating template tags:', tagError);
+  }
+
+  // Same rule as the board: landing in a Done-role lane completes the card
+  const completed = !asIdea && column !== null && isDoneColumn(column);
+  const id = uuidv4();
+  const { error } = await supabase.from('projects').insert({
+    id,
+    title: title.slice(0, 500),
+    description: template.description,
+    rich_content: resetChecklist(template.richContent),
+    materials_list: JSON.stringify(template.materials.map((m) => ({ id: uuidv4(), ...m }))),
+    image_url: options.imageUrl ?? null,
+    tags: template.tags.length > 0 ? template.tags : null,
+    parent_project_id: template.groupId,
+    is_task: template.isTask,
+    is_idea: asIdea,
+    status,
+    position,
+    ...(completed ? { is_completed: true, completed_at: new Date().toISOString() } : {}),
+  });
+  if (error) return { error: error.message };
+
+  await recordProjectEvents(supabase, id, [{ kind: 'created', changes: {} }], options.origin);
+  // Lane entry rules apply as if the card had been moved in
+  if (!asIdea) await runColumnTransitionRules(supabase, [{ projectId: id, from: null, to: status }], options.origin);
+  return wip ? { id, status, warning: wipLimitMessage(wip) } : { id, status };
+}
@@ -0,0 +1,110 @@
+/**
+ * Sub-project tree. `projects.parent_id` points at another project (any
+ * depth); `parent_project_id` stays the project *group* a card belongs to.
+ * `checklist_total` / `checklist_done` are generated from `rich_content`, so
+ * card lists can show rollup progress without loading the body.
+ *
+ * Uses relative imports only — bundled into the stdio MCP server as well.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type TreeNode = {
+  id: string;
+  parentId?: string | null;
+  isCompleted?: boolean | null;
+  checklistTotal?: number | null;
+  checklistDone?: number | null;
+};
+
+export type ProjectRollup = {
+  /** Descendants at any depth. */
+  childrenTotal: number;
+  childrenDone: number;
+  /** Checklist items on the card itself and all of its descendants. */
+  checklistTotal: number;
+  checklistDone: number;
+};
+
+const TASK_ITEM = 'data-type="taskItem"';
+const CHECKED_ITEM = 'data-checked="true"';
+
+function occurrences(haystack: string, needle: string): number {
+  return haystack.split(needle).length - 1;
+}
+
+/** Same counts as the generated columns, for content still being edited. */
+export function countChecklist(html: string | null | undefined): { total: number; done: number } {
+  const content = html ?? '';
+  return { total: occurrences(content, TASK_ITEM), done: occurrences(content, CHECKED_ITEM) };
+}
+
+export function groupChildren<T extends TreeNode>(nodes: T[]): Map<string, T[]> {
+  const byParent = new Map<string, T[]>();
+  for (const node of nodes) {
+    if (!node.parentId) continue;
+    byParent.set(node.parentId, [...(byParent.get(node.parentId) ?? []), node]);
+  }
+  return byParent;
+}
+
+/** Rollups for every node that has descendants or checklist items. */
+export function computeRollups(nodes: TreeNode[]): Map<string, ProjectRollup> {
+  const byParent = groupChildren(nodes);
+  const rollups = new Map<string, ProjectRollup>();
+
+  const visit = (node: TreeNode, path: Set<string>): ProjectRollup => {
+    const cached = rollups.get(node.id);
+    if (cached) return cached;
+    const rollup: ProjectRollup = {
+      childrenTotal: 0,
+      childrenDone: 0,
+      checklistTotal: node.checklistTotal ?? 0,
+      checklistDone: node.checklistDone ?? 0,
+    };
+    for (const child of byParent.get(node.id) ?? []) {
+      if (path.has(child.id)) continue;
+      const sub = visit(child, new Set(path).add(child.id));
+      rollup.childrenTotal += 1 + sub.childrenTotal;
+      rollup.childrenDone += (child.isCompleted ? 1 : 0) + sub.childrenDone;
+      rollup.checklistTotal += sub.checklistTotal;
+      rollup.checklistDone += sub.checklistDone;
+    }
+    rollups.set(node.id, rollup);
+    return rollup;
+  };
+
+  for (const node of nodes) visit(node, new Set([node.id]));
+  for (const [id, rollup] of rollups) {
+    if (rollup.childrenTotal === 0 && rollup.checklistTotal === 0) rollups.delete(id);
+  }
+  return rollups;
+}
+
+/**
+ * Checks that `childId` can sit under `parentId`: the parent must exist and
+ * must not be the child itself or one of its descendants. Returns an error
+ * message, or null when the move is fine.
+ */
+export async function validateProjectParent(
+  supabase: SupabaseClient,
+  childId: string,
+  parentId: string
+): Promise<string | null> {
+  if (childId === parentId) return 'A project cannot be its own parent';
+
+  let current: string | null = parentId;
+  const seen = new Set<string>();
+  while (current) {
+    if (current === childId) return 'That would nest a project inside its own sub-project';
+    if (seen.has(current)) break;
+    seen.add(current);
+    const { data }: { data: { parent_id: string | null } | null } = await supabase
+      .from('projects')
+      .select('parent_id')
+      .eq('id', current)
+      .maybeSingle();
+    if (!data) return current === parentId ? `Parent project ${parentId} not found` : null;
+    current = data.parent_id;
+  }
+  return null;
+}
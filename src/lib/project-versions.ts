@@ -0,0 +1,176 @@
+/**
+ * Optimistic concurrency for project saves. `projects.updated_at` is the row
+ * version, bumped by a trigger on every write (migrations/2026-project-updated-at.sql).
+ * The editor sends the version it last saw; updateProject refuses the write
+ * when the row has moved on and hands back the newer copy instead.
+ */
+import { sameValue } from './project-events';
+
+/** Editor fields, as passed to updateProject, and the column each one writes. */
+export const VERSIONED_FIELDS = {
+  title: 'title',
+  description: 'description',
+  richContent: 'rich_content',
+  materialsList: 'materials_list',
+  plans: 'plans',
+  inspiration: 'inspiration',
+  imageUrl: 'image_url',
+  tags: 'tags',
+  attachments: 'attachments',
+  parent_project_id: 'parent_project_id',
+  is_task: 'is_task',
+  startDate: 'start_date',
+  dueDate: 'due_date',
+  blockedBy: 'blocked_by',
+  recurrence: 'recurrence',
+  parentId: 'parent_id',
+} as const;
+
+export type VersionedField = keyof typeof VERSIONED_FIELDS;
+
+export const FIELD_LABELS: Record<VersionedField, string> = {
+  title: 'Title',
+  description: 'Description',
+  richContent: 'Notes',
+  materialsList: 'Materials',
+  plans: 'Plans',
+  inspiration: 'Inspiration',
+  imageUrl: 'Cover image',
+  tags: 'Tags',
+  attachments: 'Attachments',
+  parent_project_id: 'Project group',
+  is_task: 'Type',
+  startDate: 'Start date',
+  dueDate: 'Due date',
+  blockedBy: 'Blocked by',
+  recurrence: 'Repeat',
+  parentId: 'Parent project',
+};
+
+/** updated_at plus every column in VERSIONED_FIELDS. */
+export const PROJECT_VERSION_COLUMNS =
+  'updated_at, title, description, rich_content, materials_list, plans, inspiration, image_url, tags, attachments, parent_project_id, is_task, start_date, due_date, blocked_by, recurrence, parent_id';
+
+/** A project's versioned fields in editor shape; JSON lists come back parsed. */
+export type ProjectSnapshot = Partial<Record<VersionedField, unknown>>;
+
+export type ProjectConflict = {
+  /** Version to send with "keep mine" so the retry overwrites this copy. */
+  updatedAt: string;
+  theirs: ProjectSnapshot;
+};
+
+export type ProjectSaveResult =
+  | { ok: true; updatedAt: string | null; snapshot: ProjectSnapshot | null }
+  | { ok: false; conflict: ProjectConflict }
+  /** The write itself failed; nothing was saved. */
+  | { ok: false; error: string };
+
+function parseList(value: unknown): unknown {
+  let parsed = value;
+  try {
+    while (typeof parsed === 'string') parsed = JSON.parse(parsed);
+  } catch {
+    return [];
+  }
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+export function projectSnapshot(row: Record<string, unknown>): ProjectSnapshot {
+  const snapshot: ProjectSnapshot = {};
+  for (const [field, column] of Object.entries(VERSIONED_FIELDS) as Array<[VersionedField, string]>) {
+    if (!(column in row)) continue;
+    const value = row[column];
+    snapshot[field] = field === 'materialsList' || field === 'plans' || field === 'inspiration'
+      ? parseList(value)
+      : value ?? null;
+  }
+  return snapshot;
+}
+
+/** Same instant, whatever the string form (Postgres vs Date#toISOString). */
+export function sameVersion(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a || !b) return !a && !b;
+  return new Date(a).getTime() === new Date(b).getTime();
+}
+
+/**
+ * Fields of `patch` that someone else changed since `base` was read — the
+ * ones a save would clobber. Empty means the newer copy only differs in
+ * fields this save doesn't touch, so it can be retried against that version.
+ */
+export function conflictingFields(
+  patch: Record<string, unknown>,
+  base: ProjectSnapshot,
+  theirs: ProjectSnapshot
+): VersionedField[] {
+  return (Object.keys(patch) as VersionedField[]).filter(
+    (field) => field in VERSIONED_FIELDS && !sameValue(base[field], theirs[field]) && !sameValue(patch[field], theirs[field])
+  );
+}
+
+/** Plain-text form of a field for the conflict diff: one line per paragraph or list item. */
+export function fieldText(field: VersionedField, value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (field === 'richContent' && typeof value === 'string') {
+    return value
+      .replace(/<li[^>]*data-checked=["']?true["']?[^>]*>/gi, '\n[x] ')
+      .replace(/<li[^>]*data-type=["']?taskItem["']?[^>]*>/gi, '\n[ ] ')
+      .replace(/<li[^>]*>/gi, '\n• ')
+      .replace(/<(br|\/p|\/h\d|\/blockquote|\/pre)[^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&')
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .join('\n');
+  }
+  if (Array.isArray(value)) {
+    return value
+      .map((item) => {
+        if (!item || typeof item !== 'object') return String(item);
+        const record = item as Record<string, unknown>;
+        return String(record.text ?? record.name ?? record.url ?? JSON.stringify(record));
+      })
+      .join('\n');
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export type DiffLine = { kind: 'same' | 'theirs' | 'mine'; text: string };
+
+/** Line diff by longest common subsequence — sized for one field, not whole documents. */
+export function diffLines(theirs: string, mine: string): DiffLine[] {
+  const a = theirs ? theirs.split('\n') : [];
+  const b = mine ? mine.split('\n') : [];
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ kind: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ kind: 'theirs', text: a[i++] });
+    } else {
+      lines.push({ kind: 'mine', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ kind: 'theirs', text: a[i++] });
+  while (j < b.length) lines.push({ kind: 'mine', text: b[j++] });
+  return lines;
+}
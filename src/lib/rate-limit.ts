@@ -0,0 +1,166 @@
+/**
+ * Fixed-window rate limits for the bearer routes (/api/capture, /api/mcp) and
+ * for outbound link-preview fetches. Counters live in a RateLimitStore: in
+ * memory for a single long-lived process, or in the `rate_limits` table
+ * (migrations/2026-rate-limits.sql) so every Netlify function instance shares
+ * them. RATE_LIMIT_STORE picks one; the default is postgres in production and
+ * memory otherwise.
+ *
+ * Limits per minute, 0 to turn one off:
+ *  - IP_RATE_LIMIT_PER_MINUTE (default 120) per client IP and route, checked
+ *    before auth so token guessing is slowed down too. The IP is only read from
+ *    headers a trusted proxy sets (RATE_LIMIT_TRUSTED_PROXY, see clientIp);
+ *    without one, all callers share a single bucket per route
+ *  - CAPTURE_RATE_LIMIT_PER_MINUTE (default 30) per token on /api/capture
+ *  - MCP_RATE_LIMIT_PER_MINUTE (default 120) per token on /api/mcp
+ *  - LINK_PREVIEW_FETCHES_PER_MINUTE (default 20) across the whole app
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type RateLimitHit = { count: number; resetAt: number };
+
+export interface RateLimitStore {
+  /** Counts one hit on `key` in its current window and returns the window's total. */
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+export type RateLimitRule = { key: string; limit: number; windowMs: number };
+
+export type RateLimitResult = { ok: true } | { ok: false; retryAfterSeconds: number };
+
+const MINUTE_MS = 60_000;
+/** The memory store drops finished windows once it holds this many keys. */
+const MEMORY_SWEEP_SIZE = 1000;
+
+const DEFAULT_LIMITS = {
+  ip: 120,
+  capture: 30,
+  mcp: 120,
+  linkPreview: 20,
+};
+
+export function memoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, RateLimitHit>();
+  return {
+    async hit(key, windowMs) {
+      const now = Date.now();
+      if (windows.size >= MEMORY_SWEEP_SIZE) {
+        for (const [k, w] of windows) if (w.resetAt <= now) windows.delete(k);
+      }
+      const current = windows.get(key);
+      const next =
+        current && current.resetAt > now
+          ? { count: current.count + 1, resetAt: current.resetAt }
+          : { count: 1, resetAt: now + windowMs };
+      windows.set(key, next);
+      return next;
+    },
+  };
+}
+
+/**
+ * Counts through the `rate_limit_hit` function. If the table is missing or
+ * the call fails, the hit is let through: a broken limiter shouldn't take
+ * capture down with it.
+ */
+export function postgresRateLimitStore(supabase: SupabaseClient): RateLimitStore {
+  return {
+    async hit(key, windowMs) {
+      const { data, error } = await supabase.rpc('rate_limit_hit', { p_key: key, p_window_ms: windowMs });
+      const row = Array.isArray(data) ? data[0] : data;
+      if (error || !row) {
+        if (error) console.error('Error counting rate limit hit:', error);
+        return { count: 0, resetAt: Date.now() + windowMs };
+      }
+      return { count: row.hits, resetAt: new Date(row.resets_at).getTime() };
+    },
+  };
+}
+
+let memoryStore: RateLimitStore | null = null;
+
+export function rateLimitStore(
+  supabase: SupabaseClient,
+  env: Record<string, string | undefined> = process.env
+): RateLimitStore {
+  const kind = env.RATE_LIMIT_STORE?.trim().toLowerCase() || (env.NODE_ENV === 'production' ? 'postgres' : 'memory');
+  if (kind === 'postgres') return postgresRateLimitStore(supabase);
+  memoryStore ??= memoryRateLimitStore();
+  return memoryStore;
+}
+
+function perMinute(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value?.trim() && Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+}
+
+export function rateLimits(env: Record<string, string | undefined> = process.env) {
+  return {
+    ip: perMinute(env.IP_RATE_LIMIT_PER_MINUTE, DEFAULT_LIMITS.ip),
+    capture: perMinute(env.CAPTURE_RATE_LIMIT_PER_MINUTE, DEFAULT_LIMITS.capture),
+    mcp: perMinute(env.MCP_RATE_LIMIT_PER_MINUTE, DEFAULT_LIMITS.mcp),
+    linkPreview: perMinute(env.LINK_PREVIEW_FETCHES_PER_MINUTE, DEFAULT_LIMITS.linkPreview),
+  };
+}
+
+/** Counts a hit against every rule (a limit of 0 is skipped) and reports the longest wait. */
+export async function checkRateLimits(store: RateLimitStore, rules: RateLimitRule[]): Promise<RateLimitResult> {
+  let retryAfterMs = 0;
+  for (const rule of rules) {
+    if (rule.limit <= 0) continue;
+    const { count, resetAt } = await store.hit(rule.key, rule.windowMs);
+    if (count > rule.limit) retryAfterMs = Math.max(retryAfterMs, resetAt - Date.now());
+  }
+  return retryAfterMs > 0 ? { ok: false, retryAfterSeconds: Math.max(1, Math.ceil(retryAfterMs / 1000)) } : { ok: true };
+}
+
+/**
+ * The caller's address, read only from headers a trusted proxy controls —
+ * anything else the client can set per request. RATE_LIMIT_TRUSTED_PROXY is
+ * `netlify` (x-nf-client-connection-ip; the default when NETLIFY is set) or
+ * the number of proxies in front of the app that append to X-Forwarded-For
+ * (the client is that many hops from the right). Null when nothing is trusted.
+ */
+export function clientIp(req: Request, env: Record<string, string | undefined> = process.env): string | null {
+  const trusted = env.RATE_LIMIT_TRUSTED_PROXY?.trim().toLowerCase() || (env.NETLIFY === 'true' ? 'netlify' : '');
+  if (trusted === 'netlify') return req.headers.get('x-nf-client-connection-ip')?.trim() || null;
+
+  const hops = Number(trusted);
+  if (!Number.isInteger(hops) || hops <= 0) return null;
+  const forwarded = (req.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((ip) => ip.trim())
+    .filter(Boolean);
+  return forwarded[forwarded.length - hops] ?? null;
+}
+
+/** Limit for a route before the token is looked at; callers without a trusted IP share one bucket. */
+export function limitByIp(
+  supabase: SupabaseClient,
+  req: Request,
+  route: 'capture' | 'mcp'
+): Promise<RateLimitResult> {
+  const ip = clientIp(req) ?? 'unknown';
+  return checkRateLimits(rateLimitStore(supabase), [
+    { key: `ip:${route}:${ip}`, limit: rateLimits().ip, windowMs: MINUTE_MS },
+  ]);
+}
+
+/** Limit for a route once the request is authenticated; `tokenId` is ApiAuth's. */
+export function limitByToken(
+  supabase: SupabaseClient,
+  route: 'capture' | 'mcp',
+  tokenId: string
+): Promise<RateLimitResult> {
+  return checkRateLimits(rateLimitStore(supabase), [
+    { key: `token:${route}:${tokenId}`, limit: rateLimits()[route], windowMs: MINUTE_MS },
+  ]);
+}
+
+/** Takes one of this minute's link-preview fetches; false means skip the preview for now. */
+export async function takeLinkPreviewSlot(supabase: SupabaseClient): Promise<boolean> {
+  const result = await checkRateLimits(rateLimitStore(supabase), [
+    { key: 'link-preview', limit: rateLimits().linkPreview, windowMs: MINUTE_MS },
+  ]);
+  return result.ok;
+}
@@ -0,0 +1,25 @@
+/**
+ * Recently opened cards, most recent first. Kept in localStorage under
+ * `recentProjects`, the same list the dashboard widgets write to.
+ */
+const RECENT_PROJECTS_KEY = 'recentProjects';
+const MAX_RECENT_PROJECTS = 10;
+
+export function getRecentProjectIds(): string[] {
+  try {
+    const recent = localStorage.getItem(RECENT_PROJECTS_KEY);
+    const parsed: unknown = recent ? JSON.parse(recent) : [];
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function trackRecentProject(projectId: string) {
+  try {
+    const updated = [projectId, ...getRecentProjectIds().filter((id) => id !== projectId)].slice(0, MAX_RECENT_PROJECTS);
+    localStorage.setItem(RECENT_PROJECTS_KEY, JSON.stringify(updated));
+  } catch (error) {
+    console.error('Failed to track recent project:', error);
+  }
+}
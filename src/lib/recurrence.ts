@@ -0,0 +1,77 @@
+/**
+ * Recurrence rules for repeating tasks, stored as JSON on `projects.recurrence`.
+ * Completing a recurring card creates the next occurrence in the first lane;
+ * the rule moves onto the new card so the chain continues from there.
+ */
+import { addDays, addWeeks, differenceInCalendarDays } from 'date-fns';
+import { parseProjectDate, toProjectDateString } from './project-dates';
+
+export type RecurrenceUnit = 'day' | 'week';
+
+export type RecurrenceRule =
+  /** On a fixed schedule counted from the previous due date. */
+  | { type: 'interval'; every: number; unit: RecurrenceUnit }
+  /** Counted from the day the previous occurrence was finished. */
+  | { type: 'after-completion'; days: number };
+
+const MAX_INTERVAL = 365;
+
+function isCount(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_INTERVAL;
+}
+
+/** Returns null for anything malformed; safe on whatever is stored in the jsonb column. */
+export function parseRecurrence(raw: unknown): RecurrenceRule | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  if (r.type === 'interval' && isCount(r.every) && (r.unit === 'day' || r.unit === 'week')) {
+    return { type: 'interval', every: r.every, unit: r.unit };
+  }
+  if (r.type === 'after-completion' && isCount(r.days)) {
+    return { type: 'after-completion', days: r.days };
+  }
+  return null;
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  if (rule.type === 'after-completion') {
+    return rule.days === 1 ? '1 day after done' : `${rule.days} days after done`;
+  }
+  if (rule.every === 1) return rule.unit === 'day' ? 'Daily' : 'Weekly';
+  return `Every ${rule.every} ${rule.unit}s`;
+}
+
+/**
+ * Start/due dates for the next occurrence. Interval rules step from the old
+ * due date (or the completion day when there was none) until they land after
+ * today, so a late finish doesn't create an already-overdue card. A start date
+ * keeps its distance to the due date.
+ */
+export function nextOccurrenceDates(
+  rule: RecurrenceRule,
+  previous: { startDate?: string | null; dueDate?: string | null },
+  completedOn: Date = new Date()
+): { startDate: string | null; dueDate: string } {
+  const previousDue = parseProjectDate(previous.dueDate);
+  let due: Date;
+  if (rule.type === 'after-completion') {
+    due = addDays(completedOn, rule.days);
+  } else {
+    const step = (d: Date) => (rule.unit === 'day' ? addDays(d, rule.every) : addWeeks(d, rule.every));
+    due = step(previousDue ?? completedOn);
+    while (differenceInCalendarDays(due, completedOn) <= 0) due = step(due);
+  }
+
+  const previousStart = parseProjectDate(previous.startDate);
+  const lead = previousStart && previousDue ? differenceInCalendarDays(previousDue, previousStart) : null;
+  return {
+    startDate: lead !== null ? toProjectDateString(addDays(due, -lead)) : null,
+    dueDate: toProjectDateString(due),
+  };
+}
+
+/** Unchecks every TipTap task item so the next occurrence starts fresh. */
+export function resetChecklist(html: string | null | undefined): string | null {
+  if (!html) return html ?? null;
+  return html.replace(/data-checked="true"/g, 'data-checked="false"');
+}
@@ -0,0 +1,71 @@
+/**
+ * Creates the next occurrence of newly completed recurring cards (see
+ * lib/recurrence). Every completion path calls this: board moves, the
+ * completion toggle, `mark-completed` lane rules and MCP.
+ *
+ * Uses relative imports only — bundled into the stdio MCP server as well.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import { nextLanePosition } from './lane-positions';
+import { recordProjectEvents, type ProjectEventOrigin } from './project-events';
+import { nextOccurrenceDates, parseRecurrence, resetChecklist } from './recurrence';
+
+/**
+ * Creates the next occurrence of each newly completed recurring card at the
+ * end of the first lane and hands the rule over to it, so re-completing the
+ * old card never spawns a second copy.
+ */
+export async function spawnRecurringOccurrences(
+  supabase: SupabaseClient,
+  projectIds: string[],
+  origin: ProjectEventOrigin
+): Promise<void> {
+  if (projectIds.length === 0) return;
+  const { data: rows } = await supabase
+    .from('projects')
+    .select('id, title, description, rich_content, image_url, tags, parent_project_id, parent_id, child_position, is_task, start_date, due_date, recurrence')
+    .in('id', projectIds);
+  const recurring = (rows ?? []).filter((row) => parseRecurrence(row.recurrence));
+  if (recurring.length === 0) return;
+
+  const { data: columns } = await supabase
+    .from('columns')
+    .select('id')
+    .is('deleted_at', null)
+    .order('order', { ascending: true })
+    .limit(1);
+  const firstColumn = columns?.[0];
+  if (!firstColumn) return;
+
+  for (const row of recurring) {
+    const rule = parseRecurrence(row.recurrence)!;
+    const dates = nextOccurrenceDates(rule, { startDate: row.start_date, dueDate: row.due_date });
+    const position = await nextLanePosition(supabase, firstColumn.id);
+    const id = uuidv4();
+    const { error } = await supabase.from('projects').insert({
+      id,
+      title: row.title,
+      description: row.description,
+      rich_content: resetChecklist(row.rich_content),
+      image_url: row.image_url,
+      tags: row.tags,
+      parent_project_id: row.parent_project_id,
+      parent_id: row.parent_id,
+      child_position: row.child_position,
+      is_task: row.is_task,
+      status: firstColumn.id,
+      position,
+      start_date: dates.startDate,
+      due_date: dates.dueDate,
+      recurrence: rule,
+    });
+    if (error) {
+      console.error('Error creating next occurrence:', error);
+      continue;
+    }
+    await recordProjectEvents(supabase, id, [{ kind: 'created', changes: {} }], origin);
+    const { error: clearError } = await supabase.from('projects').update({ recurrence: null }).eq('id', row.id);
+    if (clearError) console.error('Error handing recurrence to next occurrence:', clearError);
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Horizontal swimlanes on the Kanban view. Each card sits in exactly one
+ * swimlane: its project group, whether it carries one chosen tag, or whether
+ * it's pinned. Dropping a card into another swimlane changes that field.
+ *
+ * The board stores the choice as a string (see `swimlaneValue`) in
+ * localStorage, so it's per device like hidden columns.
+ */
+
+export type SwimlaneSetting =
+  | { mode: 'group' }
+  | { mode: 'pinned' }
+  | { mode: 'tag'; tag: string };
+
+export type Swimlane = {
+  key: string;
+  label: string;
+  color?: string;
+  emoji?: string;
+};
+
+/** What dropping a card into a swimlane changes on it. */
+export type SwimlaneChange =
+  | { kind: 'group'; groupId: string | null }
+  | { kind: 'tag'; tag: string; add: boolean }
+  | { kind: 'pinned'; pinned: boolean };
+
+/** The card fields a swimlane is derived from. */
+export type SwimlaneFields = {
+  parentProjectId?: string | null;
+  tags: string[] | null;
+  pinned?: boolean;
+};
+
+const NO_GROUP = 'no-group';
+const TAGGED = 'tagged';
+const UNTAGGED = 'untagged';
+const PINNED = 'pinned';
+const UNPINNED = 'unpinned';
+
+const CELL_PREFIX = 'swimlane:';
+const CELL_SEPARATOR = '::';
+
+export const NO_SWIMLANES = 'none';
+
+export function swimlaneValue(setting: SwimlaneSetting | null): string {
+  if (!setting) return NO_SWIMLANES;
+  return setting.mode === 'tag' ? `tag:${setting.tag}` : setting.mode;
+}
+
+export function parseSwimlaneSetting(value: string | null | undefined): SwimlaneSetting | null {
+  if (value === 'group' || value === 'pinned') return { mode: value };
+  if (value?.startsWith('tag:') && value.length > 4) return { mode: 'tag', tag: value.slice(4) };
+  return null;
+}
+
+export function swimlaneKeyOf(setting: SwimlaneSetting, card: SwimlaneFields): string {
+  switch (setting.mode) {
+    case 'group':
+      return card.parentProjectId || NO_GROUP;
+    case 'tag':
+      return card.tags?.includes(setting.tag) ? TAGGED : UNTAGGED;
+    case 'pinned':
+      return card.pinned ? PINNED : UNPINNED;
+  }
+}
+
+/** Swimlanes top to bottom; the "none of these" lane comes last. */
+export function buildSwimlanes(
+  setting: SwimlaneSetting,
+  groups: Array<{ id: string; name: string; color: string; emoji?: string }>
+): Swimlane[] {
+  switch (setting.mode) {
+    case 'group':
+      return [
+        ...groups.map((g) => ({ key: g.id, label: g.name, color: g.color, emoji: g.emoji })),
+        { key: NO_GROUP, label: 'No group' },
+      ];
+    case 'tag':
+      return [
+        { key: TAGGED, label: setting.tag },
+        { key: UNTAGGED, label: `Without ${setting.tag}` },
+      ];
+    case 'pinned':
+      return [
+        { key: PINNED, label: 'Pinned' },
+        { key: UNPINNED, label: 'Not pinned' },
+      ];
+  }
+}
+
+export function swimlaneChange(setting: SwimlaneSetting, key: string): SwimlaneChange {
+  switch (setting.mode) {
+    case 'group':
+      return { kind: 'group', groupId: key === NO_GROUP ? null : key };
+    case 'tag':
+      return { kind: 'tag', tag: setting.tag, add: key === TAGGED };
+    case 'pinned':
+      return { kind: 'pinned', pinned: key === PINNED };
+  }
+}
+
+/** The card as it would look in swimlane `key` (for optimistic updates). */
+export function moveToSwimlane<T extends SwimlaneFields>(setting: SwimlaneSetting, card: T, key: string): T {
+  if (swimlaneKeyOf(setting, card) === key) return card;
+  const change = swimlaneChange(setting, key);
+  switch (change.kind) {
+    case 'group':
+      return { ...card, parentProjectId: change.groupId };
+    case 'tag': {
+      const tags = (card.tags ?? []).filter((t) => t !== change.tag);
+      return { ...card, tags: change.add ? [...tags, change.tag] : tags };
+    }
+    case 'pinned':
+      return { ...card, pinned: change.pinned };
+  }
+}
+
+/** Droppable id for one swimlane × column cell. */
+export function swimlaneCellId(key: string, columnId: string): string {
+  return `${CELL_PREFIX}${key}${CELL_SEPARATOR}${columnId}`;
+}
+
+export function parseSwimlaneCellId(id: string): { key: string; columnId: string } | null {
+  if (!id.startsWith(CELL_PREFIX)) return null;
+  const rest = id.slice(CELL_PREFIX.length);
+  const split = rest.lastIndexOf(CELL_SEPARATOR);
+  if (split <= 0) return null;
+  return { key: rest.slice(0, split), columnId: rest.slice(split + CELL_SEPARATOR.length) };
+}
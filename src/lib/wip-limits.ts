@@ -0,0 +1,78 @@
+/**
+ * Optional work-in-progress limits per column. `columns.wip_limit` caps how
+ * many cards a lane should hold; `columns.wip_enforcement` decides whether a
+ * move into a full lane is refused ('block') or allowed and flagged ('warn').
+ *
+ * Uses relative imports only — bundled into the stdio MCP server as well.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type WipEnforcement = 'warn' | 'block';
+
+export function isWipEnforcement(value: unknown): value is WipEnforcement {
+  return value === 'warn' || value === 'block';
+}
+
+/** A limit of null (or anything below 1) means the lane is unlimited. */
+export function normalizeWipLimit(value: unknown): number | null {
+  const limit = Number(value);
+  return value !== null && value !== '' && Number.isInteger(limit) && limit >= 1 ? limit : null;
+}
+
+export function isOverWipLimit(count: number, limit: number | null | undefined): boolean {
+  return typeof limit === 'number' && limit >= 1 && count > limit;
+}
+
+export type WipLimitCheck = {
+  columnTitle: string;
+  limit: number;
+  /** Cards in the lane once the move lands. */
+  count: number;
+  blocked: boolean;
+};
+
+export function wipLimitMessage(check: WipLimitCheck): string {
+  return `"${check.columnTitle}" is over its WIP limit (${check.count}/${check.limit})`;
+}
+
+/**
+ * Checks whether `incoming` more cards fit in a lane. Returns null when the
+ * lane has no limit or still has room, otherwise how full it would be and
+ * whether the lane refuses the move.
+ */
+export async function checkWipLimit(
+  supabase: SupabaseClient,
+  columnId: string,
+  incoming = 1
+): Promise<WipLimitCheck | null> {
+  if (incoming <= 0) return null;
+
+  const { data: column } = await supabase
+    .from('columns')
+    .select('title, wip_limit, wip_enforcement')
+    .eq('id', columnId)
+    .maybeSingle();
+  const limit = normalizeWipLimit(column?.wip_limit);
+  if (!column || limit === null) return null;
+
+  const { count, error } = await supabase
+    .from('projects')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', columnId)
+    .or('is_idea.is.null,is_idea.eq.false')
+    .is('deleted_at', null)
+    .is('archived_at', null);
+  if (error) {
+    console.error('Error counting column cards:', error);
+    return null;
+  }
+
+  const next = (count ?? 0) + incoming;
+  if (!isOverWipLimit(next, limit)) return null;
+  return {
+    columnTitle: column.title as string,
+    limit,
+    count: next,
+    blocked: column.wip_enforcement === 'block',
+  };
+}